@@ -3,23 +3,87 @@
  * @brief Web Audio APIのラッパークラス
  * @details
  * - 音声コンテキストの管理
- * - マスターボリュームの制御
+ * - マスターボリュームの制御（滑らかな変化と、音声コンテキストの時刻を指定した変化の予約）
  * - サンプルの再生管理
  * - エラー処理の統一
- * - サンプルの再生タイミング制御
+ * - サンプルの再生タイミング制御（ミリ秒単位の前後のオフセット）
  * - 再生終了イベントの通知
- * - エフェクトチェーン
- * - サンプルのピッチ制御
+ * - エフェクトチェーン（フィルター → イコライザー → ディストーション → ディレイ → リバーブ、マスターはさらに → コンプレッサー → リミッター）
+ * - サンプルのピッチ制御（再生速度を変えるモードと、時間伸縮で長さを保つモード）
+ * - サンプルの音量エンベロープ（ADSR）
+ * - サンプルの再生範囲（トリム）
+ * - サンプルのリバース再生
  * - エフェクトの種類と値をEffectsManagerに渡す 
+ * - レジストリに登録したエフェクトの実行中の追加（組み込みのエフェクトの後、マスターはコンプレッサーの手前に接続）
+ * - エフェクトチェーン上でのエフェクトのバイパス
+ * - 全チャンネルのエフェクトの状態（値、設定、接続順、バイパス）の取得と復元
+ * - チャンネル構成、再生設定、エフェクトの状態の取得と復元（プロジェクトの保存と読み込みで使用）
+ * - OfflineAudioContextによるミックスダウンのレンダリング
+ * - チャンネルの動的な追加・削除
+ * - 各チャンネル（エフェクト後）とマスター（マスターゲイン後）の信号レベルの計測
  */
 
-import { EffectChain } from '@/effects/EffectChain'
-import { EffectsManager } from './EffectsManager'
-import { PlaybackSettingManager } from './PlaybackSettingManager'
-import { PITCH_MIN_RATE, PITCH_MAX_RATE, TIMING_MAX_DELAY_SECONDS, ChannelId } from './audioConstants'
+import { EffectChain, EffectChainState } from '@/effects/EffectChain'
+import { EffectsManager, EffectsManagerState, EffectType } from './EffectsManager'
+import { PlaybackSettingManager, PlaybackSettingsState, semitonesToRate } from './PlaybackSettingManager'
+import { LevelMeter, MeterLevel } from './LevelMeter'
+import { TimeStretcher } from './TimeStretcher'
+import { ParameterRampOptions, scheduleParameterRamp, validateParameterRamp } from './ParameterRamp'
+import {
+  ENVELOPE_MAX_ATTACK_SECONDS,
+  ENVELOPE_MAX_DECAY_SECONDS,
+  ENVELOPE_MAX_RELEASE_SECONDS,
+  RENDER_TAIL_SECONDS,
+  RENDER_CHANNEL_COUNT,
+  STRETCH_MAX_FACTOR,
+  MAX_CHANNELS,
+  MASTER_CHANNEL_ID,
+  ChannelId
+} from './audioConstants'
 // BaseEffectはFilterが継承してるため、インポートが必須だが、ESLintのエラーが出るため無視する文
 /* eslint-disable-next-line @typescript-eslint/no-unused-vars */
-import { BaseEffect } from '@/effects/base/BaseEffect'
+import { BaseEffect, EFFECT_STATE_VERSION, validateEffectStateVersion } from '@/effects/base/BaseEffect'
+
+/**
+ * エフェクトチェーンに接続するエフェクトの順序
+ * （フィルターとイコライザーで整えた音を歪ませ、ディレイで繰り返し、ディレイの繰り返しにもリバーブを掛ける）
+ */
+const EFFECT_CHAIN_ORDER: readonly EffectType[] = ['filter', 'equalizer', 'distortion', 'delay', 'reverb'];
+
+/**
+ * マスターのエフェクトチェーンに接続するエフェクトの順序
+ * （最後にリミッターを通して、マスターゲインの手前でクリップを防ぐ）
+ */
+const MASTER_EFFECT_CHAIN_ORDER: readonly EffectType[] = [...EFFECT_CHAIN_ORDER, 'compressor', 'limiter'];
+
+/**
+ * AudioEngineのエフェクトの状態（JSONに変換できる形式）
+ * - version: 状態の形式のバージョン
+ * - effects: マスターを含む全チャンネルのエフェクトの値と設定
+ * - chains: マスターを含む各チャンネルのエフェクトチェーンの接続順とバイパス
+ */
+export interface AudioEngineEffectState {
+  version: number;
+  effects: EffectsManagerState;
+  chains: { channelId: ChannelId; chain: EffectChainState }[];
+}
+
+/**
+ * AudioEngineの状態の形式のバージョン（形式を変更した場合に上げる）
+ */
+export const ENGINE_STATE_VERSION = 1;
+
+/**
+ * AudioEngineの状態（JSONに変換できる形式）
+ * - version: 状態の形式のバージョン
+ * - playback: チャンネル構成とマスターを含む再生設定
+ * - effects: マスターを含む全チャンネルのエフェクトの状態
+ */
+export interface AudioEngineState {
+  version: number;
+  playback: PlaybackSettingsState;
+  effects: AudioEngineEffectState;
+}
 
 export class AudioEngine {
   // 基本プロパティ
@@ -33,6 +97,9 @@ export class AudioEngine {
 
   // サンプル関連のプロパティ
   private sampleBuffers: Map<ChannelId, AudioBuffer> = new Map();
+  private reversedBuffers: Map<ChannelId, AudioBuffer> = new Map();  // リバース再生用に反転したサンプル
+  // 長さを保ったピッチ変更用に時間伸縮したサンプル（ピッチとリバースの設定が変わるまで使い回す）
+  private stretchedBuffers: Map<ChannelId, { rate: number; reverse: boolean; buffer: AudioBuffer }> = new Map();
   private sampleSources: Map<ChannelId, AudioBufferSourceNode> = new Map();
   private sampleGains: Map<ChannelId, GainNode> = new Map();
   private sampleStartTimes: Map<ChannelId, number> = new Map();
@@ -40,10 +107,14 @@ export class AudioEngine {
   private samplePitches: Map<number, number> = new Map();
 
   // エフェクト関連のプロパティ
-  private effectChains: EffectChain[] = [];
+  private effectChains: Map<ChannelId, EffectChain> = new Map();
   private effectsManager: EffectsManager;
   private playbackSettingsManager: PlaybackSettingManager;
 
+  // メーター関連のプロパティ
+  private channelMeters: Map<ChannelId, LevelMeter> = new Map();
+  private masterMeter!: LevelMeter;  // 初期化はinitMasterGainで行うので、!を使用
+
   // ===== 初期化・破棄関連 =====
 
   /**
@@ -115,37 +186,27 @@ export class AudioEngine {
         throw new Error(`チャンネル ${channelId} が見つかりません`);
       }
   
-      let effectChainIndex: number;
-  
-      if (channelId === 1) {
-        effectChainIndex = 1; // チャンネル1はインデックス 1
-      } else if (channelId === 2) {
-        effectChainIndex = 2; // チャンネル2はインデックス 2
-      } else if (channelId === 3) {
-        effectChainIndex = 3; // チャンネル3はインデックス 3
-      } else {
-        console.warn(`不明な channelId: ${channelId}`);
-        return;
+      const effectChain = this.effectChains.get(channelId);
+      if (channelId === MASTER_CHANNEL_ID || !effectChain) {
+        throw new Error(`エフェクトチェーン ${channelId} が見つかりません`);
       }
-  
-      if (!this.effectChains[effectChainIndex]) {
-        throw new Error(`エフェクトチェーン ${effectChainIndex} が見つかりません`);
-      }
-      if (!this.effectChains[0]) {
+      const masterEffectChain = this.effectChains.get(MASTER_CHANNEL_ID);
+      if (!masterEffectChain) {
         throw new Error('マスターエフェクトチェーンが見つかりません');
       }
   
       // サンプルの出力を対応するEffectChainに接続
       sampleGain.disconnect();
-      sampleGain.connect(this.effectChains[effectChainIndex].getInput());
+      sampleGain.connect(effectChain.getInput());
   
-      // EffectChainの出力をマスターのEffectChainに接続
-      this.effectChains[effectChainIndex].getOutput().disconnect();
-      this.effectChains[effectChainIndex].getOutput().connect(this.effectChains[0].getInput());
+      // EffectChainの出力をマスターのEffectChainとチャンネルのメーターに接続
+      effectChain.getOutput().disconnect();
+      effectChain.getOutput().connect(masterEffectChain.getInput());
+      this.connectChannelMeter(channelId);
   
       // マスターエフェクトチェーンの出力をマスターゲインに接続
-      this.effectChains[0].getOutput().disconnect();
-      this.effectChains[0].getOutput().connect(this.masterGain);
+      masterEffectChain.getOutput().disconnect();
+      masterEffectChain.getOutput().connect(this.masterGain);
   
     } catch (error) {
       throw new Error(`チャンネル ${channelId} の接続に失敗しました: ${(error as Error).message}`);
@@ -163,6 +224,9 @@ export class AudioEngine {
       this.masterGain.gain.value = this.playbackSettingsManager.getSetting(0, 'volume');
       // マスターゲインを出力に接続
       this.masterGain.connect(this.context.destination);
+      // マスターゲインの出力をメーターに分岐
+      this.masterMeter = new LevelMeter(this.context);
+      this.masterGain.connect(this.masterMeter.getInput());
     } catch (error) {
       throw new Error(`マスターゲインの初期化に失敗しました: ${(error as Error).message}`);
     }
@@ -178,47 +242,206 @@ export class AudioEngine {
     }
   
     try {
-      // マスター用エフェクトチェーン
-      const masterEffectChain = new EffectChain(this.context);
-      const masterFilter = this.effectsManager.getEffect(0, 'filter');
-      if (masterFilter) {
-        masterEffectChain.addEffect(masterFilter);
-      }
-      this.effectChains[0] = masterEffectChain;
-  
-      // チャンネル1用エフェクトチェーン
-      const channel1EffectChain = new EffectChain(this.context);
-      const channel1Filter = this.effectsManager.getEffect(1, 'filter');
-      if (channel1Filter) {
-        channel1EffectChain.addEffect(channel1Filter);
-      }
-      this.effectChains[1] = channel1EffectChain;
-  
-      // チャンネル2用エフェクトチェーン
-      const channel2EffectChain = new EffectChain(this.context);
-      const channel2Filter = this.effectsManager.getEffect(2, 'filter');
-      if (channel2Filter) {
-        channel2EffectChain.addEffect(channel2Filter);
-      }
-      this.effectChains[2] = channel2EffectChain;
-  
-      // チャンネル3用エフェクトチェーン
-      const channel3EffectChain = new EffectChain(this.context);
-      const channel3Filter = this.effectsManager.getEffect(3, 'filter');
-      if (channel3Filter) {
-        channel3EffectChain.addEffect(channel3Filter);
-      }
-      this.effectChains[3] = channel3EffectChain;
+      this.effectChains = this.createEffectChains(this.context, this.effectsManager);
+      this.getChannelIds().forEach(channelId => this.connectChannelMeter(channelId));
   
       // マスターのEffectChainの出力をマスターゲインに接続
-      if (this.effectChains[0] && this.masterGain) {
-        this.effectChains[0].getOutput().connect(this.masterGain);
+      const masterEffectChain = this.effectChains.get(MASTER_CHANNEL_ID);
+      if (masterEffectChain && this.masterGain) {
+        masterEffectChain.getOutput().connect(this.masterGain);
       }
     } catch (error) {
       throw new Error(`エフェクトチェーンの初期化に失敗しました: ${(error as Error).message}`);
     }
   }
 
+  /**
+   * マスターと各チャンネルのエフェクトチェーンを作成
+   * 再生用とオフラインレンダリング用で同じ構成のチェーンを作るために共通化している
+   * @param {BaseAudioContext} context - チェーンを作成する音声コンテキスト
+   * @param {EffectsManager} effectsManager - チェーンに追加するエフェクトを持つマネージャー
+   * @returns {Map<ChannelId, EffectChain>} マスターと各チャンネルのエフェクトチェーン
+   */
+  private createEffectChains(context: BaseAudioContext, effectsManager: EffectsManager): Map<ChannelId, EffectChain> {
+    const effectChains = new Map<ChannelId, EffectChain>();
+    effectsManager.getChannelIds().forEach(channelId => {
+      effectChains.set(channelId, this.createEffectChain(context, effectsManager, channelId));
+    });
+    return effectChains;
+  }
+
+  /**
+   * 1チャンネル分のエフェクトチェーンを作成
+   * @param {BaseAudioContext} context - チェーンを作成する音声コンテキスト
+   * @param {EffectsManager} effectsManager - チェーンに追加するエフェクトを持つマネージャー
+   * @param {ChannelId} channelId - チャンネルID
+   * @returns {EffectChain} エフェクトチェーン
+   */
+  private createEffectChain(context: BaseAudioContext, effectsManager: EffectsManager, channelId: ChannelId): EffectChain {
+    const effectChain = new EffectChain(context);
+    this.getEffectChainOrder(effectsManager, channelId).forEach(effectType => {
+      effectChain.addEffect(effectsManager.getEffect(channelId, effectType), effectType);
+    });
+    return effectChain;
+  }
+
+  /**
+   * チャンネルのエフェクトをチェーンに接続する順序を取得
+   * 組み込みのエフェクトはEFFECT_CHAIN_ORDERの順に並べ、実行中に追加したエフェクトはその後ろ（マスターはコンプレッサーとリミッターの手前）に追加した順で並べる
+   * @param {EffectsManager} effectsManager - エフェクトを持つマネージャー
+   * @param {ChannelId} channelId - チャンネルID
+   * @returns {EffectType[]} エフェクトタイプの配列
+   */
+  private getEffectChainOrder(effectsManager: EffectsManager, channelId: ChannelId): EffectType[] {
+    const effectTypes = effectsManager.getEffectTypes(channelId);
+    const addedTypes = effectTypes.filter(effectType => !MASTER_EFFECT_CHAIN_ORDER.includes(effectType));
+    const chainOrder = channelId === MASTER_CHANNEL_ID ? MASTER_EFFECT_CHAIN_ORDER : EFFECT_CHAIN_ORDER;
+    const builtinTypes = chainOrder.filter(effectType => effectTypes.includes(effectType));
+    const insertIndex = builtinTypes.filter(effectType => EFFECT_CHAIN_ORDER.includes(effectType)).length;
+    return [...builtinTypes.slice(0, insertIndex), ...addedTypes, ...builtinTypes.slice(insertIndex)];
+  }
+
+  /**
+   * レジストリに登録されている種類のエフェクトをチャンネルに追加し、エフェクトチェーンに接続
+   * @param {ChannelId} channelId - チャンネルID（マスターを含む）
+   * @param {EffectType} effectType - エフェクトタイプ
+   * @throws {Error} 初期化されていない場合、チャンネルが存在しない場合、または追加に失敗した場合
+   */
+  public addEffect(channelId: ChannelId, effectType: EffectType): void {
+    if (!this.isInitialized) {
+      throw new Error('AudioEngineが初期化されていません');
+    }
+    const effectChain = this.effectChains.get(channelId);
+    if (!effectChain) {
+      throw new Error(`チャンネル ${channelId} が見つかりません`);
+    }
+
+    try {
+      const effect = this.effectsManager.addEffect(channelId, effectType);
+      effectChain.addEffect(effect, effectType);
+      // チェーンの最後に追加したエフェクトを、接続する順序の位置に移動
+      const chainOrder = this.getEffectChainOrder(this.effectsManager, channelId);
+      const index = chainOrder.indexOf(effectType);
+      if (index !== chainOrder.length - 1) {
+        effectChain.reorderEffect(chainOrder.length - 1, index);
+      }
+    } catch (error) {
+      throw new Error(`エフェクトの追加に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * エフェクトをエフェクトチェーン上でバイパス
+   * @param {ChannelId} channelId - チャンネルID（マスターを含む）
+   * @param {EffectType} effectType - エフェクトタイプ
+   * @param {boolean} bypassed - trueの場合はバイパス、falseの場合は接続に戻す
+   * @throws {Error} 初期化されていない場合、チャンネルまたはエフェクトが存在しない場合
+   */
+  public setEffectBypassed(channelId: ChannelId, effectType: EffectType, bypassed: boolean): void {
+    this.getEffectChain(channelId).setEffectBypassed(effectType, bypassed);
+  }
+
+  /**
+   * エフェクトがエフェクトチェーン上でバイパスされているかどうかを取得
+   * @param {ChannelId} channelId - チャンネルID（マスターを含む）
+   * @param {EffectType} effectType - エフェクトタイプ
+   * @returns {boolean} バイパスされている場合はtrue
+   * @throws {Error} 初期化されていない場合、チャンネルまたはエフェクトが存在しない場合
+   */
+  public isEffectBypassed(channelId: ChannelId, effectType: EffectType): boolean {
+    return this.getEffectChain(channelId).isEffectBypassed(effectType);
+  }
+
+  /**
+   * マスターを含む全チャンネルのエフェクトの状態を取得
+   * @returns {AudioEngineEffectState} JSONに変換できるエフェクトの状態
+   * @throws {Error} 初期化されていない場合
+   */
+  public getEffectState(): AudioEngineEffectState {
+    if (!this.isInitialized) {
+      throw new Error('AudioEngineが初期化されていません');
+    }
+    return {
+      version: EFFECT_STATE_VERSION,
+      effects: this.effectsManager.getState(),
+      chains: [MASTER_CHANNEL_ID, ...this.getChannelIds()].map(channelId => ({
+        channelId,
+        chain: this.getEffectChain(channelId).getState()
+      }))
+    };
+  }
+
+  /**
+   * 保存したエフェクトの状態を復元
+   * 状態に含まれるエフェクトがない場合はチェーンに追加してから、値と設定、接続順とバイパスを反映する
+   * @param {AudioEngineEffectState} state - getEffectStateで取得した状態
+   * @throws {Error} 初期化されていない場合、状態のチャンネル構成が現在のチャンネルと一致しない場合、または復元に失敗した場合
+   */
+  public setEffectState(state: AudioEngineEffectState): void {
+    if (!this.isInitialized) {
+      throw new Error('AudioEngineが初期化されていません');
+    }
+    if (!state || !state.effects || !Array.isArray(state.effects.channels) || !Array.isArray(state.chains)) {
+      throw new Error('エフェクトの状態が指定されていません');
+    }
+    validateEffectStateVersion(state.version);
+    const channelIds = [MASTER_CHANNEL_ID, ...this.getChannelIds()];
+    const stateChannelIds = state.effects.channels.map(channel => channel.channelId);
+    if (stateChannelIds.length !== channelIds.length || !channelIds.every(channelId => stateChannelIds.includes(channelId))) {
+      throw new Error('エフェクトの状態のチャンネル構成が現在のチャンネルと一致しません');
+    }
+
+    try {
+      // 実行中に追加したエフェクトをチェーンに接続してから、値と設定を反映
+      state.effects.channels.forEach(channel => {
+        const effectTypes = this.effectsManager.getEffectTypes(channel.channelId);
+        channel.effects
+          .filter(({ type }) => !effectTypes.includes(type))
+          .forEach(({ type }) => this.addEffect(channel.channelId, type));
+      });
+      this.effectsManager.setState(state.effects);
+      state.chains.forEach(({ channelId, chain }) => this.getEffectChain(channelId).setState(chain));
+    } catch (error) {
+      throw new Error(`エフェクトの状態の復元に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * チャンネルのエフェクトチェーンを取得
+   * @param {ChannelId} channelId - チャンネルID（マスターを含む）
+   * @returns {EffectChain} エフェクトチェーン
+   * @throws {Error} 初期化されていない場合、またはチャンネルが存在しない場合
+   */
+  private getEffectChain(channelId: ChannelId): EffectChain {
+    if (!this.isInitialized) {
+      throw new Error('AudioEngineが初期化されていません');
+    }
+    const effectChain = this.effectChains.get(channelId);
+    if (!effectChain) {
+      throw new Error(`チャンネル ${channelId} が見つかりません`);
+    }
+    return effectChain;
+  }
+
+  /**
+   * チャンネルのエフェクトチェーンの出力をメーターに分岐
+   * メーターがない場合は作成する
+   * @param {ChannelId} channelId - チャンネルID
+   * @throws {Error} エフェクトチェーンが存在しない場合
+   */
+  private connectChannelMeter(channelId: ChannelId): void {
+    const effectChain = this.effectChains.get(channelId);
+    if (!effectChain) {
+      throw new Error(`エフェクトチェーン ${channelId} が見つかりません`);
+    }
+    let meter = this.channelMeters.get(channelId);
+    if (!meter) {
+      meter = new LevelMeter(this.context);
+      this.channelMeters.set(channelId, meter);
+    }
+    effectChain.getOutput().connect(meter.getInput());
+  }
+
   // ===== 破棄関連 =====
 
   /**
@@ -237,11 +460,16 @@ export class AudioEngine {
           chain.dispose();
         }
       });
-      this.effectChains = [];
+      this.effectChains.clear();
 
       // EffectsManagerの破棄
       this.effectsManager.dispose();
 
+      // メーターの破棄
+      this.channelMeters.forEach(meter => meter.dispose());
+      this.channelMeters.clear();
+      this.masterMeter.dispose();
+
       // 音声コンテキストを破棄する前に、すべての接続を切断
       this.masterGain.disconnect();
       
@@ -269,41 +497,274 @@ export class AudioEngine {
 
       // サンプルバッファをクリア
       this.sampleBuffers.clear();
+      this.reversedBuffers.clear();
+      this.stretchedBuffers.clear();
     } catch (error) {
       throw new Error(`AudioEngineの破棄に失敗しました: ${(error as Error).message}`);
     }
   }
 
+  // ===== チャンネル管理 =====
+
+  /**
+   * サンプルチャンネルを追加
+   * 再生設定、エフェクト、エフェクトチェーンを新しいチャンネル用に作成する
+   * @param {ChannelId} requestedId - 追加するチャンネルのID（省略時は既存の最大ID + 1、保存した状態の復元で使用）
+   * @returns {ChannelId} 追加したチャンネルのID
+   * @throws {Error} 初期化されていない場合、チャンネル数が上限に達している場合、IDが無効または使用済みの場合、または追加に失敗した場合
+   */
+  public addChannel(requestedId?: ChannelId): ChannelId {
+    if (!this.isInitialized) {
+      throw new Error('AudioEngineが初期化されていません');
+    }
+
+    const channelIds = this.getChannelIds();
+    if (channelIds.length >= MAX_CHANNELS) {
+      throw new Error(`チャンネル数が上限（${MAX_CHANNELS}）に達しています`);
+    }
+    if (requestedId !== undefined && (!Number.isInteger(requestedId) || requestedId <= MASTER_CHANNEL_ID)) {
+      throw new Error(`無効なチャンネルIDです: ${requestedId}`);
+    }
+    if (requestedId !== undefined && channelIds.includes(requestedId)) {
+      throw new Error(`チャンネル ${requestedId} は既に存在します`);
+    }
+    const channelId = requestedId ?? (channelIds.length > 0 ? Math.max(...channelIds) + 1 : 1);
+
+    try {
+      this.playbackSettingsManager.addChannel(channelId);
+      this.effectsManager.addChannel(channelId);
+      this.effectChains.set(channelId, this.createEffectChain(this.context, this.effectsManager, channelId));
+      this.connectChannelMeter(channelId);
+    } catch (error) {
+      throw new Error(`チャンネルの追加に失敗しました: ${(error as Error).message}`);
+    }
+    return channelId;
+  }
+
+  /**
+   * サンプルチャンネルを削除
+   * 再生中の場合は停止し、サンプル、再生設定、エフェクト、エフェクトチェーンを破棄する
+   * @param {ChannelId} channelId - 削除するチャンネルID
+   * @throws {Error} 初期化されていない場合、またはチャンネルが存在しない場合
+   */
+  public removeChannel(channelId: ChannelId): void {
+    if (!this.isInitialized) {
+      throw new Error('AudioEngineが初期化されていません');
+    }
+    const effectChain = this.effectChains.get(channelId);
+    if (channelId === MASTER_CHANNEL_ID || !effectChain) {
+      throw new Error(`チャンネル ${channelId} が見つかりません`);
+    }
+
+    try {
+      const source = this.sampleSources.get(channelId);
+      if (source) {
+        try {
+          source.stop();
+          source.disconnect();
+        } catch (error) {
+          // 既に停止している場合は無視
+        }
+        this.sampleSources.delete(channelId);
+        this.sampleStartTimes.delete(channelId);
+      }
+
+      this.sampleGains.get(channelId)?.disconnect();
+      this.sampleGains.delete(channelId);
+      this.sampleBuffers.delete(channelId);
+      this.reversedBuffers.delete(channelId);
+      this.stretchedBuffers.delete(channelId);
+
+      this.channelMeters.get(channelId)?.dispose();
+      this.channelMeters.delete(channelId);
+
+      effectChain.dispose();
+      this.effectChains.delete(channelId);
+      this.effectsManager.removeChannel(channelId);
+      this.playbackSettingsManager.removeChannel(channelId);
+    } catch (error) {
+      throw new Error(`チャンネル ${channelId} の削除に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * チャンネル構成、再生設定、エフェクトの状態を取得
+   * サンプルの音声データは含まない（サンプルの参照はプロジェクトのファイルで保存する）
+   * @returns {AudioEngineState} JSONに変換できる状態
+   * @throws {Error} 初期化されていない場合
+   */
+  public getState(): AudioEngineState {
+    return {
+      version: ENGINE_STATE_VERSION,
+      playback: this.playbackSettingsManager.getState(),
+      effects: this.getEffectState()
+    };
+  }
+
+  /**
+   * 保存した状態を復元
+   * 再生を停止し、チャンネル構成を状態に揃えてから、再生設定、マスターボリューム、エフェクトの状態を反映する。
+   * 再生設定は現在の状態を変更する前に検証し、途中で失敗した場合はチャンネル構成とサンプルを含めて元の状態に戻す
+   * @param {AudioEngineState} state - getStateで取得した状態
+   * @throws {Error} 初期化されていない場合、状態のバージョンやチャンネル構成が無効な場合、または復元に失敗した場合
+   */
+  public setState(state: AudioEngineState): void {
+    if (!this.isInitialized) {
+      throw new Error('AudioEngineが初期化されていません');
+    }
+    if (!state || !state.playback || !Array.isArray(state.playback.channels) || !state.effects) {
+      throw new Error('AudioEngineの状態が指定されていません');
+    }
+    if (!Number.isInteger(state.version) || state.version < 1) {
+      throw new Error(`無効な状態のバージョンです: ${state.version}`);
+    }
+    if (state.version > ENGINE_STATE_VERSION) {
+      throw new Error(`対応していない新しいバージョンの状態です: ${state.version}`);
+    }
+    const channelIds = state.playback.channels.map(channel => channel.channelId);
+    if (channelIds.length > MAX_CHANNELS) {
+      throw new Error(`チャンネル数が上限（${MAX_CHANNELS}）を超えています`);
+    }
+
+    const previousState = this.getState();
+    const previousSamples = new Map(this.sampleBuffers);
+    const previousReversed = new Map(this.reversedBuffers);
+    try {
+      new PlaybackSettingManager().setState(state.playback);
+      this.stopAll();
+      this.applyState(state, channelIds);
+    } catch (error) {
+      this.applyState(previousState, previousState.playback.channels.map(channel => channel.channelId));
+      // 削除して作り直したチャンネルにサンプルを戻す
+      previousSamples.forEach((buffer, channelId) => {
+        const reversed = previousReversed.get(channelId);
+        if (this.sampleBuffers.get(channelId) !== buffer && reversed) {
+          this.attachSample(channelId, buffer, reversed);
+        }
+      });
+      throw new Error(`状態の復元に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * チャンネル構成を揃えてから、再生設定、マスターボリューム、エフェクトの状態を反映
+   * @param {AudioEngineState} state - 反映する状態
+   * @param {ChannelId[]} channelIds - 状態のチャンネルIDの配列
+   * @throws {Error} 反映に失敗した場合
+   */
+  private applyState(state: AudioEngineState, channelIds: ChannelId[]): void {
+    // チャンネル構成を揃える（削除を先に行い、上限を超えないようにする）
+    this.getChannelIds()
+      .filter(channelId => !channelIds.includes(channelId))
+      .forEach(channelId => this.removeChannel(channelId));
+    const currentIds = this.getChannelIds();
+    channelIds
+      .filter(channelId => !currentIds.includes(channelId))
+      .forEach(channelId => this.addChannel(channelId));
+
+    this.playbackSettingsManager.setState(state.playback);
+    // 復元したマスターボリュームは変化させずに切り替える
+    this.updateMasterVolume(state.playback.masterVolume, { type: 'instant' });
+    this.setEffectState(state.effects);
+  }
+
+  /**
+   * サンプルチャンネルのID一覧を取得
+   * @returns {ChannelId[]} チャンネルIDの配列（マスターを含まない、昇順）
+   * @throws {Error} 初期化されていない場合
+   */
+  public getChannelIds(): ChannelId[] {
+    if (!this.isInitialized) {
+      throw new Error('AudioEngineが初期化されていません');
+    }
+    return Array.from(this.effectChains.keys())
+      .filter(channelId => channelId !== MASTER_CHANNEL_ID)
+      .sort((a, b) => a - b);
+  }
+
   // ===== サンプル管理 =====
 
   /**
    * サンプルを読み込み
    * @param {ChannelId} channelId - チャンネルID
    * @param {ArrayBuffer} audioData - 音声データ
-   * @throws {Error} 初期化されていない場合、または音声データのデコードに失敗した場合
+   * @param {number} [maxDurationSeconds] - サンプルの最大の長さ（秒、省略した場合は制限しない）
+   * @throws {Error} 初期化されていない場合、音声データのデコードに失敗した場合、サンプルが空か長すぎる場合、またはチャンネルが存在しない場合
+   */
+  public async loadSample(channelId: ChannelId, audioData: ArrayBuffer, maxDurationSeconds?: number): Promise<void> {
+    const buffer = await this.decodeSample(audioData, maxDurationSeconds);
+    this.setSample(channelId, buffer);
+  }
+
+  /**
+   * 音声データをデコードして検証（チャンネルには読み込まない）
+   * 複数のサンプルを読み込む場合に、全てのデコードに成功してから読み込むために使用する
+   * @param {ArrayBuffer} audioData - 音声データ
+   * @param {number} [maxDurationSeconds] - サンプルの最大の長さ（秒、省略した場合は制限しない）
+   * @returns {Promise<AudioBuffer>} デコードしたサンプル
+   * @throws {Error} 初期化されていない場合、音声データのデコードに失敗した場合（ファイルが壊れている場合や、ブラウザが対応していない形式の場合）、またはサンプルが空か長すぎる場合
    */
-  public async loadSample(channelId: ChannelId, audioData: ArrayBuffer): Promise<void> {
+  public async decodeSample(audioData: ArrayBuffer, maxDurationSeconds?: number): Promise<AudioBuffer> {
     if (!this.isInitialized) {
       throw new Error('AudioEngineが初期化されていません');
     }
+    let buffer: AudioBuffer;
     try {
-      const buffer = await this.context.decodeAudioData(audioData);
-      this.sampleBuffers.set(channelId, buffer);
+      buffer = await this.context.decodeAudioData(audioData);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`音声データのデコードに失敗しました（ファイルが壊れているか、対応していない形式です）: ${message}`);
+    }
+    if (buffer.length === 0 || buffer.duration === 0) {
+      throw new Error('サンプルに音声が含まれていません');
+    }
+    if (maxDurationSeconds !== undefined && buffer.duration > maxDurationSeconds) {
+      throw new Error(`サンプルが長すぎます: ${buffer.duration.toFixed(1)}秒（最大${maxDurationSeconds}秒）`);
+    }
+    return buffer;
+  }
 
-      // ゲインノードを作成
-      const gain = this.context.createGain();
-      this.sampleGains.set(channelId, gain);
+  /**
+   * デコードしたサンプルをチャンネルに読み込み
+   * @param {ChannelId} channelId - チャンネルID
+   * @param {AudioBuffer} buffer - decodeSampleでデコードしたサンプル
+   * @throws {Error} 初期化されていない場合、またはチャンネルが存在しない場合
+   */
+  public setSample(channelId: ChannelId, buffer: AudioBuffer): void {
+    if (!this.isInitialized) {
+      throw new Error('AudioEngineが初期化されていません');
+    }
+    if (channelId === MASTER_CHANNEL_ID || !this.effectChains.has(channelId)) {
+      throw new Error(`チャンネル ${channelId} が見つかりません`);
+    }
 
-      // サンプルをエフェクトチェーンに接続
-      this.connectSampleToEffectChain(channelId);
+    try {
+      this.attachSample(channelId, buffer, this.createReversedBuffer(buffer));
     } catch (error) {
-      if (error instanceof DOMException) {
-        throw new Error(`音声データのデコードに失敗しました: ${error.message}`);
-      }
       throw new Error(`チャンネル ${channelId} の読み込みに失敗しました: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * サンプルと逆再生用のサンプルをチャンネルに設定し、エフェクトチェーンに接続
+   * @param {ChannelId} channelId - チャンネルID
+   * @param {AudioBuffer} buffer - サンプル
+   * @param {AudioBuffer} reversed - 逆再生用のサンプル
+   */
+  private attachSample(channelId: ChannelId, buffer: AudioBuffer, reversed: AudioBuffer): void {
+    this.sampleBuffers.set(channelId, buffer);
+    this.reversedBuffers.set(channelId, reversed);
+    this.stretchedBuffers.delete(channelId);
+
+    // ゲインノードを作成（サンプルを差し替える場合は古いゲインノードを切断）
+    this.sampleGains.get(channelId)?.disconnect();
+    const gain = this.context.createGain();
+    this.sampleGains.set(channelId, gain);
+
+    // サンプルをエフェクトチェーンに接続
+    this.connectSampleToEffectChain(channelId);
+  }
+
   // ===== 再生の制御 =====
 
   /**
@@ -334,29 +795,14 @@ export class AudioEngine {
 
       // 各サンプルを再生
       channelIds.forEach(channelId => {
-        const buffer = this.sampleBuffers.get(channelId);
-        if (!buffer) {
-          throw new Error(`チャンネル ${channelId} が見つかりません`);
-        }
+        const buffer = this.getPlaybackBuffer(channelId);
 
         // 新しいソースを作成
         const source = this.context.createBufferSource();
         source.buffer = buffer;
 
         // ピッチの設定を取得して適用
-        const normalizedPitch = this.playbackSettingsManager.getSetting(channelId, 'pitch');
-        let playbackRate: number;
-        if (normalizedPitch < 0.5) {
-          // 0.0-0.5の範囲をPITCH_MIN_RATE-1.0の範囲に変換
-          playbackRate = PITCH_MIN_RATE + (normalizedPitch * 2 * (1.0 - PITCH_MIN_RATE));
-        } else if (normalizedPitch > 0.5) {
-          // 0.5-1.0の範囲を1.0-PITCH_MAX_RATEの範囲に変換
-          playbackRate = 1.0 + ((normalizedPitch - 0.5) * 2 * (PITCH_MAX_RATE - 1.0));
-        } else {
-          // 0.5の場合は1.0（通常速度）
-          playbackRate = 1.0;
-        }
-        source.playbackRate.value = playbackRate;
+        source.playbackRate.value = this.getPlaybackRate(channelId);
 
         // ゲインノードを取得
         const gain = this.sampleGains.get(channelId);
@@ -364,20 +810,18 @@ export class AudioEngine {
           throw new Error(`チャンネル ${channelId} のゲインノードが見つかりません`);
         }
 
-        // ボリュームの設定を取得して適用
-        const normalizedVolume = this.playbackSettingsManager.getSetting(channelId, 'volume');
-        gain.gain.value = normalizedVolume;
-
         // 音声信号の接続
         source.connect(gain);  // ソース → ゲイン
 
         // サンプルをエフェクトチェーンに接続
         this.connectSampleToEffectChain(channelId);
 
-        // タイミングの設定を取得して適用
-        const normalizedTiming = this.playbackSettingsManager.getSetting(channelId, 'timing');
-        const delaySeconds = normalizedTiming * TIMING_MAX_DELAY_SECONDS;
-        const startTime = this.context.currentTime + delaySeconds;
+        // タイミングとトリムの設定を取得して適用
+        const startTime = this.context.currentTime + this.getStartDelay(channelId, channelIds);
+        const { offset, duration } = this.getTrimRange(channelId, buffer);
+
+        // ボリュームとエンベロープの設定を取得して適用
+        this.scheduleEnvelope(gain.gain, channelId, startTime, duration / source.playbackRate.value);
 
         // 再生終了時のイベントを設定
         source.onended = () => {
@@ -388,7 +832,7 @@ export class AudioEngine {
         };
 
         // 再生開始
-        source.start(startTime);
+        source.start(startTime, offset, duration);
         this.sampleSources.set(channelId, source);
         this.sampleStartTimes.set(channelId, startTime);
       });
@@ -404,6 +848,230 @@ export class AudioEngine {
     }
   }
 
+  /**
+   * 複数のサンプルをオフラインでミックスダウン
+   * @details
+   * - playSamplesと同じ信号経路（ゲイン、チャンネル/マスターのエフェクトチェーン、マスターゲイン）を
+   *   OfflineAudioContext上に構築し、実時間より高速にレンダリングする
+   * - 音量・エンベロープ・ピッチ・タイミング・トリムはPlaybackSettingManager、エフェクトの値はEffectsManagerの現在の状態を使用
+   * - 最も遅く終わるサンプル（トリム後）の終了時刻に、RENDER_TAIL_SECONDSとエフェクトの残響のうち長い方を加えた長さを書き出す
+   * @param {ChannelId[]} channelIds - ミックスするチャンネルIDの配列
+   * @returns {Promise<AudioBuffer>} レンダリングされたステレオのAudioBuffer
+   * @throws {Error} 初期化されていない場合、サンプルが存在しない場合、またはレンダリングに失敗した場合
+   */
+  public async renderSamples(channelIds: ChannelId[]): Promise<AudioBuffer> {
+    if (!this.isInitialized) {
+      throw new Error('AudioEngineが初期化されていません');
+    }
+    if (channelIds.length === 0) {
+      throw new Error('レンダリングするチャンネルが指定されていません');
+    }
+
+    // 書き出す長さを計算（ピッチモードがvarispeedの場合は再生速度を変えるとサンプルの長さも変わる）
+    let endTime = 0;
+    channelIds.forEach(channelId => {
+      const { duration } = this.getTrimRange(channelId, this.getPlaybackBuffer(channelId));
+      const sampleEnd = this.getStartDelay(channelId, channelIds) + duration / this.getPlaybackRate(channelId);
+      endTime = Math.max(endTime, sampleEnd);
+    });
+
+    const sampleRate = this.context.sampleRate;
+    const tailSeconds = Math.max(RENDER_TAIL_SECONDS, this.effectsManager.getTailSeconds());
+    const length = Math.ceil((endTime + tailSeconds) * sampleRate);
+    const offlineContext = new OfflineAudioContext(RENDER_CHANNEL_COUNT, length, sampleRate);
+    const offlineEffectsManager = this.effectsManager.cloneFor(offlineContext);
+    const offlineEffectChains = this.createEffectChains(offlineContext, offlineEffectsManager);
+
+    try {
+      // 接続順とチェーン上のバイパスを再生用のチェーンに揃える
+      offlineEffectChains.forEach((chain, channelId) => {
+        chain.setState(this.getEffectChain(channelId).getState());
+      });
+
+      // マスター: マスターエフェクトチェーン → マスターゲイン → 出力
+      const masterEffectChain = offlineEffectChains.get(MASTER_CHANNEL_ID) as EffectChain;
+      const masterGain = offlineContext.createGain();
+      masterGain.gain.value = this.playbackSettingsManager.getSetting(MASTER_CHANNEL_ID, 'volume');
+      masterEffectChain.getOutput().connect(masterGain);
+      masterGain.connect(offlineContext.destination);
+
+      // 各チャンネル: ソース → ゲイン → チャンネルのエフェクトチェーン → マスターエフェクトチェーン
+      channelIds.forEach(channelId => {
+        const source = offlineContext.createBufferSource();
+        source.buffer = this.getPlaybackBuffer(channelId);
+        source.playbackRate.value = this.getPlaybackRate(channelId);
+
+        const startTime = this.getStartDelay(channelId, channelIds);
+        const { offset, duration } = this.getTrimRange(channelId, source.buffer);
+        const gain = offlineContext.createGain();
+        this.scheduleEnvelope(gain.gain, channelId, startTime, duration / source.playbackRate.value);
+
+        const effectChain = offlineEffectChains.get(channelId) as EffectChain;
+        source.connect(gain);
+        gain.connect(effectChain.getInput());
+        effectChain.getOutput().connect(masterEffectChain.getInput());
+
+        source.start(startTime, offset, duration);
+      });
+
+      return await offlineContext.startRendering();
+    } catch (error) {
+      throw new Error(`ミックスダウンのレンダリングに失敗しました: ${(error as Error).message}`);
+    } finally {
+      // チェーンの破棄で各エフェクトも破棄される
+      offlineEffectChains.forEach(chain => chain.dispose());
+      offlineEffectsManager.dispose();
+    }
+  }
+
+  /**
+   * チャンネルのピッチ設定（半音）から再生速度を計算
+   * @param {ChannelId} channelId - チャンネルID
+   * @returns {number} 再生速度（12半音で2倍、-12半音で半分）
+   */
+  private getPlaybackRate(channelId: ChannelId): number {
+    return semitonesToRate(this.playbackSettingsManager.getPitch(channelId));
+  }
+
+  /**
+   * チャンネルのタイミング設定から再生開始までの遅延時間を計算
+   * 負のオフセットを扱うため、同時に再生するチャンネルの中で最も早いオフセット（0より後ろの場合は0）を基準にする
+   * @param {ChannelId} channelId - チャンネルID
+   * @param {ChannelId[]} channelIds - 同時に再生するチャンネルIDの配列
+   * @returns {number} 遅延時間（秒）
+   */
+  private getStartDelay(channelId: ChannelId, channelIds: ChannelId[]): number {
+    const earliestOffset = Math.min(0, ...channelIds.map(id => this.playbackSettingsManager.getTimingOffset(id)));
+    return (this.playbackSettingsManager.getTimingOffset(channelId) - earliestOffset) / 1000;
+  }
+
+  /**
+   * チャンネルのトリム設定から再生範囲を計算
+   * トリム位置は元のサンプルに対する位置のため、リバース再生では反転したサンプル上の位置に変換する
+   * @param {ChannelId} channelId - チャンネルID
+   * @param {AudioBuffer} buffer - 再生するサンプル（リバース再生の場合は反転したサンプル）
+   * @returns {{ offset: number, duration: number }} 再生開始位置と再生する長さ（秒、バッファの時間）
+   */
+  private getTrimRange(channelId: ChannelId, buffer: AudioBuffer): { offset: number; duration: number } {
+    const trimStart = this.playbackSettingsManager.getSetting(channelId, 'trimStart');
+    const trimEnd = this.playbackSettingsManager.getSetting(channelId, 'trimEnd');
+    const start = this.playbackSettingsManager.getReverse(channelId) ? 1 - trimEnd : trimStart;
+    return {
+      offset: start * buffer.duration,
+      duration: (trimEnd - trimStart) * buffer.duration
+    };
+  }
+
+  /**
+   * 現在のピッチとリバースの設定で再生する、時間伸縮したサンプルを作成しておく
+   * @details
+   * 時間伸縮はメインスレッドで同期的に行うため、再生の開始時に待たされないようにピッチの設定後に呼び出す。
+   * 作成したサンプルはサンプル、ピッチ、リバースの設定が変わるまで再生とレンダリングで使い回す。
+   * ピッチモードがpreserveLengthでない場合、作成済みの場合、サンプルがない場合は何もしない。
+   * @param {ChannelId} channelId - チャンネルID
+   */
+  public prepareStretchedBuffer(channelId: ChannelId): void {
+    if (this.sampleBuffers.has(channelId)) {
+      this.getPlaybackBuffer(channelId);
+    }
+  }
+
+  /**
+   * チャンネルの再生に使用するサンプルを取得
+   * @details
+   * ピッチモードがpreserveLengthの場合は、再生速度の倍率だけ時間伸縮したサンプルを返す。
+   * これを再生速度を変えて再生すると、ピッチだけが変わり長さは元のサンプルと同じになる。
+   * 大きなバッファを作成しないように倍率はSTRETCH_MAX_FACTORまでに制限し、これを超えるピッチ変更では
+   * 超えた分だけ長さが変わる。
+   * @param {ChannelId} channelId - チャンネルID
+   * @returns {AudioBuffer} リバース設定とピッチモードに応じたサンプル
+   * @throws {Error} サンプルが存在しない場合
+   */
+  private getPlaybackBuffer(channelId: ChannelId): AudioBuffer {
+    const reverse = this.playbackSettingsManager.getReverse(channelId);
+    const buffer = (reverse ? this.reversedBuffers : this.sampleBuffers).get(channelId);
+    if (!buffer) {
+      throw new Error(`チャンネル ${channelId} が見つかりません`);
+    }
+
+    const rate = this.getPlaybackRate(channelId);
+    if (this.playbackSettingsManager.getPitchMode(channelId) !== 'preserveLength' || rate === 1.0) {
+      return buffer;
+    }
+
+    const cached = this.stretchedBuffers.get(channelId);
+    if (cached && cached.rate === rate && cached.reverse === reverse) {
+      return cached.buffer;
+    }
+    const factor = Math.min(STRETCH_MAX_FACTOR, Math.max(1 / STRETCH_MAX_FACTOR, rate));
+    const stretched = new TimeStretcher(this.context).stretch(buffer, factor);
+    this.stretchedBuffers.set(channelId, { rate, reverse, buffer: stretched });
+    return stretched;
+  }
+
+  /**
+   * サンプルを時間方向に反転したコピーを作成
+   * @param {AudioBuffer} buffer - 元のサンプル
+   * @returns {AudioBuffer} 反転したサンプル
+   */
+  private createReversedBuffer(buffer: AudioBuffer): AudioBuffer {
+    const reversed = this.context.createBuffer(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      reversed.copyToChannel(buffer.getChannelData(channel).slice().reverse(), channel);
+    }
+    return reversed;
+  }
+
+  /**
+   * チャンネルの音量とエンベロープ（ADSR）をゲインにスケジュール
+   * @details
+   * - 開始時刻から0→音量までアタック、音量→音量×サステインまでディケイで変化させる
+   * - サンプルの終了時刻の手前リリース時間から0までフェードアウトし、終了時刻で無音になる
+   * - リリースの開始がアタックやディケイの途中になる場合は、その時点の音量からリリースする
+   * @param {AudioParam} gainParam - スケジュールするゲインのAudioParam
+   * @param {ChannelId} channelId - チャンネルID
+   * @param {number} startTime - サンプルの再生開始時刻（秒、コンテキストの時間）
+   * @param {number} duration - 再生速度を考慮したサンプルの長さ（秒）
+   */
+  private scheduleEnvelope(gainParam: AudioParam, channelId: ChannelId, startTime: number, duration: number): void {
+    const volume = this.playbackSettingsManager.getSetting(channelId, 'volume');
+    const attack = this.playbackSettingsManager.getSetting(channelId, 'attack') * ENVELOPE_MAX_ATTACK_SECONDS;
+    const decay = this.playbackSettingsManager.getSetting(channelId, 'decay') * ENVELOPE_MAX_DECAY_SECONDS;
+    const sustain = this.playbackSettingsManager.getSetting(channelId, 'sustain');
+    const release = this.playbackSettingsManager.getSetting(channelId, 'release') * ENVELOPE_MAX_RELEASE_SECONDS;
+    const releaseOffset = Math.max(0, duration - release);
+
+    // 開始からの経過時間におけるエンベロープの音量
+    const levelAt = (offset: number): number => {
+      if (offset < attack) {
+        return volume * (offset / attack);
+      }
+      if (offset < attack + decay) {
+        return volume * (1 - (1 - sustain) * ((offset - attack) / decay));
+      }
+      return volume * sustain;
+    };
+
+    // 前回の再生でスケジュールした値を破棄
+    gainParam.cancelScheduledValues(0);
+    gainParam.setValueAtTime(levelAt(0), startTime);
+    if (attack > 0 && attack < releaseOffset) {
+      gainParam.linearRampToValueAtTime(volume, startTime + attack);
+    }
+    if (attack + decay > 0 && attack + decay < releaseOffset) {
+      if (decay > 0) {
+        gainParam.linearRampToValueAtTime(volume * sustain, startTime + attack + decay);
+      } else {
+        // ディケイが0の場合はアタックの直後にサステインレベルにする
+        gainParam.setValueAtTime(volume * sustain, startTime + attack);
+      }
+    }
+    gainParam.linearRampToValueAtTime(levelAt(releaseOffset), startTime + releaseOffset);
+    if (release > 0) {
+      gainParam.linearRampToValueAtTime(0, startTime + duration);
+    }
+  }
+
   /**
    * 音声コンテキストを一時停止
    * @throws {Error} 初期化されていない場合
@@ -466,21 +1134,56 @@ export class AudioEngine {
     return this.playbackSettingsManager.getSetting(channelId, 'volume');
   }
 
+  /**
+   * チャンネルの信号レベルを取得
+   * エフェクトチェーン通過後の実際の信号から計測する
+   * @param {ChannelId} channelId - チャンネルID
+   * @returns {MeterLevel} ピークとRMSのレベル（dBFS）
+   * @throws {Error} 初期化されていない場合、またはチャンネルが存在しない場合
+   */
+  public getChannelLevel(channelId: ChannelId): MeterLevel {
+    if (!this.isInitialized) {
+      throw new Error('AudioEngineが初期化されていません');
+    }
+    const meter = this.channelMeters.get(channelId);
+    if (!meter) {
+      throw new Error(`チャンネル ${channelId} のメーターが見つかりません`);
+    }
+    return meter.getLevel();
+  }
+
+  /**
+   * マスターの信号レベルを取得
+   * マスターゲイン通過後の実際の信号から計測する
+   * @returns {MeterLevel} ピークとRMSのレベル（dBFS）
+   * @throws {Error} 初期化されていない場合
+   */
+  public getMasterLevel(): MeterLevel {
+    if (!this.isInitialized) {
+      throw new Error('AudioEngineが初期化されていません');
+    }
+    return this.masterMeter.getLevel();
+  }
+
   // ===== マスターボリューム制御 =====
 
   /**
    * マスターボリュームを更新
+   * マスターゲインは直接代入せず、指定したカーブで変化させる（クリックを防ぐ）
    * @param {number} value - 新しいマスターボリューム値（0.0から1.0の範囲）
-   * @throws {Error} 初期化されていない場合
+   * @param {ParameterRampOptions} options - 変化のオプション（省略した項目はDEFAULT_PARAMETER_RAMP、startTimeで変化を予約）
+   * @throws {Error} 初期化されていない場合、または変化のオプションが無効な場合
    */
-  public updateMasterVolume(value: number): void {
+  public updateMasterVolume(value: number, options: ParameterRampOptions = {}): void {
     if (!this.isInitialized) {
       throw new Error('AudioEngineが初期化されていません');
     }
+    // 無効なオプションの場合は値を保存しない
+    validateParameterRamp(options);
     // PlaybackSettingManagerに値を保存
     this.playbackSettingsManager.setSetting(0, 'volume', value);
-    // マスターゲインの値を更新
-    this.masterGain.gain.value = value;
+    // マスターゲインを滑らかに変化させる
+    scheduleParameterRamp(this.masterGain.gain, value, this.context.currentTime, options);
   }
 
   // ===== UIの表示・メーター更新用メソッド =====
@@ -516,9 +1219,7 @@ export class AudioEngine {
 
     this.sampleStartTimes.forEach((startTime, channelId) => {
       // タイミングの設定を取得して適用
-      const normalizedTiming = this.playbackSettingsManager.getSetting(channelId as ChannelId, 'timing');
-      const delaySeconds = normalizedTiming * TIMING_MAX_DELAY_SECONDS;
-      const progress = currentTime - startTime - delaySeconds;
+      const progress = currentTime - startTime - this.getStartDelay(channelId, Array.from(this.sampleStartTimes.keys()));
       if (progress > maxProgress) {
         maxProgress = progress;
       }
@@ -0,0 +1,165 @@
+/**
+ * @file EditHistory.ts
+ * @brief 編集前の状態を記録して元に戻す/やり直すを行う履歴クラス
+ * @details
+ * - 編集の直前に状態を記録し、元に戻す/やり直す時は記録した状態と現在の状態を入れ替える
+ * - 同じ種類の変更が短い間隔で続く場合（ノブのドラッグ等）は1つの操作にまとめる
+ * - 元に戻せる操作の数は上限を超えると古いものから破棄する
+ * - 記録した後に編集に失敗した場合は、直前の記録を取り消せる
+ * @limitations
+ * - 状態は記録時に取得したものをそのまま保持するため、呼び出し側が変更しない値を渡す必要がある
+ * - まとめる判定は直前に記録した種類と時刻のみで行う
+ */
+
+import { HISTORY_MAX_STEPS, HISTORY_COALESCE_MS } from './audioConstants';
+
+/**
+ * EditHistoryのオプション
+ * - maxSteps: 元に戻せる操作の最大数
+ * - coalesceMs: 同じ種類の連続した変更を1つの操作にまとめる間隔（ミリ秒、0でまとめない）
+ * - now: 現在時刻（ミリ秒）を取得する関数
+ */
+export interface EditHistoryOptions {
+  maxSteps?: number;
+  coalesceMs?: number;
+  now?: () => number;
+}
+
+export class EditHistory<T> {
+  private undoStack: T[] = [];
+  private redoStack: T[] = [];
+  private lastKey: string | null = null;
+  private lastTime = 0;
+  private lastRecord: { redoStack: T[]; dropped?: T } | null = null;  // 直前の記録で破棄した操作（取り消し用）
+  private maxSteps: number;
+  private coalesceMs: number;
+  private now: () => number;
+
+  /**
+   * EditHistoryのコンストラクタ
+   * @param {EditHistoryOptions} options - オプション
+   * @throws {Error} 最大数または間隔が無効な場合
+   */
+  constructor(options: EditHistoryOptions = {}) {
+    const { maxSteps = HISTORY_MAX_STEPS, coalesceMs = HISTORY_COALESCE_MS, now = () => Date.now() } = options;
+    if (!Number.isInteger(maxSteps) || maxSteps < 1) {
+      throw new Error(`元に戻せる操作の最大数が無効です: ${maxSteps}`);
+    }
+    if (!Number.isFinite(coalesceMs) || coalesceMs < 0) {
+      throw new Error(`操作をまとめる間隔が無効です: ${coalesceMs}`);
+    }
+    this.maxSteps = maxSteps;
+    this.coalesceMs = coalesceMs;
+    this.now = now;
+  }
+
+  /**
+   * 編集の直前の状態を記録
+   * 直前の記録と同じ種類でcoalesceMs以内の場合は記録せず、直前の操作にまとめる
+   * @param {() => T} capture - 現在の状態を取得する関数（まとめる場合は呼び出さない）
+   * @param {string} key - 変更の種類（省略した場合はまとめない）
+   */
+  public record(capture: () => T, key?: string): void {
+    const time = this.now();
+    const coalesce = key !== undefined
+      && key === this.lastKey
+      && time - this.lastTime <= this.coalesceMs
+      && this.undoStack.length > 0;
+    this.lastKey = key ?? null;
+    this.lastTime = time;
+    if (coalesce) {
+      this.lastRecord = null;
+      return;
+    }
+
+    this.lastRecord = { redoStack: this.redoStack };
+    this.undoStack.push(capture());
+    if (this.undoStack.length > this.maxSteps) {
+      this.lastRecord.dropped = this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  /**
+   * 直前の記録を取り消す（記録した後に編集に失敗した場合に使用）
+   * 記録時に破棄したやり直せる操作と古い操作も戻す。直前の記録が前の操作にまとめられた場合は何もしない
+   */
+  public cancelRecord(): void {
+    const lastRecord = this.lastRecord;
+    if (!lastRecord) {
+      return;
+    }
+    this.undoStack.pop();
+    if (lastRecord.dropped !== undefined) {
+      this.undoStack.unshift(lastRecord.dropped);
+    }
+    this.redoStack = lastRecord.redoStack;
+    this.lastRecord = null;
+    this.endCoalescing();
+  }
+
+  /**
+   * 直前の操作を元に戻す
+   * @param {T} current - 現在の状態（やり直す時に使用）
+   * @returns {T | null} 復元する状態（元に戻せる操作がない場合はnull）
+   */
+  public undo(current: T): T | null {
+    const state = this.undoStack.pop();
+    if (state === undefined) {
+      return null;
+    }
+    this.redoStack.push(current);
+    this.lastRecord = null;
+    this.endCoalescing();
+    return state;
+  }
+
+  /**
+   * 元に戻した操作をやり直す
+   * @param {T} current - 現在の状態（再度元に戻す時に使用）
+   * @returns {T | null} 復元する状態（やり直せる操作がない場合はnull）
+   */
+  public redo(current: T): T | null {
+    const state = this.redoStack.pop();
+    if (state === undefined) {
+      return null;
+    }
+    this.undoStack.push(current);
+    this.lastRecord = null;
+    this.endCoalescing();
+    return state;
+  }
+
+  /**
+   * 元に戻せる操作があるかどうか
+   * @returns {boolean} 元に戻せる場合はtrue
+   */
+  public canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /**
+   * やり直せる操作があるかどうか
+   * @returns {boolean} やり直せる場合はtrue
+   */
+  public canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * 次の変更を直前の操作にまとめないようにする（ノブのドラッグの終了時等）
+   */
+  public endCoalescing(): void {
+    this.lastKey = null;
+  }
+
+  /**
+   * 全ての履歴を破棄
+   */
+  public clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.lastRecord = null;
+    this.endCoalescing();
+  }
+}
@@ -8,49 +8,138 @@
  * - AudioEngineからエフェクトの種類と値を受け取って、適切なエフェクトに適用する
  * - エフェクトのリセット機能
  * - エフェクトのリソース管理
+ * - チャンネルの追加・削除に合わせたエフェクトの作成と破棄
+ * - フィルターのモード、レゾナンス、スロープと表示用のラベルの管理
+ * - リバーブの種類とパラメータの管理
+ * - ディレイのパラメータとテンポ同期の管理（テンポは全チャンネル共通）
+ * - ディストーションのカーブ、パラメータ、オーバーサンプリングの管理
+ * - パラメトリックイコライザーのバンド数、各バンドのパラメータ、周波数特性のカーブの管理
+ * - マスターのみのコンプレッサーとリミッターのパラメータとゲインリダクションの管理
+ * - エフェクトはEffectRegistryに登録した種類の識別子から作成（登録した任意の種類を実行中にチャンネルへ追加可能）
+ * - エフェクトのAudioParamのパラメータの変化の予約（オートメーションやモジュレーションで使用）
+ * - 全チャンネルのエフェクトの状態（JSONに変換できるバージョン付きの形式）の取得と復元
  */
 
-import { Filter } from '@/effects/Filter';
+import { Filter, FilterMode, FilterParameter, FilterSlope, FilterSettings, FILTER_DEFAULT_SETTINGS } from '@/effects/Filter';
+import { Reverb, ReverbType, ReverbParameter, ReverbSettings, REVERB_DEFAULT_SETTINGS } from '@/effects/Reverb';
+import { Delay, DelayParameter, DelayNoteValue, DelaySettings, DELAY_DEFAULT_SETTINGS } from '@/effects/Delay';
+import {
+  Distortion,
+  DistortionCurve,
+  DistortionParameter,
+  DistortionOversample,
+  DistortionSettings,
+  DISTORTION_DEFAULT_SETTINGS
+} from '@/effects/Distortion';
+import {
+  Equalizer,
+  EqualizerBand,
+  EqualizerBandParameter,
+  EqualizerSettings,
+  EQUALIZER_DEFAULT_SETTINGS,
+  EQUALIZER_RESPONSE_FREQUENCIES,
+  copyEqualizerSettings
+} from '@/effects/Equalizer';
+import { Compressor, CompressorParameter, CompressorSettings, COMPRESSOR_DEFAULT_SETTINGS } from '@/effects/Compressor';
+import {
+  Limiter,
+  LimiterParameter,
+  LimiterSettings,
+  LIMITER_DEFAULT_SETTINGS
+} from '@/effects/Limiter';
 // BaseEffectはFilterが継承してるため、インポートが必須だが、ESLintのエラーが出るため無視する文
 /* eslint-disable-next-line @typescript-eslint/no-unused-vars */
-import { BaseEffect } from '@/effects/base/BaseEffect';
+import { BaseEffect, EffectState, EFFECT_STATE_VERSION, validateEffectStateVersion } from '@/effects/base/BaseEffect';
+import { EffectRegistry } from '@/effects/EffectRegistry';
+import { BuiltinEffectType, defaultEffectRegistry } from '@/effects/builtinEffects';
+import {
+  ChannelId,
+  DEFAULT_CHANNEL_IDS,
+  MASTER_CHANNEL_ID,
+  DELAY_DEFAULT_TEMPO,
+  DELAY_MIN_TEMPO,
+  DELAY_MAX_TEMPO
+} from './audioConstants';
+import { ParameterRampOptions } from './ParameterRamp';
+
+export type { ChannelId, BuiltinEffectType };
+
+/**
+ * エフェクトの種類（EffectRegistryに登録した識別子、組み込みの種類はBuiltinEffectType）
+ */
+export type EffectType = BuiltinEffectType | string;
+
+/**
+ * マスターにのみ作成するエフェクトの種類
+ */
+export type MasterEffectType = 'compressor' | 'limiter';
 
 /**
- * チャンネルの識別子を定義
- * 0: マスター
- * 1: チャンネル1
- * 2: チャンネル2
- * 3: チャンネル3
+ * チャンネルの1つのエフェクトの状態
+ * - type: エフェクトの種類の識別子
+ * - state: エフェクトの状態（値と設定）
  */
-export type ChannelId = 0 | 1 | 2 | 3;
+export interface ChannelEffectState {
+  type: EffectType;
+  state: EffectState;
+}
 
 /**
- * エフェクトの種類を定義
+ * 1チャンネル分のエフェクトの状態
+ * - channelId: チャンネル識別子
+ * - effects: 作成した順のエフェクトの状態
  */
-export type EffectType = 'filter' | 'reverb' | 'delay' | 'distortion';
+export interface ChannelEffectsState {
+  channelId: ChannelId;
+  effects: ChannelEffectState[];
+}
+
+/**
+ * EffectsManagerの状態（JSONに変換できる形式）
+ * - version: 状態の形式のバージョン
+ * - tempo: ディレイのテンポ同期に使用するテンポ（BPM）
+ * - channels: マスターを含む各チャンネルのエフェクトの状態
+ */
+export interface EffectsManagerState {
+  version: number;
+  tempo: number;
+  channels: ChannelEffectsState[];
+}
 
 /**
  * エフェクトの管理クラス
  */
 export class EffectsManager {
-  private readonly channelIds = {
-    MASTER: 0,
-    CHANNEL1: 1,
-    CHANNEL2: 2,
-    CHANNEL3: 3
-  } as const;
-
   private effects: Map<ChannelId, Map<EffectType, BaseEffect>>;
   private effectValues: Map<ChannelId, Map<EffectType, number>>;
+  private filterSettings: Map<ChannelId, FilterSettings>;
+  private reverbSettings: Map<ChannelId, ReverbSettings>;
+  private delaySettings: Map<ChannelId, DelaySettings>;
+  private distortionSettings: Map<ChannelId, DistortionSettings>;
+  private equalizerSettings: Map<ChannelId, EqualizerSettings>;
+  private compressorSettings: Map<ChannelId, CompressorSettings>;  // マスターのみ
+  private limiterSettings: Map<ChannelId, LimiterSettings>;  // マスターのみ
+  private tempo: number = DELAY_DEFAULT_TEMPO;  // ディレイのテンポ同期に使用するテンポ（BPM）
 
   /**
    * EffectsManagerのコンストラクタ
-   * @param {AudioContext} audioContext - 音声コンテキスト
+   * @param {BaseAudioContext} audioContext - 音声コンテキスト（OfflineAudioContextも可）
+   * @param {EffectRegistry} registry - エフェクトの種類を登録したレジストリ（省略時は組み込みのエフェクトを登録したレジストリ）
    * @throws {Error} 初期化に失敗した場合
    */
-  constructor(private readonly audioContext: AudioContext) {
+  constructor(
+    private readonly audioContext: BaseAudioContext,
+    private readonly registry: EffectRegistry = defaultEffectRegistry
+  ) {
     this.effects = new Map();
     this.effectValues = new Map();
+    this.filterSettings = new Map();
+    this.reverbSettings = new Map();
+    this.delaySettings = new Map();
+    this.distortionSettings = new Map();
+    this.equalizerSettings = new Map();
+    this.compressorSettings = new Map();
+    this.limiterSettings = new Map();
     this.initializeEffects();
   }
 
@@ -60,27 +149,153 @@ export class EffectsManager {
    */
   private initializeEffects(): void {
     try {
-      // 各チャンネルのエフェクトを初期化
-      Object.values(this.channelIds).forEach(channelId => {
-        const channelEffects = new Map<EffectType, BaseEffect>();
-        const channelValues = new Map<EffectType, number>();
-
-        // 各エフェクトタイプの初期化
-        ['filter', 'reverb', 'delay', 'distortion'].forEach(effectType => {
-          // 現在はFilterのみ実装されているため、すべてFilterで初期化
-          const effect = new Filter(this.audioContext);
-          channelEffects.set(effectType as EffectType, effect);
-          channelValues.set(effectType as EffectType, 0.5);
-        });
-
-        this.effects.set(channelId, channelEffects);
-        this.effectValues.set(channelId, channelValues);
-      });
+      // マスターと起動時の各チャンネルのエフェクトを初期化
+      [MASTER_CHANNEL_ID, ...DEFAULT_CHANNEL_IDS].forEach(channelId => this.createChannelEffects(channelId));
     } catch (error) {
       throw new Error(`エフェクトの初期化に失敗しました: ${(error as Error).message}`);
     }
   }
 
+  /**
+   * チャンネルのエフェクトを作成
+   * @param {ChannelId} channelId - チャンネル識別子
+   */
+  private createChannelEffects(channelId: ChannelId): void {
+    const channelEffects = new Map<EffectType, BaseEffect>();
+    const channelValues = new Map<EffectType, number>();
+
+    // 登録されている各エフェクトタイプの初期化（マスターにはマスターのみの種類も作成）
+    this.registry.getDefaultTypes(channelId === MASTER_CHANNEL_ID).forEach(effectType => {
+      channelEffects.set(effectType, this.createEffect(effectType));
+      channelValues.set(effectType, this.registry.getDefinition(effectType).defaultValue);
+    });
+
+    this.effects.set(channelId, channelEffects);
+    this.effectValues.set(channelId, channelValues);
+    this.filterSettings.set(channelId, { ...FILTER_DEFAULT_SETTINGS });
+    this.reverbSettings.set(channelId, { ...REVERB_DEFAULT_SETTINGS });
+    this.delaySettings.set(channelId, { ...DELAY_DEFAULT_SETTINGS });
+    this.distortionSettings.set(channelId, { ...DISTORTION_DEFAULT_SETTINGS });
+    this.equalizerSettings.set(channelId, copyEqualizerSettings(EQUALIZER_DEFAULT_SETTINGS));
+    if (channelId === MASTER_CHANNEL_ID) {
+      this.compressorSettings.set(channelId, { ...COMPRESSOR_DEFAULT_SETTINGS });
+      this.limiterSettings.set(channelId, { ...LIMITER_DEFAULT_SETTINGS });
+    }
+  }
+
+  /**
+   * エフェクトタイプに対応するエフェクトを作成
+   * @param {EffectType} effectType - エフェクトタイプ
+   * @returns {BaseEffect} 作成したエフェクト
+   */
+  private createEffect(effectType: EffectType): BaseEffect {
+    const effect = this.registry.create(effectType, this.audioContext);
+    if (effectType === 'delay') {
+      // ディレイのテンポ同期は全チャンネル共通のテンポを使用
+      (effect as Delay).setTempo(this.tempo);
+    }
+    return effect;
+  }
+
+  /**
+   * レジストリに登録されている種類のエフェクトをチャンネルに追加
+   * エフェクトの値は登録した初期値になる。エフェクトチェーンへの接続はAudioEngineが行う
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @param {EffectType} effectType - エフェクトタイプ
+   * @returns {BaseEffect} 追加したエフェクト
+   * @throws {Error} 無効なチャンネル識別子の場合、既に追加されている場合、または作成に失敗した場合
+   */
+  public addEffect(channelId: ChannelId, effectType: EffectType): BaseEffect {
+    const channelEffects = this.effects.get(channelId);
+    const channelValues = this.effectValues.get(channelId);
+    if (!channelEffects || !channelValues) {
+      throw new Error(`無効なチャンネル識別子です: ${channelId}`);
+    }
+    if (channelEffects.has(effectType)) {
+      throw new Error(`エフェクトは既に追加されています: ${effectType}`);
+    }
+    if (channelId !== MASTER_CHANNEL_ID && this.registry.has(effectType) && this.registry.getDefinition(effectType).masterOnly) {
+      throw new Error(`マスターにのみ追加できるエフェクトです: ${effectType}`);
+    }
+    try {
+      const effect = this.createEffect(effectType);
+      channelEffects.set(effectType, effect);
+      channelValues.set(effectType, this.registry.getDefinition(effectType).defaultValue);
+      return effect;
+    } catch (error) {
+      throw new Error(`エフェクトの追加に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * チャンネルのエフェクトタイプの一覧を取得
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @returns {EffectType[]} エフェクトタイプの配列（作成した順）
+   * @throws {Error} 無効なチャンネル識別子の場合
+   */
+  public getEffectTypes(channelId: ChannelId): EffectType[] {
+    const channelEffects = this.effects.get(channelId);
+    if (!channelEffects) {
+      throw new Error(`無効なチャンネル識別子です: ${channelId}`);
+    }
+    return Array.from(channelEffects.keys());
+  }
+
+  /**
+   * エフェクトの種類を登録したレジストリを取得
+   * @returns {EffectRegistry} レジストリ
+   */
+  public getRegistry(): EffectRegistry {
+    return this.registry;
+  }
+
+  /**
+   * チャンネルを追加し、エフェクトを作成
+   * @param {ChannelId} channelId - 追加するチャンネル識別子
+   * @throws {Error} 既に存在するチャンネル識別子の場合、または作成に失敗した場合
+   */
+  public addChannel(channelId: ChannelId): void {
+    if (this.isValidChannelId(channelId)) {
+      throw new Error(`チャンネルは既に存在します: ${channelId}`);
+    }
+    try {
+      this.createChannelEffects(channelId);
+    } catch (error) {
+      throw new Error(`チャンネル ${channelId} のエフェクトの作成に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * チャンネルを削除し、エフェクトを破棄
+   * @param {ChannelId} channelId - 削除するチャンネル識別子
+   * @throws {Error} マスターまたは存在しないチャンネル識別子の場合
+   */
+  public removeChannel(channelId: ChannelId): void {
+    if (channelId === MASTER_CHANNEL_ID) {
+      throw new Error('マスターチャンネルは削除できません');
+    }
+    const channelEffects = this.effects.get(channelId);
+    if (!channelEffects) {
+      throw new Error(`無効なチャンネル識別子です: ${channelId}`);
+    }
+    channelEffects.forEach(effect => effect.dispose());
+    this.effects.delete(channelId);
+    this.effectValues.delete(channelId);
+    this.filterSettings.delete(channelId);
+    this.reverbSettings.delete(channelId);
+    this.delaySettings.delete(channelId);
+    this.distortionSettings.delete(channelId);
+    this.equalizerSettings.delete(channelId);
+  }
+
+  /**
+   * エフェクトを持つチャンネル識別子の一覧を取得
+   * @returns {ChannelId[]} チャンネル識別子の配列（マスターを含む、昇順）
+   */
+  public getChannelIds(): ChannelId[] {
+    return Array.from(this.effects.keys()).sort((a, b) => a - b);
+  }
+
   /**
    * エフェクトの値の設定
    * @param {ChannelId} channelId - チャンネル識別子
@@ -114,6 +329,49 @@ export class EffectsManager {
     }
   }
 
+  /**
+   * エフェクトの値を取得
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @param {EffectType} effectType - エフェクトタイプ
+   * @returns {number} 最後に設定した値（0.0から1.0の範囲）
+   * @throws {Error} 無効なチャンネル識別子またはエフェクトタイプの場合
+   */
+  public getEffectValue(channelId: ChannelId, effectType: EffectType): number {
+    const channelValues = this.effectValues.get(channelId);
+    if (!channelValues) {
+      throw new Error(`無効なチャンネル識別子です: ${channelId}`);
+    }
+    const value = channelValues.get(effectType);
+    if (value === undefined) {
+      throw new Error(`エフェクトが見つかりません: ${effectType}`);
+    }
+    return value;
+  }
+
+  /**
+   * エフェクトのAudioParamのパラメータの変化を予約
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @param {EffectType} effectType - エフェクトタイプ
+   * @param {string} param - パラメータ名（AudioParamとして登録されているもの）
+   * @param {number} value - 目標値（AudioParamの単位）
+   * @param {ParameterRampOptions} options - 変化のオプション（startTimeで音声コンテキストの時刻を指定）
+   * @throws {Error} 無効なチャンネル識別子またはエフェクトタイプの場合、または予約に失敗した場合
+   */
+  public scheduleEffectParameter(
+    channelId: ChannelId,
+    effectType: EffectType,
+    param: string,
+    value: number,
+    options: ParameterRampOptions = {}
+  ): void {
+    const effect = this.getEffect(channelId, effectType);
+    try {
+      effect.scheduleParameter(param, value, options);
+    } catch (error) {
+      throw new Error(`パラメータの変化の予約に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
   /**
    * エフェクトの取得
    * @param {ChannelId} channelId - チャンネル識別子
@@ -149,13 +407,680 @@ export class EffectsManager {
     this.setEffectValue(channelId, 'filter', value);
   }
 
+  /**
+   * フィルターのモードを設定
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @param {FilterMode} mode - フィルターのモード
+   * @throws {Error} 無効なチャンネル識別子の場合、または設定に失敗した場合
+   */
+  public setFilterMode(channelId: ChannelId, mode: FilterMode): void {
+    const filter = this.getEffect(channelId, 'filter') as Filter;
+    try {
+      filter.setMode(mode);
+      (this.filterSettings.get(channelId) as FilterSettings).mode = mode;
+    } catch (error) {
+      throw new Error(`フィルターのモードの設定に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * フィルターのスロープを設定
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @param {FilterSlope} slope - スロープ（12/24/48dB/oct）
+   * @throws {Error} 無効なチャンネル識別子の場合、または設定に失敗した場合
+   */
+  public setFilterSlope(channelId: ChannelId, slope: FilterSlope): void {
+    const filter = this.getEffect(channelId, 'filter') as Filter;
+    try {
+      filter.setSlope(slope);
+      (this.filterSettings.get(channelId) as FilterSettings).slope = slope;
+    } catch (error) {
+      throw new Error(`フィルターのスロープの設定に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * フィルターのパラメータを設定
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @param {FilterParameter} param - パラメータ名
+   * @param {number} value - 設定する値（0.0から1.0の範囲）
+   * @throws {Error} 無効なチャンネル識別子の場合、または設定に失敗した場合
+   */
+  public setFilterParameter(channelId: ChannelId, param: FilterParameter, value: number): void {
+    const filter = this.getEffect(channelId, 'filter') as Filter;
+    try {
+      filter.setParameter(param, value);
+      (this.filterSettings.get(channelId) as FilterSettings)[param] = value;
+    } catch (error) {
+      throw new Error(`フィルターのパラメータの設定に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * フィルターの全設定をまとめて設定
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @param {FilterSettings} settings - フィルターの設定
+   * @throws {Error} 無効なチャンネル識別子の場合、または設定に失敗した場合
+   */
+  public setFilterSettings(channelId: ChannelId, settings: FilterSettings): void {
+    const filter = this.getEffect(channelId, 'filter') as Filter;
+    try {
+      filter.setSettings(settings);
+      this.filterSettings.set(channelId, { ...settings });
+    } catch (error) {
+      throw new Error(`フィルターの設定に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * フィルターの設定を取得
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @returns {FilterSettings} フィルターの設定のコピー
+   * @throws {Error} 無効なチャンネル識別子の場合
+   */
+  public getFilterSettings(channelId: ChannelId): FilterSettings {
+    const settings = this.filterSettings.get(channelId);
+    if (!settings) {
+      throw new Error(`無効なチャンネル識別子です: ${channelId}`);
+    }
+    return { ...settings };
+  }
+
+  /**
+   * フィルターの表示用のラベルを取得
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @returns {string} バイパス中はBYPASS、それ以外はフィルターの種類（LP/HP/BP/NOTCH/PEAK）
+   * @throws {Error} 無効なチャンネル識別子の場合
+   */
+  public getFilterLabel(channelId: ChannelId): string {
+    return (this.getEffect(channelId, 'filter') as Filter).getLabel();
+  }
+
+  /**
+   * リバーブの種類を設定
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @param {ReverbType} type - リバーブの種類
+   * @throws {Error} 無効なチャンネル識別子の場合、または設定に失敗した場合
+   */
+  public setReverbType(channelId: ChannelId, type: ReverbType): void {
+    const reverb = this.getEffect(channelId, 'reverb') as Reverb;
+    try {
+      reverb.setType(type);
+      (this.reverbSettings.get(channelId) as ReverbSettings).type = type;
+    } catch (error) {
+      throw new Error(`リバーブの種類の設定に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * リバーブのパラメータを設定
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @param {ReverbParameter} param - パラメータ名
+   * @param {number} value - 設定する値（0.0から1.0の範囲）
+   * @throws {Error} 無効なチャンネル識別子の場合、または設定に失敗した場合
+   */
+  public setReverbParameter(channelId: ChannelId, param: ReverbParameter, value: number): void {
+    const reverb = this.getEffect(channelId, 'reverb') as Reverb;
+    try {
+      reverb.setParameter(param, value);
+      (this.reverbSettings.get(channelId) as ReverbSettings)[param] = value;
+    } catch (error) {
+      throw new Error(`リバーブのパラメータの設定に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * リバーブの種類と全パラメータをまとめて設定
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @param {ReverbSettings} settings - リバーブの設定
+   * @throws {Error} 無効なチャンネル識別子の場合、または設定に失敗した場合
+   */
+  public setReverbSettings(channelId: ChannelId, settings: ReverbSettings): void {
+    const reverb = this.getEffect(channelId, 'reverb') as Reverb;
+    try {
+      reverb.setSettings(settings);
+      this.reverbSettings.set(channelId, { ...settings });
+    } catch (error) {
+      throw new Error(`リバーブの設定に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * リバーブの設定を取得
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @returns {ReverbSettings} リバーブの設定のコピー
+   * @throws {Error} 無効なチャンネル識別子の場合
+   */
+  public getReverbSettings(channelId: ChannelId): ReverbSettings {
+    const settings = this.reverbSettings.get(channelId);
+    if (!settings) {
+      throw new Error(`無効なチャンネル識別子です: ${channelId}`);
+    }
+    return { ...settings };
+  }
+
+  /**
+   * ディレイのパラメータを設定
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @param {DelayParameter} param - パラメータ名
+   * @param {number} value - 設定する値（0.0から1.0の範囲）
+   * @throws {Error} 無効なチャンネル識別子の場合、または設定に失敗した場合
+   */
+  public setDelayParameter(channelId: ChannelId, param: DelayParameter, value: number): void {
+    const delay = this.getEffect(channelId, 'delay') as Delay;
+    try {
+      delay.setParameter(param, value);
+      (this.delaySettings.get(channelId) as DelaySettings)[param] = value;
+    } catch (error) {
+      throw new Error(`ディレイのパラメータの設定に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * ディレイのテンポ同期の有効/無効を設定
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @param {boolean} sync - trueの場合、ディレイタイムを音符の長さとテンポから決める
+   * @throws {Error} 無効なチャンネル識別子の場合
+   */
+  public setDelaySync(channelId: ChannelId, sync: boolean): void {
+    const delay = this.getEffect(channelId, 'delay') as Delay;
+    delay.setSync(sync);
+    (this.delaySettings.get(channelId) as DelaySettings).sync = sync;
+  }
+
+  /**
+   * ディレイのテンポ同期の音符の長さを設定
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @param {DelayNoteValue} noteValue - 音符の長さ
+   * @throws {Error} 無効なチャンネル識別子の場合、または設定に失敗した場合
+   */
+  public setDelayNoteValue(channelId: ChannelId, noteValue: DelayNoteValue): void {
+    const delay = this.getEffect(channelId, 'delay') as Delay;
+    try {
+      delay.setNoteValue(noteValue);
+      (this.delaySettings.get(channelId) as DelaySettings).noteValue = noteValue;
+    } catch (error) {
+      throw new Error(`ディレイの音符の長さの設定に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * ディレイのピンポンの有効/無効を設定
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @param {boolean} pingPong - trueの場合、フィードバックを左右で交互に送る
+   * @throws {Error} 無効なチャンネル識別子の場合
+   */
+  public setDelayPingPong(channelId: ChannelId, pingPong: boolean): void {
+    const delay = this.getEffect(channelId, 'delay') as Delay;
+    delay.setPingPong(pingPong);
+    (this.delaySettings.get(channelId) as DelaySettings).pingPong = pingPong;
+  }
+
+  /**
+   * ディレイの全設定をまとめて設定
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @param {DelaySettings} settings - ディレイの設定
+   * @throws {Error} 無効なチャンネル識別子の場合、または設定に失敗した場合
+   */
+  public setDelaySettings(channelId: ChannelId, settings: DelaySettings): void {
+    const delay = this.getEffect(channelId, 'delay') as Delay;
+    try {
+      delay.setSettings(settings);
+      this.delaySettings.set(channelId, { ...settings });
+    } catch (error) {
+      throw new Error(`ディレイの設定に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * ディレイの設定を取得
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @returns {DelaySettings} ディレイの設定のコピー
+   * @throws {Error} 無効なチャンネル識別子の場合
+   */
+  public getDelaySettings(channelId: ChannelId): DelaySettings {
+    const settings = this.delaySettings.get(channelId);
+    if (!settings) {
+      throw new Error(`無効なチャンネル識別子です: ${channelId}`);
+    }
+    return { ...settings };
+  }
+
+  /**
+   * ディストーションのカーブの種類を設定
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @param {DistortionCurve} curve - カーブの種類
+   * @throws {Error} 無効なチャンネル識別子の場合、または設定に失敗した場合
+   */
+  public setDistortionCurve(channelId: ChannelId, curve: DistortionCurve): void {
+    const distortion = this.getEffect(channelId, 'distortion') as Distortion;
+    try {
+      distortion.setCurve(curve);
+      (this.distortionSettings.get(channelId) as DistortionSettings).curve = curve;
+    } catch (error) {
+      throw new Error(`ディストーションのカーブの設定に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * ディストーションのパラメータを設定
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @param {DistortionParameter} param - パラメータ名
+   * @param {number} value - 設定する値（0.0から1.0の範囲）
+   * @throws {Error} 無効なチャンネル識別子の場合、または設定に失敗した場合
+   */
+  public setDistortionParameter(channelId: ChannelId, param: DistortionParameter, value: number): void {
+    const distortion = this.getEffect(channelId, 'distortion') as Distortion;
+    try {
+      distortion.setParameter(param, value);
+      (this.distortionSettings.get(channelId) as DistortionSettings)[param] = value;
+    } catch (error) {
+      throw new Error(`ディストーションのパラメータの設定に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * ディストーションのオーバーサンプリングを設定
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @param {DistortionOversample} oversample - オーバーサンプリング（none/2x/4x）
+   * @throws {Error} 無効なチャンネル識別子の場合、または設定に失敗した場合
+   */
+  public setDistortionOversample(channelId: ChannelId, oversample: DistortionOversample): void {
+    const distortion = this.getEffect(channelId, 'distortion') as Distortion;
+    try {
+      distortion.setOversample(oversample);
+      (this.distortionSettings.get(channelId) as DistortionSettings).oversample = oversample;
+    } catch (error) {
+      throw new Error(`ディストーションのオーバーサンプリングの設定に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * ディストーションの全設定をまとめて設定
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @param {DistortionSettings} settings - ディストーションの設定
+   * @throws {Error} 無効なチャンネル識別子の場合、または設定に失敗した場合
+   */
+  public setDistortionSettings(channelId: ChannelId, settings: DistortionSettings): void {
+    const distortion = this.getEffect(channelId, 'distortion') as Distortion;
+    try {
+      distortion.setSettings(settings);
+      this.distortionSettings.set(channelId, { ...settings });
+    } catch (error) {
+      throw new Error(`ディストーションの設定に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * ディストーションの設定を取得
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @returns {DistortionSettings} ディストーションの設定のコピー
+   * @throws {Error} 無効なチャンネル識別子の場合
+   */
+  public getDistortionSettings(channelId: ChannelId): DistortionSettings {
+    const settings = this.distortionSettings.get(channelId);
+    if (!settings) {
+      throw new Error(`無効なチャンネル識別子です: ${channelId}`);
+    }
+    return { ...settings };
+  }
+
+  /**
+   * イコライザーのバンドのパラメータを設定
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @param {EqualizerBand} band - バンド
+   * @param {EqualizerBandParameter} param - パラメータ名
+   * @param {number} value - 設定する値（0.0から1.0の範囲）
+   * @throws {Error} 無効なチャンネル識別子の場合、または設定に失敗した場合
+   */
+  public setEqualizerBandParameter(
+    channelId: ChannelId,
+    band: EqualizerBand,
+    param: EqualizerBandParameter,
+    value: number
+  ): void {
+    const equalizer = this.getEffect(channelId, 'equalizer') as Equalizer;
+    try {
+      equalizer.setBandParameter(band, param, value);
+      (this.equalizerSettings.get(channelId) as EqualizerSettings).bands[band][param] = value;
+    } catch (error) {
+      throw new Error(`イコライザーのパラメータの設定に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * イコライザーのピーキングのバンド数を設定
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @param {number} peakCount - バンド数（EQUALIZER_MIN_PEAK_BANDSからEQUALIZER_MAX_PEAK_BANDS）
+   * @throws {Error} 無効なチャンネル識別子の場合、または設定に失敗した場合
+   */
+  public setEqualizerPeakCount(channelId: ChannelId, peakCount: number): void {
+    const equalizer = this.getEffect(channelId, 'equalizer') as Equalizer;
+    try {
+      equalizer.setPeakCount(peakCount);
+      (this.equalizerSettings.get(channelId) as EqualizerSettings).peakCount = peakCount;
+    } catch (error) {
+      throw new Error(`イコライザーのバンド数の設定に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * イコライザーの全設定をまとめて設定
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @param {EqualizerSettings} settings - イコライザーの設定
+   * @throws {Error} 無効なチャンネル識別子の場合、または設定に失敗した場合
+   */
+  public setEqualizerSettings(channelId: ChannelId, settings: EqualizerSettings): void {
+    const equalizer = this.getEffect(channelId, 'equalizer') as Equalizer;
+    try {
+      equalizer.setSettings(settings);
+      this.equalizerSettings.set(channelId, copyEqualizerSettings(settings));
+    } catch (error) {
+      throw new Error(`イコライザーの設定に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * イコライザーの設定を取得
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @returns {EqualizerSettings} イコライザーの設定のコピー
+   * @throws {Error} 無効なチャンネル識別子の場合
+   */
+  public getEqualizerSettings(channelId: ChannelId): EqualizerSettings {
+    const settings = this.equalizerSettings.get(channelId);
+    if (!settings) {
+      throw new Error(`無効なチャンネル識別子です: ${channelId}`);
+    }
+    return copyEqualizerSettings(settings);
+  }
+
+  /**
+   * イコライザーの周波数特性のカーブを取得
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @returns {number[]} EQUALIZER_RESPONSE_FREQUENCIESの各周波数のゲイン（dB）
+   * @throws {Error} 無効なチャンネル識別子の場合
+   */
+  public getEqualizerResponse(channelId: ChannelId): number[] {
+    const equalizer = this.getEffect(channelId, 'equalizer') as Equalizer;
+    return Array.from(equalizer.getFrequencyResponse(EQUALIZER_RESPONSE_FREQUENCIES));
+  }
+
+  /**
+   * マスターのコンプレッサーのパラメータを設定
+   * @param {CompressorParameter} param - パラメータ名
+   * @param {number} value - 設定する値（0.0から1.0の範囲）
+   * @throws {Error} 設定に失敗した場合
+   */
+  public setCompressorParameter(param: CompressorParameter, value: number): void {
+    const compressor = this.getEffect(MASTER_CHANNEL_ID, 'compressor') as Compressor;
+    try {
+      compressor.setParameter(param, value);
+      (this.compressorSettings.get(MASTER_CHANNEL_ID) as CompressorSettings)[param] = value;
+    } catch (error) {
+      throw new Error(`コンプレッサーのパラメータの設定に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * マスターのコンプレッサーの全パラメータをまとめて設定
+   * @param {CompressorSettings} settings - コンプレッサーの設定
+   * @throws {Error} 設定に失敗した場合
+   */
+  public setCompressorSettings(settings: CompressorSettings): void {
+    const compressor = this.getEffect(MASTER_CHANNEL_ID, 'compressor') as Compressor;
+    try {
+      compressor.setSettings(settings);
+      this.compressorSettings.set(MASTER_CHANNEL_ID, { ...settings });
+    } catch (error) {
+      throw new Error(`コンプレッサーの設定に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * マスターのコンプレッサーの設定を取得
+   * @returns {CompressorSettings} コンプレッサーの設定のコピー
+   */
+  public getCompressorSettings(): CompressorSettings {
+    return { ...(this.compressorSettings.get(MASTER_CHANNEL_ID) as CompressorSettings) };
+  }
+
+  /**
+   * マスターのリミッターのパラメータを設定
+   * @param {LimiterParameter} param - パラメータ名
+   * @param {number} value - 設定する値（0.0から1.0の範囲）
+   * @throws {Error} 設定に失敗した場合
+   */
+  public setLimiterParameter(param: LimiterParameter, value: number): void {
+    const limiter = this.getEffect(MASTER_CHANNEL_ID, 'limiter') as Limiter;
+    try {
+      limiter.setParameter(param, value);
+      (this.limiterSettings.get(MASTER_CHANNEL_ID) as LimiterSettings)[param] = value;
+    } catch (error) {
+      throw new Error(`リミッターのパラメータの設定に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * マスターのリミッターの全パラメータをまとめて設定
+   * @param {LimiterSettings} settings - リミッターの設定
+   * @throws {Error} 設定に失敗した場合
+   */
+  public setLimiterSettings(settings: LimiterSettings): void {
+    const limiter = this.getEffect(MASTER_CHANNEL_ID, 'limiter') as Limiter;
+    try {
+      limiter.setSettings(settings);
+      this.limiterSettings.set(MASTER_CHANNEL_ID, { ...settings });
+    } catch (error) {
+      throw new Error(`リミッターの設定に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * マスターのリミッターの設定を取得
+   * @returns {LimiterSettings} リミッターの設定のコピー
+   */
+  public getLimiterSettings(): LimiterSettings {
+    return { ...(this.limiterSettings.get(MASTER_CHANNEL_ID) as LimiterSettings) };
+  }
+
+  /**
+   * マスターのコンプレッサーまたはリミッターのゲインリダクションを取得
+   * @param {MasterEffectType} effectType - エフェクトタイプ
+   * @returns {number} ゲインリダクション（dB、0以下、バイパス中は0）
+   */
+  public getGainReduction(effectType: MasterEffectType): number {
+    return (this.getEffect(MASTER_CHANNEL_ID, effectType) as Compressor | Limiter).getReduction();
+  }
+
+  /**
+   * ディレイのテンポ同期に使用するテンポを全チャンネルに設定
+   * ディレイのないチャンネル（レジストリにディレイを登録していない場合など）はテンポだけを保持する
+   * @param {number} tempo - テンポ（BPM、DELAY_MIN_TEMPOからDELAY_MAX_TEMPO）
+   * @throws {Error} 範囲外のテンポの場合
+   */
+  public setTempo(tempo: number): void {
+    try {
+      if (!(tempo >= DELAY_MIN_TEMPO && tempo <= DELAY_MAX_TEMPO)) {
+        throw new Error(`テンポは${DELAY_MIN_TEMPO}から${DELAY_MAX_TEMPO}の範囲で指定してください: ${tempo}`);
+      }
+      this.effects.forEach(channelEffects => {
+        const delay = channelEffects.get('delay') as Delay | undefined;
+        delay?.setTempo(tempo);
+      });
+      this.tempo = tempo;
+    } catch (error) {
+      throw new Error(`テンポの設定に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * ディレイのテンポ同期に使用するテンポを取得
+   * @returns {number} テンポ（BPM）
+   */
+  public getTempo(): number {
+    return this.tempo;
+  }
+
+  /**
+   * エフェクトの残響（リバーブの残響、ディレイのフィードバック）が鳴り終わるまでの時間を取得
+   * チャンネルの残響はマスターのエフェクトを通るため、チャンネルの最大値にマスターの残響を加える
+   * @returns {number} 残響の長さ（秒、残響のあるエフェクトが有効でない場合は0）
+   */
+  public getTailSeconds(): number {
+    let channelTail = 0;
+    let masterTail = 0;
+    this.effects.forEach((channelEffects, channelId) => {
+      // チェーン内のエフェクトは直列に接続されるため、残響の長さを合計する
+      let tail = 0;
+      channelEffects.forEach(effect => {
+        tail += effect.getTailSeconds();
+      });
+      if (channelId === MASTER_CHANNEL_ID) {
+        masterTail = tail;
+      } else {
+        channelTail = Math.max(channelTail, tail);
+      }
+    });
+    return channelTail + masterTail;
+  }
+
+  /**
+   * 現在のエフェクトの値を引き継いだEffectsManagerを別のコンテキスト上に作成
+   * オフラインレンダリングで再生時と同じエフェクト設定を再現するために使用
+   * 各エフェクトの値と設定はgetStateとsetStateで引き継ぐため、レジストリに登録したどの種類のエフェクトにも対応する
+   * @param {BaseAudioContext} context - 複製先の音声コンテキスト
+   * @returns {EffectsManager} 同じエフェクト値を持つ新しいEffectsManager
+   * @throws {Error} 複製に失敗した場合
+   */
+  public cloneFor(context: BaseAudioContext): EffectsManager {
+    const clone = new EffectsManager(context, this.registry);
+    try {
+      // チャンネル構成を揃える
+      clone.getChannelIds()
+        .filter(channelId => !this.effects.has(channelId))
+        .forEach(channelId => clone.removeChannel(channelId));
+      this.getChannelIds()
+        .filter(channelId => !clone.effects.has(channelId))
+        .forEach(channelId => clone.addChannel(channelId));
+
+      // 実行中に追加したエフェクトを揃える
+      this.effects.forEach((channelEffects, channelId) => {
+        const cloneEffects = clone.effects.get(channelId) as Map<EffectType, BaseEffect>;
+        Array.from(channelEffects.keys())
+          .filter(effectType => !cloneEffects.has(effectType))
+          .forEach(effectType => clone.addEffect(channelId, effectType));
+      });
+
+      // オフラインレンダリングでは設定をレンダリングの先頭から反映させるため、パラメータを即座に切り替える
+      clone.effects.forEach(channelEffects => {
+        channelEffects.forEach(effect => effect.setParameterRamp({ type: 'instant' }));
+      });
+
+      // テンポと各エフェクトの値と設定を引き継ぐ
+      clone.setState(this.getState());
+    } catch (error) {
+      clone.dispose();
+      throw new Error(`エフェクトの複製に失敗しました: ${(error as Error).message}`);
+    }
+    return clone;
+  }
+
+  /**
+   * 全チャンネルのエフェクトの状態を取得
+   * @returns {EffectsManagerState} JSONに変換できるエフェクトの状態
+   */
+  public getState(): EffectsManagerState {
+    return {
+      version: EFFECT_STATE_VERSION,
+      tempo: this.tempo,
+      channels: this.getChannelIds().map(channelId => ({
+        channelId,
+        effects: Array.from((this.effects.get(channelId) as Map<EffectType, BaseEffect>).entries())
+          .map(([type, effect]) => ({ type, state: effect.getState() }))
+      }))
+    };
+  }
+
+  /**
+   * 保存した状態を復元
+   * チャンネル構成を状態に揃え、状態に含まれるエフェクトがない場合は追加してから、各エフェクトの値と設定を反映する
+   * 状態に含まれないエフェクトは現在の値と設定のまま残す
+   * @param {EffectsManagerState} state - getStateで取得した状態
+   * @throws {Error} 状態のバージョンが無効な場合、マスターのチャンネルが含まれない場合、または復元に失敗した場合
+   */
+  public setState(state: EffectsManagerState): void {
+    if (!state || !Array.isArray(state.channels)) {
+      throw new Error('エフェクトの状態が指定されていません');
+    }
+    validateEffectStateVersion(state.version);
+    const channelIds = state.channels.map(channel => channel.channelId);
+    if (!channelIds.includes(MASTER_CHANNEL_ID)) {
+      throw new Error('エフェクトの状態にマスターのチャンネルが含まれていません');
+    }
+
+    try {
+      // チャンネル構成を揃える
+      this.getChannelIds()
+        .filter(channelId => !channelIds.includes(channelId))
+        .forEach(channelId => this.removeChannel(channelId));
+      channelIds
+        .filter(channelId => !this.effects.has(channelId))
+        .forEach(channelId => this.addChannel(channelId));
+
+      this.setTempo(state.tempo);
+      state.channels.forEach(channel => {
+        const channelEffects = this.effects.get(channel.channelId) as Map<EffectType, BaseEffect>;
+        channel.effects.forEach(({ type, state: effectState }) => {
+          const effect = channelEffects.get(type) ?? this.addEffect(channel.channelId, type);
+          effect.setState(effectState);
+          this.storeEffectState(channel.channelId, type, effect.getState());
+        });
+      });
+    } catch (error) {
+      throw new Error(`エフェクトの状態の復元に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * 復元したエフェクトの値と設定を、チャンネルごとの値と設定に保存
+   * @param {ChannelId} channelId - チャンネル識別子
+   * @param {EffectType} effectType - エフェクトタイプ
+   * @param {EffectState} state - 復元後のエフェクトの状態
+   */
+  private storeEffectState(channelId: ChannelId, effectType: EffectType, state: EffectState): void {
+    (this.effectValues.get(channelId) as Map<EffectType, number>).set(effectType, state.value);
+    switch (effectType) {
+      case 'filter':
+        this.filterSettings.set(channelId, { ...(state.settings as FilterSettings) });
+        break;
+      case 'reverb':
+        this.reverbSettings.set(channelId, { ...(state.settings as ReverbSettings) });
+        break;
+      case 'delay':
+        this.delaySettings.set(channelId, { ...(state.settings as DelaySettings) });
+        break;
+      case 'distortion':
+        this.distortionSettings.set(channelId, { ...(state.settings as DistortionSettings) });
+        break;
+      case 'equalizer':
+        this.equalizerSettings.set(channelId, copyEqualizerSettings(state.settings as EqualizerSettings));
+        break;
+      case 'compressor':
+        this.compressorSettings.set(channelId, { ...(state.settings as CompressorSettings) });
+        break;
+      case 'limiter':
+        this.limiterSettings.set(channelId, { ...(state.settings as LimiterSettings) });
+        break;
+    }
+  }
+
   /**
    * チャンネル識別子の検証
    * @param {ChannelId} channelId - 検証するチャンネル識別子
    * @returns {boolean} 有効な場合はtrue
    */
   private isValidChannelId(channelId: ChannelId): boolean {
-    return Object.values(this.channelIds).includes(channelId);
+    return this.effects.has(channelId);
   }
 
   /**
@@ -171,5 +1096,12 @@ export class EffectsManager {
     });
     this.effects.clear();
     this.effectValues.clear();
+    this.filterSettings.clear();
+    this.reverbSettings.clear();
+    this.delaySettings.clear();
+    this.distortionSettings.clear();
+    this.equalizerSettings.clear();
+    this.compressorSettings.clear();
+    this.limiterSettings.clear();
   }
 } 
\ No newline at end of file
@@ -0,0 +1,112 @@
+/**
+ * @file LevelMeter.ts
+ * @brief AnalyserNodeを使用して音声信号のレベルを計測するクラス
+ * @details
+ * - 計測対象のノードの出力を分岐して接続し、信号経路には影響を与えない
+ * - ChannelSplitterNodeでチャンネルごとに分けて、チャンネルごとのAnalyserNodeで計測
+ *   （1つのAnalyserNodeではモノラルにダウンミックスされ、逆相の成分が打ち消し合うため）
+ * - 直近の波形からピーク値とRMS値をdBFSで計算（ピークは全チャンネルの最大値、RMSはチャンネルごと）
+ * @limitations
+ * - ピークはサンプル値の最大値（サンプルピーク）で、インターサンプルピークは考慮しない
+ * - 計測結果はMETER_MIN_DB未満を切り捨てる
+ */
+
+import { METER_CHANNEL_COUNT, METER_FFT_SIZE, METER_MIN_DB } from './audioConstants';
+
+/**
+ * 計測したレベル（dBFS）
+ */
+export interface MeterLevel {
+  peak: number;          // 全チャンネルのピークの最大値
+  rms: number;           // チャンネルごとのRMSの最大値
+  channelRms: number[];  // チャンネルごとのRMS
+}
+
+/**
+ * 無音時のレベル
+ */
+export const SILENT_LEVEL: MeterLevel = {
+  peak: METER_MIN_DB,
+  rms: METER_MIN_DB,
+  channelRms: new Array(METER_CHANNEL_COUNT).fill(METER_MIN_DB)
+};
+
+export class LevelMeter {
+  private splitter: ChannelSplitterNode;
+  private analysers: AnalyserNode[];  // チャンネルごとのAnalyserNode
+  private samples: Float32Array;
+
+  /**
+   * LevelMeterのコンストラクタ
+   * @param {BaseAudioContext} context - 音声コンテキスト
+   * @throws {Error} ChannelSplitterNodeまたはAnalyserNodeの作成に失敗した場合
+   */
+  constructor(context: BaseAudioContext) {
+    try {
+      this.splitter = context.createChannelSplitter(METER_CHANNEL_COUNT);
+      this.analysers = Array.from({ length: METER_CHANNEL_COUNT }, (_, channel) => {
+        const analyser = context.createAnalyser();
+        analyser.fftSize = METER_FFT_SIZE;
+        this.splitter.connect(analyser, channel);
+        return analyser;
+      });
+      this.samples = new Float32Array(METER_FFT_SIZE);
+    } catch (error) {
+      throw new Error(`レベルメーターの作成に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * 計測用の入力ノードを取得
+   * 計測したいノードの出力をこのノードに接続する
+   * @returns {AudioNode} 入力ノード
+   */
+  public getInput(): AudioNode {
+    return this.splitter;
+  }
+
+  /**
+   * 現在のレベルを計測
+   * @returns {MeterLevel} ピークとRMSのレベル（dBFS、METER_MIN_DBから）
+   */
+  public getLevel(): MeterLevel {
+    let peak = 0;
+    const channelRms = this.analysers.map(analyser => {
+      analyser.getFloatTimeDomainData(this.samples);
+
+      let sumOfSquares = 0;
+      for (let i = 0; i < this.samples.length; i++) {
+        const sample = this.samples[i];
+        peak = Math.max(peak, Math.abs(sample));
+        sumOfSquares += sample * sample;
+      }
+      return Math.sqrt(sumOfSquares / this.samples.length);
+    });
+
+    return {
+      peak: this.toDecibels(peak),
+      rms: this.toDecibels(Math.max(...channelRms)),
+      channelRms: channelRms.map(rms => this.toDecibels(rms))
+    };
+  }
+
+  /**
+   * 振幅をdBFSに変換
+   * @param {number} amplitude - 振幅（1.0が0dBFS）
+   * @returns {number} dBFS（METER_MIN_DB未満はMETER_MIN_DB）
+   */
+  private toDecibels(amplitude: number): number {
+    if (amplitude <= 0) {
+      return METER_MIN_DB;
+    }
+    return Math.max(METER_MIN_DB, 20 * Math.log10(amplitude));
+  }
+
+  /**
+   * リソースの解放
+   */
+  public dispose(): void {
+    this.splitter.disconnect();
+    this.analysers.forEach(analyser => analyser.disconnect());
+  }
+}
\ No newline at end of file
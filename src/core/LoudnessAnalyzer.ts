@@ -0,0 +1,308 @@
+/**
+ * @file LoudnessAnalyzer.ts
+ * @brief ITU-R BS.1770 / EBU R128に基づくラウドネスの測定クラス
+ * @details
+ * - K特性フィルター（シェルビング + ハイパス）を通した信号から平均パワーを計算
+ * - インテグレーテッドラウドネス（400msブロック、絶対ゲート-70LUFS、相対ゲート-10LU）
+ * - ショートターム（3秒）ラウドネスの最大値
+ * - ラウドネスレンジ（EBU Tech 3342、相対ゲート-20LU、10〜95パーセンタイル）
+ * - トゥルーピーク（オーバーサンプリングによるインターサンプルピークの推定）
+ * - 指定したラウドネスに合わせるためのゲインの適用（トゥルーピークの上限を指定した場合は上限を超えない範囲で適用）
+ * @limitations
+ * - チャンネルの重み付けはL/R/C（1.0）のみ対応し、サラウンドチャンネルは考慮しない
+ * - トゥルーピークは窓関数付きsinc補間による推定値で、規格の参照フィルターとは若干異なる
+ * - 400msに満たない音声はインテグレーテッドラウドネスを測定できない（-Infinityを返す）
+ */
+
+import {
+  LOUDNESS_BLOCK_STEP_SECONDS,
+  LOUDNESS_MOMENTARY_SECONDS,
+  LOUDNESS_SHORT_TERM_SECONDS,
+  LOUDNESS_ABSOLUTE_GATE_LUFS,
+  LOUDNESS_RELATIVE_GATE_LU,
+  LOUDNESS_RANGE_RELATIVE_GATE_LU
+} from './audioConstants';
+
+/**
+ * ラウドネスの測定結果
+ */
+export interface LoudnessMeasurement {
+  integrated: number;      // インテグレーテッドラウドネス（LUFS）
+  shortTermMax: number;    // ショートタームラウドネスの最大値（LUFS）
+  loudnessRange: number;   // ラウドネスレンジ（LU）
+  truePeak: number;        // トゥルーピーク（dBTP）
+}
+
+/**
+ * 双2次フィルターの係数（a0で正規化済み）
+ */
+interface BiquadCoefficients {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+// トゥルーピークの補間フィルターの片側のタップ数
+const TRUE_PEAK_HALF_TAPS = 12;
+
+export class LoudnessAnalyzer {
+  /**
+   * 音声データのラウドネスを測定
+   * @param {AudioBuffer} buffer - 測定する音声データ
+   * @returns {LoudnessMeasurement} 測定結果
+   * @throws {Error} チャンネルのない音声データの場合
+   */
+  public measure(buffer: AudioBuffer): LoudnessMeasurement {
+    if (buffer.numberOfChannels < 1) {
+      throw new Error('チャンネルのない音声データは測定できません');
+    }
+
+    const stepPowers = this.getStepPowers(buffer);
+    const momentaryBlocks = this.getBlockPowers(stepPowers, LOUDNESS_MOMENTARY_SECONDS);
+    const shortTermBlocks = this.getBlockPowers(stepPowers, LOUDNESS_SHORT_TERM_SECONDS);
+
+    return {
+      integrated: this.getIntegratedLoudness(momentaryBlocks),
+      shortTermMax: shortTermBlocks.length > 0
+        ? this.toLoudness(Math.max(...shortTermBlocks))
+        : -Infinity,
+      loudnessRange: this.getLoudnessRange(shortTermBlocks),
+      truePeak: this.getTruePeak(buffer)
+    };
+  }
+
+  /**
+   * 音声データに目標のラウドネスに合わせるゲインを適用
+   * 音声データを直接書き換える
+   * @param {AudioBuffer} buffer - ゲインを適用する音声データ
+   * @param {number} targetLufs - 目標のラウドネス（LUFS）
+   * @param {LoudnessMeasurement} measurement - 音声データの測定結果（省略時は測定する）
+   * @param {number} maxTruePeakDb - ゲイン適用後のトゥルーピークの上限（dBTP、省略時は制限しない）
+   * @returns {number} 適用したゲイン（dB、上限を超える場合は目標のラウドネスに届かない）
+   * @throws {Error} 無音などでラウドネスが測定できない場合
+   */
+  public normalize(
+    buffer: AudioBuffer,
+    targetLufs: number,
+    measurement: LoudnessMeasurement = this.measure(buffer),
+    maxTruePeakDb = Infinity
+  ): number {
+    if (!Number.isFinite(measurement.integrated)) {
+      throw new Error('ラウドネスが測定できないため、ノーマライズできません');
+    }
+
+    const gainDb = Math.min(targetLufs - measurement.integrated, maxTruePeakDb - measurement.truePeak);
+    const gain = Math.pow(10, gainDb / 20);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel);
+      for (let i = 0; i < data.length; i++) {
+        data[i] *= gain;
+      }
+    }
+    return gainDb;
+  }
+
+  /**
+   * K特性フィルターを通した信号の平均二乗を、ブロックの間隔（100ms）ごとに計算
+   * 各ブロックはこの値を連続する区間で平均して求める
+   * @param {AudioBuffer} buffer - 音声データ
+   * @returns {number[]} 間隔ごとのチャンネルの重み付き平均二乗の合計
+   */
+  private getStepPowers(buffer: AudioBuffer): number[] {
+    const stepLength = Math.round(buffer.sampleRate * LOUDNESS_BLOCK_STEP_SECONDS);
+    const stepCount = Math.floor(buffer.length / stepLength);
+    const stepPowers = new Array<number>(stepCount).fill(0);
+    const [shelf, highPass] = this.getKWeightingCoefficients(buffer.sampleRate);
+
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const weighted = this.applyBiquad(this.applyBiquad(buffer.getChannelData(channel), shelf), highPass);
+      for (let step = 0; step < stepCount; step++) {
+        let sumOfSquares = 0;
+        for (let i = step * stepLength; i < (step + 1) * stepLength; i++) {
+          sumOfSquares += weighted[i] * weighted[i];
+        }
+        // L/R/Cの重みは1.0
+        stepPowers[step] += sumOfSquares / stepLength;
+      }
+    }
+    return stepPowers;
+  }
+
+  /**
+   * 間隔ごとの平均二乗から、指定した長さのブロックの平均二乗を計算
+   * @param {number[]} stepPowers - 間隔ごとの平均二乗
+   * @param {number} blockSeconds - ブロックの長さ（秒）
+   * @returns {number[]} ブロックごとの平均二乗（ブロックの間隔で重なり合う）
+   */
+  private getBlockPowers(stepPowers: number[], blockSeconds: number): number[] {
+    const stepsPerBlock = Math.round(blockSeconds / LOUDNESS_BLOCK_STEP_SECONDS);
+    const blockPowers: number[] = [];
+    for (let start = 0; start + stepsPerBlock <= stepPowers.length; start++) {
+      let sum = 0;
+      for (let step = start; step < start + stepsPerBlock; step++) {
+        sum += stepPowers[step];
+      }
+      blockPowers.push(sum / stepsPerBlock);
+    }
+    return blockPowers;
+  }
+
+  /**
+   * ゲーティングしたブロックからインテグレーテッドラウドネスを計算
+   * @param {number[]} blockPowers - 400msブロックの平均二乗
+   * @returns {number} インテグレーテッドラウドネス（LUFS）
+   */
+  private getIntegratedLoudness(blockPowers: number[]): number {
+    const absoluteGated = blockPowers.filter(power => this.toLoudness(power) > LOUDNESS_ABSOLUTE_GATE_LUFS);
+    if (absoluteGated.length === 0) {
+      return -Infinity;
+    }
+    const relativeGate = this.toLoudness(this.mean(absoluteGated)) + LOUDNESS_RELATIVE_GATE_LU;
+    const relativeGated = absoluteGated.filter(power => this.toLoudness(power) > relativeGate);
+    return this.toLoudness(this.mean(relativeGated));
+  }
+
+  /**
+   * ショートタームラウドネスの分布からラウドネスレンジを計算
+   * @param {number[]} blockPowers - 3秒ブロックの平均二乗
+   * @returns {number} ラウドネスレンジ（LU）
+   */
+  private getLoudnessRange(blockPowers: number[]): number {
+    const absoluteGated = blockPowers.filter(power => this.toLoudness(power) > LOUDNESS_ABSOLUTE_GATE_LUFS);
+    if (absoluteGated.length === 0) {
+      return 0;
+    }
+    const relativeGate = this.toLoudness(this.mean(absoluteGated)) + LOUDNESS_RANGE_RELATIVE_GATE_LU;
+    const loudnesses = absoluteGated
+      .map(power => this.toLoudness(power))
+      .filter(loudness => loudness > relativeGate)
+      .sort((a, b) => a - b);
+
+    const percentile = (ratio: number): number => {
+      return loudnesses[Math.min(loudnesses.length - 1, Math.round(ratio * (loudnesses.length - 1)))];
+    };
+    return percentile(0.95) - percentile(0.1);
+  }
+
+  /**
+   * オーバーサンプリングしてトゥルーピークを計算
+   * サンプルレートが96kHz未満は4倍、192kHz未満は2倍でオーバーサンプリングする
+   * @param {AudioBuffer} buffer - 音声データ
+   * @returns {number} トゥルーピーク（dBTP）
+   */
+  private getTruePeak(buffer: AudioBuffer): number {
+    const factor = buffer.sampleRate < 96000 ? 4 : buffer.sampleRate < 192000 ? 2 : 1;
+
+    // 補間する位相ごとの窓関数付きsincフィルター
+    const phaseFilters: number[][] = [];
+    for (let phase = 1; phase < factor; phase++) {
+      const offset = phase / factor;
+      const taps: number[] = [];
+      for (let k = -TRUE_PEAK_HALF_TAPS + 1; k <= TRUE_PEAK_HALF_TAPS; k++) {
+        const x = k - offset;
+        const sinc = Math.sin(Math.PI * x) / (Math.PI * x);
+        const window = 0.5 + 0.5 * Math.cos(Math.PI * x / TRUE_PEAK_HALF_TAPS);
+        taps.push(sinc * window);
+      }
+      const sum = taps.reduce((total, tap) => total + tap, 0);
+      phaseFilters.push(taps.map(tap => tap / sum));
+    }
+
+    let peak = 0;
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel);
+      for (let i = 0; i < data.length; i++) {
+        peak = Math.max(peak, Math.abs(data[i]));
+        // サンプルiとi+1の間を補間
+        phaseFilters.forEach(taps => {
+          let value = 0;
+          for (let t = 0; t < taps.length; t++) {
+            const index = i + t - TRUE_PEAK_HALF_TAPS + 1;
+            if (index >= 0 && index < data.length) {
+              value += data[index] * taps[t];
+            }
+          }
+          peak = Math.max(peak, Math.abs(value));
+        });
+      }
+    }
+    return peak > 0 ? 20 * Math.log10(peak) : -Infinity;
+  }
+
+  /**
+   * サンプルレートに合わせたK特性フィルターの係数を計算
+   * @param {number} sampleRate - サンプルレート（Hz）
+   * @returns {BiquadCoefficients[]} [シェルビングフィルター, ハイパスフィルター]の係数
+   */
+  private getKWeightingCoefficients(sampleRate: number): BiquadCoefficients[] {
+    // 第1段: 頭部の影響を模したハイシェルフ（約+4dB）
+    let f0 = 1681.974450955533;
+    let q = 0.7071752369554196;
+    const gainDb = 3.999843853973347;
+    let k = Math.tan(Math.PI * f0 / sampleRate);
+    const vh = Math.pow(10, gainDb / 20);
+    const vb = Math.pow(vh, 0.4996667741545416);
+    let a0 = 1 + k / q + k * k;
+    const shelf: BiquadCoefficients = {
+      b0: (vh + vb * k / q + k * k) / a0,
+      b1: 2 * (k * k - vh) / a0,
+      b2: (vh - vb * k / q + k * k) / a0,
+      a1: 2 * (k * k - 1) / a0,
+      a2: (1 - k / q + k * k) / a0
+    };
+
+    // 第2段: RLB特性のハイパス
+    f0 = 38.13547087602444;
+    q = 0.5003270373238773;
+    k = Math.tan(Math.PI * f0 / sampleRate);
+    a0 = 1 + k / q + k * k;
+    const highPass: BiquadCoefficients = {
+      b0: 1,
+      b1: -2,
+      b2: 1,
+      a1: 2 * (k * k - 1) / a0,
+      a2: (1 - k / q + k * k) / a0
+    };
+
+    return [shelf, highPass];
+  }
+
+  /**
+   * 双2次フィルターを適用
+   * @param {Float32Array} input - 入力信号
+   * @param {BiquadCoefficients} c - フィルターの係数
+   * @returns {Float32Array} フィルター後の信号
+   */
+  private applyBiquad(input: Float32Array, c: BiquadCoefficients): Float32Array {
+    const output = new Float32Array(input.length);
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+    for (let i = 0; i < input.length; i++) {
+      const x0 = input[i];
+      const y0 = c.b0 * x0 + c.b1 * x1 + c.b2 * x2 - c.a1 * y1 - c.a2 * y2;
+      output[i] = y0;
+      x2 = x1; x1 = x0;
+      y2 = y1; y1 = y0;
+    }
+    return output;
+  }
+
+  /**
+   * 平均二乗をラウドネスに変換
+   * @param {number} power - チャンネルの重み付き平均二乗の合計
+   * @returns {number} ラウドネス（LUFS）
+   */
+  private toLoudness(power: number): number {
+    return power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+  }
+
+  /**
+   * 平均を計算
+   * @param {number[]} values - 値の配列
+   * @returns {number} 平均
+   */
+  private mean(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  }
+}
\ No newline at end of file
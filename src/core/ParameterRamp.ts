@@ -0,0 +1,107 @@
+/**
+ * @file ParameterRamp.ts
+ * @brief AudioParamの値を滑らかに変化させるスケジュール
+ * @details
+ * - 値を直接代入すると再生中のノブの操作でジッパーノイズやクリックが出るため、AudioParamのオートメーションで変化させる
+ * - 変化のカーブ（即時、直線、指数、setTargetAtTime）と変化にかける時間を指定
+ * - 音声コンテキストの時刻を指定して、将来の変化を予約（オートメーションやモジュレーションで使用）
+ * @limitations
+ * - 開始時刻以降に予約済みの変化は取り消して置き換える
+ * - 開始時刻が現在の時刻より前の場合は、現在の時刻から変化を始める
+ * - 直線と指数のカーブは、予約した時点のAudioParamの値から変化を始める
+ * - 指数のカーブは0以下の値との間では使用できない（AudioParamの仕様）
+ */
+
+import { PARAMETER_RAMP_SECONDS } from './audioConstants';
+
+/**
+ * パラメータの変化のカーブ
+ * - instant: 開始時刻に即座に切り替える
+ * - linear: 直線的に変化させる（linearRampToValueAtTime）
+ * - exponential: 指数的に変化させる（exponentialRampToValueAtTime、周波数や音量に自然な変化）
+ * - target: 目標値に漸近させる（setTargetAtTime、timeは時定数）
+ */
+export type ParameterRampType = 'instant' | 'linear' | 'exponential' | 'target';
+
+export const PARAMETER_RAMP_TYPES: readonly ParameterRampType[] = ['instant', 'linear', 'exponential', 'target'];
+
+/**
+ * パラメータの変化のオプション
+ * - type: 変化のカーブ
+ * - time: 変化にかける時間（秒、targetの場合は時定数）
+ * - startTime: 変化を始める音声コンテキストの時刻（秒、省略時は現在の時刻）
+ */
+export interface ParameterRampOptions {
+  type?: ParameterRampType;
+  time?: number;
+  startTime?: number;
+}
+
+/**
+ * パラメータの変化のカーブと時間のデフォルト
+ */
+export const DEFAULT_PARAMETER_RAMP: Required<Omit<ParameterRampOptions, 'startTime'>> = {
+  type: 'target',
+  time: PARAMETER_RAMP_SECONDS
+};
+
+/**
+ * パラメータの変化のオプションを検証
+ * @param {ParameterRampOptions} options - 変化のオプション
+ * @throws {Error} カーブの種類、時間、開始時刻が無効な場合
+ */
+export const validateParameterRamp = (options: ParameterRampOptions): void => {
+  if (options.type !== undefined && !PARAMETER_RAMP_TYPES.includes(options.type)) {
+    throw new Error(`無効な変化のカーブです: ${options.type}`);
+  }
+  if (options.time !== undefined && (!Number.isFinite(options.time) || options.time < 0)) {
+    throw new Error('変化にかける時間は0以上の秒数で指定してください');
+  }
+  if (options.startTime !== undefined && (!Number.isFinite(options.startTime) || options.startTime < 0)) {
+    throw new Error('変化を始める時刻は0以上の秒数で指定してください');
+  }
+};
+
+/**
+ * AudioParamの値の変化を予約
+ * @param {AudioParam} param - 変化させるAudioParam
+ * @param {number} value - 目標値
+ * @param {number} currentTime - 音声コンテキストの現在の時刻（秒）
+ * @param {ParameterRampOptions} options - 変化のオプション（省略した項目はDEFAULT_PARAMETER_RAMP）
+ * @throws {Error} 目標値またはオプションが無効な場合
+ */
+export const scheduleParameterRamp = (
+  param: AudioParam,
+  value: number,
+  currentTime: number,
+  options: ParameterRampOptions = {}
+): void => {
+  validateParameterRamp(options);
+  if (!Number.isFinite(value)) {
+    throw new Error(`無効なパラメータの値です: ${value}`);
+  }
+  const type = options.type ?? DEFAULT_PARAMETER_RAMP.type;
+  const time = options.time ?? DEFAULT_PARAMETER_RAMP.time;
+  const startTime = Math.max(options.startTime ?? currentTime, currentTime);
+  const startValue = param.value;
+  if (type === 'exponential' && (value <= 0 || startValue <= 0)) {
+    throw new Error('指数のカーブは0より大きい値の間でのみ使用できます');
+  }
+
+  param.cancelScheduledValues(startTime);
+  if (type === 'instant' || time === 0) {
+    param.setValueAtTime(value, startTime);
+    return;
+  }
+  if (type === 'target') {
+    param.setTargetAtTime(value, startTime, time);
+    return;
+  }
+  // 直線と指数のカーブは直前のイベントから変化するため、開始時刻に始点を置く
+  param.setValueAtTime(startValue, startTime);
+  if (type === 'linear') {
+    param.linearRampToValueAtTime(value, startTime + time);
+  } else {
+    param.exponentialRampToValueAtTime(value, startTime + time);
+  }
+};
@@ -2,23 +2,175 @@
  * @file PlaybackSettingManager.ts
  * @brief 再生設定を管理するクラス
  * @details
- * - 音量、タイミング、ピッチなどの再生設定を一元管理
+ * - 音量、タイミング、ピッチ、ピッチモード、エンベロープ（ADSR）、トリム、リバースなどの再生設定を一元管理
  * - UIからの設定値の受け取りと、AudioEngineへの値の受け渡しを担当
- * - 各設定の値の範囲チェック（0.0から1.0の範囲）
+ * - 各設定の値の範囲チェック（0.0から1.0の範囲、トリムは開始位置が終了位置より前）
+ * - ピッチは半音単位（小数部はセント）で保持し、ノブの値（0.0から1.0）を可変幅（±半音）に対応させる
+ * - ピッチのスナップが有効なチャンネルでは、ノブの値を半音単位に丸める
+ * - タイミングはミリ秒単位のオフセット（負の値で前に、正の値で後ろにずらす）で保持し、ノブの値を±TIMING_MAX_OFFSET_MSに対応させる
  * - マスターチャンネル（0）と各チャンネルごとの設定管理
  * - 設定の保存と取得、デフォルト値の管理
  * - チャンネルごとの個別設定と、マスターチャンネルによる全体制御
+ * - チャンネルの追加・削除に合わせた設定の作成と破棄
+ * - JSONに変換できる全設定の状態の取得と復元（バージョン付き）
  */
 
-import { CHANNEL_IDS, ChannelId, VOLUME_DEFAULT, PITCH_DEFAULT_RATE } from './audioConstants';
+import {
+  DEFAULT_CHANNEL_IDS,
+  MASTER_CHANNEL_ID,
+  ChannelId,
+  VOLUME_DEFAULT,
+  SEMITONES_PER_OCTAVE,
+  CENTS_PER_SEMITONE,
+  PITCH_DEFAULT_SEMITONES,
+  PITCH_DEFAULT_RANGE_SEMITONES,
+  TIMING_MAX_OFFSET_MS,
+  ENVELOPE_DEFAULT_SUSTAIN,
+  TRIM_MIN_LENGTH
+} from './audioConstants';
 
-export type SettingType = 'volume' | 'timing' | 'pitch';
+/**
+ * エンベロープ（ADSR）の設定の種類
+ * - attack, decay, release: 0.0から1.0を0秒から各最大時間に対応させる
+ * - sustain: 音量に対する比率
+ */
+export type EnvelopeSettingType = 'attack' | 'decay' | 'sustain' | 'release';
+
+/**
+ * トリムの設定の種類
+ * サンプルの長さに対する比率（0.0が先頭、1.0が末尾）で再生する範囲を指定する
+ */
+export type TrimSettingType = 'trimStart' | 'trimEnd';
+
+/**
+ * 設定の種類
+ * pitchはノブの値（0.0から1.0、0.5が元の高さ）で扱う。半音単位の値はsetPitch/getPitchで扱う
+ * timingはノブの値（0.0から1.0、0.5がオフセットなし）で扱う。ミリ秒単位の値はsetTimingOffset/getTimingOffsetで扱う
+ */
+export type SettingType = 'volume' | 'timing' | 'pitch' | EnvelopeSettingType | TrimSettingType;
+
+/**
+ * ピッチの変え方
+ * - varispeed: 再生速度を変える（長さも変わる）
+ * - preserveLength: 時間伸縮で長さを保ったままピッチだけを変える
+ */
+export type PitchMode = 'varispeed' | 'preserveLength';
+
+/**
+ * 再生設定の状態の形式のバージョン（形式を変更した場合に上げる）
+ */
+export const PLAYBACK_SETTINGS_STATE_VERSION = 1;
+
+/**
+ * チャンネルの再生設定の状態
+ * - timingOffset: タイミングのオフセット（ミリ秒）
+ * - pitch: ピッチ（半音、小数部はセント）
+ * - その他はノブの値（0.0から1.0）と各設定の値
+ */
+export interface PlaybackChannelState {
+  channelId: ChannelId;
+  volume: number;
+  timingOffset: number;
+  pitch: number;
+  pitchSnap: boolean;
+  pitchMode: PitchMode;
+  envelope: { [type in EnvelopeSettingType]: number };
+  trim: { [type in TrimSettingType]: number };
+  reverse: boolean;
+}
+
+/**
+ * 再生設定の状態（JSONに変換できる形式）
+ * - version: 状態の形式のバージョン
+ * - masterVolume: マスターボリューム（0.0から1.0）
+ * - pitchRange: ピッチノブの可変幅（±半音）
+ * - channels: 各チャンネルの再生設定（マスターを含まない）
+ */
+export interface PlaybackSettingsState {
+  version: number;
+  masterVolume: number;
+  pitchRange: number;
+  channels: PlaybackChannelState[];
+}
+
+/**
+ * ピッチモードの一覧
+ */
+const PITCH_MODES: readonly PitchMode[] = ['varispeed', 'preserveLength'];
+
+/**
+ * エンベロープのデフォルト値（サンプルの開始から終了まで一定の音量で再生される）
+ */
+const ENVELOPE_DEFAULTS: { [type in EnvelopeSettingType]: number } = {
+  attack: 0.0,
+  decay: 0.0,
+  sustain: ENVELOPE_DEFAULT_SUSTAIN,
+  release: 0.0
+};
+
+/**
+ * トリムのデフォルト値（サンプル全体を再生する）
+ */
+const TRIM_DEFAULTS: { [type in TrimSettingType]: number } = {
+  trimStart: 0.0,
+  trimEnd: 1.0
+};
+
+/**
+ * ピッチ（半音）を再生速度に変換
+ * @param {number} semitones - ピッチ（半音、小数部はセント）
+ * @returns {number} 再生速度（12半音で2倍）
+ */
+export const semitonesToRate = (semitones: number): number => {
+  return Math.pow(2, semitones / SEMITONES_PER_OCTAVE);
+};
+
+/**
+ * ピッチ（半音）を表示用の文字列に変換
+ * @param {number} semitones - ピッチ（半音、小数部はセント）
+ * @returns {string} 表示用の文字列（例: "+7 st", "-3 st 25 ct", "+30 ct", "0 st"）
+ */
+export const formatPitch = (semitones: number): string => {
+  const totalCents = Math.round(semitones * CENTS_PER_SEMITONE);
+  if (totalCents === 0) {
+    return '0 st';
+  }
+  const sign = totalCents > 0 ? '+' : '-';
+  const wholeSemitones = Math.floor(Math.abs(totalCents) / CENTS_PER_SEMITONE);
+  const cents = Math.abs(totalCents) % CENTS_PER_SEMITONE;
+  if (cents === 0) {
+    return `${sign}${wholeSemitones} st`;
+  }
+  if (wholeSemitones === 0) {
+    return `${sign}${cents} ct`;
+  }
+  return `${sign}${wholeSemitones} st ${cents} ct`;
+};
+
+/**
+ * タイミングのオフセットを表示用の文字列に変換
+ * @param {number} milliseconds - オフセット（ミリ秒）
+ * @returns {string} 表示用の文字列（例: "+12.50 ms", "-0.10 ms", "0 ms"）
+ */
+export const formatTimingOffset = (milliseconds: number): string => {
+  const rounded = Math.round(milliseconds * 100) / 100;
+  if (rounded === 0) {
+    return '0 ms';
+  }
+  return `${rounded > 0 ? '+' : '-'}${Math.abs(rounded).toFixed(2)} ms`;
+};
 
 export class PlaybackSettingManager {
   // 設定値を保持するMap
-  private volumeSettings: Map<ChannelId | 0, number> = new Map();
-  private timingSettings: Map<ChannelId, number> = new Map();
-  private pitchSettings: Map<ChannelId, number> = new Map();
+  private volumeSettings: Map<ChannelId, number> = new Map();
+  private timingSettings: Map<ChannelId, number> = new Map();  // ミリ秒単位のオフセット
+  private pitchSettings: Map<ChannelId, number> = new Map();  // 半音単位（小数部はセント）
+  private pitchSnapSettings: Map<ChannelId, boolean> = new Map();
+  private pitchRange = PITCH_DEFAULT_RANGE_SEMITONES;  // ピッチノブの可変幅（±半音、全チャンネル共通）
+  private envelopeSettings: Map<ChannelId, Map<EnvelopeSettingType, number>> = new Map();
+  private trimSettings: Map<ChannelId, Map<TrimSettingType, number>> = new Map();
+  private reverseSettings: Map<ChannelId, boolean> = new Map();
+  private pitchModeSettings: Map<ChannelId, PitchMode> = new Map();
 
   /**
    * コンストラクタ
@@ -29,23 +181,79 @@ export class PlaybackSettingManager {
     this.volumeSettings.set(0, 1.0); // マスターボリュームのデフォルト値は1.0
 
     // 各チャンネルのデフォルト値を設定
-    CHANNEL_IDS.forEach(channelId => {
-      this.volumeSettings.set(channelId, VOLUME_DEFAULT);
-      this.timingSettings.set(channelId, 0.0);
-      this.pitchSettings.set(channelId, PITCH_DEFAULT_RATE);
-    });
+    DEFAULT_CHANNEL_IDS.forEach(channelId => this.addChannel(channelId));
+  }
+
+  /**
+   * チャンネルを追加し、デフォルトの設定値を作成
+   * @param {ChannelId} channelId - 追加するチャンネルID
+   * @throws {Error} マスターチャンネルを指定した場合
+   */
+  public addChannel(channelId: ChannelId): void {
+    if (channelId === MASTER_CHANNEL_ID) {
+      throw new Error('マスターチャンネルは追加できません');
+    }
+    this.resetChannel(channelId);
+  }
+
+  /**
+   * チャンネルを削除し、設定値を破棄
+   * @param {ChannelId} channelId - 削除するチャンネルID
+   * @throws {Error} マスターチャンネルを指定した場合
+   */
+  public removeChannel(channelId: ChannelId): void {
+    if (channelId === MASTER_CHANNEL_ID) {
+      throw new Error('マスターチャンネルは削除できません');
+    }
+    this.volumeSettings.delete(channelId);
+    this.timingSettings.delete(channelId);
+    this.pitchSettings.delete(channelId);
+    this.pitchSnapSettings.delete(channelId);
+    this.envelopeSettings.delete(channelId);
+    this.trimSettings.delete(channelId);
+    this.reverseSettings.delete(channelId);
+    this.pitchModeSettings.delete(channelId);
+  }
+
+  /**
+   * 設定を持つチャンネルIDの一覧を取得
+   * @returns {ChannelId[]} チャンネルIDの配列（マスターを含まない、昇順）
+   */
+  public getChannelIds(): ChannelId[] {
+    return Array.from(this.pitchSettings.keys()).sort((a, b) => a - b);
+  }
+
+  /**
+   * チャンネルの設定をデフォルト値にする
+   * @param {ChannelId} channelId - チャンネルID
+   */
+  private resetChannel(channelId: ChannelId): void {
+    this.volumeSettings.set(channelId, VOLUME_DEFAULT);
+    this.timingSettings.set(channelId, 0.0);
+    this.pitchSettings.set(channelId, PITCH_DEFAULT_SEMITONES);
+    this.pitchSnapSettings.set(channelId, true);
+    this.envelopeSettings.set(
+      channelId,
+      new Map(Object.entries(ENVELOPE_DEFAULTS) as [EnvelopeSettingType, number][])
+    );
+    this.trimSettings.set(
+      channelId,
+      new Map(Object.entries(TRIM_DEFAULTS) as [TrimSettingType, number][])
+    );
+    this.reverseSettings.set(channelId, false);
+    this.pitchModeSettings.set(channelId, 'varispeed');
   }
 
   /**
    * 設定値を保存
-   * @param {ChannelId | 0} channelId - チャンネルID（0はマスター）
+   * @param {ChannelId} channelId - チャンネルID（0はマスター）
    * @param {SettingType} type - 設定の種類
    * @param {number} value - 設定値（0.0から1.0の範囲）
    * @throws {Error} 無効な設定値の場合
    */
-  public setSetting(channelId: ChannelId | 0, type: SettingType, value: number): void {
+  public setSetting(channelId: ChannelId, type: SettingType, value: number): void {
     // 値の範囲チェック
-    if (value < 0.0 || value > 1.0) {
+    if (!Number.isFinite(value) || value < 0.0 || value > 1.0) {
       throw new Error(`${type}の値は0.0から1.0の範囲で指定してください`);
     }
 
@@ -57,24 +265,55 @@ export class PlaybackSettingManager {
         if (channelId === 0) {
           throw new Error('マスターチャンネルにはタイミング設定は適用できません');
         }
-        this.timingSettings.set(channelId, value);
+        this.setTimingOffset(channelId, (value * 2 - 1) * TIMING_MAX_OFFSET_MS);
         break;
       case 'pitch':
         if (channelId === 0) {
           throw new Error('マスターチャンネルにはピッチ設定は適用できません');
         }
-        this.pitchSettings.set(channelId, value);
+        this.setPitchFromKnob(channelId, value);
+        break;
+      case 'attack':
+      case 'decay':
+      case 'sustain':
+      case 'release': {
+        if (channelId === 0) {
+          throw new Error('マスターチャンネルにはエンベロープ設定は適用できません');
+        }
+        const channelEnvelope = this.envelopeSettings.get(channelId);
+        if (!channelEnvelope) {
+          throw new Error(`チャンネル ${channelId} のエンベロープ設定が見つかりません`);
+        }
+        channelEnvelope.set(type, value);
+        break;
+      }
+      case 'trimStart':
+      case 'trimEnd': {
+        if (channelId === 0) {
+          throw new Error('マスターチャンネルにはトリム設定は適用できません');
+        }
+        const channelTrim = this.trimSettings.get(channelId);
+        if (!channelTrim) {
+          throw new Error(`チャンネル ${channelId} のトリム設定が見つかりません`);
+        }
+        const trimStart = type === 'trimStart' ? value : channelTrim.get('trimStart') as number;
+        const trimEnd = type === 'trimEnd' ? value : channelTrim.get('trimEnd') as number;
+        if (trimEnd - trimStart < TRIM_MIN_LENGTH) {
+          throw new Error('トリムの開始位置は終了位置より前に指定してください');
+        }
+        channelTrim.set(type, value);
         break;
+      }
     }
   }
 
   /**
    * 設定値を取得
-   * @param {ChannelId | 0} channelId - チャンネルID（0はマスター）
+   * @param {ChannelId} channelId - チャンネルID（0はマスター）
    * @param {SettingType} type - 設定の種類
    * @returns {number} 設定値（0.0から1.0の範囲）
    */
-  public getSetting(channelId: ChannelId | 0, type: SettingType): number {
+  public getSetting(channelId: ChannelId, type: SettingType): number {
     let value: number | undefined;
     let defaultValue: number;
 
@@ -87,15 +326,37 @@ export class PlaybackSettingManager {
         if (channelId === 0) {
           throw new Error('マスターチャンネルにはタイミング設定は適用できません');
         }
-        value = this.timingSettings.get(channelId);
-        defaultValue = 0.0;
+        value = this.timingSettings.has(channelId)
+          ? ((this.timingSettings.get(channelId) as number) / TIMING_MAX_OFFSET_MS + 1) / 2
+          : undefined;
+        defaultValue = 0.5;
         break;
       case 'pitch':
         if (channelId === 0) {
           throw new Error('マスターチャンネルにはピッチ設定は適用できません');
         }
-        value = this.pitchSettings.get(channelId);
-        defaultValue = PITCH_DEFAULT_RATE;
+        value = this.pitchSettings.has(channelId)
+          ? this.semitonesToKnob(this.pitchSettings.get(channelId) as number)
+          : undefined;
+        defaultValue = this.semitonesToKnob(PITCH_DEFAULT_SEMITONES);
+        break;
+      case 'attack':
+      case 'decay':
+      case 'sustain':
+      case 'release':
+        if (channelId === 0) {
+          throw new Error('マスターチャンネルにはエンベロープ設定は適用できません');
+        }
+        value = this.envelopeSettings.get(channelId)?.get(type);
+        defaultValue = ENVELOPE_DEFAULTS[type];
+        break;
+      case 'trimStart':
+      case 'trimEnd':
+        if (channelId === 0) {
+          throw new Error('マスターチャンネルにはトリム設定は適用できません');
+        }
+        value = this.trimSettings.get(channelId)?.get(type);
+        defaultValue = TRIM_DEFAULTS[type];
         break;
     }
 
@@ -107,6 +368,300 @@ export class PlaybackSettingManager {
     return value;
   }
 
+  /**
+   * タイミングのオフセットをミリ秒単位で保存
+   * @param {ChannelId} channelId - チャンネルID
+   * @param {number} milliseconds - オフセット（ミリ秒、負の値で前にずらす。0.001ミリ秒単位に丸める）
+   * @throws {Error} マスターチャンネルまたは存在しないチャンネルを指定した場合、または最大値を超える場合
+   */
+  public setTimingOffset(channelId: ChannelId, milliseconds: number): void {
+    if (channelId === 0) {
+      throw new Error('マスターチャンネルにはタイミング設定は適用できません');
+    }
+    if (!this.timingSettings.has(channelId)) {
+      throw new Error(`チャンネル ${channelId} のタイミング設定が見つかりません`);
+    }
+    if (!Number.isFinite(milliseconds) || Math.abs(milliseconds) > TIMING_MAX_OFFSET_MS) {
+      throw new Error(`タイミングは-${TIMING_MAX_OFFSET_MS}から+${TIMING_MAX_OFFSET_MS}ミリ秒の範囲で指定してください`);
+    }
+    this.timingSettings.set(channelId, Math.round(milliseconds * 1000) / 1000);
+  }
+
+  /**
+   * タイミングのオフセットをミリ秒単位で取得
+   * @param {ChannelId} channelId - チャンネルID
+   * @returns {number} オフセット（ミリ秒）
+   */
+  public getTimingOffset(channelId: ChannelId): number {
+    if (channelId === 0) {
+      throw new Error('マスターチャンネルにはタイミング設定は適用できません');
+    }
+    return this.timingSettings.get(channelId) ?? 0;
+  }
+
+  /**
+   * ピッチを半音単位で保存
+   * @param {ChannelId} channelId - チャンネルID
+   * @param {number} semitones - ピッチ（半音、小数部はセント。スナップの設定に関わらずそのまま保存する）
+   * @throws {Error} マスターチャンネルまたは存在しないチャンネルを指定した場合、または可変幅を超える場合
+   */
+  public setPitch(channelId: ChannelId, semitones: number): void {
+    if (channelId === 0) {
+      throw new Error('マスターチャンネルにはピッチ設定は適用できません');
+    }
+    if (!this.pitchSettings.has(channelId)) {
+      throw new Error(`チャンネル ${channelId} のピッチ設定が見つかりません`);
+    }
+    if (!Number.isFinite(semitones) || Math.abs(semitones) > this.pitchRange) {
+      throw new Error(`ピッチは-${this.pitchRange}から+${this.pitchRange}半音の範囲で指定してください`);
+    }
+    // セント単位に丸める
+    this.pitchSettings.set(channelId, Math.round(semitones * CENTS_PER_SEMITONE) / CENTS_PER_SEMITONE);
+  }
+
+  /**
+   * ピッチを半音単位で取得
+   * @param {ChannelId} channelId - チャンネルID
+   * @returns {number} ピッチ（半音、小数部はセント）
+   */
+  public getPitch(channelId: ChannelId): number {
+    if (channelId === 0) {
+      throw new Error('マスターチャンネルにはピッチ設定は適用できません');
+    }
+    return this.pitchSettings.get(channelId) ?? PITCH_DEFAULT_SEMITONES;
+  }
+
+  /**
+   * ピッチのスナップ（ノブの値を半音単位に丸める）の設定を保存
+   * 有効にした場合は、現在のピッチも半音単位に丸める
+   * @param {ChannelId} channelId - チャンネルID
+   * @param {boolean} snap - スナップする場合はtrue
+   * @throws {Error} マスターチャンネルまたは存在しないチャンネルを指定した場合
+   */
+  public setPitchSnap(channelId: ChannelId, snap: boolean): void {
+    if (channelId === 0) {
+      throw new Error('マスターチャンネルにはピッチ設定は適用できません');
+    }
+    if (!this.pitchSnapSettings.has(channelId)) {
+      throw new Error(`チャンネル ${channelId} のピッチ設定が見つかりません`);
+    }
+    this.pitchSnapSettings.set(channelId, snap);
+    if (snap) {
+      this.pitchSettings.set(channelId, Math.round(this.getPitch(channelId)));
+    }
+  }
+
+  /**
+   * ピッチのスナップの設定を取得
+   * @param {ChannelId} channelId - チャンネルID
+   * @returns {boolean} スナップする場合はtrue
+   */
+  public getPitchSnap(channelId: ChannelId): boolean {
+    if (channelId === 0) {
+      throw new Error('マスターチャンネルにはピッチ設定は適用できません');
+    }
+    return this.pitchSnapSettings.get(channelId) ?? true;
+  }
+
+  /**
+   * ピッチノブの可変幅を保存
+   * 可変幅を超えるピッチが設定されているチャンネルは、可変幅の端の値にする
+   * @param {number} semitones - 可変幅（±半音）
+   * @throws {Error} 可変幅が正の整数でない場合
+   */
+  public setPitchRange(semitones: number): void {
+    if (!Number.isInteger(semitones) || semitones <= 0) {
+      throw new Error('ピッチの可変幅は正の整数（半音）で指定してください');
+    }
+    this.pitchRange = semitones;
+    this.pitchSettings.forEach((pitch, channelId) => {
+      this.pitchSettings.set(channelId, Math.max(-semitones, Math.min(semitones, pitch)));
+    });
+  }
+
+  /**
+   * ピッチノブの可変幅を取得
+   * @returns {number} 可変幅（±半音）
+   */
+  public getPitchRange(): number {
+    return this.pitchRange;
+  }
+
+  /**
+   * ノブの値（0.0から1.0）からピッチを保存
+   * @param {ChannelId} channelId - チャンネルID
+   * @param {number} value - ノブの値（0.5が元の高さ、0.0と1.0が可変幅の端）
+   */
+  private setPitchFromKnob(channelId: ChannelId, value: number): void {
+    const semitones = (value * 2 - 1) * this.pitchRange;
+    this.setPitch(channelId, this.getPitchSnap(channelId) ? Math.round(semitones) : semitones);
+  }
+
+  /**
+   * ピッチ（半音）をノブの値に変換
+   * @param {number} semitones - ピッチ（半音）
+   * @returns {number} ノブの値（0.0から1.0）
+   */
+  private semitonesToKnob(semitones: number): number {
+    return (semitones / this.pitchRange + 1) / 2;
+  }
+
+  /**
+   * リバース再生の設定を保存
+   * @param {ChannelId} channelId - チャンネルID
+   * @param {boolean} reverse - リバース再生する場合はtrue
+   * @throws {Error} マスターチャンネルまたは存在しないチャンネルを指定した場合
+   */
+  public setReverse(channelId: ChannelId, reverse: boolean): void {
+    if (channelId === 0) {
+      throw new Error('マスターチャンネルにはリバース設定は適用できません');
+    }
+    if (!this.reverseSettings.has(channelId)) {
+      throw new Error(`チャンネル ${channelId} のリバース設定が見つかりません`);
+    }
+    this.reverseSettings.set(channelId, reverse);
+  }
+
+  /**
+   * リバース再生の設定を取得
+   * @param {ChannelId} channelId - チャンネルID
+   * @returns {boolean} リバース再生する場合はtrue
+   */
+  public getReverse(channelId: ChannelId): boolean {
+    if (channelId === 0) {
+      throw new Error('マスターチャンネルにはリバース設定は適用できません');
+    }
+    return this.reverseSettings.get(channelId) ?? false;
+  }
+
+  /**
+   * ピッチモードを保存
+   * @param {ChannelId} channelId - チャンネルID
+   * @param {PitchMode} mode - ピッチの変え方
+   * @throws {Error} マスターチャンネルまたは存在しないチャンネルを指定した場合
+   */
+  public setPitchMode(channelId: ChannelId, mode: PitchMode): void {
+    if (channelId === 0) {
+      throw new Error('マスターチャンネルにはピッチモードは適用できません');
+    }
+    if (!this.pitchModeSettings.has(channelId)) {
+      throw new Error(`チャンネル ${channelId} のピッチモードが見つかりません`);
+    }
+    this.pitchModeSettings.set(channelId, mode);
+  }
+
+  /**
+   * ピッチモードを取得
+   * @param {ChannelId} channelId - チャンネルID
+   * @returns {PitchMode} ピッチの変え方
+   */
+  public getPitchMode(channelId: ChannelId): PitchMode {
+    if (channelId === 0) {
+      throw new Error('マスターチャンネルにはピッチモードは適用できません');
+    }
+    return this.pitchModeSettings.get(channelId) ?? 'varispeed';
+  }
+
+  /**
+   * 全ての再生設定の状態を取得
+   * @returns {PlaybackSettingsState} JSONに変換できる再生設定の状態
+   */
+  public getState(): PlaybackSettingsState {
+    return {
+      version: PLAYBACK_SETTINGS_STATE_VERSION,
+      masterVolume: this.getSetting(MASTER_CHANNEL_ID, 'volume'),
+      pitchRange: this.pitchRange,
+      channels: this.getChannelIds().map(channelId => ({
+        channelId,
+        volume: this.getSetting(channelId, 'volume'),
+        timingOffset: this.getTimingOffset(channelId),
+        pitch: this.getPitch(channelId),
+        pitchSnap: this.getPitchSnap(channelId),
+        pitchMode: this.getPitchMode(channelId),
+        envelope: Object.fromEntries(this.envelopeSettings.get(channelId) as Map<EnvelopeSettingType, number>) as
+          { [type in EnvelopeSettingType]: number },
+        trim: Object.fromEntries(this.trimSettings.get(channelId) as Map<TrimSettingType, number>) as
+          { [type in TrimSettingType]: number },
+        reverse: this.getReverse(channelId)
+      }))
+    };
+  }
+
+  /**
+   * 保存した状態を復元
+   * チャンネル構成を状態に揃え、各チャンネルの設定を状態の値にする
+   * 復元に失敗した場合は、復元前の設定に戻す
+   * @param {PlaybackSettingsState} state - getStateで取得した状態
+   * @throws {Error} 状態のバージョンが無効な場合、または設定値が無効な場合
+   */
+  public setState(state: PlaybackSettingsState): void {
+    if (!state || !Array.isArray(state.channels)) {
+      throw new Error('再生設定の状態が指定されていません');
+    }
+    if (!Number.isInteger(state.version) || state.version < 1) {
+      throw new Error(`無効な状態のバージョンです: ${state.version}`);
+    }
+    if (state.version > PLAYBACK_SETTINGS_STATE_VERSION) {
+      throw new Error(`対応していない新しいバージョンの状態です: ${state.version}`);
+    }
+
+    const previousState = this.getState();
+    try {
+      this.applyState(state);
+    } catch (error) {
+      this.applyState(previousState);
+      throw new Error(`再生設定の復元に失敗しました: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * 状態の設定値を反映
+   * 各チャンネルの設定をデフォルト値にしてから、値の検証を行う各setterで反映する
+   * @param {PlaybackSettingsState} state - 反映する状態
+   * @throws {Error} 設定値が無効な場合
+   */
+  private applyState(state: PlaybackSettingsState): void {
+    const channelIds = state.channels.map(channel => channel.channelId);
+    if (channelIds.some(channelId => !Number.isInteger(channelId) || channelId === MASTER_CHANNEL_ID || channelId < 0)) {
+      throw new Error('再生設定の状態に無効なチャンネルIDが含まれています');
+    }
+    if (new Set(channelIds).size !== channelIds.length) {
+      throw new Error('再生設定の状態に同じチャンネルが重複しています');
+    }
+
+    this.getChannelIds()
+      .filter(channelId => !channelIds.includes(channelId))
+      .forEach(channelId => this.removeChannel(channelId));
+    this.setPitchRange(state.pitchRange);
+    this.setSetting(MASTER_CHANNEL_ID, 'volume', state.masterVolume);
+
+    state.channels.forEach(channel => {
+      if (!PITCH_MODES.includes(channel.pitchMode)) {
+        throw new Error(`無効なピッチモードです: ${channel.pitchMode}`);
+      }
+      if (typeof channel.pitchSnap !== 'boolean' || typeof channel.reverse !== 'boolean') {
+        throw new Error(`チャンネル ${channel.channelId} のスナップとリバースの設定が無効です`);
+      }
+      if (!channel.envelope || !channel.trim) {
+        throw new Error(`チャンネル ${channel.channelId} のエンベロープとトリムの設定が指定されていません`);
+      }
+      this.resetChannel(channel.channelId);
+      this.setSetting(channel.channelId, 'volume', channel.volume);
+      this.setTimingOffset(channel.channelId, channel.timingOffset);
+      // スナップの切り替えでピッチが丸められないように、スナップを先に設定する
+      this.setPitchSnap(channel.channelId, channel.pitchSnap);
+      this.setPitch(channel.channelId, channel.pitch);
+      this.setPitchMode(channel.channelId, channel.pitchMode);
+      (Object.keys(ENVELOPE_DEFAULTS) as EnvelopeSettingType[]).forEach(type => {
+        this.setSetting(channel.channelId, type, channel.envelope[type]);
+      });
+      // 終了位置を先に設定し、開始位置が終了位置を超えないようにする
+      this.setSetting(channel.channelId, 'trimEnd', channel.trim.trimEnd);
+      this.setSetting(channel.channelId, 'trimStart', channel.trim.trimStart);
+      this.setReverse(channel.channelId, channel.reverse);
+    });
+  }
+
   /**
    * すべての設定をクリア
    * @description すべての設定をデフォルト値にリセット
@@ -116,10 +671,7 @@ export class PlaybackSettingManager {
     this.volumeSettings.set(0, 1.0);
 
     // 各チャンネルの設定をクリア
-    CHANNEL_IDS.forEach(channelId => {
-      this.volumeSettings.set(channelId, VOLUME_DEFAULT);
-      this.timingSettings.set(channelId, 0.0);
-      this.pitchSettings.set(channelId, PITCH_DEFAULT_RATE);
-    });
+    this.getChannelIds().forEach(channelId => this.resetChannel(channelId));
+    this.pitchRange = PITCH_DEFAULT_RANGE_SEMITONES;
   }
 } 
\ No newline at end of file
@@ -0,0 +1,292 @@
+/**
+ * @file ProjectFile.ts
+ * @brief ブレンドを保存するプロジェクトのファイル（バージョン付きのJSON）
+ * @details
+ * - チャンネル構成、各チャンネルの有効/無効、サンプルの参照、再生設定、エフェクトの状態を1つのJSONにまとめる
+ * - サンプルはライブラリのID（SampleLibraryのマニフェストのID）で参照するか、音声データをBase64で埋め込む
+ * - 作業中の状態の自動保存では、ブラウザに保存したアップロードのサンプルを音声データを埋め込まずにIDで参照する
+ * - 形式のバージョンを保存し、読み込み時に古いバージョンのファイルを現在のバージョンに変換（マイグレーション）する
+ * @limitations
+ * - 現在のバージョンより新しいファイルは読み込めない
+ * - 再生設定とエフェクトの状態の値の検証は、復元時にAudioEngineが行う
+ * - 埋め込んだ音声データはファイルのサイズが元のデータの約4/3倍になる
+ * - ブラウザに保存したサンプルの参照は、そのブラウザでサンプルを削除していない場合のみ読み込める
+ */
+
+import { AudioEngineState } from './AudioEngine';
+import { ChannelId } from './audioConstants';
+
+/**
+ * プロジェクトのファイルの形式の識別子
+ */
+export const PROJECT_FORMAT = 'sample-blender-project';
+
+/**
+ * プロジェクトのファイルの形式の現在のバージョン（形式を変更した場合に上げ、PROJECT_MIGRATIONSに変換を追加する）
+ */
+export const PROJECT_VERSION = 1;
+
+/**
+ * Base64に変換する際に1度に文字列にするバイト数（String.fromCharCodeの引数の上限を超えないようにする）
+ */
+const BASE64_CHUNK_SIZE = 0x8000;
+
+/**
+ * ライブラリのサンプルの参照
+ * - id: ライブラリのサンプルのID（SampleLibraryのマニフェストのID）
+ */
+export interface LibrarySampleReference {
+  type: 'library';
+  id: string;
+}
+
+/**
+ * 埋め込んだサンプルの参照
+ * - name: 元のファイル名
+ * - mimeType: 音声データのMIMEタイプ
+ * - data: Base64に変換した音声データ
+ */
+export interface EmbeddedSampleReference {
+  type: 'embedded';
+  name: string;
+  mimeType: string;
+  data: string;
+}
+
+/**
+ * ブラウザに保存したサンプルの参照
+ * - id: ProjectStorageに保存したサンプルのID
+ * - name: 元のファイル名
+ */
+export interface StoredSampleReference {
+  type: 'stored';
+  id: string;
+  name: string;
+}
+
+/**
+ * サンプルの参照
+ */
+export type SampleReference = LibrarySampleReference | EmbeddedSampleReference | StoredSampleReference;
+
+/**
+ * プロジェクトのチャンネル
+ * - enabled: 再生と書き出しの対象にするかどうか
+ * - sample: 読み込んだサンプルの参照（読み込んでいない場合はnull）
+ */
+export interface ProjectChannel {
+  channelId: ChannelId;
+  enabled: boolean;
+  sample: SampleReference | null;
+}
+
+/**
+ * プロジェクトのファイルの内容
+ * - format: 形式の識別子（PROJECT_FORMAT）
+ * - version: 形式のバージョン
+ * - channels: チャンネルの有効/無効とサンプルの参照（マスターを含まない）
+ * - engine: チャンネル構成、再生設定、エフェクトの状態
+ */
+export interface ProjectDocument {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  channels: ProjectChannel[];
+  engine: AudioEngineState;
+}
+
+/**
+ * バージョンを変換する前のプロジェクトのファイルの内容
+ */
+export type ProjectData = { [key: string]: unknown };
+
+/**
+ * プロジェクトのファイルを1つ新しいバージョンに変換する関数
+ */
+export type ProjectMigration = (data: ProjectData) => ProjectData;
+
+/**
+ * バージョンごとの変換（変換元のバージョンをキーにし、変換後のバージョンはキー + 1）
+ */
+export const PROJECT_MIGRATIONS: { readonly [fromVersion: number]: ProjectMigration } = {};
+
+/**
+ * 現在の状態からプロジェクトのファイルの内容を作成
+ * @param {ProjectChannel[]} channels - チャンネルの有効/無効とサンプルの参照
+ * @param {AudioEngineState} engine - AudioEngine.getStateで取得した状態
+ * @returns {ProjectDocument} プロジェクトのファイルの内容
+ */
+export const createProjectDocument = (channels: ProjectChannel[], engine: AudioEngineState): ProjectDocument => {
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    channels: channels.map(channel => ({ ...channel })),
+    engine
+  };
+};
+
+/**
+ * プロジェクトのファイルの内容をJSONに変換
+ * @param {ProjectDocument} document - プロジェクトのファイルの内容
+ * @returns {string} JSON文字列
+ */
+export const serializeProject = (document: ProjectDocument): string => {
+  return JSON.stringify(document, null, 2);
+};
+
+/**
+ * 古いバージョンのプロジェクトのファイルを目標のバージョンに変換
+ * @param {ProjectData} data - 読み込んだファイルの内容
+ * @param {{ [fromVersion: number]: ProjectMigration }} migrations - バージョンごとの変換
+ * @param {number} targetVersion - 変換後のバージョン
+ * @returns {ProjectData} 変換後のファイルの内容（versionは目標のバージョン）
+ * @throws {Error} バージョンが無効な場合、目標より新しい場合、または変換がない場合
+ */
+export const migrateProject = (
+  data: ProjectData,
+  migrations: { readonly [fromVersion: number]: ProjectMigration } = PROJECT_MIGRATIONS,
+  targetVersion: number = PROJECT_VERSION
+): ProjectData => {
+  const version = data.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(`無効なプロジェクトのバージョンです: ${version}`);
+  }
+  if (version > targetVersion) {
+    throw new Error(`対応していない新しいバージョンのプロジェクトです: ${version}`);
+  }
+
+  let migrated = data;
+  for (let fromVersion = version; fromVersion < targetVersion; fromVersion++) {
+    const migration = migrations[fromVersion];
+    if (!migration) {
+      throw new Error(`バージョン ${fromVersion} のプロジェクトを変換できません`);
+    }
+    migrated = { ...migration(migrated), version: fromVersion + 1 };
+  }
+  return migrated;
+};
+
+/**
+ * サンプルの参照を検証
+ * @param {unknown} sample - 検証するサンプルの参照
+ * @returns {boolean} 有効な参照またはnullの場合はtrue
+ */
+const isValidSampleReference = (sample: unknown): sample is SampleReference | null => {
+  if (sample === null) {
+    return true;
+  }
+  if (typeof sample !== 'object') {
+    return false;
+  }
+  const reference = sample as { [key: string]: unknown };
+  if (reference.type === 'library') {
+    return typeof reference.id === 'string' && reference.id !== '';
+  }
+  if (reference.type === 'stored') {
+    return typeof reference.id === 'string' && reference.id !== '' && typeof reference.name === 'string';
+  }
+  return reference.type === 'embedded'
+    && typeof reference.name === 'string'
+    && typeof reference.mimeType === 'string'
+    && typeof reference.data === 'string';
+};
+
+/**
+ * 2つのサンプルの参照が同じサンプルを指すかどうか
+ * @param {SampleReference | null} a - 比較するサンプルの参照
+ * @param {SampleReference | null} b - 比較するサンプルの参照
+ * @returns {boolean} 同じサンプル（または両方null）の場合はtrue
+ */
+export const isSameSampleReference = (a: SampleReference | null, b: SampleReference | null): boolean => {
+  if (a === null || b === null) {
+    return a === b;
+  }
+  if ((a.type === 'library' && b.type === 'library') || (a.type === 'stored' && b.type === 'stored')) {
+    return a.id === b.id;
+  }
+  if (a.type === 'embedded' && b.type === 'embedded') {
+    return a.name === b.name && a.mimeType === b.mimeType && a.data === b.data;
+  }
+  return false;
+};
+
+/**
+ * JSONからプロジェクトのファイルの内容を読み込み
+ * 古いバージョンのファイルは現在のバージョンに変換してから検証する
+ * @param {string} json - プロジェクトのファイルのJSON文字列
+ * @param {{ [fromVersion: number]: ProjectMigration }} migrations - バージョンごとの変換
+ * @returns {ProjectDocument} 現在のバージョンのプロジェクトのファイルの内容
+ * @throws {Error} JSONやファイルの形式が無効な場合、またはバージョンを変換できない場合
+ */
+export const parseProject = (
+  json: string,
+  migrations: { readonly [fromVersion: number]: ProjectMigration } = PROJECT_MIGRATIONS
+): ProjectDocument => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`プロジェクトのファイルを解析できません: ${(error as Error).message}`);
+  }
+  if (typeof data !== 'object' || data === null || (data as ProjectData).format !== PROJECT_FORMAT) {
+    throw new Error('プロジェクトのファイルではありません');
+  }
+
+  const migrated = migrateProject(data as ProjectData, migrations);
+  const channels = migrated.channels;
+  const engine = migrated.engine as AudioEngineState | undefined;
+  if (!Array.isArray(channels) || !engine || !engine.playback || !Array.isArray(engine.playback.channels)) {
+    throw new Error('プロジェクトのチャンネルまたは状態が含まれていません');
+  }
+  channels.forEach((channel: ProjectChannel) => {
+    if (!Number.isInteger(channel?.channelId) || typeof channel.enabled !== 'boolean') {
+      throw new Error('プロジェクトのチャンネルが無効です');
+    }
+    if (!isValidSampleReference(channel.sample)) {
+      throw new Error(`チャンネル ${channel.channelId} のサンプルの参照が無効です`);
+    }
+  });
+  const channelIds = channels.map((channel: ProjectChannel) => channel.channelId);
+  const engineChannelIds = engine.playback.channels.map(channel => channel.channelId);
+  if (
+    new Set(channelIds).size !== channelIds.length
+    || channelIds.length !== engineChannelIds.length
+    || !channelIds.every(channelId => engineChannelIds.includes(channelId))
+  ) {
+    throw new Error('プロジェクトのチャンネルと再生設定のチャンネルが一致しません');
+  }
+  return migrated as unknown as ProjectDocument;
+};
+
+/**
+ * 音声データをBase64に変換（サンプルの埋め込みに使用）
+ * @param {ArrayBuffer} data - 音声データ
+ * @returns {string} Base64文字列
+ */
+export const encodeSampleData = (data: ArrayBuffer): string => {
+  const bytes = new Uint8Array(data);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK_SIZE));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Base64から音声データに変換（埋め込んだサンプルの読み込みに使用）
+ * @param {string} data - Base64文字列
+ * @returns {ArrayBuffer} 音声データ
+ * @throws {Error} Base64文字列が無効な場合
+ */
+export const decodeSampleData = (data: string): ArrayBuffer => {
+  let binary: string;
+  try {
+    binary = atob(data);
+  } catch (error) {
+    throw new Error('埋め込んだサンプルのデータが無効です');
+  }
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+};
@@ -0,0 +1,576 @@
+/**
+ * @file ProjectStorage.ts
+ * @brief アップロードしたサンプルとプロジェクトのブラウザ内（IndexedDB）への保存
+ * @details
+ * - アップロードしたサンプル（音声データ）と保存したプロジェクト（JSON）を名前を付けて保存
+ * - 保存した項目の一覧の取得、名前の変更、削除（一覧は音声データやJSONとは別に保存した概要だけを読み込む）
+ * - 項目と概要は一つのトランザクションで書き込み、途中で失敗しても片方だけが残らないようにする
+ * - 作業中の状態の自動保存と、次回の起動時の復元（タブが異常終了しても最後に自動保存した状態に戻せる）
+ * - 保存領域の使用量と上限の取得（navigator.storage.estimate）
+ * - IndexedDBの読み書きはStorageBackendに委譲（テストでは別の実装に差し替えられる）
+ * @limitations
+ * - サーバーには保存しないため、ブラウザのデータを消去すると保存した項目も消える
+ * - IndexedDBを利用できない環境（一部のプライベートブラウジング等）では保存できない
+ * - 保存領域の使用量はブラウザの推定値で、他のサイトのデータを含まない
+ */
+
+/**
+ * IndexedDBのデータベース名
+ */
+export const STORAGE_DB_NAME = 'sample-blender';
+
+/**
+ * IndexedDBのデータベースのバージョン（オブジェクトストアを変更した場合に上げる）
+ */
+export const STORAGE_DB_VERSION = 2;
+
+/**
+ * 自動保存した作業中の状態のキー
+ */
+const SESSION_KEY = 'autosave';
+
+/**
+ * オブジェクトストアの名前
+ * - items: 保存した項目の概要（一覧の表示で音声データやJSONを読み込まないように、項目とは別に保存する）
+ * - samples: アップロードしたサンプル
+ * - projects: 保存したプロジェクト
+ * - session: 自動保存した作業中の状態
+ */
+export type StorageStoreName = 'items' | 'samples' | 'projects' | 'session';
+
+/**
+ * 全てのオブジェクトストアの名前
+ */
+const STORE_NAMES: readonly StorageStoreName[] = ['items', 'samples', 'projects', 'session'];
+
+/**
+ * 保存する項目の種類
+ */
+export type StoredItemKind = 'sample' | 'project';
+
+/**
+ * 項目の種類ごとのオブジェクトストア
+ */
+const ITEM_STORES: { readonly [kind in StoredItemKind]: StorageStoreName } = {
+  sample: 'samples',
+  project: 'projects'
+};
+
+/**
+ * 保存した項目の概要（一覧の表示に使用）
+ * 名前と更新日時は概要が正しい値を持つ（名前を変更しても音声データやJSONを含む項目は書き換えない）
+ * - size: 保存したデータのサイズ（サンプルはバイト数、プロジェクトはJSONの文字数）
+ * - updatedAt: 保存または名前を変更した時刻（エポックからのミリ秒）
+ */
+export interface StoredItemInfo {
+  id: string;
+  kind: StoredItemKind;
+  name: string;
+  size: number;
+  updatedAt: number;
+}
+
+/**
+ * 項目の概要を取得
+ * @param {StoredItemInfo} item - 保存した項目
+ * @returns {StoredItemInfo} 音声データやJSONを含まない概要
+ */
+const toItemInfo = ({ id, kind, name, size, updatedAt }: StoredItemInfo): StoredItemInfo => {
+  return { id, kind, name, size, updatedAt };
+};
+
+/**
+ * 項目の概要を保存するキーを取得
+ * @param {StoredItemKind} kind - 項目の種類
+ * @param {string} id - 項目のID
+ * @returns {string} 種類とIDを組み合わせたキー
+ */
+const getInfoKey = (kind: StoredItemKind, id: string): string => `${kind}:${id}`;
+
+/**
+ * 保存したサンプル
+ */
+export interface StoredSample extends StoredItemInfo {
+  kind: 'sample';
+  mimeType: string;
+  data: ArrayBuffer;
+}
+
+/**
+ * 保存したプロジェクト
+ * - json: serializeProjectで変換したJSON文字列
+ */
+export interface StoredProject extends StoredItemInfo {
+  kind: 'project';
+  json: string;
+}
+
+/**
+ * 自動保存した作業中の状態
+ */
+export interface StoredSession {
+  savedAt: number;
+  json: string;
+}
+
+/**
+ * 保存領域の使用量と上限（バイト）
+ */
+export interface StorageQuota {
+  usage: number;
+  quota: number;
+}
+
+/**
+ * 一つのトランザクションで実行する書き込み
+ */
+export type StorageWrite =
+  | { type: 'put'; store: StorageStoreName; key: string; value: unknown }
+  | { type: 'delete'; store: StorageStoreName; key: string };
+
+/**
+ * オブジェクトストアの読み書き（キーはオブジェクトストアの外で指定する）
+ */
+export interface StorageBackend {
+  /** キーの値を取得（ない場合はundefined） */
+  get<T>(store: StorageStoreName, key: string): Promise<T | undefined>;
+  /** オブジェクトストアの全ての値を取得 */
+  getAll<T>(store: StorageStoreName): Promise<T[]>;
+  /** キーに値を保存（既にある場合は上書き） */
+  put<T>(store: StorageStoreName, key: string, value: T): Promise<void>;
+  /** キーの値を削除（ない場合は何もしない） */
+  delete(store: StorageStoreName, key: string): Promise<void>;
+  /** 複数のオブジェクトストアへの書き込みを一つのトランザクションで実行（いずれかが失敗した場合は全て取り消す） */
+  write(writes: StorageWrite[]): Promise<void>;
+}
+
+/**
+ * 失敗したIndexedDBの操作のエラーを作成
+ * @param {DOMException | null} error - IndexedDBのエラー
+ * @returns {Error} 保存容量が不足している場合はその旨を示すエラー
+ */
+const createStorageError = (error: DOMException | null): Error => {
+  if (error?.name === 'QuotaExceededError') {
+    return new Error('ブラウザの保存容量が不足しています');
+  }
+  return new Error(`ブラウザへの保存に失敗しました: ${error?.message ?? 'Unknown error'}`);
+};
+
+/**
+ * IndexedDBのリクエストの完了を待つ
+ * @param {IDBRequest<T>} request - IndexedDBのリクエスト
+ * @returns {Promise<T>} リクエストの結果
+ */
+const waitForRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(createStorageError(request.error));
+  });
+};
+
+/**
+ * 概要のオブジェクトストアがないバージョン（1）で保存した項目の概要を作成
+ * データベースを更新するトランザクションの中で実行する
+ * @param {IDBTransaction} transaction - データベースを更新するトランザクション
+ */
+const migrateItemInfos = (transaction: IDBTransaction): void => {
+  const infoStore = transaction.objectStore('items');
+  Object.values(ITEM_STORES).forEach(store => {
+    const cursorRequest = transaction.objectStore(store).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        const info = toItemInfo(cursor.value as StoredItemInfo);
+        infoStore.put(info, getInfoKey(info.kind, info.id));
+        cursor.continue();
+      }
+    };
+  });
+};
+
+/**
+ * IndexedDBによるStorageBackendの実装
+ */
+export class IndexedDBBackend implements StorageBackend {
+  private db: IDBDatabase;
+
+  private constructor(db: IDBDatabase) {
+    this.db = db;
+  }
+
+  /**
+   * データベースを開く（初回またはバージョンを上げた場合はオブジェクトストアを作成し、以前のバージョンで保存した項目を移行）
+   * @param {IDBFactory} factory - IndexedDB（通常はwindow.indexedDB）
+   * @param {string} name - データベース名
+   * @returns {Promise<IndexedDBBackend>} 開いたデータベース
+   * @throws {Error} データベースを開けない場合、または他のタブが以前のバージョンのデータベースを開いていて更新できない場合
+   */
+  public static async open(factory: IDBFactory, name: string = STORAGE_DB_NAME): Promise<IndexedDBBackend> {
+    const request = factory.open(name, STORAGE_DB_VERSION);
+    request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
+      const db = request.result;
+      STORE_NAMES
+        .filter(store => !db.objectStoreNames.contains(store))
+        .forEach(store => db.createObjectStore(store));
+      if (event.oldVersion === 1) {
+        migrateItemInfos(request.transaction as IDBTransaction);
+      }
+    };
+
+    // 更新が止まった場合は開けなかったものとし、後で他のタブが閉じられて開けたデータベースは閉じる
+    let isBlocked = false;
+    const db = await new Promise<IDBDatabase>((resolve, reject) => {
+      request.onsuccess = () => {
+        if (isBlocked) {
+          request.result.close();
+          return;
+        }
+        resolve(request.result);
+      };
+      request.onerror = () => reject(createStorageError(request.error));
+      request.onblocked = () => {
+        isBlocked = true;
+        reject(new Error('他のタブで開いているため、ブラウザの保存領域を更新できません（他のタブを閉じてから再読み込みしてください）'));
+      };
+    });
+    return new IndexedDBBackend(db);
+  }
+
+  /**
+   * オブジェクトストアを取得
+   * @param {StorageStoreName} store - オブジェクトストアの名前
+   * @param {IDBTransactionMode} mode - トランザクションのモード
+   * @returns {IDBObjectStore} オブジェクトストア
+   */
+  private getStore(store: StorageStoreName, mode: IDBTransactionMode): IDBObjectStore {
+    return this.db.transaction(store, mode).objectStore(store);
+  }
+
+  /**
+   * キーの値を取得
+   */
+  public async get<T>(store: StorageStoreName, key: string): Promise<T | undefined> {
+    return waitForRequest<T | undefined>(this.getStore(store, 'readonly').get(key));
+  }
+
+  /**
+   * オブジェクトストアの全ての値を取得
+   */
+  public async getAll<T>(store: StorageStoreName): Promise<T[]> {
+    return waitForRequest<T[]>(this.getStore(store, 'readonly').getAll());
+  }
+
+  /**
+   * 値を保存（トランザクションが完了し、書き込みが確定するまで待つ）
+   */
+  public async put<T>(store: StorageStoreName, key: string, value: T): Promise<void> {
+    const transaction = this.db.transaction(store, 'readwrite');
+    transaction.objectStore(store).put(value, key);
+    await this.waitForTransaction(transaction);
+  }
+
+  /**
+   * キーの値を削除（トランザクションが完了し、削除が確定するまで待つ）
+   */
+  public async delete(store: StorageStoreName, key: string): Promise<void> {
+    const transaction = this.db.transaction(store, 'readwrite');
+    transaction.objectStore(store).delete(key);
+    await this.waitForTransaction(transaction);
+  }
+
+  /**
+   * 複数のオブジェクトストアへの書き込みを一つのトランザクションで実行（トランザクションが完了し、書き込みが確定するまで待つ）
+   */
+  public async write(writes: StorageWrite[]): Promise<void> {
+    const stores = Array.from(new Set(writes.map(write => write.store)));
+    const transaction = this.db.transaction(stores, 'readwrite');
+    writes.forEach(write => {
+      const store = transaction.objectStore(write.store);
+      if (write.type === 'put') {
+        store.put(write.value, write.key);
+      } else {
+        store.delete(write.key);
+      }
+    });
+    await this.waitForTransaction(transaction);
+  }
+
+  /**
+   * トランザクションの完了を待つ
+   * @param {IDBTransaction} transaction - トランザクション
+   * @returns {Promise<void>} 完了したら解決するPromise
+   */
+  private waitForTransaction(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(createStorageError(transaction.error));
+      transaction.onabort = () => reject(createStorageError(transaction.error));
+    });
+  }
+}
+
+/**
+ * ProjectStorageのオプション
+ * - now: 現在時刻（エポックからのミリ秒）を返す関数（テストで差し替える）
+ * - storageManager: 保存領域の使用量の取得に使用（利用できない場合はnull）
+ */
+export interface ProjectStorageOptions {
+  now?: () => number;
+  storageManager?: StorageManager | null;
+}
+
+/**
+ * アップロードしたサンプル、保存したプロジェクト、自動保存した作業中の状態を管理するクラス
+ */
+export class ProjectStorage {
+  private backend: StorageBackend;
+  private now: () => number;
+  private storageManager: StorageManager | null;
+  private idCount = 0;  // 同じ時刻に保存した項目のIDが重複しないようにする
+
+  constructor(backend: StorageBackend, options: ProjectStorageOptions = {}) {
+    this.backend = backend;
+    this.now = options.now ?? Date.now;
+    this.storageManager = options.storageManager ?? null;
+  }
+
+  /**
+   * 保存した項目の一覧を取得
+   * @param {StoredItemKind} [kind] - 項目の種類（省略した場合は全ての種類）
+   * @returns {Promise<StoredItemInfo[]>} 項目の概要の配列（新しい順）
+   */
+  public async listItems(kind?: StoredItemKind): Promise<StoredItemInfo[]> {
+    const infos = await this.backend.getAll<StoredItemInfo>('items');
+    return infos
+      .filter(info => kind === undefined || info.kind === kind)
+      .map(toItemInfo)
+      .sort((a, b) => b.updatedAt - a.updatedAt || a.name.localeCompare(b.name, 'ja'));
+  }
+
+  /**
+   * サンプルを保存
+   * @param {string} name - サンプルの名前（元のファイル名）
+   * @param {string} mimeType - 音声データのMIMEタイプ
+   * @param {ArrayBuffer} data - 音声データ
+   * @returns {Promise<StoredItemInfo>} 保存した項目の概要
+   * @throws {Error} 名前が空の場合、または保存に失敗した場合
+   */
+  public async saveSample(name: string, mimeType: string, data: ArrayBuffer): Promise<StoredItemInfo> {
+    const sample: StoredSample = {
+      id: this.createId('sample'),
+      kind: 'sample',
+      name: this.validateName(name),
+      size: data.byteLength,
+      updatedAt: this.now(),
+      mimeType,
+      data
+    };
+    return this.putItem(sample);
+  }
+
+  /**
+   * 保存したサンプルを取得
+   * @param {string} id - 項目のID
+   * @returns {Promise<StoredSample>} 保存したサンプル
+   * @throws {Error} サンプルが見つからない場合
+   */
+  public async getSample(id: string): Promise<StoredSample> {
+    return this.getItem<StoredSample>('sample', id);
+  }
+
+  /**
+   * プロジェクトを保存
+   * @param {string} name - プロジェクトの名前
+   * @param {string} json - serializeProjectで変換したJSON文字列
+   * @param {string} [id] - 上書きする項目のID（省略した場合は新しい項目として保存）
+   * @returns {Promise<StoredItemInfo>} 保存した項目の概要
+   * @throws {Error} 名前が空の場合、上書きするプロジェクトが見つからない場合、または保存に失敗した場合
+   */
+  public async saveProject(name: string, json: string, id?: string): Promise<StoredItemInfo> {
+    if (id !== undefined) {
+      await this.getInfo('project', id);
+    }
+    const project: StoredProject = {
+      id: id ?? this.createId('project'),
+      kind: 'project',
+      name: this.validateName(name),
+      size: json.length,
+      updatedAt: this.now(),
+      json
+    };
+    return this.putItem(project);
+  }
+
+  /**
+   * 保存したプロジェクトを取得
+   * @param {string} id - 項目のID
+   * @returns {Promise<StoredProject>} 保存したプロジェクト
+   * @throws {Error} プロジェクトが見つからない場合
+   */
+  public async getProject(id: string): Promise<StoredProject> {
+    return this.getItem<StoredProject>('project', id);
+  }
+
+  /**
+   * 保存した項目の名前を変更（概要だけを書き換え、音声データやJSONは読み書きしない）
+   * @param {StoredItemKind} kind - 項目の種類
+   * @param {string} id - 項目のID
+   * @param {string} name - 新しい名前
+   * @returns {Promise<StoredItemInfo>} 名前を変更した項目の概要
+   * @throws {Error} 名前が空の場合、または項目が見つからない場合
+   */
+  public async renameItem(kind: StoredItemKind, id: string, name: string): Promise<StoredItemInfo> {
+    const validName = this.validateName(name);
+    const info = await this.getInfo(kind, id);
+    const renamed: StoredItemInfo = { ...info, name: validName, updatedAt: this.now() };
+    await this.backend.put('items', getInfoKey(kind, id), renamed);
+    return renamed;
+  }
+
+  /**
+   * 保存した項目を削除（見つからない場合は何もしない）
+   * @param {StoredItemKind} kind - 項目の種類
+   * @param {string} id - 項目のID
+   */
+  public async deleteItem(kind: StoredItemKind, id: string): Promise<void> {
+    await this.backend.write([
+      { type: 'delete', store: 'items', key: getInfoKey(kind, id) },
+      { type: 'delete', store: ITEM_STORES[kind], key: id }
+    ]);
+  }
+
+  /**
+   * 作業中の状態を自動保存（前回の自動保存を上書きする）
+   * @param {string} json - serializeProjectで変換したJSON文字列
+   * @returns {Promise<StoredSession>} 自動保存した状態
+   */
+  public async saveSession(json: string): Promise<StoredSession> {
+    const session: StoredSession = { savedAt: this.now(), json };
+    await this.backend.put('session', SESSION_KEY, session);
+    return session;
+  }
+
+  /**
+   * 自動保存した作業中の状態を取得
+   * @returns {Promise<StoredSession | null>} 自動保存した状態（ない場合はnull）
+   */
+  public async loadSession(): Promise<StoredSession | null> {
+    return (await this.backend.get<StoredSession>('session', SESSION_KEY)) ?? null;
+  }
+
+  /**
+   * 自動保存した作業中の状態を削除
+   */
+  public async clearSession(): Promise<void> {
+    await this.backend.delete('session', SESSION_KEY);
+  }
+
+  /**
+   * 保存領域の使用量と上限を取得
+   * @returns {Promise<StorageQuota | null>} 使用量と上限（ブラウザが対応していない場合はnull）
+   */
+  public async getQuota(): Promise<StorageQuota | null> {
+    if (!this.storageManager?.estimate) {
+      return null;
+    }
+    const estimate = await this.storageManager.estimate();
+    if (estimate.usage === undefined || estimate.quota === undefined) {
+      return null;
+    }
+    return { usage: estimate.usage, quota: estimate.quota };
+  }
+
+  /**
+   * 保存した項目を取得（名前と更新日時は概要の値を使用する）
+   * @param {StoredItemKind} kind - 項目の種類
+   * @param {string} id - 項目のID
+   * @returns {Promise<T>} 保存した項目
+   * @throws {Error} 項目が見つからない場合
+   */
+  private async getItem<T extends StoredItemInfo>(kind: StoredItemKind, id: string): Promise<T> {
+    const info = await this.getInfo(kind, id);
+    const item = await this.backend.get<T>(ITEM_STORES[kind], id);
+    if (!item) {
+      throw this.createNotFoundError(kind, id);
+    }
+    return { ...item, name: info.name, updatedAt: info.updatedAt };
+  }
+
+  /**
+   * 保存した項目の概要を取得
+   * @param {StoredItemKind} kind - 項目の種類
+   * @param {string} id - 項目のID
+   * @returns {Promise<StoredItemInfo>} 項目の概要
+   * @throws {Error} 項目が見つからない場合
+   */
+  private async getInfo(kind: StoredItemKind, id: string): Promise<StoredItemInfo> {
+    const info = await this.backend.get<StoredItemInfo>('items', getInfoKey(kind, id));
+    if (!info) {
+      throw this.createNotFoundError(kind, id);
+    }
+    return info;
+  }
+
+  /**
+   * 項目が見つからない場合のエラーを作成
+   * @param {StoredItemKind} kind - 項目の種類
+   * @param {string} id - 項目のID
+   * @returns {Error} 項目の種類に応じたエラー
+   */
+  private createNotFoundError(kind: StoredItemKind, id: string): Error {
+    return new Error(kind === 'sample' ? `保存したサンプルが見つかりません: ${id}` : `保存したプロジェクトが見つかりません: ${id}`);
+  }
+
+  /**
+   * 項目の名前を検証
+   * @param {string} name - 項目の名前
+   * @returns {string} 前後の空白を除いた名前
+   * @throws {Error} 名前が空の場合
+   */
+  private validateName(name: string): string {
+    const trimmed = name.trim();
+    if (trimmed === '') {
+      throw new Error('名前が空です');
+    }
+    return trimmed;
+  }
+
+  /**
+   * 項目のIDを作成
+   * @param {StoredItemKind} kind - 項目の種類
+   * @returns {string} 保存した時刻と連番を含むID
+   */
+  private createId(kind: StoredItemKind): string {
+    this.idCount++;
+    return `${kind}-${this.now().toString(36)}-${this.idCount.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  /**
+   * 項目とその概要を一つのトランザクションで保存（一覧にデータのない項目が表示されないようにする）
+   * @param {StoredSample | StoredProject} item - 保存する項目
+   * @returns {Promise<StoredItemInfo>} 保存した概要
+   */
+  private async putItem(item: StoredSample | StoredProject): Promise<StoredItemInfo> {
+    const info = toItemInfo(item);
+    await this.backend.write([
+      { type: 'put', store: ITEM_STORES[item.kind], key: item.id, value: item },
+      { type: 'put', store: 'items', key: getInfoKey(info.kind, info.id), value: info }
+    ]);
+    return info;
+  }
+}
+
+/**
+ * ブラウザのIndexedDBを使用するProjectStorageを作成
+ * @returns {Promise<ProjectStorage | null>} 作成したProjectStorage（IndexedDBを利用できない場合はnull）
+ * @throws {Error} データベースを開けない場合
+ */
+export const openProjectStorage = async (): Promise<ProjectStorage | null> => {
+  if (typeof indexedDB === 'undefined') {
+    return null;
+  }
+  const backend = await IndexedDBBackend.open(indexedDB);
+  return new ProjectStorage(backend, {
+    storageManager: typeof navigator !== 'undefined' ? navigator.storage ?? null : null
+  });
+};
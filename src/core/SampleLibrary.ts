@@ -0,0 +1,252 @@
+/**
+ * @file SampleLibrary.ts
+ * @brief マニフェストで定義したプリセットのサンプルのライブラリ
+ * @details
+ * - マニフェスト（JSON）から各サンプルの名前、カテゴリー、タグ、長さ、キー、BPMを読み込む
+ * - 名前、カテゴリー、タグ、キーのテキスト検索（空白で区切った全ての語を含むもの）
+ * - カテゴリーとタグ（選択した全てのタグを持つもの）での絞り込み
+ * - 名前、カテゴリー、長さ、キー、BPMでの並べ替え
+ * @limitations
+ * - 検索は大文字/小文字と全角/半角を区別しない部分一致のみ
+ * - キーとBPMがないサンプルは並べ替えの順序によらず末尾に並べる
+ * - 音声データは読み込まない（サンプルのURLはSampleEntry.urlで取得する）
+ */
+
+/**
+ * サンプルのマニフェストのURL
+ */
+export const SAMPLE_MANIFEST_URL = '/sample-manifest.json';
+
+/**
+ * サンプルのマニフェストの形式のバージョン
+ */
+export const SAMPLE_MANIFEST_VERSION = 1;
+
+/**
+ * ライブラリのサンプル
+ * - id: サンプルのID（プロジェクトのファイルでの参照に使用）
+ * - url: 音声ファイルのURL
+ * - duration: 長さ（秒）
+ * - key: キー（例: 'C#m'、ない場合はnull）
+ * - bpm: テンポ（BPM、ない場合はnull）
+ */
+export interface SampleEntry {
+  id: string;
+  name: string;
+  url: string;
+  category: string;
+  tags: string[];
+  duration: number;
+  key: string | null;
+  bpm: number | null;
+}
+
+/**
+ * サンプルのマニフェスト
+ */
+export interface SampleManifest {
+  version: number;
+  samples: SampleEntry[];
+}
+
+/**
+ * 並べ替えの基準
+ */
+export type SampleSortKey = 'name' | 'category' | 'duration' | 'key' | 'bpm';
+
+/**
+ * 検索の条件
+ * - text: 検索する文字列（空白で区切った全ての語を含むサンプル）
+ * - category: カテゴリー（nullまたは省略で全て）
+ * - tags: タグ（全てのタグを持つサンプル）
+ * - sortBy: 並べ替えの基準（省略で名前）
+ * - descending: 降順にするかどうか
+ */
+export interface SampleQuery {
+  text?: string;
+  category?: string | null;
+  tags?: string[];
+  sortBy?: SampleSortKey;
+  descending?: boolean;
+}
+
+/**
+ * 大文字/小文字と全角/半角を区別しないように文字列を変換
+ * @param {string} text - 変換する文字列
+ * @returns {string} 変換した文字列
+ */
+const normalizeText = (text: string): string => {
+  return text.normalize('NFKC').toLowerCase();
+};
+
+/**
+ * 名前の比較（数字は数値として比較する）
+ * @param {string} a - 比較する文字列
+ * @param {string} b - 比較する文字列
+ * @returns {number} aが前の場合は負の値
+ */
+const compareText = (a: string, b: string): number => {
+  return a.localeCompare(b, 'ja', { numeric: true });
+};
+
+/**
+ * マニフェストのサンプルを検証
+ * @param {unknown} sample - 検証するサンプル
+ * @param {number} index - マニフェストでの位置（エラーメッセージに使用）
+ * @returns {SampleEntry} 検証したサンプル（タグは複製する）
+ * @throws {Error} サンプルが無効な場合
+ */
+const validateEntry = (sample: unknown, index: number): SampleEntry => {
+  const entry = sample as { [key: string]: unknown } | null;
+  const isValid = typeof entry === 'object' && entry !== null
+    && typeof entry.id === 'string' && entry.id !== ''
+    && typeof entry.name === 'string'
+    && typeof entry.url === 'string' && entry.url !== ''
+    && typeof entry.category === 'string'
+    && Array.isArray(entry.tags) && entry.tags.every(tag => typeof tag === 'string')
+    && typeof entry.duration === 'number' && Number.isFinite(entry.duration) && entry.duration >= 0
+    && (entry.key === null || typeof entry.key === 'string')
+    && (entry.bpm === null || (typeof entry.bpm === 'number' && Number.isFinite(entry.bpm) && entry.bpm > 0));
+  if (!isValid) {
+    throw new Error(`サンプルのマニフェストの${index + 1}番目のサンプルが無効です`);
+  }
+  const valid = entry as unknown as SampleEntry;
+  return { ...valid, tags: [...valid.tags] };
+};
+
+export class SampleLibrary {
+  private samples: SampleEntry[];
+  private samplesById: Map<string, SampleEntry>;
+
+  /**
+   * SampleLibraryのコンストラクタ
+   * @param {unknown} manifest - サンプルのマニフェスト（JSONを解析した値）
+   * @throws {Error} マニフェストのバージョンまたはサンプルが無効な場合、IDが重複している場合
+   */
+  constructor(manifest: unknown) {
+    const data = manifest as { [key: string]: unknown } | null;
+    if (typeof data !== 'object' || data === null || !Array.isArray(data.samples)) {
+      throw new Error('サンプルのマニフェストではありません');
+    }
+    if (data.version !== SAMPLE_MANIFEST_VERSION) {
+      throw new Error(`対応していないバージョンのサンプルのマニフェストです: ${data.version}`);
+    }
+
+    this.samples = data.samples.map(validateEntry);
+    this.samplesById = new Map();
+    this.samples.forEach(sample => {
+      if (this.samplesById.has(sample.id)) {
+        throw new Error(`サンプルのIDが重複しています: ${sample.id}`);
+      }
+      this.samplesById.set(sample.id, sample);
+    });
+  }
+
+  /**
+   * 全てのサンプルをマニフェストの順に取得
+   * @returns {SampleEntry[]} サンプルの配列
+   */
+  public getSamples(): SampleEntry[] {
+    return [...this.samples];
+  }
+
+  /**
+   * IDのサンプルがあるかどうか
+   * @param {string} id - サンプルのID
+   * @returns {boolean} ある場合はtrue
+   */
+  public has(id: string): boolean {
+    return this.samplesById.has(id);
+  }
+
+  /**
+   * IDからサンプルを取得
+   * @param {string} id - サンプルのID
+   * @returns {SampleEntry} サンプル
+   * @throws {Error} IDのサンプルがない場合
+   */
+  public getSample(id: string): SampleEntry {
+    const sample = this.samplesById.get(id);
+    if (!sample) {
+      throw new Error(`ライブラリにサンプルが見つかりません: ${id}`);
+    }
+    return sample;
+  }
+
+  /**
+   * 全てのカテゴリーを取得
+   * @returns {string[]} 重複を除いて並べ替えたカテゴリー
+   */
+  public getCategories(): string[] {
+    return [...new Set(this.samples.map(sample => sample.category))].sort(compareText);
+  }
+
+  /**
+   * 全てのタグを取得
+   * @returns {string[]} 重複を除いて並べ替えたタグ
+   */
+  public getTags(): string[] {
+    return [...new Set(this.samples.flatMap(sample => sample.tags))].sort(compareText);
+  }
+
+  /**
+   * 条件に合うサンプルを検索
+   * @param {SampleQuery} query - 検索の条件
+   * @returns {SampleEntry[]} 条件に合うサンプル（並べ替えの基準が同じ場合は名前の順）
+   */
+  public search(query: SampleQuery = {}): SampleEntry[] {
+    const { text = '', category = null, tags = [], sortBy = 'name', descending = false } = query;
+    const terms = normalizeText(text).split(/\s+/).filter(term => term !== '');
+
+    const results = this.samples.filter(sample => {
+      if (category !== null && sample.category !== category) {
+        return false;
+      }
+      if (!tags.every(tag => sample.tags.includes(tag))) {
+        return false;
+      }
+      const searchable = normalizeText([sample.name, sample.category, ...sample.tags, sample.key ?? ''].join(' '));
+      return terms.every(term => searchable.includes(term));
+    });
+
+    const direction = descending ? -1 : 1;
+    return results.sort((a, b) => {
+      const order = this.compare(a, b, sortBy, direction);
+      return order !== 0 ? order : compareText(a.name, b.name);
+    });
+  }
+
+  /**
+   * 並べ替えの基準で2つのサンプルを比較（値がない場合は順序によらず後）
+   * @param {SampleEntry} a - 比較するサンプル
+   * @param {SampleEntry} b - 比較するサンプル
+   * @param {SampleSortKey} sortBy - 並べ替えの基準
+   * @param {number} direction - 昇順は1、降順は-1
+   * @returns {number} aが前の場合は負の値
+   */
+  private compare(a: SampleEntry, b: SampleEntry, sortBy: SampleSortKey, direction: number): number {
+    const valueA = a[sortBy];
+    const valueB = b[sortBy];
+    if (valueA === null || valueB === null) {
+      return valueA === valueB ? 0 : valueA === null ? 1 : -1;
+    }
+    if (typeof valueA === 'number' && typeof valueB === 'number') {
+      return (valueA - valueB) * direction;
+    }
+    return compareText(String(valueA), String(valueB)) * direction;
+  }
+}
+
+/**
+ * マニフェストを取得してライブラリを作成
+ * @param {string} url - マニフェストのURL
+ * @returns {Promise<SampleLibrary>} サンプルのライブラリ
+ * @throws {Error} マニフェストの取得に失敗した場合、またはマニフェストが無効な場合
+ */
+export const loadSampleLibrary = async (url: string = SAMPLE_MANIFEST_URL): Promise<SampleLibrary> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`サンプルのマニフェストの取得に失敗しました: HTTP error! status: ${response.status}`);
+  }
+  return new SampleLibrary(await response.json());
+};
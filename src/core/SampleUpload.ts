@@ -0,0 +1,83 @@
+/**
+ * @file SampleUpload.ts
+ * @brief アップロードしたサンプルのファイルの検証
+ * @details
+ * - 拡張子またはMIMEタイプで対応している形式（WAV、MP3、AIFF、FLAC、OGG）かどうかを検証
+ * - 空のファイルとUPLOAD_MAX_FILE_BYTESを超えるファイルを拒否
+ * - プロジェクトに埋め込む際のMIMEタイプを決定（ブラウザがMIMEタイプを判定できない場合は拡張子から決める）
+ * @limitations
+ * - 音声データとして読み込めるかどうかと長さは、デコード時にAudioEngine.loadSampleが検証する
+ * - 実際に対応している形式はブラウザのdecodeAudioDataに依存する（FLACやOGGに対応していないブラウザがある）
+ */
+
+import { UPLOAD_MAX_FILE_BYTES } from './audioConstants';
+
+/**
+ * 対応している拡張子とMIMEタイプ
+ */
+export const UPLOAD_FORMATS: { readonly [extension: string]: string } = {
+  wav: 'audio/wav',
+  mp3: 'audio/mpeg',
+  aif: 'audio/aiff',
+  aiff: 'audio/aiff',
+  flac: 'audio/flac',
+  ogg: 'audio/ogg'
+};
+
+/**
+ * ファイル選択のaccept属性に指定する文字列
+ */
+export const UPLOAD_ACCEPT = Object.keys(UPLOAD_FORMATS).map(extension => `.${extension}`).join(',');
+
+/**
+ * 拡張子以外で対応しているMIMEタイプ（ブラウザやOSによって異なるもの）
+ */
+const UPLOAD_MIME_ALIASES = ['audio/x-wav', 'audio/wave', 'audio/mp3', 'audio/x-aiff', 'audio/x-flac', 'application/ogg'];
+
+/**
+ * ファイル名の拡張子を取得
+ * @param {string} name - ファイル名
+ * @returns {string} 小文字の拡張子（ない場合は空文字列）
+ */
+const getExtension = (name: string): string => {
+  const index = name.lastIndexOf('.');
+  return index < 0 ? '' : name.slice(index + 1).toLowerCase();
+};
+
+/**
+ * 対応している形式かどうか
+ * @param {File} file - アップロードしたファイル
+ * @returns {boolean} 拡張子またはMIMEタイプが対応している場合はtrue
+ */
+export const isSupportedSampleFile = (file: File): boolean => {
+  return getExtension(file.name) in UPLOAD_FORMATS
+    || Object.values(UPLOAD_FORMATS).includes(file.type)
+    || UPLOAD_MIME_ALIASES.includes(file.type);
+};
+
+/**
+ * アップロードしたファイルを検証
+ * @param {File} file - アップロードしたファイル
+ * @throws {Error} 対応していない形式の場合、空の場合、またはサイズが大きすぎる場合
+ */
+export const validateSampleFile = (file: File): void => {
+  if (!isSupportedSampleFile(file)) {
+    throw new Error(`対応していない形式のファイルです（WAV、MP3、AIFF、FLAC、OGGに対応）: ${file.name}`);
+  }
+  if (file.size === 0) {
+    throw new Error(`ファイルが空です: ${file.name}`);
+  }
+  if (file.size > UPLOAD_MAX_FILE_BYTES) {
+    const maxMegabytes = UPLOAD_MAX_FILE_BYTES / (1024 * 1024);
+    throw new Error(`ファイルのサイズが大きすぎます（最大${maxMegabytes}MB）: ${file.name}`);
+  }
+};
+
+/**
+ * プロジェクトに埋め込む際のMIMEタイプを取得
+ * @param {File} file - アップロードしたファイル
+ * @returns {string} ファイルのMIMEタイプ（判定できない場合は拡張子から決めたMIMEタイプ）
+ */
+export const getSampleMimeType = (file: File): string => {
+  return file.type || UPLOAD_FORMATS[getExtension(file.name)] || 'application/octet-stream';
+};
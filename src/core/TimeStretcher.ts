@@ -0,0 +1,159 @@
+/**
+ * @file TimeStretcher.ts
+ * @brief ピッチを変えずに音声の長さを変えるクラス（WSOLA）
+ * @details
+ * - WSOLA（Waveform Similarity Overlap-Add）による時間伸縮
+ * - 各フレームの位置を前のフレームとの相互相関が最大になる位置に調整し、位相のずれによる濁りを抑える
+ * - フレーム位置は全チャンネルの平均から決め、ステレオの定位を保つ
+ * - 長さをN倍に伸ばしたサンプルをN倍速で再生することで、長さを変えずにピッチだけを変える用途を想定
+ * @limitations
+ * - 打撃音などのトランジェントはフレーム長程度ぼやける
+ * - 処理はメインスレッドで同期的に行うため、長いサンプルでは時間がかかる（AudioPlayerではピッチの操作が止まってから作成しておく）
+ * - 出力のサイズは倍率に比例するため、呼び出し側で倍率を制限する（AudioEngineではSTRETCH_MAX_FACTOR）
+ */
+
+import { STRETCH_FRAME_SECONDS } from './audioConstants';
+
+// 相互相関を計算する際のサンプルの間引き間隔（計算量の削減）
+const CORRELATION_STRIDE = 2;
+
+// フレーム長の最小値（サンプル数、半分ずつ重ねるため偶数）
+const MIN_FRAME_SIZE = 4;
+
+export class TimeStretcher {
+  /**
+   * TimeStretcherのコンストラクタ
+   * @param {BaseAudioContext} context - 出力のAudioBufferを作成する音声コンテキスト
+   */
+  constructor(private readonly context: BaseAudioContext) {}
+
+  /**
+   * 音声の長さを変える
+   * @param {AudioBuffer} buffer - 元の音声データ
+   * @param {number} factor - 長さの倍率（2.0で2倍の長さ）
+   * @returns {AudioBuffer} 時間伸縮した音声データ（ピッチは元のまま）
+   * @throws {Error} 倍率が正の数でない場合
+   */
+  public stretch(buffer: AudioBuffer, factor: number): AudioBuffer {
+    if (!(factor > 0)) {
+      throw new Error(`時間伸縮の倍率は正の数で指定してください: ${factor}`);
+    }
+
+    const frameSize = Math.max(MIN_FRAME_SIZE, 2 * Math.round(buffer.sampleRate * STRETCH_FRAME_SECONDS / 2));
+    const synthesisHop = frameSize / 2;
+    const analysisHop = synthesisHop / factor;
+    const tolerance = Math.floor(synthesisHop / 2);
+    const outputLength = Math.round(buffer.length * factor);
+
+    const inputs: Float32Array[] = [];
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      inputs.push(buffer.getChannelData(channel));
+    }
+    const mono = this.mixDown(inputs, buffer.length);
+    const outputs = inputs.map(() => new Float32Array(outputLength + frameSize));
+    const window = this.createHannWindow(frameSize);
+
+    // 前のフレームの自然な続き（元の音声でsynthesisHop先の位置）
+    let previousPosition = 0;
+    for (let outputPosition = 0; outputPosition < outputLength; outputPosition += synthesisHop) {
+      const nominalPosition = Math.round((outputPosition / synthesisHop) * analysisHop);
+      const position = outputPosition === 0
+        ? 0
+        : this.findBestPosition(mono, previousPosition + synthesisHop, nominalPosition, tolerance, synthesisHop);
+
+      // 窓を掛けて重ね合わせる（ハン窓をフレーム長の半分ずつ重ねると合計が1になる）
+      inputs.forEach((input, channel) => {
+        const output = outputs[channel];
+        for (let i = 0; i < frameSize; i++) {
+          const index = position + i;
+          if (index >= 0 && index < input.length) {
+            output[outputPosition + i] += input[index] * window[i];
+          }
+        }
+      });
+      previousPosition = position;
+    }
+
+    // 先頭のフレームは重ね合わせる相手がないため、窓による立ち上がりを補正する
+    outputs.forEach(output => {
+      for (let i = 0; i < synthesisHop && i < outputLength; i++) {
+        if (window[i] > 0) {
+          output[i] /= window[i];
+        }
+      }
+    });
+
+    const stretched = this.context.createBuffer(buffer.numberOfChannels, Math.max(1, outputLength), buffer.sampleRate);
+    outputs.forEach((output, channel) => {
+      stretched.copyToChannel(output.subarray(0, Math.max(1, outputLength)), channel);
+    });
+    return stretched;
+  }
+
+  /**
+   * 目標位置の周辺から、前のフレームの続きと最も似ている位置を探す
+   * @param {Float32Array} signal - 探索する信号
+   * @param {number} referencePosition - 前のフレームの自然な続きの位置
+   * @param {number} nominalPosition - 時間伸縮の倍率から決まる目標位置
+   * @param {number} tolerance - 探索範囲（目標位置の前後のサンプル数）
+   * @param {number} length - 比較する長さ（サンプル数）
+   * @returns {number} 最も似ている位置
+   */
+  private findBestPosition(
+    signal: Float32Array,
+    referencePosition: number,
+    nominalPosition: number,
+    tolerance: number,
+    length: number
+  ): number {
+    let bestPosition = nominalPosition;
+    let bestCorrelation = -Infinity;
+    const start = Math.max(0, nominalPosition - tolerance);
+    const end = Math.min(signal.length - length, nominalPosition + tolerance);
+
+    for (let candidate = start; candidate <= end; candidate++) {
+      let correlation = 0;
+      for (let i = 0; i < length; i += CORRELATION_STRIDE) {
+        const reference = referencePosition + i < signal.length ? signal[referencePosition + i] : 0;
+        correlation += reference * signal[candidate + i];
+      }
+      if (correlation > bestCorrelation) {
+        bestCorrelation = correlation;
+        bestPosition = candidate;
+      }
+    }
+    return bestPosition;
+  }
+
+  /**
+   * 全チャンネルの平均を計算
+   * @param {Float32Array[]} inputs - チャンネルごとの信号
+   * @param {number} length - 信号の長さ
+   * @returns {Float32Array} 平均した信号
+   */
+  private mixDown(inputs: Float32Array[], length: number): Float32Array {
+    if (inputs.length === 1) {
+      return inputs[0];
+    }
+    const mono = new Float32Array(length);
+    inputs.forEach(input => {
+      for (let i = 0; i < length; i++) {
+        mono[i] += input[i] / inputs.length;
+      }
+    });
+    return mono;
+  }
+
+  /**
+   * ハン窓を作成
+   * @param {number} size - 窓の長さ
+   * @returns {Float32Array} ハン窓
+   */
+  private createHannWindow(size: number): Float32Array {
+    const window = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+      window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / size);
+    }
+    return window;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,252 @@
+/**
+ * @file WavEncoder.ts
+ * @brief AudioBufferをWAVファイル（RIFF/WAVE）に変換するクラス
+ * @details
+ * - 16bit/24bit整数PCMと32bit浮動小数点に対応
+ * - モノラル/ステレオの書き出しに対応（モノラルは全チャンネルの平均）
+ * - ビット深度を下げる際のTPDFディザーに対応
+ * - AudioContextのサンプルレートに関係なく44.1/48/96kHzで書き出し可能
+ * @limitations
+ * - リサンプリングはOfflineAudioContextを使用するため、ブラウザ環境でのみ動作
+ * - 3チャンネル以上の書き出しには対応しない
+ */
+
+import { EXPORT_BIT_DEPTHS, EXPORT_SAMPLE_RATES } from './audioConstants';
+
+/**
+ * 書き出しのビット深度
+ * - 16, 24: 整数PCM
+ * - 32: 浮動小数点
+ */
+export type WavBitDepth = typeof EXPORT_BIT_DEPTHS[number];
+
+/**
+ * 書き出しのサンプルレート（Hz）
+ */
+export type WavSampleRate = typeof EXPORT_SAMPLE_RATES[number];
+
+/**
+ * WAV書き出しの設定
+ */
+export interface WavEncodeOptions {
+  bitDepth: WavBitDepth;
+  sampleRate: WavSampleRate | null;  // nullの場合は元のAudioBufferのサンプルレートで書き出す
+  channels: 1 | 2;
+  dither: boolean;
+}
+
+const DEFAULT_OPTIONS: WavEncodeOptions = {
+  bitDepth: 24,
+  sampleRate: null,
+  channels: 2,
+  dither: true
+};
+
+// WAVEフォーマットのコード
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+
+export class WavEncoder {
+  private readonly options: WavEncodeOptions;
+
+  /**
+   * WavEncoderのコンストラクタ
+   * @param {Partial<WavEncodeOptions>} options - 書き出し設定（省略した項目はデフォルト値）
+   * @throws {Error} 対応していない設定が指定された場合
+   */
+  constructor(options: Partial<WavEncodeOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+
+    if (!(EXPORT_BIT_DEPTHS as readonly number[]).includes(this.options.bitDepth)) {
+      throw new Error(`対応していないビット深度です: ${this.options.bitDepth}`);
+    }
+    if (this.options.sampleRate !== null &&
+        !(EXPORT_SAMPLE_RATES as readonly number[]).includes(this.options.sampleRate)) {
+      throw new Error(`対応していないサンプルレートです: ${this.options.sampleRate}`);
+    }
+    if (this.options.channels !== 1 && this.options.channels !== 2) {
+      throw new Error(`対応していないチャンネル数です: ${this.options.channels}`);
+    }
+  }
+
+  /**
+   * 書き出し設定を取得
+   * @returns {WavEncodeOptions} 書き出し設定
+   */
+  public getOptions(): WavEncodeOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * AudioBufferをWAVファイルに変換
+   * 設定されたサンプルレートが元のサンプルレートと異なる場合はリサンプリングしてから変換する
+   * @param {AudioBuffer} buffer - 変換する音声データ
+   * @returns {Promise<Blob>} WAVファイルのBlob（audio/wav）
+   * @throws {Error} リサンプリングまたは変換に失敗した場合
+   */
+  public async encode(buffer: AudioBuffer): Promise<Blob> {
+    const targetRate = this.options.sampleRate ?? buffer.sampleRate;
+    const source = targetRate === buffer.sampleRate ? buffer : await this.resample(buffer, targetRate);
+    return this.encodeBuffer(source);
+  }
+
+  /**
+   * リサンプリングせずにAudioBufferをWAVファイルに変換
+   * @param {AudioBuffer} buffer - 変換する音声データ
+   * @returns {Blob} WAVファイルのBlob（audio/wav）
+   * @throws {Error} 変換に失敗した場合
+   */
+  public encodeBuffer(buffer: AudioBuffer): Blob {
+    if (buffer.numberOfChannels < 1) {
+      throw new Error('チャンネルのない音声データは変換できません');
+    }
+
+    const { bitDepth, channels } = this.options;
+    const samples = this.getChannelSamples(buffer);
+    const bytesPerSample = bitDepth / 8;
+    const blockAlign = channels * bytesPerSample;
+    const dataSize = buffer.length * blockAlign;
+    const isFloat = bitDepth === 32;
+
+    // 浮動小数点の場合はfmtチャンクにcbSizeを含め、factチャンクを追加する
+    const fmtChunkSize = isFloat ? 18 : 16;
+    const factChunkSize = isFloat ? 12 : 0;
+    const headerSize = 12 + (8 + fmtChunkSize) + factChunkSize + 8;
+
+    const arrayBuffer = new ArrayBuffer(headerSize + dataSize);
+    const view = new DataView(arrayBuffer);
+    let offset = 0;
+
+    // RIFFヘッダー
+    offset = this.writeString(view, offset, 'RIFF');
+    view.setUint32(offset, headerSize - 8 + dataSize, true); offset += 4;
+    offset = this.writeString(view, offset, 'WAVE');
+
+    // fmtチャンク
+    offset = this.writeString(view, offset, 'fmt ');
+    view.setUint32(offset, fmtChunkSize, true); offset += 4;
+    view.setUint16(offset, isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, true); offset += 2;
+    view.setUint16(offset, channels, true); offset += 2;
+    view.setUint32(offset, buffer.sampleRate, true); offset += 4;
+    view.setUint32(offset, buffer.sampleRate * blockAlign, true); offset += 4;
+    view.setUint16(offset, blockAlign, true); offset += 2;
+    view.setUint16(offset, bitDepth, true); offset += 2;
+    if (isFloat) {
+      view.setUint16(offset, 0, true); offset += 2;
+
+      // factチャンク（非PCMフォーマットでは必須）
+      offset = this.writeString(view, offset, 'fact');
+      view.setUint32(offset, 4, true); offset += 4;
+      view.setUint32(offset, buffer.length, true); offset += 4;
+    }
+
+    // dataチャンク
+    offset = this.writeString(view, offset, 'data');
+    view.setUint32(offset, dataSize, true); offset += 4;
+
+    for (let i = 0; i < buffer.length; i++) {
+      for (let channel = 0; channel < channels; channel++) {
+        this.writeSample(view, offset, samples[channel][i]);
+        offset += bytesPerSample;
+      }
+    }
+
+    return new Blob([arrayBuffer], { type: 'audio/wav' });
+  }
+
+  /**
+   * 書き出すチャンネル数に合わせてサンプルデータを取得
+   * @param {AudioBuffer} buffer - 音声データ
+   * @returns {Float32Array[]} 書き出すチャンネルごとのサンプルデータ
+   */
+  private getChannelSamples(buffer: AudioBuffer): Float32Array[] {
+    const sourceChannels: Float32Array[] = [];
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      sourceChannels.push(buffer.getChannelData(channel));
+    }
+
+    if (this.options.channels === 1) {
+      // モノラル: 全チャンネルの平均
+      if (sourceChannels.length === 1) {
+        return sourceChannels;
+      }
+      const mono = new Float32Array(buffer.length);
+      sourceChannels.forEach(data => {
+        for (let i = 0; i < buffer.length; i++) {
+          mono[i] += data[i] / sourceChannels.length;
+        }
+      });
+      return [mono];
+    }
+
+    // ステレオ: モノラルの音源は両チャンネルに複製
+    return [sourceChannels[0], sourceChannels[1] ?? sourceChannels[0]];
+  }
+
+  /**
+   * 1サンプルを設定されたビット深度で書き込む
+   * @param {DataView} view - 書き込み先
+   * @param {number} offset - 書き込み位置（バイト）
+   * @param {number} sample - サンプル値（-1.0から1.0の範囲）
+   */
+  private writeSample(view: DataView, offset: number, sample: number): void {
+    const { bitDepth, dither } = this.options;
+
+    if (bitDepth === 32) {
+      view.setFloat32(offset, sample, true);
+      return;
+    }
+
+    const maxValue = Math.pow(2, bitDepth - 1) - 1;
+    let scaled = Math.max(-1, Math.min(1, sample)) * maxValue;
+    if (dither) {
+      // TPDFディザー: 2つの一様乱数の差（±1LSBの三角分布）を加える
+      scaled += Math.random() - Math.random();
+    }
+    const quantized = Math.max(-maxValue - 1, Math.min(maxValue, Math.round(scaled)));
+
+    if (bitDepth === 16) {
+      view.setInt16(offset, quantized, true);
+    } else {
+      // 24bitはリトルエンディアンで3バイトに分けて書き込む
+      view.setUint8(offset, quantized & 0xff);
+      view.setUint8(offset + 1, (quantized >> 8) & 0xff);
+      view.setUint8(offset + 2, (quantized >> 16) & 0xff);
+    }
+  }
+
+  /**
+   * ASCII文字列を書き込む
+   * @param {DataView} view - 書き込み先
+   * @param {number} offset - 書き込み位置（バイト）
+   * @param {string} value - 書き込む文字列
+   * @returns {number} 書き込み後の位置
+   */
+  private writeString(view: DataView, offset: number, value: string): number {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+    return offset + value.length;
+  }
+
+  /**
+   * OfflineAudioContextを使用してサンプルレートを変換
+   * @param {AudioBuffer} buffer - 変換する音声データ
+   * @param {number} sampleRate - 変換後のサンプルレート（Hz）
+   * @returns {Promise<AudioBuffer>} 変換後の音声データ
+   * @throws {Error} リサンプリングに失敗した場合
+   */
+  private async resample(buffer: AudioBuffer, sampleRate: number): Promise<AudioBuffer> {
+    try {
+      const length = Math.ceil(buffer.duration * sampleRate);
+      const offlineContext = new OfflineAudioContext(buffer.numberOfChannels, length, sampleRate);
+      const source = offlineContext.createBufferSource();
+      source.buffer = buffer;
+      source.connect(offlineContext.destination);
+      source.start(0);
+      return await offlineContext.startRendering();
+    } catch (error) {
+      throw new Error(`リサンプリングに失敗しました: ${(error as Error).message}`);
+    }
+  }
+}
\ No newline at end of file
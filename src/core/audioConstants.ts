@@ -2,17 +2,127 @@
  * @file audioConstants.ts
  * @brief 音声処理に関する定数を定義するファイル
  * @details
- * - ピッチ、タイミング、ボリュームなどの音声パラメータの範囲を定義
+ * - ピッチ（半音）、タイミング、エンベロープ、ボリュームなどの音声パラメータの範囲を定義
  * - Web Audio APIの実際のパラメータ範囲に変換するための定数
  */
 
 // ピッチ関連の定数
-export const PITCH_MIN_RATE = 0.5;  // 最小再生速度（半速）
-export const PITCH_MAX_RATE = 2.0;  // 最大再生速度（2倍速）
-export const PITCH_DEFAULT_RATE = 1.0;  // デフォルト再生速度（通常速度）
+export const SEMITONES_PER_OCTAVE = 12;  // 1オクターブの半音数（再生速度が2倍になる）
+export const CENTS_PER_SEMITONE = 100;  // 1半音のセント数
+export const PITCH_DEFAULT_SEMITONES = 0;  // デフォルトのピッチ（半音、元の高さ）
+export const PITCH_DEFAULT_RANGE_SEMITONES = 24;  // ピッチノブの可変幅のデフォルト（±半音）
+export const PITCH_RANGE_OPTIONS = [12, 24, 48] as const;  // 選択できるピッチノブの可変幅（±半音）
+
+export const STRETCH_FRAME_SECONDS = 0.03;  // 長さを保ったピッチ変更（時間伸縮）のフレーム長（秒）
+export const STRETCH_MAX_FACTOR = 4;  // 時間伸縮の倍率の上限（±2オクターブ、これを超える分は長さが変わる）
+export const STRETCH_PREPARE_DELAY_MS = 300;  // ピッチの操作が止まってから時間伸縮したサンプルを作成するまでの時間（ミリ秒）
 
 // タイミング関連の定数
-export const TIMING_MAX_DELAY_SECONDS = 0.5;  // 最大遅延時間（秒）
+export const TIMING_MAX_OFFSET_MS = 1000;  // タイミングのオフセットの最大値（±ミリ秒）
+export const TIMING_NUDGE_MS = 0.1;  // タイミングの微調整ボタンで変化する量（ミリ秒）
+
+// エンベロープ（ADSR）関連の定数
+export const ENVELOPE_MAX_ATTACK_SECONDS = 2.0;  // 最大アタック時間（秒）
+export const ENVELOPE_MAX_DECAY_SECONDS = 2.0;  // 最大ディケイ時間（秒）
+export const ENVELOPE_MAX_RELEASE_SECONDS = 2.0;  // 最大リリース時間（秒）
+export const ENVELOPE_DEFAULT_SUSTAIN = 1.0;  // デフォルトのサステインレベル（音量に対する比率）
+
+// トリム関連の定数
+export const TRIM_MIN_LENGTH = 0.01;  // トリムの開始位置と終了位置の最小間隔（サンプルの長さに対する比率）
+
+// リバーブ関連の定数
+export const REVERB_MIN_DECAY_SECONDS = 0.1;  // 残響時間（RT60）の最小値（秒）
+export const REVERB_MAX_DECAY_SECONDS = 8.0;  // 残響時間（RT60）の最大値（秒）
+export const REVERB_MAX_PRE_DELAY_SECONDS = 0.2;  // プリディレイの最大値（秒）
+
+// ディレイ関連の定数
+export const DELAY_MIN_TIME_MS = 1;  // ディレイタイムの最小値（ミリ秒）
+export const DELAY_MAX_TIME_MS = 2000;  // ディレイタイムの最大値（ミリ秒）
+export const DELAY_MAX_FEEDBACK = 0.95;  // フィードバックの最大値（発振しないように1未満にする）
+export const DELAY_MIN_CUT_FREQUENCY = 20;  // フィードバック内のローカット/ハイカットの最小周波数（Hz）
+export const DELAY_MAX_CUT_FREQUENCY = 20000;  // フィードバック内のローカット/ハイカットの最大周波数（Hz）
+export const DELAY_MIN_TEMPO = 20;  // テンポ同期の最小テンポ（BPM）
+export const DELAY_MAX_TEMPO = 300;  // テンポ同期の最大テンポ（BPM）
+export const DELAY_DEFAULT_TEMPO = 120;  // テンポ同期のデフォルトのテンポ（BPM）
+export const DELAY_MAX_TAIL_SECONDS = 10.0;  // オフラインレンダリングで書き出すディレイの残響の最大値（秒）
+
+// フィルター関連の定数
+export const FILTER_DEFAULT_BYPASS_WIDTH = 0.1;  // ノブの中央でフィルターをバイパスする範囲の幅のデフォルト（0.45から0.55）
+export const FILTER_MIN_Q = 0.7071;  // レゾナンスが0のときのQ（共振のピークがない）
+export const FILTER_MAX_Q = 20;  // レゾナンスが1のときのQ
+export const FILTER_PEAK_GAIN_DB = 12;  // ピークモードで持ち上げるゲイン（dB、カスケードしたフィルター全体）
+
+// パラメトリックイコライザー関連の定数
+export const EQUALIZER_MIN_FREQUENCY = 20;  // 各バンドの周波数の最小値（Hz）
+export const EQUALIZER_MAX_FREQUENCY = 20000;  // 各バンドの周波数の最大値（Hz）
+export const EQUALIZER_MAX_GAIN_DB = 18;  // 各バンドのゲインの調整幅（±dB）
+export const EQUALIZER_MIN_Q = 0.1;  // ピーキングのQの最小値
+export const EQUALIZER_MAX_Q = 10;  // ピーキングのQの最大値
+export const EQUALIZER_MIN_PEAK_BANDS = 2;  // ピーキングのバンド数の最小値
+export const EQUALIZER_MAX_PEAK_BANDS = 4;  // ピーキングのバンド数の最大値
+export const EQUALIZER_RESPONSE_POINTS = 64;  // 周波数特性のカーブの計算に使用する周波数の数
+
+// ディストーション関連の定数
+export const DISTORTION_MAX_DRIVE_DB = 36;  // ドライブの最大値（dB）
+export const DISTORTION_MAX_OUTPUT_DB = 12;  // 出力の調整幅（±dB）
+export const DISTORTION_MIN_BITS = 2;  // ビットリダクションの最小ビット数
+export const DISTORTION_MAX_BITS = 16;  // ビットリダクションの最大ビット数
+export const DISTORTION_MIN_TONE_FREQUENCY = 500;  // トーン（ローパス）の最小周波数（Hz）
+export const DISTORTION_MAX_TONE_FREQUENCY = 20000;  // トーン（ローパス）の最大周波数（Hz）
+
+// コンプレッサー関連の定数（マスターのみ）
+export const COMPRESSOR_MIN_THRESHOLD_DB = -60;  // スレッショルドの最小値（dBFS）
+export const COMPRESSOR_MAX_RATIO = 20;  // レシオの最大値（DynamicsCompressorNodeの上限）
+export const COMPRESSOR_MIN_ATTACK_SECONDS = 0.0001;  // アタックの最小値（秒）
+export const COMPRESSOR_MAX_ATTACK_SECONDS = 0.1;  // アタックの最大値（秒）
+export const COMPRESSOR_MIN_RELEASE_SECONDS = 0.01;  // リリースの最小値（秒）
+export const COMPRESSOR_MAX_RELEASE_SECONDS = 1.0;  // リリースの最大値（秒、DynamicsCompressorNodeの上限）
+export const COMPRESSOR_MAX_KNEE_DB = 40;  // ニーの最大値（dB、DynamicsCompressorNodeの上限）
+export const COMPRESSOR_MAX_MAKEUP_DB = 24;  // メイクアップゲインの最大値（dB）
+
+// リミッター関連の定数（マスターのみ）
+export const LIMITER_MIN_CEILING_DB = -12;  // シーリングの最小値（dBFS）
+export const LIMITER_MIN_RELEASE_SECONDS = 0.01;  // リリースの最小値（秒）
+export const LIMITER_MAX_RELEASE_SECONDS = 1.0;  // リリースの最大値（秒）
+
+// パラメータの変化関連の定数
+export const PARAMETER_RAMP_SECONDS = 0.02;  // ノブの操作でパラメータを変化させる時間のデフォルト（秒、setTargetAtTimeの時定数）
+
+// オフラインレンダリング関連の定数
+export const RENDER_TAIL_SECONDS = 1.0;  // サンプル終了後に残響等のために追加で書き出す時間（秒）
+export const RENDER_CHANNEL_COUNT = 2;  // 書き出しのチャンネル数（ステレオ）
+
+// メーター関連の定数
+export const METER_FFT_SIZE = 2048;  // レベル計測に使用するサンプル数
+export const METER_MIN_DB = -60;  // メーターの最小値（dBFS）
+export const METER_CHANNEL_COUNT = 2;  // 計測するチャンネル数（ステレオ）
+export const METER_CLIP_DB = 0;  // クリップとみなすピークレベル（dBFS）
+export const METER_PEAK_HOLD_MS = 1500;  // ピークホールドの保持時間（ミリ秒）
+
+// ラウドネス測定（ITU-R BS.1770 / EBU R128）関連の定数
+export const LOUDNESS_BLOCK_STEP_SECONDS = 0.1;  // ブロックの間隔（秒）
+export const LOUDNESS_MOMENTARY_SECONDS = 0.4;  // モーメンタリー（ゲーティング）ブロックの長さ（秒）
+export const LOUDNESS_SHORT_TERM_SECONDS = 3.0;  // ショートタームブロックの長さ（秒）
+export const LOUDNESS_ABSOLUTE_GATE_LUFS = -70;  // 絶対ゲート（LUFS）
+export const LOUDNESS_RELATIVE_GATE_LU = -10;  // インテグレーテッドラウドネスの相対ゲート（LU）
+export const LOUDNESS_RANGE_RELATIVE_GATE_LU = -20;  // ラウドネスレンジの相対ゲート（LU）
+export const LOUDNESS_NORMALIZE_TARGETS = [-14, -9] as const;  // 書き出し時のノーマライズの目標値のプリセット（LUFS）
+
+// WAV書き出し関連の定数
+export const EXPORT_BIT_DEPTHS = [16, 24, 32] as const;  // 書き出し可能なビット深度（32は浮動小数点）
+export const EXPORT_SAMPLE_RATES = [44100, 48000, 96000] as const;  // 書き出し可能なサンプルレート（Hz）
+export const DOWNLOAD_REVOKE_DELAY_MS = 1000;  // ダウンロードを開始してからオブジェクトURLを解放するまでの時間（ミリ秒、直後に解放するとダウンロードが中断するブラウザがある）
+
+// サンプルのアップロード関連の定数
+export const UPLOAD_MAX_FILE_BYTES = 30 * 1024 * 1024;  // アップロードできるファイルの最大サイズ（バイト、プロジェクトに埋め込むため制限する）
+export const UPLOAD_MAX_DURATION_SECONDS = 60;  // アップロードできるサンプルの最大の長さ（秒）
+
+// ブラウザへの保存関連の定数
+export const AUTOSAVE_INTERVAL_MS = 30000;  // 作業中の状態を自動保存する間隔（ミリ秒、変更がない場合は保存しない）
+
+// 編集履歴（元に戻す/やり直す）関連の定数
+export const HISTORY_MAX_STEPS = 100;  // 元に戻せる操作の最大数
+export const HISTORY_COALESCE_MS = 500;  // 同じパラメータの連続した変更を1つの操作にまとめる間隔（ミリ秒）
 
 // ボリューム関連の定数
 export const VOLUME_MIN = 0.0;  // 最小音量
@@ -21,21 +131,24 @@ export const VOLUME_DEFAULT = 1.0;  // デフォルト音量
 
 // チャンネル関連の定数
 /**
- * 有効なチャンネルIDの型定義
+ * チャンネルIDの型定義
  * - 0: マスターチャンネル（全体の制御用）
- * - 1: チャンネル1
- * - 2: チャンネル2
- * - 3: チャンネル3
+ * - 1以上: サンプルチャンネル（AudioEngine.addChannelで動的に追加される）
  */
-export type ChannelId = 0 | 1 | 2 | 3;
+export type ChannelId = number;
 
 /**
- * 利用可能なチャンネルIDの配列
+ * 起動時に作成されるチャンネルIDの配列
  * マスターチャンネル（0）は含まない
  */
-export const CHANNEL_IDS: readonly [1, 2, 3] = [1, 2, 3] as const;
+export const DEFAULT_CHANNEL_IDS: readonly ChannelId[] = [1, 2, 3];
+
+/**
+ * 同時に扱えるサンプルチャンネルの最大数
+ */
+export const MAX_CHANNELS = 8;
 
 /**
  * マスターチャンネルのID
  */
-export const MASTER_CHANNEL_ID: ChannelId = 0; 
\ No newline at end of file
+export const MASTER_CHANNEL_ID: ChannelId = 0;
\ No newline at end of file
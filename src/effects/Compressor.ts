@@ -0,0 +1,346 @@
+/**
+ * @file Compressor.ts
+ * @brief マスター用のコンプレッサーの実装
+ * @details
+ * - DynamicsCompressorNodeによるコンプレッション
+ * - 0-1の値（updateEffect）でスレッショルドを制御し、0ではコンプレッサーをバイパス
+ * - レシオ、アタック、リリース、ニー、メイクアップゲインを0-1の値で設定
+ * - ゲインリダクション（dB）の取得
+ * @limitations
+ * - サイドチェインには対応していない
+ * - ゲインリダクションは再生中の値で、オフラインレンダリングの値は取得できない
+ */
+
+import { BaseEffect } from './base/BaseEffect';
+import {
+  COMPRESSOR_MIN_THRESHOLD_DB,
+  COMPRESSOR_MAX_RATIO,
+  COMPRESSOR_MIN_ATTACK_SECONDS,
+  COMPRESSOR_MAX_ATTACK_SECONDS,
+  COMPRESSOR_MIN_RELEASE_SECONDS,
+  COMPRESSOR_MAX_RELEASE_SECONDS,
+  COMPRESSOR_MAX_KNEE_DB,
+  COMPRESSOR_MAX_MAKEUP_DB
+} from '@/core/audioConstants';
+
+/**
+ * コンプレッサーのパラメータ（いずれも0-1の値）
+ * - ratio: レシオ（1:1からCOMPRESSOR_MAX_RATIO:1、対数のカーブ）
+ * - attack: アタック（COMPRESSOR_MIN_ATTACK_SECONDSからCOMPRESSOR_MAX_ATTACK_SECONDS、対数のカーブ）
+ * - release: リリース（COMPRESSOR_MIN_RELEASE_SECONDSからCOMPRESSOR_MAX_RELEASE_SECONDS、対数のカーブ）
+ * - knee: ニー（0からCOMPRESSOR_MAX_KNEE_DB）
+ * - makeup: メイクアップゲイン（0からCOMPRESSOR_MAX_MAKEUP_DB）
+ */
+export type CompressorParameter = 'ratio' | 'attack' | 'release' | 'knee' | 'makeup';
+
+/**
+ * コンプレッサーの設定（スレッショルドはupdateEffectの値で、設定には含まない）
+ */
+export type CompressorSettings = { [param in CompressorParameter]: number };
+
+/**
+ * コンプレッサーのパラメータ名（getParameterNamesで公開する順序）
+ */
+export const COMPRESSOR_PARAMETERS: readonly CompressorParameter[] = ['ratio', 'attack', 'release', 'knee', 'makeup'];
+
+/**
+ * コンプレッサーの設定のデフォルト値
+ */
+export const COMPRESSOR_DEFAULT_SETTINGS: Readonly<CompressorSettings> = {
+  ratio: 0.5,
+  attack: 0.6,
+  release: 0.5,
+  knee: 0.25,
+  makeup: 0
+};
+
+/**
+ * スレッショルドの値（0-1）をデシベルに変換
+ * @param {number} value - スレッショルドの値（0-1）
+ * @returns {number} スレッショルド（dBFS、0からCOMPRESSOR_MIN_THRESHOLD_DB）
+ */
+export const toThresholdDb = (value: number): number => {
+  return value === 0 ? 0 : value * COMPRESSOR_MIN_THRESHOLD_DB;
+};
+
+/**
+ * レシオのパラメータ（0-1）をレシオに変換
+ * @param {number} value - パラメータの値（0-1）
+ * @returns {number} レシオ（1からCOMPRESSOR_MAX_RATIO）
+ */
+export const toRatio = (value: number): number => {
+  return Math.pow(COMPRESSOR_MAX_RATIO, value);
+};
+
+/**
+ * アタックのパラメータ（0-1）を秒に変換
+ * @param {number} value - パラメータの値（0-1）
+ * @returns {number} アタック（秒）
+ */
+export const toAttackSeconds = (value: number): number => {
+  return COMPRESSOR_MIN_ATTACK_SECONDS * Math.pow(COMPRESSOR_MAX_ATTACK_SECONDS / COMPRESSOR_MIN_ATTACK_SECONDS, value);
+};
+
+/**
+ * リリースのパラメータ（0-1）を秒に変換
+ * @param {number} value - パラメータの値（0-1）
+ * @returns {number} リリース（秒）
+ */
+export const toReleaseSeconds = (value: number): number => {
+  return COMPRESSOR_MIN_RELEASE_SECONDS * Math.pow(COMPRESSOR_MAX_RELEASE_SECONDS / COMPRESSOR_MIN_RELEASE_SECONDS, value);
+};
+
+/**
+ * ニーのパラメータ（0-1）をデシベルに変換
+ * @param {number} value - パラメータの値（0-1）
+ * @returns {number} ニー（dB）
+ */
+export const toKneeDb = (value: number): number => {
+  return value * COMPRESSOR_MAX_KNEE_DB;
+};
+
+/**
+ * メイクアップゲインのパラメータ（0-1）をデシベルに変換
+ * @param {number} value - パラメータの値（0-1）
+ * @returns {number} メイクアップゲイン（dB）
+ */
+export const toMakeupDb = (value: number): number => {
+  return value * COMPRESSOR_MAX_MAKEUP_DB;
+};
+
+export class Compressor extends BaseEffect<CompressorSettings> {
+  private compressor: DynamicsCompressorNode;
+  private makeupGain: GainNode;
+  private wetGain: GainNode;  // コンプレッサーパス用のゲイン
+  private dryGain: GainNode;  // バイパスパス用のゲイン
+  private threshold: number;  // スレッショルド（0-1）
+  private settings: CompressorSettings;
+
+  /**
+   * @brief コンプレッサーのコンストラクタ
+   * @param context - Web Audio APIのコンテキスト
+   */
+  constructor(context: BaseAudioContext) {
+    super(context);
+    this.compressor = this.context.createDynamicsCompressor();
+    this.makeupGain = this.context.createGain();
+    this.wetGain = this.context.createGain();
+    this.dryGain = this.context.createGain();
+    this.threshold = 0;  // 初期値は0（コンプレッサーOFF）
+    this.settings = { ...COMPRESSOR_DEFAULT_SETTINGS };
+
+    // パラメータの登録
+    this.parameters.set('wet', this.wetGain.gain);
+    this.parameters.set('dry', this.dryGain.gain);
+
+    // 初期接続設定
+    this.setupConnections();
+    this.applySettings();
+  }
+
+  /**
+   * @brief 入出力の接続を設定
+   */
+  private setupConnections(): void {
+    // コンプレッサーパス: input → compressor → makeupGain → wetGain → output
+    this.input.connect(this.compressor);
+    this.compressor.connect(this.makeupGain);
+    this.makeupGain.connect(this.wetGain);
+    this.wetGain.connect(this.output);
+
+    // バイパスパス: input → dryGain → output
+    this.input.connect(this.dryGain);
+    this.dryGain.connect(this.output);
+
+    // 初期状態ではバイパス
+    this.wetGain.gain.value = 0;
+    this.dryGain.gain.value = 1;
+  }
+
+  /**
+   * @brief コンプレッサーを有効にする
+   */
+  public enable(): void {
+    this.checkState();
+    this.isEnabled = true;
+    this.wetGain.gain.setTargetAtTime(1, this.context.currentTime, 0.01);
+    this.dryGain.gain.setTargetAtTime(0, this.context.currentTime, 0.01);
+  }
+
+  /**
+   * @brief コンプレッサーを無効にする
+   */
+  public disable(): void {
+    this.checkState();
+    this.isEnabled = false;
+    this.wetGain.gain.setTargetAtTime(0, this.context.currentTime, 0.01);
+    this.dryGain.gain.setTargetAtTime(1, this.context.currentTime, 0.01);
+  }
+
+  /**
+   * @brief パラメータを設定
+   * @param param - パラメータ名（CompressorParameter、またはwet/dryのゲイン）
+   * @param value - パラメータ値（CompressorParameterの場合は0-1）
+   */
+  public setParameter(param: string, value: number): void {
+    this.checkState();
+    if (this.isCompressorParameter(param)) {
+      if (value < 0 || value > 1) {
+        throw new Error(`${param}の値は0から1の範囲で指定してください`);
+      }
+      this.settings[param] = value;
+      this.applySettings();
+      return;
+    }
+    const audioParam = this.parameters.get(param);
+    if (!audioParam) {
+      throw new Error(`無効なパラメータ名です: ${param}`);
+    }
+    this.rampAudioParam(audioParam, value);
+  }
+
+  /**
+   * @brief パラメータを取得
+   * @param param - パラメータ名（CompressorParameter、またはwet/dryのゲイン）
+   * @returns パラメータ値
+   */
+  public getParameter(param: string): number {
+    this.checkState();
+    if (this.isCompressorParameter(param)) {
+      return this.settings[param];
+    }
+    const audioParam = this.parameters.get(param);
+    if (!audioParam) {
+      throw new Error(`無効なパラメータ名です: ${param}`);
+    }
+    return this.getAudioParamValue(audioParam);
+  }
+
+  /**
+   * @brief パラメータ名の一覧を取得
+   * @returns CompressorParameterとwet/dryのパラメータ名の配列
+   */
+  public getParameterNames(): string[] {
+    return [...COMPRESSOR_PARAMETERS, ...super.getParameterNames()];
+  }
+
+  /**
+   * @brief コンプレッサーの全パラメータをまとめて設定
+   * @param settings - コンプレッサーの設定
+   */
+  public setSettings(settings: CompressorSettings): void {
+    this.checkState();
+    COMPRESSOR_PARAMETERS.forEach(param => {
+      if (settings[param] < 0 || settings[param] > 1) {
+        throw new Error(`${param}の値は0から1の範囲で指定してください`);
+      }
+    });
+    this.settings = { ...settings };
+    this.applySettings();
+  }
+
+  /**
+   * @brief スレッショルドを更新
+   * @param value - スレッショルド（0-1、0でバイパス）
+   */
+  public updateEffect(value: number): void {
+    this.checkState();
+    if (value < 0 || value > 1) {
+      throw new Error('コンプレッサー値は0から1の範囲で指定してください');
+    }
+    this.threshold = value;
+    this.applySettings();
+    if (this.threshold === 0) {
+      this.disable();
+      return;
+    }
+    this.enable();
+  }
+
+  /**
+   * @brief ゲインリダクションを取得
+   * @returns ゲインリダクション（dB、0以下、バイパス中は0）
+   */
+  public getReduction(): number {
+    this.checkState();
+    return this.isEnabled ? this.compressor.reduction : 0;
+  }
+
+  /**
+   * @brief 状態として保存するエフェクトの値を取得
+   * @returns コンプレッサーの値（0-1）
+   */
+  protected getEffectValue(): number {
+    return this.threshold;
+  }
+
+  /**
+   * @brief 状態として保存する設定を取得
+   * @returns コンプレッサーの設定のコピー
+   */
+  protected getStateSettings(): CompressorSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * @brief 状態から復元する設定を反映
+   * @param settings - コンプレッサーの設定
+   */
+  protected applyStateSettings(settings: CompressorSettings): void {
+    this.setSettings(settings);
+  }
+
+  /**
+   * @brief コンプレッサーの現在の値を確認用に取得（保存と復元にはgetState/setStateを使用）
+   * @returns コンプレッサーの現在の値（thresholdと各パラメータは0-1、thresholdDbはdBFS）
+   */
+  getStatus(): CompressorSettings & { threshold: number; thresholdDb: number } {
+    return {
+      ...this.settings,
+      threshold: this.threshold,
+      thresholdDb: toThresholdDb(this.threshold)
+    };
+  }
+
+  /**
+   * @brief コンプレッサーの設定をリセット
+   */
+  reset(): void {
+    this.threshold = 0;
+    this.settings = { ...COMPRESSOR_DEFAULT_SETTINGS };
+    this.applySettings();
+    this.disable();  // リセット時にコンプレッサーを無効にする
+  }
+
+  /**
+   * @brief コンプレッサーを破棄
+   */
+  dispose(): void {
+    this.compressor.disconnect();
+    this.makeupGain.disconnect();
+    this.wetGain.disconnect();
+    this.dryGain.disconnect();
+    super.dispose();
+  }
+
+  /**
+   * @brief 現在のスレッショルドと設定をDynamicsCompressorNodeとメイクアップゲインに反映
+   */
+  private applySettings(): void {
+    this.rampAudioParam(this.compressor.threshold, toThresholdDb(this.threshold));
+    this.rampAudioParam(this.compressor.ratio, toRatio(this.settings.ratio));
+    this.rampAudioParam(this.compressor.attack, toAttackSeconds(this.settings.attack));
+    this.rampAudioParam(this.compressor.release, toReleaseSeconds(this.settings.release));
+    this.rampAudioParam(this.compressor.knee, toKneeDb(this.settings.knee));
+    this.rampAudioParam(this.makeupGain.gain, Math.pow(10, toMakeupDb(this.settings.makeup) / 20));
+  }
+
+  /**
+   * @brief コンプレッサーのパラメータ名かどうかを判定
+   * @param param - パラメータ名
+   * @returns CompressorParameterの場合はtrue
+   */
+  private isCompressorParameter(param: string): param is CompressorParameter {
+    return (COMPRESSOR_PARAMETERS as readonly string[]).includes(param);
+  }
+}
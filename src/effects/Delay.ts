@@ -0,0 +1,501 @@
+/**
+ * @file Delay.ts
+ * @brief フィードバックディレイの実装
+ * @details
+ * - 左右2本のDelayNodeによるステレオのディレイ
+ * - ディレイタイムはミリ秒、またはテンポに同期した音符の長さで指定
+ * - フィードバックのループ内にローカット（ハイパス）とハイカット（ローパス）を挟み、繰り返すほど音がこもる
+ * - ピンポンでは入力をモノラルにまとめて左から鳴らし、フィードバックを左右で交互に送る
+ * - 0-1の値（updateEffect）でウェットとドライのミックスを制御し、0ではディレイをバイパス
+ * @limitations
+ * - ディレイタイムを変更すると、変化にかける時間（setParameterRamp）の間はディレイライン内の音のピッチが滑らかに変わる
+ */
+
+import { BaseEffect } from './base/BaseEffect';
+import {
+  DELAY_MIN_TIME_MS,
+  DELAY_MAX_TIME_MS,
+  DELAY_MAX_FEEDBACK,
+  DELAY_MIN_CUT_FREQUENCY,
+  DELAY_MAX_CUT_FREQUENCY,
+  DELAY_MIN_TEMPO,
+  DELAY_MAX_TEMPO,
+  DELAY_DEFAULT_TEMPO,
+  DELAY_MAX_TAIL_SECONDS
+} from '@/core/audioConstants';
+
+/**
+ * テンポ同期で選択できる音符の長さ（dは付点、tは3連符）
+ */
+export type DelayNoteValue = '1/2' | '1/4' | '1/4d' | '1/4t' | '1/8' | '1/8d' | '1/8t' | '1/16';
+
+/**
+ * ディレイのパラメータ（いずれも0-1の値）
+ * - time: ディレイタイム（DELAY_MIN_TIME_MSからDELAY_MAX_TIME_MS、テンポ同期中は使用しない）
+ * - feedback: フィードバック量（0からDELAY_MAX_FEEDBACK）
+ * - lowCut: フィードバック内のローカットの周波数（DELAY_MIN_CUT_FREQUENCYからDELAY_MAX_CUT_FREQUENCY）
+ * - highCut: フィードバック内のハイカットの周波数（DELAY_MIN_CUT_FREQUENCYからDELAY_MAX_CUT_FREQUENCY）
+ */
+export type DelayParameter = 'time' | 'feedback' | 'lowCut' | 'highCut';
+
+/**
+ * ディレイの設定
+ */
+export interface DelaySettings {
+  time: number;
+  feedback: number;
+  lowCut: number;
+  highCut: number;
+  sync: boolean;
+  noteValue: DelayNoteValue;
+  pingPong: boolean;
+}
+
+/**
+ * ディレイのパラメータ名（getParameterNamesで公開する順序）
+ */
+export const DELAY_PARAMETERS: readonly DelayParameter[] = ['time', 'feedback', 'lowCut', 'highCut'];
+
+/**
+ * ディレイの設定のデフォルト値
+ */
+export const DELAY_DEFAULT_SETTINGS: Readonly<DelaySettings> = {
+  time: 0.4,
+  feedback: 0.4,
+  lowCut: 0.2,
+  highCut: 0.8,
+  sync: false,
+  noteValue: '1/8',
+  pingPong: false
+};
+
+/**
+ * 音符の長さ（4分音符を1拍とした拍数）
+ */
+const NOTE_VALUE_BEATS: { [note in DelayNoteValue]: number } = {
+  '1/2': 2,
+  '1/4': 1,
+  '1/4d': 1.5,
+  '1/4t': 2 / 3,
+  '1/8': 0.5,
+  '1/8d': 0.75,
+  '1/8t': 1 / 3,
+  '1/16': 0.25
+};
+
+/**
+ * テンポ同期で選択できる音符の長さ（長い順）
+ */
+export const DELAY_NOTE_VALUES = Object.keys(NOTE_VALUE_BEATS) as DelayNoteValue[];
+
+// 残響が-60dBになるまでの繰り返しを残響の長さとするための振幅
+const TAIL_THRESHOLD = 0.001;
+
+/**
+ * ディレイタイムのパラメータ（0-1）をミリ秒に変換
+ * @param {number} value - パラメータの値（0-1）
+ * @returns {number} ディレイタイム（ミリ秒、2乗のカーブで短いディレイを細かく調整できるようにする）
+ */
+export const toDelayTimeMs = (value: number): number => {
+  return DELAY_MIN_TIME_MS + (DELAY_MAX_TIME_MS - DELAY_MIN_TIME_MS) * value * value;
+};
+
+/**
+ * 音符の長さをミリ秒に変換
+ * @param {DelayNoteValue} noteValue - 音符の長さ
+ * @param {number} tempo - テンポ（BPM）
+ * @returns {number} ディレイタイム（ミリ秒、DELAY_MAX_TIME_MSを超える場合はDELAY_MAX_TIME_MS）
+ */
+export const noteValueToMs = (noteValue: DelayNoteValue, tempo: number): number => {
+  return Math.min(DELAY_MAX_TIME_MS, NOTE_VALUE_BEATS[noteValue] * 60000 / tempo);
+};
+
+/**
+ * フィードバックのパラメータ（0-1）をゲインに変換
+ * @param {number} value - パラメータの値（0-1）
+ * @returns {number} フィードバックのゲイン
+ */
+export const toFeedbackGain = (value: number): number => {
+  return value * DELAY_MAX_FEEDBACK;
+};
+
+/**
+ * ローカット/ハイカットのパラメータ（0-1）を周波数に変換
+ * @param {number} value - パラメータの値（0-1）
+ * @returns {number} 周波数（Hz、対数のカーブ）
+ */
+export const toCutFrequency = (value: number): number => {
+  return DELAY_MIN_CUT_FREQUENCY * Math.pow(DELAY_MAX_CUT_FREQUENCY / DELAY_MIN_CUT_FREQUENCY, value);
+};
+
+/**
+ * 設定とテンポから実際のディレイタイムを取得
+ * @param {DelaySettings} settings - ディレイの設定
+ * @param {number} tempo - テンポ（BPM）
+ * @returns {number} ディレイタイム（ミリ秒）
+ */
+export const getDelayTimeMs = (settings: DelaySettings, tempo: number): number => {
+  return settings.sync ? noteValueToMs(settings.noteValue, tempo) : toDelayTimeMs(settings.time);
+};
+
+export class Delay extends BaseEffect<DelaySettings> {
+  private upmix: GainNode;  // モノラルの入力を左右に振り分けるための2チャンネルへのアップミックス
+  private splitter: ChannelSplitterNode;
+  private merger: ChannelMergerNode;
+  private delays: DelayNode[];  // 左右のディレイライン
+  private lowCuts: BiquadFilterNode[];  // フィードバック内のローカット（ハイパス）
+  private highCuts: BiquadFilterNode[];  // フィードバック内のハイカット（ローパス）
+  private feedbackGains: GainNode[];  // フィードバック量
+  private selfGains: GainNode[];  // 同じ側のディレイラインへのフィードバック（通常時）
+  private crossGains: GainNode[];  // 反対側のディレイラインへのフィードバック（ピンポン時）
+  private leftInput: GainNode;  // 左の入力 → 左のディレイライン
+  private rightInput: GainNode;  // 右の入力 → 右のディレイライン（通常時）
+  private crossInput: GainNode;  // 右の入力 → 左のディレイライン（ピンポン時）
+  private wetGain: GainNode;  // ディレイ（ウェット）パス用のゲイン
+  private dryGain: GainNode;  // 原音（ドライ）パス用のゲイン
+  private mix: number;  // ウェットとドライのミックス（0-1）
+  private settings: DelaySettings;
+  private tempo: number;  // テンポ同期に使用するテンポ（BPM）
+
+  /**
+   * @brief ディレイのコンストラクタ
+   * @param context - Web Audio APIのコンテキスト
+   */
+  constructor(context: BaseAudioContext) {
+    super(context);
+    this.upmix = this.context.createGain();
+    this.splitter = this.context.createChannelSplitter(2);
+    this.merger = this.context.createChannelMerger(2);
+    this.delays = [0, 1].map(() => this.context.createDelay(DELAY_MAX_TIME_MS / 1000));
+    this.lowCuts = [0, 1].map(() => this.context.createBiquadFilter());
+    this.highCuts = [0, 1].map(() => this.context.createBiquadFilter());
+    this.feedbackGains = [0, 1].map(() => this.context.createGain());
+    this.selfGains = [0, 1].map(() => this.context.createGain());
+    this.crossGains = [0, 1].map(() => this.context.createGain());
+    this.leftInput = this.context.createGain();
+    this.rightInput = this.context.createGain();
+    this.crossInput = this.context.createGain();
+    this.wetGain = this.context.createGain();
+    this.dryGain = this.context.createGain();
+    this.mix = 0;  // 初期値は0（ディレイOFF）
+    this.settings = { ...DELAY_DEFAULT_SETTINGS };
+    this.tempo = DELAY_DEFAULT_TEMPO;
+
+    // パラメータの登録
+    this.parameters.set('wet', this.wetGain.gain);
+    this.parameters.set('dry', this.dryGain.gain);
+
+    // モノラルの入力は左右に振り分ける（ChannelSplitterNodeのchannelInterpretationは変更できないため、前段のGainNodeでアップミックスする）
+    this.upmix.channelCount = 2;
+    this.upmix.channelCountMode = 'explicit';
+    this.upmix.channelInterpretation = 'speakers';
+    this.lowCuts.forEach(lowCut => { lowCut.type = 'highpass'; });
+    this.highCuts.forEach(highCut => { highCut.type = 'lowpass'; });
+
+    // 初期接続設定
+    this.setupConnections();
+    this.applySettings();
+  }
+
+  /**
+   * @brief 入出力の接続を設定
+   */
+  private setupConnections(): void {
+    // 入力の振り分け: input → upmix → splitter → 左右のディレイライン
+    this.input.connect(this.upmix);
+    this.upmix.connect(this.splitter);
+    this.splitter.connect(this.leftInput, 0);
+    this.splitter.connect(this.rightInput, 1);
+    this.splitter.connect(this.crossInput, 1);
+    this.leftInput.connect(this.delays[0]);
+    this.rightInput.connect(this.delays[1]);
+    this.crossInput.connect(this.delays[0]);
+
+    // ディレイライン: delay → lowCut → highCut → merger（ウェット）/ feedbackGain → 同じ側・反対側のdelay
+    [0, 1].forEach(channel => {
+      this.delays[channel].connect(this.lowCuts[channel]);
+      this.lowCuts[channel].connect(this.highCuts[channel]);
+      this.highCuts[channel].connect(this.merger, 0, channel);
+      this.highCuts[channel].connect(this.feedbackGains[channel]);
+      this.feedbackGains[channel].connect(this.selfGains[channel]);
+      this.feedbackGains[channel].connect(this.crossGains[channel]);
+      this.selfGains[channel].connect(this.delays[channel]);
+      this.crossGains[channel].connect(this.delays[1 - channel]);
+    });
+    this.merger.connect(this.wetGain);
+    this.wetGain.connect(this.output);
+
+    // ドライパス: input → dryGain → output
+    this.input.connect(this.dryGain);
+    this.dryGain.connect(this.output);
+
+    // 初期状態ではバイパス
+    this.wetGain.gain.value = 0;
+    this.dryGain.gain.value = 1;
+  }
+
+  /**
+   * @brief ディレイを有効にする（現在のミックスを適用）
+   */
+  public enable(): void {
+    this.checkState();
+    this.isEnabled = true;
+    // 等パワーのクロスフェード
+    this.wetGain.gain.setTargetAtTime(Math.sin(this.mix * Math.PI / 2), this.context.currentTime, 0.01);
+    this.dryGain.gain.setTargetAtTime(Math.cos(this.mix * Math.PI / 2), this.context.currentTime, 0.01);
+  }
+
+  /**
+   * @brief ディレイを無効にする
+   */
+  public disable(): void {
+    this.checkState();
+    this.isEnabled = false;
+    this.wetGain.gain.setTargetAtTime(0, this.context.currentTime, 0.01);
+    this.dryGain.gain.setTargetAtTime(1, this.context.currentTime, 0.01);
+  }
+
+  /**
+   * @brief パラメータを設定
+   * @param param - パラメータ名（DelayParameter、またはwet/dryのゲイン）
+   * @param value - パラメータ値（DelayParameterの場合は0-1）
+   */
+  public setParameter(param: string, value: number): void {
+    this.checkState();
+    if (this.isDelayParameter(param)) {
+      if (value < 0 || value > 1) {
+        throw new Error(`${param}の値は0から1の範囲で指定してください`);
+      }
+      this.settings[param] = value;
+      this.applySettings();
+      return;
+    }
+    const audioParam = this.parameters.get(param);
+    if (!audioParam) {
+      throw new Error(`無効なパラメータ名です: ${param}`);
+    }
+    this.rampAudioParam(audioParam, value);
+  }
+
+  /**
+   * @brief パラメータを取得
+   * @param param - パラメータ名（DelayParameter、またはwet/dryのゲイン）
+   * @returns パラメータ値
+   */
+  public getParameter(param: string): number {
+    this.checkState();
+    if (this.isDelayParameter(param)) {
+      return this.settings[param];
+    }
+    const audioParam = this.parameters.get(param);
+    if (!audioParam) {
+      throw new Error(`無効なパラメータ名です: ${param}`);
+    }
+    return this.getAudioParamValue(audioParam);
+  }
+
+  /**
+   * @brief パラメータ名の一覧を取得
+   * @returns DelayParameterとwet/dryのパラメータ名の配列
+   */
+  public getParameterNames(): string[] {
+    return [...DELAY_PARAMETERS, ...super.getParameterNames()];
+  }
+
+  /**
+   * @brief テンポ同期の有効/無効を設定
+   * @param sync - trueの場合、ディレイタイムを音符の長さとテンポから決める
+   */
+  public setSync(sync: boolean): void {
+    this.checkState();
+    this.settings.sync = sync;
+    this.applySettings();
+  }
+
+  /**
+   * @brief テンポ同期の音符の長さを設定
+   * @param noteValue - 音符の長さ
+   */
+  public setNoteValue(noteValue: DelayNoteValue): void {
+    this.checkState();
+    if (!(noteValue in NOTE_VALUE_BEATS)) {
+      throw new Error(`無効な音符の長さです: ${noteValue}`);
+    }
+    this.settings.noteValue = noteValue;
+    this.applySettings();
+  }
+
+  /**
+   * @brief ピンポンの有効/無効を設定
+   * @param pingPong - trueの場合、フィードバックを左右で交互に送る
+   */
+  public setPingPong(pingPong: boolean): void {
+    this.checkState();
+    this.settings.pingPong = pingPong;
+    this.applySettings();
+  }
+
+  /**
+   * @brief テンポ同期に使用するテンポを設定
+   * @param tempo - テンポ（BPM、DELAY_MIN_TEMPOからDELAY_MAX_TEMPO）
+   */
+  public setTempo(tempo: number): void {
+    this.checkState();
+    if (!(tempo >= DELAY_MIN_TEMPO && tempo <= DELAY_MAX_TEMPO)) {
+      throw new Error(`テンポは${DELAY_MIN_TEMPO}から${DELAY_MAX_TEMPO}の範囲で指定してください: ${tempo}`);
+    }
+    this.tempo = tempo;
+    this.applySettings();
+  }
+
+  /**
+   * @brief ディレイの全設定をまとめて設定
+   * @param settings - ディレイの設定
+   */
+  public setSettings(settings: DelaySettings): void {
+    this.checkState();
+    if (!(settings.noteValue in NOTE_VALUE_BEATS)) {
+      throw new Error(`無効な音符の長さです: ${settings.noteValue}`);
+    }
+    DELAY_PARAMETERS.forEach(param => {
+      if (settings[param] < 0 || settings[param] > 1) {
+        throw new Error(`${param}の値は0から1の範囲で指定してください`);
+      }
+    });
+    this.settings = { ...settings };
+    this.applySettings();
+  }
+
+  /**
+   * @brief ミックスを更新
+   * @param value - ウェットとドライのミックス（0-1、0でバイパス）
+   */
+  public updateEffect(value: number): void {
+    this.checkState();
+    if (value < 0 || value > 1) {
+      throw new Error('ディレイ値は0から1の範囲で指定してください');
+    }
+    this.mix = value;
+    if (this.mix === 0) {
+      this.disable();
+      return;
+    }
+    this.enable();
+  }
+
+  /**
+   * @brief フィードバックが鳴り終わるまでの時間を取得（オフラインレンダリングの長さの計算に使用）
+   * @returns 残響の長さ（秒、DELAY_MAX_TAIL_SECONDSまで、バイパス中は0）
+   */
+  public getTailSeconds(): number {
+    if (!this.isEnabled) {
+      return 0;
+    }
+    const delaySeconds = getDelayTimeMs(this.settings, this.tempo) / 1000;
+    const feedback = toFeedbackGain(this.settings.feedback);
+    const repeats = feedback > 0 ? Math.ceil(Math.log(TAIL_THRESHOLD) / Math.log(feedback)) : 0;
+    return Math.min(DELAY_MAX_TAIL_SECONDS, delaySeconds * (repeats + 1));
+  }
+
+  /**
+   * @brief 状態として保存するエフェクトの値を取得
+   * @returns ディレイの値（0-1）
+   */
+  protected getEffectValue(): number {
+    return this.mix;
+  }
+
+  /**
+   * @brief 状態として保存する設定を取得
+   * @returns ディレイの設定のコピー
+   */
+  protected getStateSettings(): DelaySettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * @brief 状態から復元する設定を反映
+   * @param settings - ディレイの設定
+   */
+  protected applyStateSettings(settings: DelaySettings): void {
+    this.setSettings(settings);
+  }
+
+  /**
+   * @brief ディレイの現在の値を確認用に取得（保存と復元にはgetState/setStateを使用）
+   * @returns ディレイの現在の値（mixと各パラメータは0-1、timeMsはミリ秒、tempoはBPM）
+   */
+  getStatus(): DelaySettings & { mix: number; tempo: number; timeMs: number } {
+    return {
+      ...this.settings,
+      mix: this.mix,
+      tempo: this.tempo,
+      timeMs: getDelayTimeMs(this.settings, this.tempo)
+    };
+  }
+
+  /**
+   * @brief ディレイの設定をリセット（テンポは保持する）
+   */
+  reset(): void {
+    this.mix = 0;
+    this.settings = { ...DELAY_DEFAULT_SETTINGS };
+    this.applySettings();
+    this.disable();  // リセット時にディレイを無効にする
+  }
+
+  /**
+   * @brief ディレイを破棄
+   */
+  dispose(): void {
+    [
+      this.upmix,
+      this.splitter,
+      this.merger,
+      this.leftInput,
+      this.rightInput,
+      this.crossInput,
+      this.wetGain,
+      this.dryGain,
+      ...this.delays,
+      ...this.lowCuts,
+      ...this.highCuts,
+      ...this.feedbackGains,
+      ...this.selfGains,
+      ...this.crossGains
+    ].forEach(node => node.disconnect());
+    super.dispose();
+  }
+
+  /**
+   * @brief 現在の設定をディレイラインとフィルターに反映
+   */
+  private applySettings(): void {
+    const delaySeconds = getDelayTimeMs(this.settings, this.tempo) / 1000;
+    const feedback = toFeedbackGain(this.settings.feedback);
+    const pingPong = this.settings.pingPong;
+
+    [0, 1].forEach(channel => {
+      this.rampAudioParam(this.delays[channel].delayTime, delaySeconds);
+      this.rampAudioParam(this.lowCuts[channel].frequency, toCutFrequency(this.settings.lowCut));
+      this.rampAudioParam(this.highCuts[channel].frequency, toCutFrequency(this.settings.highCut));
+      this.rampAudioParam(this.feedbackGains[channel].gain, feedback);
+      this.rampAudioParam(this.selfGains[channel].gain, pingPong ? 0 : 1);
+      this.rampAudioParam(this.crossGains[channel].gain, pingPong ? 1 : 0);
+    });
+
+    // ピンポンでは左右の入力を平均して左のディレイラインだけに入れる
+    this.rampAudioParam(this.leftInput.gain, pingPong ? 0.5 : 1);
+    this.rampAudioParam(this.rightInput.gain, pingPong ? 0 : 1);
+    this.rampAudioParam(this.crossInput.gain, pingPong ? 0.5 : 0);
+  }
+
+  /**
+   * @brief ディレイのパラメータ名かどうかを判定
+   * @param param - パラメータ名
+   * @returns DelayParameterの場合はtrue
+   */
+  private isDelayParameter(param: string): param is DelayParameter {
+    return (DELAY_PARAMETERS as readonly string[]).includes(param);
+  }
+}
@@ -0,0 +1,450 @@
+/**
+ * @file Distortion.ts
+ * @brief ウェーブシェイパーによるディストーションの実装
+ * @details
+ * - WaveShaperNodeによる歪み（ソフトクリップ、ハードクリップ、チューブ、フォールドバック、ビットリダクション）
+ * - 0-1の値（updateEffect）でドライブを制御し、0ではディストーションをバイパス
+ * - ドライブはカーブに直接織り込み、1を超える入力を折り返すフォールドバックにも対応
+ * - ビットリダクションではドライブに応じてビット数を下げる
+ * - 基準のサイン波の音量が変わらないように出力を自動で補正し、さらに出力の調整（±DISTORTION_MAX_OUTPUT_DB）が可能
+ * - 歪みの後段のローパスで高域を調整するトーン
+ * - オーバーサンプリング（なし/2倍/4倍）を選択可能
+ * @limitations
+ * - 自動補正は基準のサイン波で計算するため、素材によっては音量が変わる
+ * - カーブの解像度（DISTORTION_CURVE_LENGTH）より細かいビットリダクションは効果がない
+ */
+
+import { BaseEffect } from './base/BaseEffect';
+import {
+  DISTORTION_MAX_DRIVE_DB,
+  DISTORTION_MAX_OUTPUT_DB,
+  DISTORTION_MIN_BITS,
+  DISTORTION_MAX_BITS,
+  DISTORTION_MIN_TONE_FREQUENCY,
+  DISTORTION_MAX_TONE_FREQUENCY
+} from '@/core/audioConstants';
+
+/**
+ * ディストーションのカーブの種類
+ */
+export type DistortionCurve = 'softClip' | 'hardClip' | 'tube' | 'foldback' | 'bitReduce';
+
+/**
+ * ディストーションのオーバーサンプリング（WaveShaperNodeのoversampleに設定する値）
+ */
+export type DistortionOversample = 'none' | '2x' | '4x';
+
+/**
+ * ディストーションのパラメータ（いずれも0-1の値）
+ * - tone: 歪みの後段のローパスの周波数（DISTORTION_MIN_TONE_FREQUENCYからDISTORTION_MAX_TONE_FREQUENCY）
+ * - output: 出力の調整（0.5で0dB、-DISTORTION_MAX_OUTPUT_DBから+DISTORTION_MAX_OUTPUT_DB）
+ */
+export type DistortionParameter = 'tone' | 'output';
+
+/**
+ * ディストーションの設定（ドライブはupdateEffectの値で、設定には含まない）
+ */
+export interface DistortionSettings {
+  curve: DistortionCurve;
+  tone: number;
+  output: number;
+  oversample: DistortionOversample;
+}
+
+/**
+ * ディストーションのパラメータ名（getParameterNamesで公開する順序）
+ */
+export const DISTORTION_PARAMETERS: readonly DistortionParameter[] = ['tone', 'output'];
+
+/**
+ * ディストーションの設定のデフォルト値
+ */
+export const DISTORTION_DEFAULT_SETTINGS: Readonly<DistortionSettings> = {
+  curve: 'softClip',
+  tone: 1,
+  output: 0.5,
+  oversample: '2x'
+};
+
+/**
+ * 選択できるオーバーサンプリング
+ */
+export const DISTORTION_OVERSAMPLES: readonly DistortionOversample[] = ['none', '2x', '4x'];
+
+// カーブの長さ（入力の-1から1を分割する数）
+const DISTORTION_CURVE_LENGTH = 8192;
+
+// 自動補正の基準に使用するサイン波の振幅と分割数
+const REFERENCE_AMPLITUDE = 0.5;
+const REFERENCE_STEPS = 256;
+
+/**
+ * カーブの種類ごとの入出力の関数（入力はドライブのゲインを掛けた値）
+ */
+const CURVE_SHAPES: { [curve in Exclude<DistortionCurve, 'bitReduce'>]: (x: number) => number } = {
+  softClip: x => Math.tanh(x),
+  hardClip: x => Math.max(-1, Math.min(1, x)),
+  // 正負で飽和の仕方を変えて偶数次の倍音を加える
+  tube: x => (x >= 0 ? 1 - Math.exp(-x) : -(1 - Math.exp(1.5 * x)) / 1.5),
+  // ±1を超えた分を折り返す（三角波の形）
+  foldback: x => {
+    const phase = (((x + 1) / 4) % 1 + 1) % 1;
+    return 1 - 4 * Math.abs(phase - 0.5);
+  }
+};
+
+/**
+ * ドライブのパラメータ（0-1）をゲインに変換
+ * @param {number} drive - ドライブ（0-1）
+ * @returns {number} 入力に掛けるゲイン（0dBからDISTORTION_MAX_DRIVE_DB）
+ */
+export const toDriveGain = (drive: number): number => {
+  return Math.pow(10, drive * DISTORTION_MAX_DRIVE_DB / 20);
+};
+
+/**
+ * ドライブのパラメータ（0-1）をビットリダクションのビット数に変換
+ * @param {number} drive - ドライブ（0-1）
+ * @returns {number} ビット数（DISTORTION_MAX_BITSからDISTORTION_MIN_BITS）
+ */
+export const toBitDepth = (drive: number): number => {
+  return Math.round(DISTORTION_MAX_BITS - drive * (DISTORTION_MAX_BITS - DISTORTION_MIN_BITS));
+};
+
+/**
+ * トーンのパラメータ（0-1）を周波数に変換
+ * @param {number} value - パラメータの値（0-1）
+ * @returns {number} ローパスの周波数（Hz、対数のカーブ）
+ */
+export const toToneFrequency = (value: number): number => {
+  return DISTORTION_MIN_TONE_FREQUENCY * Math.pow(DISTORTION_MAX_TONE_FREQUENCY / DISTORTION_MIN_TONE_FREQUENCY, value);
+};
+
+/**
+ * 出力のパラメータ（0-1）をデシベルに変換
+ * @param {number} value - パラメータの値（0-1）
+ * @returns {number} 出力の調整（dB、0.5で0dB）
+ */
+export const toOutputDb = (value: number): number => {
+  return (value * 2 - 1) * DISTORTION_MAX_OUTPUT_DB;
+};
+
+/**
+ * ディストーションのカーブを作成
+ * @param {DistortionCurve} curve - カーブの種類
+ * @param {number} drive - ドライブ（0-1）
+ * @returns {Float32Array} WaveShaperNodeに設定するカーブ（入力の-1から1に対応）
+ */
+export const createDistortionCurve = (curve: DistortionCurve, drive: number): Float32Array => {
+  const data = new Float32Array(DISTORTION_CURVE_LENGTH);
+  if (curve === 'bitReduce') {
+    const steps = Math.pow(2, toBitDepth(drive) - 1);
+    data.forEach((_, i) => {
+      const x = (i / (DISTORTION_CURVE_LENGTH - 1)) * 2 - 1;
+      data[i] = Math.round(x * steps) / steps;
+    });
+    return data;
+  }
+  const shape = CURVE_SHAPES[curve];
+  const gain = toDriveGain(drive);
+  data.forEach((_, i) => {
+    const x = (i / (DISTORTION_CURVE_LENGTH - 1)) * 2 - 1;
+    data[i] = shape(x * gain);
+  });
+  return data;
+};
+
+/**
+ * カーブを通した基準のサイン波の音量が元と同じになるゲインを計算
+ * @param {Float32Array} curve - WaveShaperNodeに設定するカーブ
+ * @returns {number} 補正のゲイン
+ */
+export const getCompensationGain = (curve: Float32Array): number => {
+  let inputPower = 0;
+  let outputPower = 0;
+  for (let i = 0; i < REFERENCE_STEPS; i++) {
+    const x = REFERENCE_AMPLITUDE * Math.sin(2 * Math.PI * i / REFERENCE_STEPS);
+    // WaveShaperNodeと同じく、カーブの隣り合う点を線形補間する
+    const position = (x + 1) / 2 * (curve.length - 1);
+    const index = Math.min(curve.length - 2, Math.floor(position));
+    const y = curve[index] + (curve[index + 1] - curve[index]) * (position - index);
+    inputPower += x * x;
+    outputPower += y * y;
+  }
+  return outputPower > 0 ? Math.sqrt(inputPower / outputPower) : 1;
+};
+
+export class Distortion extends BaseEffect<DistortionSettings> {
+  private shaper: WaveShaperNode;
+  private tone: BiquadFilterNode;  // 歪みの後段のローパス
+  private outputGain: GainNode;  // 自動補正と出力の調整
+  private wetGain: GainNode;  // ディストーションパス用のゲイン
+  private dryGain: GainNode;  // バイパスパス用のゲイン
+  private drive: number;  // ドライブ（0-1）
+  private settings: DistortionSettings;
+
+  /**
+   * @brief ディストーションのコンストラクタ
+   * @param context - Web Audio APIのコンテキスト
+   */
+  constructor(context: BaseAudioContext) {
+    super(context);
+    this.shaper = this.context.createWaveShaper();
+    this.tone = this.context.createBiquadFilter();
+    this.outputGain = this.context.createGain();
+    this.wetGain = this.context.createGain();
+    this.dryGain = this.context.createGain();
+    this.drive = 0;  // 初期値は0（ディストーションOFF）
+    this.settings = { ...DISTORTION_DEFAULT_SETTINGS };
+
+    // パラメータの登録
+    this.parameters.set('wet', this.wetGain.gain);
+    this.parameters.set('dry', this.dryGain.gain);
+
+    this.tone.type = 'lowpass';
+
+    // 初期接続設定
+    this.setupConnections();
+    this.applySettings();
+  }
+
+  /**
+   * @brief 入出力の接続を設定
+   */
+  private setupConnections(): void {
+    // ディストーションパス: input → shaper → tone → outputGain → wetGain → output
+    this.input.connect(this.shaper);
+    this.shaper.connect(this.tone);
+    this.tone.connect(this.outputGain);
+    this.outputGain.connect(this.wetGain);
+    this.wetGain.connect(this.output);
+
+    // バイパスパス: input → dryGain → output
+    this.input.connect(this.dryGain);
+    this.dryGain.connect(this.output);
+
+    // 初期状態ではバイパス
+    this.wetGain.gain.value = 0;
+    this.dryGain.gain.value = 1;
+  }
+
+  /**
+   * @brief ディストーションを有効にする
+   */
+  public enable(): void {
+    this.checkState();
+    this.isEnabled = true;
+    this.wetGain.gain.setTargetAtTime(1, this.context.currentTime, 0.01);
+    this.dryGain.gain.setTargetAtTime(0, this.context.currentTime, 0.01);
+  }
+
+  /**
+   * @brief ディストーションを無効にする
+   */
+  public disable(): void {
+    this.checkState();
+    this.isEnabled = false;
+    this.wetGain.gain.setTargetAtTime(0, this.context.currentTime, 0.01);
+    this.dryGain.gain.setTargetAtTime(1, this.context.currentTime, 0.01);
+  }
+
+  /**
+   * @brief パラメータを設定
+   * @param param - パラメータ名（DistortionParameter、またはwet/dryのゲイン）
+   * @param value - パラメータ値（DistortionParameterの場合は0-1）
+   */
+  public setParameter(param: string, value: number): void {
+    this.checkState();
+    if (this.isDistortionParameter(param)) {
+      if (value < 0 || value > 1) {
+        throw new Error(`${param}の値は0から1の範囲で指定してください`);
+      }
+      this.settings[param] = value;
+      this.applySettings();
+      return;
+    }
+    const audioParam = this.parameters.get(param);
+    if (!audioParam) {
+      throw new Error(`無効なパラメータ名です: ${param}`);
+    }
+    this.rampAudioParam(audioParam, value);
+  }
+
+  /**
+   * @brief パラメータを取得
+   * @param param - パラメータ名（DistortionParameter、またはwet/dryのゲイン）
+   * @returns パラメータ値
+   */
+  public getParameter(param: string): number {
+    this.checkState();
+    if (this.isDistortionParameter(param)) {
+      return this.settings[param];
+    }
+    const audioParam = this.parameters.get(param);
+    if (!audioParam) {
+      throw new Error(`無効なパラメータ名です: ${param}`);
+    }
+    return this.getAudioParamValue(audioParam);
+  }
+
+  /**
+   * @brief パラメータ名の一覧を取得
+   * @returns DistortionParameterとwet/dryのパラメータ名の配列
+   */
+  public getParameterNames(): string[] {
+    return [...DISTORTION_PARAMETERS, ...super.getParameterNames()];
+  }
+
+  /**
+   * @brief カーブの種類を設定
+   * @param curve - カーブの種類
+   */
+  public setCurve(curve: DistortionCurve): void {
+    this.checkState();
+    if (!this.isDistortionCurve(curve)) {
+      throw new Error(`無効なカーブの種類です: ${curve}`);
+    }
+    this.settings.curve = curve;
+    this.applySettings();
+  }
+
+  /**
+   * @brief オーバーサンプリングを設定
+   * @param oversample - オーバーサンプリング（none/2x/4x）
+   */
+  public setOversample(oversample: DistortionOversample): void {
+    this.checkState();
+    if (!DISTORTION_OVERSAMPLES.includes(oversample)) {
+      throw new Error(`無効なオーバーサンプリングです: ${oversample}`);
+    }
+    this.settings.oversample = oversample;
+    this.applySettings();
+  }
+
+  /**
+   * @brief ディストーションの全設定をまとめて設定
+   * @param settings - ディストーションの設定
+   */
+  public setSettings(settings: DistortionSettings): void {
+    this.checkState();
+    if (!this.isDistortionCurve(settings.curve)) {
+      throw new Error(`無効なカーブの種類です: ${settings.curve}`);
+    }
+    if (!DISTORTION_OVERSAMPLES.includes(settings.oversample)) {
+      throw new Error(`無効なオーバーサンプリングです: ${settings.oversample}`);
+    }
+    DISTORTION_PARAMETERS.forEach(param => {
+      if (settings[param] < 0 || settings[param] > 1) {
+        throw new Error(`${param}の値は0から1の範囲で指定してください`);
+      }
+    });
+    this.settings = { ...settings };
+    this.applySettings();
+  }
+
+  /**
+   * @brief ドライブを更新
+   * @param value - ドライブ（0-1、0でバイパス）
+   */
+  public updateEffect(value: number): void {
+    this.checkState();
+    if (value < 0 || value > 1) {
+      throw new Error('ディストーション値は0から1の範囲で指定してください');
+    }
+    this.drive = value;
+    this.applySettings();
+    if (this.drive === 0) {
+      this.disable();
+      return;
+    }
+    this.enable();
+  }
+
+  /**
+   * @brief 状態として保存するエフェクトの値を取得
+   * @returns ディストーションの値（0-1）
+   */
+  protected getEffectValue(): number {
+    return this.drive;
+  }
+
+  /**
+   * @brief 状態として保存する設定を取得
+   * @returns ディストーションの設定のコピー
+   */
+  protected getStateSettings(): DistortionSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * @brief 状態から復元する設定を反映
+   * @param settings - ディストーションの設定
+   */
+  protected applyStateSettings(settings: DistortionSettings): void {
+    this.setSettings(settings);
+  }
+
+  /**
+   * @brief ディストーションの現在の値を確認用に取得（保存と復元にはgetState/setStateを使用）
+   * @returns ディストーションの現在の値（driveと各パラメータは0-1、toneFrequencyはHz、outputDbはdB）
+   */
+  getStatus(): DistortionSettings & { drive: number; toneFrequency: number; outputDb: number } {
+    return {
+      ...this.settings,
+      drive: this.drive,
+      toneFrequency: toToneFrequency(this.settings.tone),
+      outputDb: toOutputDb(this.settings.output)
+    };
+  }
+
+  /**
+   * @brief ディストーションの設定をリセット
+   */
+  reset(): void {
+    this.drive = 0;
+    this.settings = { ...DISTORTION_DEFAULT_SETTINGS };
+    this.applySettings();
+    this.disable();  // リセット時にディストーションを無効にする
+  }
+
+  /**
+   * @brief ディストーションを破棄
+   */
+  dispose(): void {
+    this.shaper.disconnect();
+    this.tone.disconnect();
+    this.outputGain.disconnect();
+    this.wetGain.disconnect();
+    this.dryGain.disconnect();
+    super.dispose();
+  }
+
+  /**
+   * @brief 現在のドライブと設定をカーブ、トーン、出力に反映
+   */
+  private applySettings(): void {
+    const curve = createDistortionCurve(this.settings.curve, this.drive);
+    this.shaper.curve = curve;
+    this.shaper.oversample = this.settings.oversample;
+    this.rampAudioParam(this.tone.frequency, toToneFrequency(this.settings.tone));
+    this.rampAudioParam(this.outputGain.gain, getCompensationGain(curve) * Math.pow(10, toOutputDb(this.settings.output) / 20));
+  }
+
+  /**
+   * @brief ディストーションのパラメータ名かどうかを判定
+   * @param param - パラメータ名
+   * @returns DistortionParameterの場合はtrue
+   */
+  private isDistortionParameter(param: string): param is DistortionParameter {
+    return (DISTORTION_PARAMETERS as readonly string[]).includes(param);
+  }
+
+  /**
+   * @brief カーブの種類かどうかを判定
+   * @param curve - カーブの種類
+   * @returns DistortionCurveの場合はtrue
+   */
+  private isDistortionCurve(curve: string): curve is DistortionCurve {
+    return curve === 'bitReduce' || curve in CURVE_SHAPES;
+  }
+}
@@ -5,22 +5,50 @@
  * - 複数のエフェクトを順番に接続
  * - エフェクトの追加/削除/並び替え
  * - エフェクトの有効/無効の制御は各エフェクトのバイパス機能を使用
- * - エフェクトチェーンは静的な接続を維持
+ * - エフェクトチェーンは静的な接続を維持（接続を変えるのは追加、削除、並び替え、チェーン上のバイパスのみ）
+ * - エフェクトの種類の識別子（EffectRegistryに登録した識別子）によるエフェクトの取得
+ * - チェーン上でのエフェクトのバイパス（接続から外して前後のエフェクトを直接つなぐ）
+ * - 接続順とバイパスの状態の取得と復元
+ * @limitations
+ * - 状態に含めるのは接続順とバイパスのみ（各エフェクトの値と設定はEffectsManagerの状態に含める）
+ * - 識別子を指定せずに追加したエフェクトは状態に含められない
  */
 
-import { BaseEffect } from './base/BaseEffect';
+import { BaseEffect, EFFECT_STATE_VERSION, validateEffectStateVersion } from './base/BaseEffect';
 import { Filter } from './Filter';
 
+/**
+ * エフェクトチェーンの1つのエフェクトの状態
+ * - type: エフェクトの種類の識別子
+ * - bypassed: チェーン上でバイパスしているかどうか
+ */
+export interface EffectChainEntryState {
+  type: string;
+  bypassed: boolean;
+}
+
+/**
+ * エフェクトチェーンの状態（JSONに変換できる形式）
+ * - version: 状態の形式のバージョン
+ * - effects: 接続順のエフェクトの状態
+ */
+export interface EffectChainState {
+  version: number;
+  effects: EffectChainEntryState[];
+}
+
 export class EffectChain {
   private effects: BaseEffect[] = [];
+  private effectTypes: Map<BaseEffect, string> = new Map();  // エフェクトの種類の識別子（指定して追加した場合のみ）
+  private bypassedEffects: Set<BaseEffect> = new Set();  // チェーン上でバイパスしているエフェクト
   private input: GainNode;
   private output: GainNode;
 
   /**
    * エフェクトチェーンのコンストラクタ
-   * @param {AudioContext} context - Web Audio APIのコンテキスト
+   * @param {BaseAudioContext} context - Web Audio APIのコンテキスト（OfflineAudioContextも可）
    */
-  constructor(context: AudioContext) {
+  constructor(context: BaseAudioContext) {
     this.input = context.createGain();
     this.output = context.createGain();
   }
@@ -44,10 +72,15 @@ export class EffectChain {
   /**
    * エフェクトを追加
    * @param {BaseEffect} effect - 追加するエフェクト
+   * @param {string} effectType - エフェクトの種類の識別子（getEffectで取得する場合に指定）
    */
-  public addEffect(effect: BaseEffect): void {
+  public addEffect(effect: BaseEffect, effectType?: string): void {
+    this.disconnectAll();
     this.effects.push(effect);
-    this.connectEffect(effect);
+    if (effectType !== undefined) {
+      this.effectTypes.set(effect, effectType);
+    }
+    this.connectAll();
   }
 
   /**
@@ -57,8 +90,11 @@ export class EffectChain {
   public removeEffect(effect: BaseEffect): void {
     const index = this.effects.indexOf(effect);
     if (index !== -1) {
-      this.disconnectEffect(effect);
+      this.disconnectAll();
       this.effects.splice(index, 1);
+      this.effectTypes.delete(effect);
+      this.bypassedEffects.delete(effect);
+      this.connectAll();
       effect.dispose();
     }
   }
@@ -86,70 +122,135 @@ export class EffectChain {
     this.connectAll();
   }
 
+  /**
+   * エフェクトの種類の識別子からエフェクトを取得
+   * @param {string} effectType - エフェクトの種類の識別子
+   * @returns {BaseEffect | undefined} エフェクト（識別子を指定して追加したエフェクトがない場合はundefined）
+   */
+  public getEffect(effectType: string): BaseEffect | undefined {
+    return this.effects.find(effect => this.effectTypes.get(effect) === effectType);
+  }
+
   /**
    * フィルターエフェクトを取得
-   * @returns {Filter | undefined} フィルターエフェクト
+   * @returns {Filter | undefined} フィルターエフェクト（'filter'の識別子で追加したエフェクト）
    */
   public getFilter(): Filter | undefined {
-    const filter = this.effects.find(effect => effect.constructor.name === 'Filter');
-    return filter instanceof Filter ? filter : undefined;
+    return this.getEffect('filter') as Filter | undefined;
   }
 
   /**
-   * エフェクトを接続
-   * @param {BaseEffect} effect - 接続するエフェクト
+   * エフェクトをチェーン上でバイパス
+   * バイパスしたエフェクトは接続から外し、前後のエフェクトを直接つなぐ
+   * @param {string} effectType - エフェクトの種類の識別子
+   * @param {boolean} bypassed - trueの場合はバイパス、falseの場合は接続に戻す
+   * @throws {Error} 識別子のエフェクトがない場合
    */
-  private connectEffect(effect: BaseEffect): void {
-    const index = this.effects.indexOf(effect);
-    if (index === -1) return;
-
-    if (index === 0) {
-      // 最初のエフェクトの場合
-      this.input.connect(effect.getInput());
+  public setEffectBypassed(effectType: string, bypassed: boolean): void {
+    const effect = this.getEffect(effectType);
+    if (!effect) {
+      throw new Error(`エフェクトが見つかりません: ${effectType}`);
+    }
+    if (this.bypassedEffects.has(effect) === bypassed) {
+      return;
+    }
+    this.disconnectAll();
+    if (bypassed) {
+      this.bypassedEffects.add(effect);
     } else {
-      // 前のエフェクトに接続
-      this.effects[index - 1].getOutput().connect(effect.getInput());
+      this.bypassedEffects.delete(effect);
     }
+    this.connectAll();
+  }
 
-    if (index === this.effects.length - 1) {
-      // 最後のエフェクトの場合
-      effect.getOutput().connect(this.output);
+  /**
+   * エフェクトがチェーン上でバイパスされているかどうかを取得
+   * @param {string} effectType - エフェクトの種類の識別子
+   * @returns {boolean} バイパスされている場合はtrue
+   * @throws {Error} 識別子のエフェクトがない場合
+   */
+  public isEffectBypassed(effectType: string): boolean {
+    const effect = this.getEffect(effectType);
+    if (!effect) {
+      throw new Error(`エフェクトが見つかりません: ${effectType}`);
     }
+    return this.bypassedEffects.has(effect);
   }
 
   /**
-   * エフェクトの接続を切断
-   * @param {BaseEffect} effect - 切断するエフェクト
+   * エフェクトの種類の識別子の一覧を取得
+   * @returns {string[]} 識別子の配列（接続順、識別子を指定せずに追加したエフェクトを除く）
    */
-  private disconnectEffect(effect: BaseEffect): void {
-    const index = this.effects.indexOf(effect);
-    if (index === -1) return;
+  public getEffectTypes(): string[] {
+    return this.effects
+      .filter(effect => this.effectTypes.has(effect))
+      .map(effect => this.effectTypes.get(effect) as string);
+  }
 
-    if (index === 0) {
-      this.input.disconnect(effect.getInput());
-    } else {
-      this.effects[index - 1].getOutput().disconnect(effect.getInput());
-    }
+  /**
+   * エフェクトチェーンの状態を取得
+   * @returns {EffectChainState} 接続順とバイパスの状態
+   * @throws {Error} 識別子を指定せずに追加したエフェクトがある場合
+   */
+  public getState(): EffectChainState {
+    return {
+      version: EFFECT_STATE_VERSION,
+      effects: this.effects.map(effect => {
+        const type = this.effectTypes.get(effect);
+        if (type === undefined) {
+          throw new Error('識別子を指定せずに追加したエフェクトは状態に含められません');
+        }
+        return { type, bypassed: this.bypassedEffects.has(effect) };
+      })
+    };
+  }
 
-    if (index === this.effects.length - 1) {
-      effect.getOutput().disconnect(this.output);
+  /**
+   * 保存した状態から接続順とバイパスを復元
+   * 状態に含まれないエフェクトは、状態に含まれるエフェクトの後に現在の順序で接続する
+   * @param {EffectChainState} state - getStateで取得した状態
+   * @throws {Error} 状態のバージョンが無効な場合、またはチェーンにないエフェクトや重複したエフェクトが含まれる場合
+   */
+  public setState(state: EffectChainState): void {
+    if (!state || !Array.isArray(state.effects)) {
+      throw new Error('エフェクトチェーンの状態が指定されていません');
     }
+    validateEffectStateVersion(state.version);
+    const orderedEffects = state.effects.map(entry => {
+      const effect = this.getEffect(entry.type);
+      if (!effect) {
+        throw new Error(`エフェクトが見つかりません: ${entry.type}`);
+      }
+      return effect;
+    });
+    if (new Set(orderedEffects).size !== orderedEffects.length) {
+      throw new Error('エフェクトチェーンの状態に同じエフェクトが重複しています');
+    }
+
+    this.disconnectAll();
+    this.effects = [
+      ...orderedEffects,
+      ...this.effects.filter(effect => !orderedEffects.includes(effect))
+    ];
+    this.bypassedEffects = new Set(orderedEffects.filter((effect, i) => state.effects[i].bypassed));
+    this.connectAll();
   }
 
   /**
-   * 全てのエフェクトを接続
+   * 全てのエフェクトを接続（バイパスしているエフェクトは飛ばす）
    */
   private connectAll(): void {
-    if (this.effects.length === 0) {
+    const activeEffects = this.effects.filter(effect => !this.bypassedEffects.has(effect));
+    if (activeEffects.length === 0) {
       this.input.connect(this.output);
       return;
     }
 
-    this.input.connect(this.effects[0].getInput());
-    for (let i = 0; i < this.effects.length - 1; i++) {
-      this.effects[i].getOutput().connect(this.effects[i + 1].getInput());
+    this.input.connect(activeEffects[0].getInput());
+    for (let i = 0; i < activeEffects.length - 1; i++) {
+      activeEffects[i].getOutput().connect(activeEffects[i + 1].getInput());
     }
-    this.effects[this.effects.length - 1].getOutput().connect(this.output);
+    activeEffects[activeEffects.length - 1].getOutput().connect(this.output);
   }
 
   /**
@@ -157,8 +258,8 @@ export class EffectChain {
    */
   private disconnectAll(): void {
     this.input.disconnect();
+    // エフェクトの入力ノードはエフェクト内部のノードに接続しているため切断しない
     for (const effect of this.effects) {
-      effect.getInput().disconnect();
       effect.getOutput().disconnect();
     }
   }
@@ -172,5 +273,7 @@ export class EffectChain {
       effect.dispose();
     }
     this.effects = [];
+    this.effectTypes.clear();
+    this.bypassedEffects.clear();
   }
 } 
\ No newline at end of file
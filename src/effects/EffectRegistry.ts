@@ -0,0 +1,131 @@
+/**
+ * @file EffectRegistry.ts
+ * @brief エフェクトの種類を登録して作成するレジストリ
+ * @details
+ * - エフェクトの種類の識別子ごとに、作成関数、パラメータの定義、エフェクトの値の初期値を登録
+ * - 登録した種類のエフェクトを識別子から作成
+ * - EffectsManagerとEffectChainはクラス名ではなく、登録した識別子でエフェクトを区別する
+ * @limitations
+ * - パラメータは全て0-1の値（BaseEffect.setParameterに渡す値）として定義する
+ * - 登録済みの識別子を上書きすることはできない（先にunregisterで削除する）
+ */
+
+import { BaseEffect } from './base/BaseEffect';
+
+/**
+ * エフェクトのパラメータの定義
+ * - name: BaseEffect.setParameterに渡すパラメータ名
+ * - defaultValue: パラメータの初期値（0-1）
+ */
+export interface EffectParameterDescriptor {
+  name: string;
+  defaultValue: number;
+}
+
+/**
+ * レジストリに登録するエフェクトの定義
+ * - type: エフェクトの種類の識別子
+ * - create: 音声コンテキスト上にエフェクトを作成する関数
+ * - parameters: エフェクトのパラメータの定義
+ * - defaultValue: updateEffectに渡すエフェクトの値の初期値（0-1）
+ * - masterOnly: trueの場合、マスターにのみ作成する
+ * - optional: trueの場合、チャンネルの作成時には作成せず、チャンネルに追加した場合のみ作成する
+ */
+export interface EffectDefinition {
+  type: string;
+  create: (context: BaseAudioContext) => BaseEffect;
+  parameters: readonly EffectParameterDescriptor[];
+  defaultValue: number;
+  masterOnly?: boolean;
+  optional?: boolean;
+}
+
+export class EffectRegistry {
+  private definitions: Map<string, EffectDefinition> = new Map();
+
+  /**
+   * エフェクトの種類を登録
+   * @param {EffectDefinition} definition - エフェクトの定義
+   * @throws {Error} 識別子が既に登録されている場合、またはエフェクトの値の初期値が範囲外の場合
+   */
+  public register(definition: EffectDefinition): void {
+    if (this.definitions.has(definition.type)) {
+      throw new Error(`エフェクトの種類は既に登録されています: ${definition.type}`);
+    }
+    if (definition.defaultValue < 0 || definition.defaultValue > 1) {
+      throw new Error('エフェクトの値の初期値は0から1の範囲で指定してください');
+    }
+    this.definitions.set(definition.type, { ...definition });
+  }
+
+  /**
+   * エフェクトの種類の登録を削除
+   * 作成済みのエフェクトには影響しない
+   * @param {string} type - エフェクトの種類の識別子
+   * @throws {Error} 登録されていない識別子の場合
+   */
+  public unregister(type: string): void {
+    if (!this.definitions.delete(type)) {
+      throw new Error(`登録されていないエフェクトの種類です: ${type}`);
+    }
+  }
+
+  /**
+   * エフェクトの種類が登録されているかどうかを判定
+   * @param {string} type - エフェクトの種類の識別子
+   * @returns {boolean} 登録されている場合はtrue
+   */
+  public has(type: string): boolean {
+    return this.definitions.has(type);
+  }
+
+  /**
+   * エフェクトの定義を取得
+   * @param {string} type - エフェクトの種類の識別子
+   * @returns {EffectDefinition} エフェクトの定義
+   * @throws {Error} 登録されていない識別子の場合
+   */
+  public getDefinition(type: string): EffectDefinition {
+    const definition = this.definitions.get(type);
+    if (!definition) {
+      throw new Error(`登録されていないエフェクトの種類です: ${type}`);
+    }
+    return definition;
+  }
+
+  /**
+   * 登録されているエフェクトの種類の識別子の一覧を取得
+   * @param {boolean} includeMasterOnly - trueの場合、マスターにのみ作成する種類も含める
+   * @returns {string[]} 識別子の配列（登録順）
+   */
+  public getTypes(includeMasterOnly = true): string[] {
+    return Array.from(this.definitions.values())
+      .filter(definition => includeMasterOnly || !definition.masterOnly)
+      .map(definition => definition.type);
+  }
+
+  /**
+   * チャンネルの作成時に作成するエフェクトの種類の識別子の一覧を取得
+   * @param {boolean} includeMasterOnly - trueの場合、マスターにのみ作成する種類も含める
+   * @returns {string[]} 識別子の配列（登録順、optionalの種類を除く）
+   */
+  public getDefaultTypes(includeMasterOnly = true): string[] {
+    return this.getTypes(includeMasterOnly).filter(type => !this.getDefinition(type).optional);
+  }
+
+  /**
+   * 登録されている種類のエフェクトを作成
+   * @param {string} type - エフェクトの種類の識別子
+   * @param {BaseAudioContext} context - エフェクトを作成する音声コンテキスト
+   * @returns {BaseEffect} 作成したエフェクト
+   * @throws {Error} 登録されていない識別子の場合、または作成に失敗した場合
+   */
+  public create(type: string, context: BaseAudioContext): BaseEffect {
+    const definition = this.getDefinition(type);
+    try {
+      return definition.create(context);
+    } catch (error) {
+      throw new Error(`エフェクト ${type} の作成に失敗しました: ${(error as Error).message}`);
+    }
+  }
+}
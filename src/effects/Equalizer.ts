@@ -0,0 +1,461 @@
+/**
+ * @file Equalizer.ts
+ * @brief 複数のBiquadFilterNodeによるパラメトリックイコライザーの実装
+ * @details
+ * - ローシェルフ、ピーキング（EQUALIZER_MIN_PEAK_BANDSからEQUALIZER_MAX_PEAK_BANDSバンド）、ハイシェルフを直列に接続
+ * - 各バンドの周波数、ゲイン、Qを0-1の値で設定（パラメータ名は「バンド名.パラメータ名」）
+ * - 使用しないピーキングのバンドはゲインを0dBにして、特性に影響しないようにする
+ * - 0-1の値（updateEffect）で有効/無効を切り替え（0でバイパス、0より大きい値で有効）
+ * - 各バンドの周波数特性を合成したカーブ（dB）の取得
+ * @limitations
+ * - シェルフのQはBiquadFilterNodeでは使用されないため、設定しても特性は変わらない
+ * - バンド数を変更しても、使用しないバンドのノードは接続したまま残す
+ */
+
+import { BaseEffect } from './base/BaseEffect';
+import {
+  EQUALIZER_MIN_FREQUENCY,
+  EQUALIZER_MAX_FREQUENCY,
+  EQUALIZER_MAX_GAIN_DB,
+  EQUALIZER_MIN_Q,
+  EQUALIZER_MAX_Q,
+  EQUALIZER_MIN_PEAK_BANDS,
+  EQUALIZER_MAX_PEAK_BANDS,
+  EQUALIZER_RESPONSE_POINTS
+} from '@/core/audioConstants';
+
+/**
+ * イコライザーのバンド（低い周波数から順に、peak1からpeak4はピーキング）
+ */
+export type EqualizerBand = 'lowShelf' | 'peak1' | 'peak2' | 'peak3' | 'peak4' | 'highShelf';
+
+/**
+ * 各バンドのパラメータ（いずれも0-1の値）
+ * - frequency: 周波数（EQUALIZER_MIN_FREQUENCYからEQUALIZER_MAX_FREQUENCY、対数のカーブ）
+ * - gain: ゲイン（0.5で0dB、-EQUALIZER_MAX_GAIN_DBから+EQUALIZER_MAX_GAIN_DB）
+ * - q: Q（EQUALIZER_MIN_QからEQUALIZER_MAX_Q、対数のカーブ、0.5で1）
+ */
+export type EqualizerBandParameter = 'frequency' | 'gain' | 'q';
+
+/**
+ * 1バンド分の設定
+ */
+export type EqualizerBandSettings = { [param in EqualizerBandParameter]: number };
+
+/**
+ * イコライザーの設定（有効/無効はupdateEffectの値で、設定には含まない）
+ */
+export interface EqualizerSettings {
+  peakCount: number;  // 使用するピーキングのバンド数
+  bands: { [band in EqualizerBand]: EqualizerBandSettings };
+}
+
+/**
+ * バンドの一覧（接続順）
+ */
+export const EQUALIZER_BANDS: readonly EqualizerBand[] = ['lowShelf', 'peak1', 'peak2', 'peak3', 'peak4', 'highShelf'];
+
+/**
+ * ピーキングのバンドの一覧
+ */
+export const EQUALIZER_PEAK_BANDS: readonly EqualizerBand[] = ['peak1', 'peak2', 'peak3', 'peak4'];
+
+/**
+ * バンドのパラメータ名
+ */
+export const EQUALIZER_BAND_PARAMETERS: readonly EqualizerBandParameter[] = ['frequency', 'gain', 'q'];
+
+/**
+ * イコライザーのパラメータ名（getParameterNamesで公開する順序、「バンド名.パラメータ名」）
+ */
+export const EQUALIZER_PARAMETERS: readonly string[] = EQUALIZER_BANDS.flatMap(band =>
+  EQUALIZER_BAND_PARAMETERS.map(param => `${band}.${param}`)
+);
+
+/**
+ * イコライザーの設定のデフォルト値（ゲインは全て0dB）
+ */
+export const EQUALIZER_DEFAULT_SETTINGS: Readonly<EqualizerSettings> = {
+  peakCount: EQUALIZER_MAX_PEAK_BANDS,
+  bands: {
+    lowShelf: { frequency: 0.2, gain: 0.5, q: 0.5 },
+    peak1: { frequency: 0.35, gain: 0.5, q: 0.5 },
+    peak2: { frequency: 0.5, gain: 0.5, q: 0.5 },
+    peak3: { frequency: 0.65, gain: 0.5, q: 0.5 },
+    peak4: { frequency: 0.8, gain: 0.5, q: 0.5 },
+    highShelf: { frequency: 0.9, gain: 0.5, q: 0.5 }
+  }
+};
+
+/**
+ * バンドごとのBiquadFilterNodeの種類
+ */
+const BAND_FILTER_TYPES: { [band in EqualizerBand]: BiquadFilterType } = {
+  lowShelf: 'lowshelf',
+  peak1: 'peaking',
+  peak2: 'peaking',
+  peak3: 'peaking',
+  peak4: 'peaking',
+  highShelf: 'highshelf'
+};
+
+/**
+ * 周波数特性のカーブの計算に使用する周波数（EQUALIZER_MIN_FREQUENCYからEQUALIZER_MAX_FREQUENCYを対数で等分）
+ */
+export const EQUALIZER_RESPONSE_FREQUENCIES: Float32Array = Float32Array.from(
+  { length: EQUALIZER_RESPONSE_POINTS },
+  (_, i) => EQUALIZER_MIN_FREQUENCY * Math.pow(EQUALIZER_MAX_FREQUENCY / EQUALIZER_MIN_FREQUENCY, i / (EQUALIZER_RESPONSE_POINTS - 1))
+);
+
+/**
+ * 設定をコピー（バンドごとの設定もコピーする）
+ * @param {EqualizerSettings} settings - コピーする設定
+ * @returns {EqualizerSettings} 設定のコピー
+ */
+export const copyEqualizerSettings = (settings: EqualizerSettings): EqualizerSettings => {
+  const bands = {} as EqualizerSettings['bands'];
+  EQUALIZER_BANDS.forEach(band => {
+    bands[band] = { ...settings.bands[band] };
+  });
+  return { peakCount: settings.peakCount, bands };
+};
+
+/**
+ * 周波数のパラメータ（0-1）をHzに変換
+ * @param {number} value - パラメータの値（0-1）
+ * @returns {number} 周波数（Hz、対数のカーブ）
+ */
+export const toEqualizerFrequency = (value: number): number => {
+  return EQUALIZER_MIN_FREQUENCY * Math.pow(EQUALIZER_MAX_FREQUENCY / EQUALIZER_MIN_FREQUENCY, value);
+};
+
+/**
+ * ゲインのパラメータ（0-1）をデシベルに変換
+ * @param {number} value - パラメータの値（0-1）
+ * @returns {number} ゲイン（dB、0.5で0dB）
+ */
+export const toEqualizerGainDb = (value: number): number => {
+  return (value * 2 - 1) * EQUALIZER_MAX_GAIN_DB;
+};
+
+/**
+ * Qのパラメータ（0-1）をQの値に変換
+ * @param {number} value - パラメータの値（0-1）
+ * @returns {number} Q（対数のカーブ）
+ */
+export const toEqualizerQ = (value: number): number => {
+  return EQUALIZER_MIN_Q * Math.pow(EQUALIZER_MAX_Q / EQUALIZER_MIN_Q, value);
+};
+
+/**
+ * バンドが使用されているかどうかを判定
+ * @param {EqualizerBand} band - バンド
+ * @param {number} peakCount - 使用するピーキングのバンド数
+ * @returns {boolean} シェルフ、またはバンド数の範囲内のピーキングの場合はtrue
+ */
+export const isEqualizerBandActive = (band: EqualizerBand, peakCount: number): boolean => {
+  const peakIndex = EQUALIZER_PEAK_BANDS.indexOf(band);
+  return peakIndex < 0 || peakIndex < peakCount;
+};
+
+export class Equalizer extends BaseEffect<EqualizerSettings> {
+  private filters: Map<EqualizerBand, BiquadFilterNode>;
+  private wetGain: GainNode;  // イコライザーパス用のゲイン
+  private dryGain: GainNode;  // バイパスパス用のゲイン
+  private value: number;  // 有効/無効（0でバイパス）
+  private settings: EqualizerSettings;
+
+  /**
+   * @brief イコライザーのコンストラクタ
+   * @param context - Web Audio APIのコンテキスト
+   */
+  constructor(context: BaseAudioContext) {
+    super(context);
+    this.filters = new Map();
+    EQUALIZER_BANDS.forEach(band => {
+      const filter = this.context.createBiquadFilter();
+      filter.type = BAND_FILTER_TYPES[band];
+      this.filters.set(band, filter);
+    });
+    this.wetGain = this.context.createGain();
+    this.dryGain = this.context.createGain();
+    this.value = 0;  // 初期値は0（イコライザーOFF）
+    this.settings = copyEqualizerSettings(EQUALIZER_DEFAULT_SETTINGS);
+
+    // パラメータの登録
+    this.parameters.set('wet', this.wetGain.gain);
+    this.parameters.set('dry', this.dryGain.gain);
+
+    // 初期接続設定
+    this.setupConnections();
+    this.applySettings();
+  }
+
+  /**
+   * @brief 入出力の接続を設定
+   */
+  private setupConnections(): void {
+    // イコライザーパス: input → lowShelf → peak1 → ... → peak4 → highShelf → wetGain → output
+    let previous: AudioNode = this.input;
+    EQUALIZER_BANDS.forEach(band => {
+      const filter = this.filters.get(band) as BiquadFilterNode;
+      previous.connect(filter);
+      previous = filter;
+    });
+    previous.connect(this.wetGain);
+    this.wetGain.connect(this.output);
+
+    // バイパスパス: input → dryGain → output
+    this.input.connect(this.dryGain);
+    this.dryGain.connect(this.output);
+
+    // 初期状態ではバイパス
+    this.wetGain.gain.value = 0;
+    this.dryGain.gain.value = 1;
+  }
+
+  /**
+   * @brief イコライザーを有効にする
+   */
+  public enable(): void {
+    this.checkState();
+    this.isEnabled = true;
+    this.wetGain.gain.setTargetAtTime(1, this.context.currentTime, 0.01);
+    this.dryGain.gain.setTargetAtTime(0, this.context.currentTime, 0.01);
+  }
+
+  /**
+   * @brief イコライザーを無効にする
+   */
+  public disable(): void {
+    this.checkState();
+    this.isEnabled = false;
+    this.wetGain.gain.setTargetAtTime(0, this.context.currentTime, 0.01);
+    this.dryGain.gain.setTargetAtTime(1, this.context.currentTime, 0.01);
+  }
+
+  /**
+   * @brief パラメータを設定
+   * @param param - パラメータ名（「バンド名.パラメータ名」、またはwet/dryのゲイン）
+   * @param value - パラメータ値（バンドのパラメータの場合は0-1）
+   */
+  public setParameter(param: string, value: number): void {
+    this.checkState();
+    const bandParameter = this.parseBandParameter(param);
+    if (bandParameter) {
+      this.setBandParameter(bandParameter.band, bandParameter.param, value);
+      return;
+    }
+    const audioParam = this.parameters.get(param);
+    if (!audioParam) {
+      throw new Error(`無効なパラメータ名です: ${param}`);
+    }
+    this.rampAudioParam(audioParam, value);
+  }
+
+  /**
+   * @brief パラメータを取得
+   * @param param - パラメータ名（「バンド名.パラメータ名」、またはwet/dryのゲイン）
+   * @returns パラメータ値
+   */
+  public getParameter(param: string): number {
+    this.checkState();
+    const bandParameter = this.parseBandParameter(param);
+    if (bandParameter) {
+      return this.settings.bands[bandParameter.band][bandParameter.param];
+    }
+    const audioParam = this.parameters.get(param);
+    if (!audioParam) {
+      throw new Error(`無効なパラメータ名です: ${param}`);
+    }
+    return this.getAudioParamValue(audioParam);
+  }
+
+  /**
+   * @brief パラメータ名の一覧を取得
+   * @returns 各バンドのパラメータとwet/dryのパラメータ名の配列
+   */
+  public getParameterNames(): string[] {
+    return [...EQUALIZER_PARAMETERS, ...super.getParameterNames()];
+  }
+
+  /**
+   * @brief バンドのパラメータを設定
+   * @param band - バンド
+   * @param param - パラメータ名
+   * @param value - パラメータ値（0-1）
+   */
+  public setBandParameter(band: EqualizerBand, param: EqualizerBandParameter, value: number): void {
+    this.checkState();
+    if (!EQUALIZER_BANDS.includes(band) || !EQUALIZER_BAND_PARAMETERS.includes(param)) {
+      throw new Error(`無効なパラメータ名です: ${band}.${param}`);
+    }
+    if (value < 0 || value > 1) {
+      throw new Error(`${band}.${param}の値は0から1の範囲で指定してください`);
+    }
+    this.settings.bands[band][param] = value;
+    this.applySettings();
+  }
+
+  /**
+   * @brief 使用するピーキングのバンド数を設定
+   * @param peakCount - バンド数（EQUALIZER_MIN_PEAK_BANDSからEQUALIZER_MAX_PEAK_BANDS）
+   */
+  public setPeakCount(peakCount: number): void {
+    this.checkState();
+    this.validatePeakCount(peakCount);
+    this.settings.peakCount = peakCount;
+    this.applySettings();
+  }
+
+  /**
+   * @brief イコライザーの全設定をまとめて設定
+   * @param settings - イコライザーの設定
+   */
+  public setSettings(settings: EqualizerSettings): void {
+    this.checkState();
+    this.validatePeakCount(settings.peakCount);
+    EQUALIZER_BANDS.forEach(band => {
+      EQUALIZER_BAND_PARAMETERS.forEach(param => {
+        const value = settings.bands[band][param];
+        if (value < 0 || value > 1) {
+          throw new Error(`${band}.${param}の値は0から1の範囲で指定してください`);
+        }
+      });
+    });
+    this.settings = copyEqualizerSettings(settings);
+    this.applySettings();
+  }
+
+  /**
+   * @brief イコライザーの有効/無効を更新
+   * @param value - 0-1の値（0でバイパス、0より大きい値で有効）
+   */
+  public updateEffect(value: number): void {
+    this.checkState();
+    if (value < 0 || value > 1) {
+      throw new Error('イコライザー値は0から1の範囲で指定してください');
+    }
+    this.value = value;
+    if (this.value === 0) {
+      this.disable();
+      return;
+    }
+    this.enable();
+  }
+
+  /**
+   * @brief 使用している各バンドの周波数特性を合成したカーブを取得
+   * @param frequencies - 周波数（Hz）の配列
+   * @returns 各周波数のゲイン（dB、バイパス中も設定したカーブを返す）
+   */
+  public getFrequencyResponse(frequencies: Float32Array): Float32Array {
+    this.checkState();
+    const response = new Float32Array(frequencies.length);
+    const magnitude = new Float32Array(frequencies.length);
+    const phase = new Float32Array(frequencies.length);
+    EQUALIZER_BANDS
+      .filter(band => isEqualizerBandActive(band, this.settings.peakCount))
+      .forEach(band => {
+        (this.filters.get(band) as BiquadFilterNode).getFrequencyResponse(frequencies, magnitude, phase);
+        magnitude.forEach((value, i) => {
+          response[i] += 20 * Math.log10(value);
+        });
+      });
+    return response;
+  }
+
+  /**
+   * @brief 状態として保存するエフェクトの値を取得
+   * @returns イコライザーの値（0-1）
+   */
+  protected getEffectValue(): number {
+    return this.value;
+  }
+
+  /**
+   * @brief 状態として保存する設定を取得
+   * @returns イコライザーの設定のコピー
+   */
+  protected getStateSettings(): EqualizerSettings {
+    return copyEqualizerSettings(this.settings);
+  }
+
+  /**
+   * @brief 状態から復元する設定を反映
+   * @param settings - イコライザーの設定
+   */
+  protected applyStateSettings(settings: EqualizerSettings): void {
+    this.setSettings(settings);
+  }
+
+  /**
+   * @brief イコライザーの現在の値を確認用に取得（保存と復元にはgetState/setStateを使用）
+   * @returns イコライザーの現在の値（valueと各パラメータは0-1）
+   */
+  getStatus(): EqualizerSettings & { value: number } {
+    return {
+      ...copyEqualizerSettings(this.settings),
+      value: this.value
+    };
+  }
+
+  /**
+   * @brief イコライザーの設定をリセット
+   */
+  reset(): void {
+    this.value = 0;
+    this.settings = copyEqualizerSettings(EQUALIZER_DEFAULT_SETTINGS);
+    this.applySettings();
+    this.disable();  // リセット時にイコライザーを無効にする
+  }
+
+  /**
+   * @brief イコライザーを破棄
+   */
+  dispose(): void {
+    this.filters.forEach(filter => filter.disconnect());
+    this.wetGain.disconnect();
+    this.dryGain.disconnect();
+    super.dispose();
+  }
+
+  /**
+   * @brief 現在の設定を各バンドのBiquadFilterNodeに反映
+   */
+  private applySettings(): void {
+    EQUALIZER_BANDS.forEach(band => {
+      const filter = this.filters.get(band) as BiquadFilterNode;
+      const bandSettings = this.settings.bands[band];
+      this.rampAudioParam(filter.frequency, toEqualizerFrequency(bandSettings.frequency));
+      this.rampAudioParam(filter.Q, toEqualizerQ(bandSettings.q));
+      // 使用しないバンドは特性に影響しないように0dBにする
+      this.rampAudioParam(filter.gain, isEqualizerBandActive(band, this.settings.peakCount)
+        ? toEqualizerGainDb(bandSettings.gain)
+        : 0);
+    });
+  }
+
+  /**
+   * @brief ピーキングのバンド数を検証
+   * @param peakCount - バンド数
+   */
+  private validatePeakCount(peakCount: number): void {
+    if (!Number.isInteger(peakCount) || peakCount < EQUALIZER_MIN_PEAK_BANDS || peakCount > EQUALIZER_MAX_PEAK_BANDS) {
+      throw new Error(`ピーキングのバンド数は${EQUALIZER_MIN_PEAK_BANDS}から${EQUALIZER_MAX_PEAK_BANDS}の整数で指定してください`);
+    }
+  }
+
+  /**
+   * @brief 「バンド名.パラメータ名」のパラメータ名を分解
+   * @param param - パラメータ名
+   * @returns バンドとパラメータ名（バンドのパラメータでない場合はnull）
+   */
+  private parseBandParameter(param: string): { band: EqualizerBand; param: EqualizerBandParameter } | null {
+    if (!EQUALIZER_PARAMETERS.includes(param)) {
+      return null;
+    }
+    const [band, bandParam] = param.split('.');
+    return { band: band as EqualizerBand, param: bandParam as EqualizerBandParameter };
+  }
+}
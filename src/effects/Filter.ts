@@ -2,28 +2,123 @@
  * @file Filter.ts
  * @brief オーディオフィルターの実装
  * @details
- * - ローパスフィルターとハイパスフィルターの実装
+ * - ローパス/ハイパス、バンドパス、ノッチ、ピークのモード
  * - 0-1の値に応じてフィルターの種類とカットオフ周波数を制御
- * - 0.45-0.55の範囲ではフィルターをバイパス
- * - 0-0.45でローパス、0.55-1.0でハイパスとして動作
+ * - ノブの中央（デフォルトは0.45-0.55、幅はインスタンスごとに指定可能）ではフィルターをバイパス
+ * - ローパス/ハイパスのモードでは、バイパス範囲より下でローパス、上でハイパスとして動作
+ * - バンドパス、ノッチ、ピークのモードでは、バイパス範囲を除いた全体で中心周波数を低い方から高い方へ動かす
  * - 周波数の変化は対数カーブを使用
+ * - レゾナンス（Q）の調整
+ * - BiquadFilterNodeをカスケードして12/24/48dB/octのスロープを切り替え
+ * - カットオフ周波数、Q、ゲインはBaseEffectのランプで滑らかに変化させる（ノブの操作中のジッパーノイズを防ぐ）
  * @limitations
  * - カットオフ周波数は20Hz〜20000Hzの範囲に制限
+ * - カスケードした各段に同じQを設定するため、24/48dB/octはバターワース特性にはならない
+ * - ピークモードで持ち上げるゲインはFILTER_PEAK_GAIN_DBで固定
  */
 
 import { BaseEffect } from './base/BaseEffect';
+import { FILTER_DEFAULT_BYPASS_WIDTH, FILTER_MIN_Q, FILTER_MAX_Q, FILTER_PEAK_GAIN_DB } from '@/core/audioConstants';
 
-export class Filter extends BaseEffect {
-  private filter: BiquadFilterNode;
+/**
+ * フィルターのモード
+ * - lowHigh: バイパス範囲より下でローパス、上でハイパス
+ * - bandpass, notch, peak: バイパス範囲を除いた全体で中心周波数を動かす
+ */
+export type FilterMode = 'lowHigh' | 'bandpass' | 'notch' | 'peak';
+
+/**
+ * フィルターのスロープ（dB/oct）
+ */
+export type FilterSlope = 12 | 24 | 48;
+
+/**
+ * フィルターのパラメータ（0-1の値）
+ * - resonance: レゾナンス（FILTER_MIN_QからFILTER_MAX_Q、対数のカーブ）
+ */
+export type FilterParameter = 'resonance';
+
+/**
+ * フィルターの設定（フィルター値はupdateEffectの値で、設定には含まない）
+ */
+export interface FilterSettings {
+  mode: FilterMode;
+  resonance: number;
+  slope: FilterSlope;
+}
+
+/**
+ * フィルターのオプション
+ * - bypassWidth: ノブの中央でフィルターをバイパスする範囲の幅（0以上1未満）
+ */
+export interface FilterOptions {
+  bypassWidth?: number;
+}
+
+/**
+ * フィルターのパラメータ名（getParameterNamesで公開する順序）
+ */
+export const FILTER_PARAMETERS: readonly FilterParameter[] = ['resonance'];
+
+/**
+ * 選択できるモード
+ */
+export const FILTER_MODES: readonly FilterMode[] = ['lowHigh', 'bandpass', 'notch', 'peak'];
+
+/**
+ * 選択できるスロープ（dB/oct）
+ */
+export const FILTER_SLOPES: readonly FilterSlope[] = [12, 24, 48];
+
+/**
+ * フィルターの設定のデフォルト値
+ */
+export const FILTER_DEFAULT_SETTINGS: Readonly<FilterSettings> = {
+  mode: 'lowHigh',
+  resonance: 0,
+  slope: 12
+};
+
+// BiquadFilterNode1段のスロープ（dB/oct）
+const STAGE_SLOPE = 12;
+
+// バンドパス、ノッチ、ピークのモードのBiquadFilterNodeの種類
+const BAND_FILTER_TYPES: { [mode in Exclude<FilterMode, 'lowHigh'>]: BiquadFilterType } = {
+  bandpass: 'bandpass',
+  notch: 'notch',
+  peak: 'peaking'
+};
+
+// フィルターの種類ごとのサブラベル
+const FILTER_TYPE_LABELS: { [type in BiquadFilterType]?: string } = {
+  lowpass: 'LP',
+  highpass: 'HP',
+  bandpass: 'BP',
+  notch: 'NOTCH',
+  peaking: 'PEAK'
+};
+
+/**
+ * レゾナンスのパラメータ（0-1）をQに変換
+ * @param {number} value - パラメータの値（0-1）
+ * @returns {number} Q（対数のカーブ）
+ */
+export const toFilterQ = (value: number): number => {
+  return FILTER_MIN_Q * Math.pow(FILTER_MAX_Q / FILTER_MIN_Q, value);
+};
+
+export class Filter extends BaseEffect<FilterSettings> {
+  private stages: BiquadFilterNode[];  // カスケードするフィルター（スロープに応じて先頭から使用）
   private filterGain: GainNode;  // フィルターパス用のゲイン
   private bypassGain: GainNode;  // バイパスパス用のゲイン
   private filterValue: number;  // フィルター値（0-1）
+  private settings: FilterSettings;
 
   // 定数
   private readonly MIN_FREQUENCY = 20;    // 最低周波数（Hz）
   private readonly MAX_FREQUENCY = 20000; // 最高周波数（Hz）
-  private readonly BYPASS_MIN = 0.45;     // バイパス範囲の最小値
-  private readonly BYPASS_MAX = 0.55;     // バイパス範囲の最大値
+  private readonly BYPASS_MIN: number;    // バイパス範囲の最小値
+  private readonly BYPASS_MAX: number;    // バイパス範囲の最大値
 
   /**
    * @brief バイパス範囲を取得
@@ -36,34 +131,45 @@ export class Filter extends BaseEffect {
   /**
    * @brief フィルターのコンストラクタ
    * @param context - Web Audio APIのコンテキスト
+   * @param options - フィルターのオプション（バイパス範囲の幅）
    */
-  constructor(context: AudioContext) {
+  constructor(context: BaseAudioContext, options: FilterOptions = {}) {
     super(context);
-    this.filter = this.context.createBiquadFilter();
+    const bypassWidth = options.bypassWidth ?? FILTER_DEFAULT_BYPASS_WIDTH;
+    if (bypassWidth < 0 || bypassWidth >= 1) {
+      throw new Error('バイパス範囲の幅は0以上1未満で指定してください');
+    }
+    this.BYPASS_MIN = 0.5 - bypassWidth / 2;
+    this.BYPASS_MAX = 0.5 + bypassWidth / 2;
+
+    const maxStages = Math.max(...FILTER_SLOPES) / STAGE_SLOPE;
+    this.stages = Array.from({ length: maxStages }, () => this.context.createBiquadFilter());
     this.filterGain = this.context.createGain();
     this.bypassGain = this.context.createGain();
     this.filterValue = 0.5;  // 初期値は0.5（フィルターOFF）
+    this.settings = { ...FILTER_DEFAULT_SETTINGS };
 
     // フィルターの初期設定
-    this.filter.type = 'lowpass';
-    this.filter.frequency.value = 1000;
-    this.filter.Q.value = 1;
+    this.stages.forEach(stage => {
+      stage.type = 'lowpass';
+      stage.frequency.value = 1000;
+    });
 
-    // パラメータの登録
-    this.parameters.set('frequency', this.filter.frequency);
-    this.parameters.set('Q', this.filter.Q);
+    // パラメータの登録（先頭のフィルターの値を公開し、設定は全段に反映する）
+    this.parameters.set('frequency', this.stages[0].frequency);
+    this.parameters.set('Q', this.stages[0].Q);
 
     // 初期接続設定
     this.setupConnections();
+    this.applySettings();
   }
 
   /**
    * @brief 入出力の接続を設定
    */
   private setupConnections(): void {
-    // フィルターパス: input → filter → filterGain → output
-    this.input.connect(this.filter);
-    this.filter.connect(this.filterGain);
+    // フィルターパス: input → stages（スロープに応じた段数） → filterGain → output
+    this.input.connect(this.stages[0]);
     this.filterGain.connect(this.output);
 
     // バイパスパス: input → bypassGain → output
@@ -75,6 +181,17 @@ export class Filter extends BaseEffect {
     this.bypassGain.gain.value = 1;
   }
 
+  /**
+   * @brief スロープに応じた段数のフィルターを直列に接続
+   */
+  private connectStages(): void {
+    const stageCount = this.getStageCount();
+    this.stages.forEach(stage => stage.disconnect());
+    this.stages.slice(0, stageCount).forEach((stage, i) => {
+      stage.connect(i < stageCount - 1 ? this.stages[i + 1] : this.filterGain);
+    });
+  }
+
   /**
    * @brief フィルターを有効にする
    */
@@ -97,30 +214,110 @@ export class Filter extends BaseEffect {
 
   /**
    * @brief パラメータを設定
-   * @param param - パラメータ名
-   * @param value - パラメータ値
+   * @param param - パラメータ名（FilterParameter、またはfrequency/Q）
+   * @param value - パラメータ値（FilterParameterの場合は0-1）
    */
   public setParameter(param: string, value: number): void {
     this.checkState();
-    const audioParam = this.parameters.get(param);
-    if (!audioParam) {
+    if (this.isFilterParameter(param)) {
+      if (value < 0 || value > 1) {
+        throw new Error(`${param}の値は0から1の範囲で指定してください`);
+      }
+      this.settings[param] = value;
+      this.applySettings();
+      return;
+    }
+    if (!this.parameters.has(param)) {
       throw new Error(`無効なパラメータ名です: ${param}`);
     }
-    audioParam.value = value;
+    // カスケードした全段を同じ値まで滑らかに変化させる
+    this.getScheduledAudioParams(param).forEach(audioParam => {
+      this.rampAudioParam(audioParam, value);
+    });
   }
 
   /**
    * @brief パラメータを取得
-   * @param param - パラメータ名
+   * @param param - パラメータ名（FilterParameter、またはfrequency/Q）
    * @returns パラメータ値
    */
   public getParameter(param: string): number {
     this.checkState();
+    if (this.isFilterParameter(param)) {
+      return this.settings[param];
+    }
     const audioParam = this.parameters.get(param);
     if (!audioParam) {
       throw new Error(`無効なパラメータ名です: ${param}`);
     }
-    return audioParam.value;
+    return this.getAudioParamValue(audioParam);
+  }
+
+  /**
+   * @brief パラメータ名の一覧を取得
+   * @returns FilterParameterとfrequency/Qのパラメータ名の配列
+   */
+  public getParameterNames(): string[] {
+    return [...FILTER_PARAMETERS, ...super.getParameterNames()];
+  }
+
+  /**
+   * @brief 変化を予約するAudioParamを取得
+   * @param param - パラメータ名（frequency/Q）
+   * @returns カスケードした全段のAudioParamの配列
+   */
+  protected getScheduledAudioParams(param: string): AudioParam[] {
+    if (param === 'frequency' || param === 'Q') {
+      return this.stages.map(stage => stage[param]);
+    }
+    return super.getScheduledAudioParams(param);
+  }
+
+  /**
+   * @brief モードを設定
+   * @param mode - フィルターのモード
+   */
+  public setMode(mode: FilterMode): void {
+    this.checkState();
+    if (!FILTER_MODES.includes(mode)) {
+      throw new Error(`無効なフィルターのモードです: ${mode}`);
+    }
+    this.settings.mode = mode;
+    this.applySettings();
+  }
+
+  /**
+   * @brief スロープを設定
+   * @param slope - スロープ（12/24/48dB/oct）
+   */
+  public setSlope(slope: FilterSlope): void {
+    this.checkState();
+    if (!FILTER_SLOPES.includes(slope)) {
+      throw new Error(`無効なスロープです: ${slope}`);
+    }
+    this.settings.slope = slope;
+    this.applySettings();
+  }
+
+  /**
+   * @brief フィルターの全設定をまとめて設定
+   * @param settings - フィルターの設定
+   */
+  public setSettings(settings: FilterSettings): void {
+    this.checkState();
+    if (!FILTER_MODES.includes(settings.mode)) {
+      throw new Error(`無効なフィルターのモードです: ${settings.mode}`);
+    }
+    if (!FILTER_SLOPES.includes(settings.slope)) {
+      throw new Error(`無効なスロープです: ${settings.slope}`);
+    }
+    FILTER_PARAMETERS.forEach(param => {
+      if (settings[param] < 0 || settings[param] > 1) {
+        throw new Error(`${param}の値は0から1の範囲で指定してください`);
+      }
+    });
+    this.settings = { ...settings };
+    this.applySettings();
   }
 
   /**
@@ -134,7 +331,7 @@ export class Filter extends BaseEffect {
     }
     this.filterValue = value;
 
-    if (this.filterValue >= this.BYPASS_MIN && this.filterValue <= this.BYPASS_MAX) {
+    if (this.isBypassed()) {
       // バイパス範囲内ではフィルターをバイパス
       this.disable();
       return;
@@ -142,26 +339,7 @@ export class Filter extends BaseEffect {
 
     // フィルターを有効にする
     this.enable();
-
-    if (this.filterValue < this.BYPASS_MIN) {
-      // 0-0.45の範囲：ローパスフィルター
-      this.setFilterType('lowpass');
-      // 0-0.45の範囲を0-1に正規化
-      const normalizedValue = this.filterValue / this.BYPASS_MIN;
-      // 対数カーブを適用して周波数を計算
-      const logValue = Math.pow(10, normalizedValue * 3);
-      const frequency = this.MIN_FREQUENCY + (this.MAX_FREQUENCY - this.MIN_FREQUENCY) * (logValue - 1) / 999;
-      this.setCutoffFrequency(frequency);
-    } else {
-      // 0.55-1.0の範囲：ハイパスフィルター
-      this.setFilterType('highpass');
-      // 0.55-1.0の範囲を0-1に正規化
-      const normalizedValue = (this.filterValue - this.BYPASS_MAX) / (1 - this.BYPASS_MAX);
-      // 対数カーブを適用して周波数を計算
-      const logValue = Math.pow(10, normalizedValue * 3);
-      const frequency = this.MIN_FREQUENCY + (this.MAX_FREQUENCY - this.MIN_FREQUENCY) * (logValue - 1) / 999;
-      this.setCutoffFrequency(frequency);
-    }
+    this.applyFilterValue();
   }
 
   /**
@@ -180,18 +358,57 @@ export class Filter extends BaseEffect {
    * @param type - フィルターの種類
    */
   setFilterType(type: BiquadFilterType): void {
-    this.filter.type = type;
+    this.stages.forEach(stage => {
+      stage.type = type;
+    });
+  }
+
+  /**
+   * @brief 現在のフィルター値とモードを表す表示用のラベルを取得
+   * @returns バイパス範囲内ではBYPASS、それ以外はフィルターの種類（LP/HP/BP/NOTCH/PEAK）
+   */
+  public getLabel(): string {
+    if (this.isBypassed()) {
+      return 'BYPASS';
+    }
+    const type = this.getFilterType();
+    return FILTER_TYPE_LABELS[type] ?? type;
   }
 
   /**
-   * @brief フィルターの状態を取得
-   * @returns フィルターの状態
+   * @brief 状態として保存するエフェクトの値を取得
+   * @returns フィルターの値（0-1）
    */
-  getState(): { filterValue: number; frequency: number; type: BiquadFilterType } {
+  protected getEffectValue(): number {
+    return this.filterValue;
+  }
+
+  /**
+   * @brief 状態として保存する設定を取得
+   * @returns フィルターの設定のコピー
+   */
+  protected getStateSettings(): FilterSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * @brief 状態から復元する設定を反映
+   * @param settings - フィルターの設定
+   */
+  protected applyStateSettings(settings: FilterSettings): void {
+    this.setSettings(settings);
+  }
+
+  /**
+   * @brief フィルターの現在の値を確認用に取得（保存と復元にはgetState/setStateを使用）
+   * @returns フィルターの現在の値（filterValueとresonanceは0-1、frequencyはHz）
+   */
+  getStatus(): FilterSettings & { filterValue: number; frequency: number; type: BiquadFilterType } {
     return {
+      ...this.settings,
       filterValue: this.filterValue,
       frequency: this.getParameter('frequency'),
-      type: this.filter.type
+      type: this.stages[0].type
     };
   }
 
@@ -200,9 +417,10 @@ export class Filter extends BaseEffect {
    */
   reset(): void {
     this.filterValue = 0.5;
-    this.filter.type = 'lowpass';
+    this.settings = { ...FILTER_DEFAULT_SETTINGS };
+    this.setFilterType('lowpass');
     this.setParameter('frequency', 1000);
-    this.setParameter('Q', 1);
+    this.applySettings();
     this.disable();  // リセット時にフィルターを無効にする
   }
 
@@ -210,9 +428,96 @@ export class Filter extends BaseEffect {
    * @brief フィルターを破棄
    */
   dispose(): void {
-    this.filter.disconnect();
+    this.stages.forEach(stage => stage.disconnect());
     this.filterGain.disconnect();
     this.bypassGain.disconnect();
     super.dispose();
   }
-} 
\ No newline at end of file
+
+  /**
+   * @brief 現在の設定（段数、Q、ピークのゲイン、種類と周波数）を反映
+   */
+  private applySettings(): void {
+    const stageCount = this.getStageCount();
+    this.connectStages();
+    this.stages.forEach(stage => {
+      this.rampAudioParam(stage.Q, toFilterQ(this.settings.resonance));
+      // ピークモードでは全段の合計がFILTER_PEAK_GAIN_DBになるように分ける
+      this.rampAudioParam(stage.gain, this.settings.mode === 'peak' ? FILTER_PEAK_GAIN_DB / stageCount : 0);
+    });
+    if (!this.isBypassed()) {
+      this.applyFilterValue();
+    }
+  }
+
+  /**
+   * @brief フィルター値とモードから種類とカットオフ周波数を設定（バイパス範囲外の場合のみ呼び出す）
+   */
+  private applyFilterValue(): void {
+    this.setFilterType(this.getFilterType());
+    if (this.settings.mode !== 'lowHigh') {
+      // バイパス範囲を除いた全体を0-1に正規化して中心周波数を動かす
+      const normalizedValue = this.filterValue < this.BYPASS_MIN
+        ? (this.filterValue / this.BYPASS_MIN) / 2
+        : 0.5 + ((this.filterValue - this.BYPASS_MAX) / (1 - this.BYPASS_MAX)) / 2;
+      this.setCutoffFrequency(this.toFrequency(normalizedValue));
+      return;
+    }
+
+    if (this.filterValue < this.BYPASS_MIN) {
+      // バイパス範囲より下：ローパスフィルター
+      // 0-BYPASS_MINの範囲を0-1に正規化
+      this.setCutoffFrequency(this.toFrequency(this.filterValue / this.BYPASS_MIN));
+    } else {
+      // バイパス範囲より上：ハイパスフィルター
+      // BYPASS_MAX-1.0の範囲を0-1に正規化
+      this.setCutoffFrequency(this.toFrequency((this.filterValue - this.BYPASS_MAX) / (1 - this.BYPASS_MAX)));
+    }
+  }
+
+  /**
+   * @brief フィルター値とモードに対応するフィルターの種類を取得
+   * @returns ローパス/ハイパスのモードではフィルター値に応じてlowpassかhighpass、それ以外はモードに対応する種類
+   */
+  private getFilterType(): BiquadFilterType {
+    if (this.settings.mode !== 'lowHigh') {
+      return BAND_FILTER_TYPES[this.settings.mode];
+    }
+    return this.filterValue < this.BYPASS_MIN ? 'lowpass' : 'highpass';
+  }
+
+  /**
+   * @brief 正規化した値（0-1）に対数カーブを適用して周波数を計算
+   * @param normalizedValue - 正規化した値（0-1）
+   * @returns 周波数（Hz）
+   */
+  private toFrequency(normalizedValue: number): number {
+    const logValue = Math.pow(10, normalizedValue * 3);
+    return this.MIN_FREQUENCY + (this.MAX_FREQUENCY - this.MIN_FREQUENCY) * (logValue - 1) / 999;
+  }
+
+  /**
+   * @brief フィルター値がバイパス範囲内かどうかを判定
+   * @returns バイパス範囲内の場合はtrue
+   */
+  private isBypassed(): boolean {
+    return this.filterValue >= this.BYPASS_MIN && this.filterValue <= this.BYPASS_MAX;
+  }
+
+  /**
+   * @brief スロープに応じたフィルターの段数を取得
+   * @returns 段数
+   */
+  private getStageCount(): number {
+    return this.settings.slope / STAGE_SLOPE;
+  }
+
+  /**
+   * @brief フィルターのパラメータ名かどうかを判定
+   * @param param - パラメータ名
+   * @returns FilterParameterの場合はtrue
+   */
+  private isFilterParameter(param: string): param is FilterParameter {
+    return (FILTER_PARAMETERS as readonly string[]).includes(param);
+  }
+}
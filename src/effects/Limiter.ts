@@ -0,0 +1,347 @@
+/**
+ * @file Limiter.ts
+ * @brief マスター用のブリックウォールリミッターの実装
+ * @details
+ * - レシオ最大、ニー0、アタック0のDynamicsCompressorNodeでシーリングを超える部分を抑える
+ * - DynamicsCompressorNodeは内部で入力を先読みするため、ピークの立ち上がりから抑えられる
+ * - DynamicsCompressorNodeが自動で加えるメイクアップゲイン（シーリングが低いほど大きい）は後段のゲインで打ち消す
+ * - 抑えきれなかったピークは後段のクリッパー（WaveShaperNode）でシーリングに制限し、サンプルがシーリングを超えないことを保証する
+ * - 0-1の値（updateEffect）でシーリングを制御し（1で0dBFS）、0ではリミッターをバイパス
+ * - 初期状態で有効（シーリング0dBFS）で、再生とミックスダウンの書き出しのクリップを防ぐ
+ * - リリースを0-1の値で設定
+ * - ゲインリダクション（dB）の取得
+ * @limitations
+ * - 先読みの長さはブラウザの実装に依存し、変更できない
+ * - メイクアップゲインの打ち消しはWeb Audio APIの仕様の計算式に基づき、仕様と異なる実装のブラウザでは誤差が残る
+ * - サンプル間のピーク（トゥルーピーク）は制限しない
+ */
+
+import { BaseEffect } from './base/BaseEffect';
+import { LIMITER_MIN_CEILING_DB, LIMITER_MIN_RELEASE_SECONDS, LIMITER_MAX_RELEASE_SECONDS } from '@/core/audioConstants';
+
+/**
+ * リミッターのパラメータ（0-1の値）
+ * - release: リリース（LIMITER_MIN_RELEASE_SECONDSからLIMITER_MAX_RELEASE_SECONDS、対数のカーブ）
+ */
+export type LimiterParameter = 'release';
+
+/**
+ * リミッターの設定（シーリングはupdateEffectの値で、設定には含まない）
+ */
+export type LimiterSettings = { [param in LimiterParameter]: number };
+
+/**
+ * リミッターのパラメータ名（getParameterNamesで公開する順序）
+ */
+export const LIMITER_PARAMETERS: readonly LimiterParameter[] = ['release'];
+
+/**
+ * リミッターの設定のデフォルト値
+ */
+export const LIMITER_DEFAULT_SETTINGS: Readonly<LimiterSettings> = {
+  release: 0.5
+};
+
+/**
+ * リミッターの値（シーリング）の初期値（0dBFS）
+ */
+export const LIMITER_DEFAULT_CEILING = 1;
+
+// クリッパーのカーブの長さ（入力の-1から1を分割する数）
+const CLIPPER_CURVE_LENGTH = 4096;
+
+// ブリックウォールとして動作させるためのDynamicsCompressorNodeの設定
+const LIMITER_RATIO = 20;
+const LIMITER_ATTACK_SECONDS = 0;
+
+/**
+ * シーリングの値（0-1）をデシベルに変換
+ * @param {number} value - シーリングの値（0-1）
+ * @returns {number} シーリング（dBFS、LIMITER_MIN_CEILING_DBから0）
+ */
+export const toCeilingDb = (value: number): number => {
+  return LIMITER_MIN_CEILING_DB - LIMITER_MIN_CEILING_DB * value;
+};
+
+/**
+ * DynamicsCompressorNodeが自動で加えるメイクアップゲインを打ち消すゲインを取得
+ * Web Audio APIの仕様では、メイクアップゲインは0dBFSの入力に対する出力のゲインの逆数の0.6乗で、
+ * ニーが0の場合は -0.6 × スレッショルド × (1 - 1 / レシオ) dBになる
+ * @param {number} ceilingDb - シーリング（dBFS、DynamicsCompressorNodeのスレッショルド）
+ * @returns {number} メイクアップゲインを打ち消すゲイン（倍率、シーリングが0dBFSの場合は1）
+ */
+export const toMakeupCompensation = (ceilingDb: number): number => {
+  const makeupDb = -0.6 * ceilingDb * (1 - 1 / LIMITER_RATIO);
+  return Math.pow(10, -makeupDb / 20);
+};
+
+/**
+ * リリースのパラメータ（0-1）を秒に変換
+ * @param {number} value - パラメータの値（0-1）
+ * @returns {number} リリース（秒）
+ */
+export const toLimiterReleaseSeconds = (value: number): number => {
+  return LIMITER_MIN_RELEASE_SECONDS * Math.pow(LIMITER_MAX_RELEASE_SECONDS / LIMITER_MIN_RELEASE_SECONDS, value);
+};
+
+/**
+ * シーリングで振幅を制限するクリッパーのカーブを作成
+ * @param {number} ceilingDb - シーリング（dBFS）
+ * @returns {Float32Array} WaveShaperNodeに設定するカーブ（入力の-1から1に対応）
+ */
+export const createClipperCurve = (ceilingDb: number): Float32Array => {
+  const ceiling = Math.pow(10, ceilingDb / 20);
+  const data = new Float32Array(CLIPPER_CURVE_LENGTH);
+  data.forEach((_, i) => {
+    const x = (i / (CLIPPER_CURVE_LENGTH - 1)) * 2 - 1;
+    data[i] = Math.max(-ceiling, Math.min(ceiling, x));
+  });
+  return data;
+};
+
+export class Limiter extends BaseEffect<LimiterSettings> {
+  private compressor: DynamicsCompressorNode;
+  private makeupCompensation: GainNode;  // DynamicsCompressorNodeのメイクアップゲインを打ち消す
+  private clipper: WaveShaperNode;  // 抑えきれなかったピークをシーリングに制限する
+  private wetGain: GainNode;  // リミッターパス用のゲイン
+  private dryGain: GainNode;  // バイパスパス用のゲイン
+  private ceiling: number;  // シーリング（0-1）
+  private settings: LimiterSettings;
+
+  /**
+   * @brief リミッターのコンストラクタ
+   * @param context - Web Audio APIのコンテキスト
+   */
+  constructor(context: BaseAudioContext) {
+    super(context);
+    this.compressor = this.context.createDynamicsCompressor();
+    this.makeupCompensation = this.context.createGain();
+    this.clipper = this.context.createWaveShaper();
+    this.wetGain = this.context.createGain();
+    this.dryGain = this.context.createGain();
+    this.ceiling = LIMITER_DEFAULT_CEILING;
+    this.settings = { ...LIMITER_DEFAULT_SETTINGS };
+
+    // パラメータの登録
+    this.parameters.set('wet', this.wetGain.gain);
+    this.parameters.set('dry', this.dryGain.gain);
+
+    this.compressor.ratio.value = LIMITER_RATIO;
+    this.compressor.knee.value = 0;
+    this.compressor.attack.value = LIMITER_ATTACK_SECONDS;
+    // クリッパーの出力がシーリングを超えないように、オーバーサンプリングは使用しない
+    this.clipper.oversample = 'none';
+
+    // 初期接続設定
+    this.setupConnections();
+    this.applySettings();
+  }
+
+  /**
+   * @brief 入出力の接続を設定
+   */
+  private setupConnections(): void {
+    // リミッターパス: input → compressor → makeupCompensation → clipper → wetGain → output
+    this.input.connect(this.compressor);
+    this.compressor.connect(this.makeupCompensation);
+    this.makeupCompensation.connect(this.clipper);
+    this.clipper.connect(this.wetGain);
+    this.wetGain.connect(this.output);
+
+    // バイパスパス: input → dryGain → output
+    this.input.connect(this.dryGain);
+    this.dryGain.connect(this.output);
+
+    // 初期状態で有効
+    this.wetGain.gain.value = 1;
+    this.dryGain.gain.value = 0;
+    this.isEnabled = true;
+  }
+
+  /**
+   * @brief リミッターを有効にする
+   */
+  public enable(): void {
+    this.checkState();
+    this.isEnabled = true;
+    this.wetGain.gain.setTargetAtTime(1, this.context.currentTime, 0.01);
+    this.dryGain.gain.setTargetAtTime(0, this.context.currentTime, 0.01);
+  }
+
+  /**
+   * @brief リミッターを無効にする
+   */
+  public disable(): void {
+    this.checkState();
+    this.isEnabled = false;
+    this.wetGain.gain.setTargetAtTime(0, this.context.currentTime, 0.01);
+    this.dryGain.gain.setTargetAtTime(1, this.context.currentTime, 0.01);
+  }
+
+  /**
+   * @brief パラメータを設定
+   * @param param - パラメータ名（LimiterParameter、またはwet/dryのゲイン）
+   * @param value - パラメータ値（LimiterParameterの場合は0-1）
+   */
+  public setParameter(param: string, value: number): void {
+    this.checkState();
+    if (this.isLimiterParameter(param)) {
+      if (value < 0 || value > 1) {
+        throw new Error(`${param}の値は0から1の範囲で指定してください`);
+      }
+      this.settings[param] = value;
+      this.applySettings();
+      return;
+    }
+    const audioParam = this.parameters.get(param);
+    if (!audioParam) {
+      throw new Error(`無効なパラメータ名です: ${param}`);
+    }
+    this.rampAudioParam(audioParam, value);
+  }
+
+  /**
+   * @brief パラメータを取得
+   * @param param - パラメータ名（LimiterParameter、またはwet/dryのゲイン）
+   * @returns パラメータ値
+   */
+  public getParameter(param: string): number {
+    this.checkState();
+    if (this.isLimiterParameter(param)) {
+      return this.settings[param];
+    }
+    const audioParam = this.parameters.get(param);
+    if (!audioParam) {
+      throw new Error(`無効なパラメータ名です: ${param}`);
+    }
+    return this.getAudioParamValue(audioParam);
+  }
+
+  /**
+   * @brief パラメータ名の一覧を取得
+   * @returns LimiterParameterとwet/dryのパラメータ名の配列
+   */
+  public getParameterNames(): string[] {
+    return [...LIMITER_PARAMETERS, ...super.getParameterNames()];
+  }
+
+  /**
+   * @brief リミッターの全パラメータをまとめて設定
+   * @param settings - リミッターの設定
+   */
+  public setSettings(settings: LimiterSettings): void {
+    this.checkState();
+    LIMITER_PARAMETERS.forEach(param => {
+      if (settings[param] < 0 || settings[param] > 1) {
+        throw new Error(`${param}の値は0から1の範囲で指定してください`);
+      }
+    });
+    this.settings = { ...settings };
+    this.applySettings();
+  }
+
+  /**
+   * @brief シーリングを更新
+   * @param value - シーリング（0-1、1で0dBFS、0でバイパス）
+   */
+  public updateEffect(value: number): void {
+    this.checkState();
+    if (value < 0 || value > 1) {
+      throw new Error('リミッター値は0から1の範囲で指定してください');
+    }
+    this.ceiling = value;
+    this.applySettings();
+    if (this.ceiling === 0) {
+      this.disable();
+      return;
+    }
+    this.enable();
+  }
+
+  /**
+   * @brief ゲインリダクションを取得
+   * @returns ゲインリダクション（dB、0以下、バイパス中は0）
+   */
+  public getReduction(): number {
+    this.checkState();
+    return this.isEnabled ? this.compressor.reduction : 0;
+  }
+
+  /**
+   * @brief 状態として保存するエフェクトの値を取得
+   * @returns リミッターの値（0-1）
+   */
+  protected getEffectValue(): number {
+    return this.ceiling;
+  }
+
+  /**
+   * @brief 状態として保存する設定を取得
+   * @returns リミッターの設定のコピー
+   */
+  protected getStateSettings(): LimiterSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * @brief 状態から復元する設定を反映
+   * @param settings - リミッターの設定
+   */
+  protected applyStateSettings(settings: LimiterSettings): void {
+    this.setSettings(settings);
+  }
+
+  /**
+   * @brief リミッターの現在の値を確認用に取得（保存と復元にはgetState/setStateを使用）
+   * @returns リミッターの現在の値（ceilingと各パラメータは0-1、ceilingDbはdBFS）
+   */
+  getStatus(): LimiterSettings & { ceiling: number; ceilingDb: number } {
+    return {
+      ...this.settings,
+      ceiling: this.ceiling,
+      ceilingDb: toCeilingDb(this.ceiling)
+    };
+  }
+
+  /**
+   * @brief リミッターの設定をリセット
+   */
+  reset(): void {
+    this.ceiling = LIMITER_DEFAULT_CEILING;
+    this.settings = { ...LIMITER_DEFAULT_SETTINGS };
+    this.applySettings();
+    this.enable();  // リセット時は初期状態と同じく有効にする
+  }
+
+  /**
+   * @brief リミッターを破棄
+   */
+  dispose(): void {
+    this.compressor.disconnect();
+    this.makeupCompensation.disconnect();
+    this.clipper.disconnect();
+    this.wetGain.disconnect();
+    this.dryGain.disconnect();
+    super.dispose();
+  }
+
+  /**
+   * @brief 現在のシーリングと設定をDynamicsCompressorNode、メイクアップゲインの打ち消し、クリッパーに反映
+   */
+  private applySettings(): void {
+    const ceilingDb = toCeilingDb(this.ceiling);
+    this.rampAudioParam(this.compressor.threshold, ceilingDb);
+    this.rampAudioParam(this.compressor.release, toLimiterReleaseSeconds(this.settings.release));
+    this.rampAudioParam(this.makeupCompensation.gain, toMakeupCompensation(ceilingDb));
+    this.clipper.curve = createClipperCurve(ceilingDb);
+  }
+
+  /**
+   * @brief リミッターのパラメータ名かどうかを判定
+   * @param param - パラメータ名
+   * @returns LimiterParameterの場合はtrue
+   */
+  private isLimiterParameter(param: string): param is LimiterParameter {
+    return (LIMITER_PARAMETERS as readonly string[]).includes(param);
+  }
+}
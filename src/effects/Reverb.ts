@@ -0,0 +1,442 @@
+/**
+ * @file Reverb.ts
+ * @brief コンボリューションリバーブの実装
+ * @details
+ * - ConvolverNodeによるリバーブ
+ * - インパルス応答はアルゴリズムで生成（ルーム/プレート/ホール）
+ * - サイズ、残響時間、プリディレイ、ダンピングを0-1の値で制御
+ * - 0-1の値（updateEffect）でウェットとドライのミックスを制御し、0ではリバーブをバイパス
+ * - インパルス応答の乱数は固定のシードで生成し、再生とオフラインレンダリングで同じ残響にする
+ * @limitations
+ * - パラメータを変更するたびにインパルス応答を作り直すため、ドラッグ中は処理が重くなる場合がある
+ */
+
+import { BaseEffect } from './base/BaseEffect';
+import {
+  REVERB_MIN_DECAY_SECONDS,
+  REVERB_MAX_DECAY_SECONDS,
+  REVERB_MAX_PRE_DELAY_SECONDS
+} from '@/core/audioConstants';
+
+/**
+ * リバーブの種類
+ */
+export type ReverbType = 'room' | 'plate' | 'hall';
+
+/**
+ * リバーブのパラメータ（いずれも0-1の値）
+ * - size: 空間の大きさ（初期反射の広がりと残響の立ち上がり）
+ * - decay: 残響時間（REVERB_MIN_DECAY_SECONDSからREVERB_MAX_DECAY_SECONDS）
+ * - preDelay: 原音から残響までの遅れ（0からREVERB_MAX_PRE_DELAY_SECONDS）
+ * - damping: 高域の減衰の速さ（1で高域が早く消える）
+ */
+export type ReverbParameter = 'size' | 'decay' | 'preDelay' | 'damping';
+
+/**
+ * リバーブのパラメータ名（getParameterNamesで公開する順序）
+ */
+export const REVERB_PARAMETERS: readonly ReverbParameter[] = ['size', 'decay', 'preDelay', 'damping'];
+
+/**
+ * リバーブの設定
+ */
+export interface ReverbSettings {
+  type: ReverbType;
+  size: number;
+  decay: number;
+  preDelay: number;
+  damping: number;
+}
+
+/**
+ * リバーブの設定のデフォルト値
+ */
+export const REVERB_DEFAULT_SETTINGS: Readonly<ReverbSettings> = {
+  type: 'room',
+  size: 0.5,
+  decay: 0.3,
+  preDelay: 0.1,
+  damping: 0.5
+};
+
+/**
+ * リバーブの種類ごとの特徴
+ * - earlyReflections: 初期反射の数
+ * - earlySpread: 初期反射が広がる時間（秒、size=1の場合）
+ * - buildUp: 残響が最大になるまでの時間（秒、size=1の場合）
+ * - brightness: 残響の明るさ（1で高域を減衰させない）
+ * - decayScale: 残響時間の倍率
+ */
+const REVERB_TYPE_CHARACTERS: {
+  [type in ReverbType]: {
+    earlyReflections: number;
+    earlySpread: number;
+    buildUp: number;
+    brightness: number;
+    decayScale: number;
+  }
+} = {
+  room: { earlyReflections: 8, earlySpread: 0.05, buildUp: 0.01, brightness: 0.6, decayScale: 0.6 },
+  plate: { earlyReflections: 0, earlySpread: 0, buildUp: 0.002, brightness: 1.0, decayScale: 1.0 },
+  hall: { earlyReflections: 12, earlySpread: 0.12, buildUp: 0.06, brightness: 0.8, decayScale: 1.5 }
+};
+
+// 残響が-60dBになるまでの時間を残響時間とするための係数（ln(1000)）
+const RT60_LOG = Math.log(1000);
+
+// インパルス応答の乱数のシード
+const IMPULSE_SEED = 0x5eed;
+
+/**
+ * 残響時間のパラメータ（0-1）を秒に変換
+ * @param {number} value - パラメータの値（0-1）
+ * @returns {number} 残響時間（秒、2乗のカーブで短い残響を細かく調整できるようにする）
+ */
+export const toDecaySeconds = (value: number): number => {
+  return REVERB_MIN_DECAY_SECONDS + (REVERB_MAX_DECAY_SECONDS - REVERB_MIN_DECAY_SECONDS) * value * value;
+};
+
+/**
+ * リバーブの種類を含めた実際の残響時間を取得
+ * @param {ReverbSettings} settings - リバーブの設定
+ * @returns {number} 残響が-60dBになるまでの時間（秒）
+ */
+export const getDecaySeconds = (settings: ReverbSettings): number => {
+  return toDecaySeconds(settings.decay) * REVERB_TYPE_CHARACTERS[settings.type].decayScale;
+};
+
+/**
+ * プリディレイのパラメータ（0-1）を秒に変換
+ * @param {number} value - パラメータの値（0-1）
+ * @returns {number} プリディレイ（秒）
+ */
+export const toPreDelaySeconds = (value: number): number => {
+  return value * REVERB_MAX_PRE_DELAY_SECONDS;
+};
+
+/**
+ * シードから再現可能な乱数（-1から1）を生成する関数を作成（mulberry32）
+ * @param {number} seed - シード
+ * @returns {() => number} 呼び出すたびに次の乱数を返す関数
+ */
+const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (((t ^ (t >>> 14)) >>> 0) / 4294967296) * 2 - 1;
+  };
+};
+
+/**
+ * リバーブのインパルス応答を生成
+ * @details
+ * - 指数的に減衰するノイズに、時間とともにカットオフが下がるローパスを掛けて高域を早く減衰させる
+ * - 左右で異なる乱数を使い、広がりのある残響にする
+ * - ルームとホールは、サイズに応じた時間に初期反射を加える
+ * @param {BaseAudioContext} context - AudioBufferを作成する音声コンテキスト
+ * @param {ReverbSettings} settings - リバーブの設定
+ * @returns {AudioBuffer} ステレオのインパルス応答（ピークは1）
+ */
+export const generateImpulseResponse = (context: BaseAudioContext, settings: ReverbSettings): AudioBuffer => {
+  const character = REVERB_TYPE_CHARACTERS[settings.type];
+  const sampleRate = context.sampleRate;
+  const rt60 = getDecaySeconds(settings);
+  const length = Math.max(1, Math.round(rt60 * sampleRate));
+  const buildUp = character.buildUp * settings.size;
+  const earlySpread = character.earlySpread * settings.size;
+  const impulse = context.createBuffer(2, length, sampleRate);
+
+  for (let channel = 0; channel < 2; channel++) {
+    const random = createRandom(IMPULSE_SEED + channel);
+    const data = new Float32Array(length);
+    let filtered = 0;
+    let peak = 0;
+
+    for (let i = 0; i < length; i++) {
+      const time = i / sampleRate;
+      const envelope = Math.exp(-RT60_LOG * time / rt60) * (buildUp > 0 ? Math.min(1, time / buildUp) : 1);
+      // ダンピングが大きいほど、残響の後半でカットオフが下がる
+      const coefficient = Math.max(0.02, character.brightness * (1 - settings.damping * Math.min(1, 3 * time / rt60)));
+      filtered += coefficient * (random() - filtered);
+      data[i] = filtered * envelope;
+    }
+
+    // 初期反射（後ろの反射ほど小さくする）
+    for (let k = 0; k < character.earlyReflections; k++) {
+      const time = earlySpread * (k + 1 + 0.5 * random()) / character.earlyReflections;
+      const index = Math.min(length - 1, Math.round(time * sampleRate));
+      const amplitude = 0.8 * (1 - k / character.earlyReflections) * Math.exp(-RT60_LOG * time / rt60);
+      data[index] += random() > 0 ? amplitude : -amplitude;
+    }
+
+    data.forEach(value => { peak = Math.max(peak, Math.abs(value)); });
+    if (peak > 0) {
+      data.forEach((value, i) => { data[i] = value / peak; });
+    }
+    impulse.copyToChannel(data, channel);
+  }
+  return impulse;
+};
+
+export class Reverb extends BaseEffect<ReverbSettings> {
+  private convolver: ConvolverNode;
+  private preDelay: DelayNode;
+  private wetGain: GainNode;  // リバーブ（ウェット）パス用のゲイン
+  private dryGain: GainNode;  // 原音（ドライ）パス用のゲイン
+  private mix: number;  // ウェットとドライのミックス（0-1）
+  private settings: ReverbSettings;
+
+  /**
+   * @brief リバーブのコンストラクタ
+   * @param context - Web Audio APIのコンテキスト
+   */
+  constructor(context: BaseAudioContext) {
+    super(context);
+    this.convolver = this.context.createConvolver();
+    this.preDelay = this.context.createDelay(REVERB_MAX_PRE_DELAY_SECONDS);
+    this.wetGain = this.context.createGain();
+    this.dryGain = this.context.createGain();
+    this.mix = 0;  // 初期値は0（リバーブOFF）
+    this.settings = { ...REVERB_DEFAULT_SETTINGS };
+
+    // パラメータの登録
+    this.parameters.set('wet', this.wetGain.gain);
+    this.parameters.set('dry', this.dryGain.gain);
+
+    this.preDelay.delayTime.value = toPreDelaySeconds(this.settings.preDelay);
+    this.convolver.buffer = generateImpulseResponse(this.context, this.settings);
+
+    // 初期接続設定
+    this.setupConnections();
+  }
+
+  /**
+   * @brief 入出力の接続を設定
+   */
+  private setupConnections(): void {
+    // リバーブパス: input → preDelay → convolver → wetGain → output
+    this.input.connect(this.preDelay);
+    this.preDelay.connect(this.convolver);
+    this.convolver.connect(this.wetGain);
+    this.wetGain.connect(this.output);
+
+    // ドライパス: input → dryGain → output
+    this.input.connect(this.dryGain);
+    this.dryGain.connect(this.output);
+
+    // 初期状態ではバイパス
+    this.wetGain.gain.value = 0;
+    this.dryGain.gain.value = 1;
+  }
+
+  /**
+   * @brief リバーブを有効にする（現在のミックスを適用）
+   */
+  public enable(): void {
+    this.checkState();
+    this.isEnabled = true;
+    // 等パワーのクロスフェード
+    this.wetGain.gain.setTargetAtTime(Math.sin(this.mix * Math.PI / 2), this.context.currentTime, 0.01);
+    this.dryGain.gain.setTargetAtTime(Math.cos(this.mix * Math.PI / 2), this.context.currentTime, 0.01);
+  }
+
+  /**
+   * @brief リバーブを無効にする
+   */
+  public disable(): void {
+    this.checkState();
+    this.isEnabled = false;
+    this.wetGain.gain.setTargetAtTime(0, this.context.currentTime, 0.01);
+    this.dryGain.gain.setTargetAtTime(1, this.context.currentTime, 0.01);
+  }
+
+  /**
+   * @brief パラメータを設定
+   * @param param - パラメータ名（ReverbParameter、またはwet/dryのゲイン）
+   * @param value - パラメータ値（ReverbParameterの場合は0-1）
+   */
+  public setParameter(param: string, value: number): void {
+    this.checkState();
+    if (this.isReverbParameter(param)) {
+      if (value < 0 || value > 1) {
+        throw new Error(`${param}の値は0から1の範囲で指定してください`);
+      }
+      this.settings[param] = value;
+      if (param === 'preDelay') {
+        this.rampAudioParam(this.preDelay.delayTime, toPreDelaySeconds(value));
+      } else {
+        this.updateImpulseResponse();
+      }
+      return;
+    }
+    const audioParam = this.parameters.get(param);
+    if (!audioParam) {
+      throw new Error(`無効なパラメータ名です: ${param}`);
+    }
+    this.rampAudioParam(audioParam, value);
+  }
+
+  /**
+   * @brief パラメータを取得
+   * @param param - パラメータ名（ReverbParameter、またはwet/dryのゲイン）
+   * @returns パラメータ値
+   */
+  public getParameter(param: string): number {
+    this.checkState();
+    if (this.isReverbParameter(param)) {
+      return this.settings[param];
+    }
+    const audioParam = this.parameters.get(param);
+    if (!audioParam) {
+      throw new Error(`無効なパラメータ名です: ${param}`);
+    }
+    return this.getAudioParamValue(audioParam);
+  }
+
+  /**
+   * @brief パラメータ名の一覧を取得
+   * @returns ReverbParameterとwet/dryのパラメータ名の配列
+   */
+  public getParameterNames(): string[] {
+    return [...REVERB_PARAMETERS, ...super.getParameterNames()];
+  }
+
+  /**
+   * @brief リバーブの種類を設定
+   * @param type - リバーブの種類
+   */
+  public setType(type: ReverbType): void {
+    this.checkState();
+    if (!(type in REVERB_TYPE_CHARACTERS)) {
+      throw new Error(`無効なリバーブの種類です: ${type}`);
+    }
+    this.settings.type = type;
+    this.updateImpulseResponse();
+  }
+
+  /**
+   * @brief リバーブの種類と全パラメータをまとめて設定（インパルス応答の作り直しは1回だけ行う）
+   * @param settings - リバーブの設定
+   */
+  public setSettings(settings: ReverbSettings): void {
+    this.checkState();
+    if (!(settings.type in REVERB_TYPE_CHARACTERS)) {
+      throw new Error(`無効なリバーブの種類です: ${settings.type}`);
+    }
+    REVERB_PARAMETERS.forEach(param => {
+      if (settings[param] < 0 || settings[param] > 1) {
+        throw new Error(`${param}の値は0から1の範囲で指定してください`);
+      }
+    });
+    this.settings = { ...settings };
+    this.rampAudioParam(this.preDelay.delayTime, toPreDelaySeconds(this.settings.preDelay));
+    this.updateImpulseResponse();
+  }
+
+  /**
+   * @brief ミックスを更新
+   * @param value - ウェットとドライのミックス（0-1、0でバイパス）
+   */
+  public updateEffect(value: number): void {
+    this.checkState();
+    if (value < 0 || value > 1) {
+      throw new Error('リバーブ値は0から1の範囲で指定してください');
+    }
+    this.mix = value;
+    if (this.mix === 0) {
+      this.disable();
+      return;
+    }
+    this.enable();
+  }
+
+  /**
+   * @brief 残響が鳴り終わるまでの時間を取得（オフラインレンダリングの長さの計算に使用）
+   * @returns 残響の長さ（秒、バイパス中は0）
+   */
+  public getTailSeconds(): number {
+    if (!this.isEnabled) {
+      return 0;
+    }
+    const impulse = this.convolver.buffer;
+    return toPreDelaySeconds(this.settings.preDelay) + (impulse ? impulse.duration : 0);
+  }
+
+  /**
+   * @brief 状態として保存するエフェクトの値を取得
+   * @returns リバーブの値（0-1）
+   */
+  protected getEffectValue(): number {
+    return this.mix;
+  }
+
+  /**
+   * @brief 状態として保存する設定を取得
+   * @returns リバーブの設定のコピー
+   */
+  protected getStateSettings(): ReverbSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * @brief 状態から復元する設定を反映
+   * @param settings - リバーブの設定
+   */
+  protected applyStateSettings(settings: ReverbSettings): void {
+    this.setSettings(settings);
+  }
+
+  /**
+   * @brief リバーブの現在の値を確認用に取得（保存と復元にはgetState/setStateを使用）
+   * @returns リバーブの現在の値（mixと各パラメータは0-1、decaySecondsとpreDelaySecondsは秒）
+   */
+  getStatus(): ReverbSettings & { mix: number; decaySeconds: number; preDelaySeconds: number } {
+    return {
+      ...this.settings,
+      mix: this.mix,
+      decaySeconds: getDecaySeconds(this.settings),
+      preDelaySeconds: toPreDelaySeconds(this.settings.preDelay)
+    };
+  }
+
+  /**
+   * @brief リバーブの設定をリセット
+   */
+  reset(): void {
+    this.mix = 0;
+    this.settings = { ...REVERB_DEFAULT_SETTINGS };
+    this.rampAudioParam(this.preDelay.delayTime, toPreDelaySeconds(this.settings.preDelay));
+    this.updateImpulseResponse();
+    this.disable();  // リセット時にリバーブを無効にする
+  }
+
+  /**
+   * @brief リバーブを破棄
+   */
+  dispose(): void {
+    this.preDelay.disconnect();
+    this.convolver.disconnect();
+    this.wetGain.disconnect();
+    this.dryGain.disconnect();
+    super.dispose();
+  }
+
+  /**
+   * @brief 現在の設定でインパルス応答を作り直す
+   */
+  private updateImpulseResponse(): void {
+    this.convolver.buffer = generateImpulseResponse(this.context, this.settings);
+  }
+
+  /**
+   * @brief リバーブのパラメータ名かどうかを判定
+   * @param param - パラメータ名
+   * @returns ReverbParameterの場合はtrue
+   */
+  private isReverbParameter(param: string): param is ReverbParameter {
+    return (REVERB_PARAMETERS as readonly string[]).includes(param);
+  }
+}
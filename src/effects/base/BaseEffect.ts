@@ -5,19 +5,62 @@
  * - 入出力ノードの管理
  * - エフェクトの有効/無効制御
  * - パラメータの管理
+ * - パラメータの滑らかな変化と、音声コンテキストの時刻を指定した変化の予約
+ * - JSONに変換できるバージョン付きの状態の取得と復元
  * - エラー処理
- * - AudioContextとAudioEngineの両方に対応
+ * - AudioContextとOfflineAudioContextの両方に対応
  */
 
-export abstract class BaseEffect {
+import {
+  ParameterRampOptions,
+  DEFAULT_PARAMETER_RAMP,
+  scheduleParameterRamp,
+  validateParameterRamp
+} from '@/core/ParameterRamp';
+
+/**
+ * エフェクトの状態の形式のバージョン（形式を変更した場合は上げる）
+ * BaseEffect、EffectChain、EffectsManagerの状態で共通
+ */
+export const EFFECT_STATE_VERSION = 1;
+
+/**
+ * エフェクトの状態（JSONに変換できる形式）
+ * - version: 状態の形式のバージョン
+ * - value: updateEffectに渡すエフェクトの値（0-1）
+ * - settings: エフェクト固有の設定（組み込みのエフェクトは各エフェクトのsetSettingsに渡す値）
+ */
+export interface EffectState<S extends object = object> {
+  version: number;
+  value: number;
+  settings: S;
+}
+
+/**
+ * 状態の形式のバージョンを検証
+ * @param {unknown} version - 状態に含まれるバージョン
+ * @throws {Error} バージョンが無効な場合、またはこのバージョンより新しい場合
+ */
+export const validateEffectStateVersion = (version: unknown): void => {
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(`無効な状態のバージョンです: ${String(version)}`);
+  }
+  if (version > EFFECT_STATE_VERSION) {
+    throw new Error(`対応していない新しいバージョンの状態です: ${version}`);
+  }
+};
+
+export abstract class BaseEffect<S extends object = object> {
   protected input!: GainNode;
   protected output!: GainNode;
   protected isEnabled = false;
   protected isInitialized = false;
   protected parameters: Map<string, AudioParam> = new Map();
-  protected context: AudioContext;
+  protected context: BaseAudioContext;
+  protected parameterRamp: Required<Omit<ParameterRampOptions, 'startTime'>> = { ...DEFAULT_PARAMETER_RAMP };
+  private parameterTargets: Map<AudioParam, number> = new Map();
 
-  constructor(context: AudioContext) {
+  constructor(context: BaseAudioContext) {
     if (!context) {
       throw new Error('AudioContextが指定されていません');
     }
@@ -54,6 +97,12 @@ export abstract class BaseEffect {
   public abstract getParameter(param: string): number;
   public abstract updateEffect(value: number): void;
 
+  /**
+   * updateEffectに最後に渡したエフェクトの値を取得（状態の保存に使用）
+   * @returns {number} エフェクトの値（0-1）
+   */
+  protected abstract getEffectValue(): number;
+
   /**
    * エフェクトの有効状態を取得
    * @returns {boolean} エフェクトが有効かどうか
@@ -70,6 +119,148 @@ export abstract class BaseEffect {
     return Array.from(this.parameters.keys());
   }
 
+  /**
+   * setParameterでAudioParamを変化させるカーブと時間を設定
+   * @param {Omit<ParameterRampOptions, 'startTime'>} options - 変化のカーブと時間（省略した項目は変更しない）
+   * @throws {Error} カーブの種類または時間が無効な場合
+   */
+  public setParameterRamp(options: Omit<ParameterRampOptions, 'startTime'>): void {
+    validateParameterRamp(options);
+    this.parameterRamp = {
+      type: options.type ?? this.parameterRamp.type,
+      time: options.time ?? this.parameterRamp.time
+    };
+  }
+
+  /**
+   * setParameterでAudioParamを変化させるカーブと時間を取得
+   * @returns {Required<Omit<ParameterRampOptions, 'startTime'>>} 変化のカーブと時間
+   */
+  public getParameterRamp(): Required<Omit<ParameterRampOptions, 'startTime'>> {
+    return { ...this.parameterRamp };
+  }
+
+  /**
+   * AudioParamのパラメータの変化を予約
+   * @param {string} param - パラメータ名（AudioParamとして登録されているもの）
+   * @param {number} value - 目標値（AudioParamの単位）
+   * @param {ParameterRampOptions} options - 変化のオプション（省略した項目はsetParameterRampの設定）
+   * @throws {Error} 予約できないパラメータの場合、または値やオプションが無効な場合
+   */
+  public scheduleParameter(param: string, value: number, options: ParameterRampOptions = {}): void {
+    this.checkState();
+    this.getScheduledAudioParams(param).forEach(audioParam => {
+      this.rampAudioParam(audioParam, value, options);
+    });
+  }
+
+  /**
+   * パラメータ名から変化を予約するAudioParamを取得
+   * 1つのパラメータを複数のノードに反映するエフェクトはオーバーライドする
+   * @param {string} param - パラメータ名
+   * @returns {AudioParam[]} AudioParamの配列
+   * @throws {Error} AudioParamとして登録されていないパラメータの場合
+   */
+  protected getScheduledAudioParams(param: string): AudioParam[] {
+    const audioParam = this.parameters.get(param);
+    if (!audioParam) {
+      throw new Error(`変化を予約できないパラメータです: ${param}`);
+    }
+    return [audioParam];
+  }
+
+  /**
+   * AudioParamを目標値まで滑らかに変化させる
+   * @param {AudioParam} audioParam - 変化させるAudioParam
+   * @param {number} value - 目標値
+   * @param {ParameterRampOptions} options - 変化のオプション（省略した項目はsetParameterRampの設定）
+   */
+  protected rampAudioParam(audioParam: AudioParam, value: number, options: ParameterRampOptions = {}): void {
+    scheduleParameterRamp(audioParam, value, this.context.currentTime, {
+      type: options.type ?? this.parameterRamp.type,
+      time: options.time ?? this.parameterRamp.time,
+      startTime: options.startTime
+    });
+    this.parameterTargets.set(audioParam, value);
+  }
+
+  /**
+   * AudioParamの値を取得
+   * 変化の途中や予約中でも、最後に指定した目標値を返す
+   * @param {AudioParam} audioParam - AudioParam
+   * @returns {number} 目標値（変化させていない場合は現在の値）
+   */
+  protected getAudioParamValue(audioParam: AudioParam): number {
+    return this.parameterTargets.get(audioParam) ?? audioParam.value;
+  }
+
+  /**
+   * エフェクトの状態を取得
+   * @returns {EffectState<S>} JSONに変換できるエフェクトの状態
+   */
+  public getState(): EffectState<S> {
+    this.checkState();
+    return {
+      version: EFFECT_STATE_VERSION,
+      value: this.getEffectValue(),
+      settings: this.getStateSettings()
+    };
+  }
+
+  /**
+   * 保存した状態を復元
+   * 設定を反映してから、エフェクトの値をupdateEffectで反映する
+   * @param {EffectState<S>} state - getStateで取得した状態
+   * @throws {Error} 状態のバージョン、エフェクトの値、または設定が無効な場合
+   */
+  public setState(state: EffectState<S>): void {
+    this.checkState();
+    if (!state || typeof state !== 'object') {
+      throw new Error('エフェクトの状態が指定されていません');
+    }
+    validateEffectStateVersion(state.version);
+    if (typeof state.value !== 'number' || state.value < 0 || state.value > 1) {
+      throw new Error('エフェクトの値は0から1の範囲で指定してください');
+    }
+    if (!state.settings || typeof state.settings !== 'object') {
+      throw new Error('エフェクトの設定が指定されていません');
+    }
+    this.applyStateSettings(state.settings);
+    this.updateEffect(state.value);
+  }
+
+  /**
+   * 状態として保存するエフェクト固有の設定を取得
+   * デフォルトはgetParameterNamesの全パラメータの値。設定を持つエフェクトはオーバーライドする
+   * @returns {S} エフェクト固有の設定
+   */
+  protected getStateSettings(): S {
+    const settings: { [param: string]: number } = {};
+    this.getParameterNames().forEach(param => {
+      settings[param] = this.getParameter(param);
+    });
+    return settings as S;
+  }
+
+  /**
+   * 状態から復元するエフェクト固有の設定を反映
+   * デフォルトは含まれる各パラメータをsetParameterで設定する。設定を持つエフェクトはオーバーライドする
+   * @param {S} settings - エフェクト固有の設定
+   */
+  protected applyStateSettings(settings: S): void {
+    Object.entries(settings).forEach(([param, value]) => {
+      this.setParameter(param, value);
+    });
+  }
+
+  /**
+   * エフェクトの残響が鳴り終わるまでの時間を取得（オフラインレンダリングの長さの計算に使用）
+   * @returns {number} 残響の長さ（秒、残響のないエフェクトは0）
+   */
+  public getTailSeconds(): number {
+    return 0;
+  }
+
   public dispose(): void {
     if (!this.isInitialized) {
       return;
@@ -78,6 +269,7 @@ export abstract class BaseEffect {
     try {
       this.input.disconnect();
       this.output.disconnect();
+      this.parameterTargets.clear();
       this.isInitialized = false;
       this.isEnabled = false;
     } catch (error) {
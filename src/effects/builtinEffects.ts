@@ -0,0 +1,112 @@
+/**
+ * @file builtinEffects.ts
+ * @brief 組み込みのエフェクトの定義とデフォルトのレジストリ
+ * @details
+ * - フィルター、リバーブ、ディレイ、ディストーション、イコライザー、コンプレッサー、リミッターの定義
+ * - 組み込みのエフェクトを登録したデフォルトのレジストリ（追加のエフェクトはこのレジストリに登録する）
+ * - エフェクトの値の初期値
+ *   - filter: 0.5でバイパス
+ *   - reverb, delay: 0でバイパス（ミックスが0）
+ *   - distortion: 0でバイパス（ドライブが0）
+ *   - equalizer: 0でバイパス
+ *   - compressor: 0でバイパス（スレッショルドが0dBFS）
+ *   - limiter: 初期状態で有効（シーリングが0dBFS）
+ * @limitations
+ * - コンプレッサーとリミッターはマスターにのみ作成する
+ */
+
+import { EffectDefinition, EffectParameterDescriptor, EffectRegistry } from './EffectRegistry';
+import { Filter, FILTER_PARAMETERS, FILTER_DEFAULT_SETTINGS } from './Filter';
+import { Reverb, REVERB_PARAMETERS, REVERB_DEFAULT_SETTINGS } from './Reverb';
+import { Delay, DELAY_PARAMETERS, DELAY_DEFAULT_SETTINGS } from './Delay';
+import { Distortion, DISTORTION_PARAMETERS, DISTORTION_DEFAULT_SETTINGS } from './Distortion';
+import { Equalizer, EQUALIZER_BANDS, EQUALIZER_BAND_PARAMETERS, EQUALIZER_DEFAULT_SETTINGS } from './Equalizer';
+import { Compressor, COMPRESSOR_PARAMETERS, COMPRESSOR_DEFAULT_SETTINGS } from './Compressor';
+import { Limiter, LIMITER_PARAMETERS, LIMITER_DEFAULT_SETTINGS, LIMITER_DEFAULT_CEILING } from './Limiter';
+
+/**
+ * 組み込みのエフェクトの種類
+ */
+export type BuiltinEffectType = 'filter' | 'reverb' | 'delay' | 'distortion' | 'equalizer' | 'compressor' | 'limiter';
+
+/**
+ * パラメータ名の一覧と設定からパラメータの定義を作成
+ * @param {readonly P[]} names - パラメータ名の配列
+ * @param {{ [param in P]: number }} settings - パラメータの初期値を含む設定
+ * @returns {EffectParameterDescriptor[]} パラメータの定義の配列
+ */
+const toParameterDescriptors = <P extends string>(
+  names: readonly P[],
+  settings: { [param in P]: number }
+): EffectParameterDescriptor[] => {
+  return names.map(name => ({ name, defaultValue: settings[name] }));
+};
+
+/**
+ * 組み込みのエフェクトの定義（登録順がチャンネルのエフェクトの作成順になる）
+ */
+export const BUILTIN_EFFECT_DEFINITIONS: readonly EffectDefinition[] = [
+  {
+    type: 'filter',
+    create: context => new Filter(context),
+    parameters: toParameterDescriptors(FILTER_PARAMETERS, FILTER_DEFAULT_SETTINGS),
+    defaultValue: 0.5
+  },
+  {
+    type: 'reverb',
+    create: context => new Reverb(context),
+    parameters: toParameterDescriptors(REVERB_PARAMETERS, REVERB_DEFAULT_SETTINGS),
+    defaultValue: 0
+  },
+  {
+    type: 'delay',
+    create: context => new Delay(context),
+    parameters: toParameterDescriptors(DELAY_PARAMETERS, DELAY_DEFAULT_SETTINGS),
+    defaultValue: 0
+  },
+  {
+    type: 'distortion',
+    create: context => new Distortion(context),
+    parameters: toParameterDescriptors(DISTORTION_PARAMETERS, DISTORTION_DEFAULT_SETTINGS),
+    defaultValue: 0
+  },
+  {
+    type: 'equalizer',
+    create: context => new Equalizer(context),
+    // 「バンド名.パラメータ名」のパラメータ
+    parameters: EQUALIZER_BANDS.flatMap(band =>
+      toParameterDescriptors(EQUALIZER_BAND_PARAMETERS, EQUALIZER_DEFAULT_SETTINGS.bands[band])
+        .map(descriptor => ({ ...descriptor, name: `${band}.${descriptor.name}` }))
+    ),
+    defaultValue: 0
+  },
+  {
+    type: 'compressor',
+    create: context => new Compressor(context),
+    parameters: toParameterDescriptors(COMPRESSOR_PARAMETERS, COMPRESSOR_DEFAULT_SETTINGS),
+    defaultValue: 0,
+    masterOnly: true
+  },
+  {
+    type: 'limiter',
+    create: context => new Limiter(context),
+    parameters: toParameterDescriptors(LIMITER_PARAMETERS, LIMITER_DEFAULT_SETTINGS),
+    defaultValue: LIMITER_DEFAULT_CEILING,
+    masterOnly: true
+  }
+];
+
+/**
+ * 組み込みのエフェクトを登録したレジストリを作成
+ * @returns {EffectRegistry} レジストリ
+ */
+export const createBuiltinEffectRegistry = (): EffectRegistry => {
+  const registry = new EffectRegistry();
+  BUILTIN_EFFECT_DEFINITIONS.forEach(definition => registry.register(definition));
+  return registry;
+};
+
+/**
+ * デフォルトのレジストリ（EffectsManagerとEffectChainが引数の指定なしで使用する）
+ */
+export const defaultEffectRegistry = createBuiltinEffectRegistry();
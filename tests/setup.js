@@ -6,6 +6,8 @@
  * - グローバルなテスト環境の設定
  */
 
+import sampleManifest from '../public/sample-manifest.json';
+
 // Web Audio APIのモック
 class MockAudioParam {
   constructor(defaultValue = 0) {
@@ -21,6 +23,20 @@ class MockAudioParam {
     this.value = value;
     return this;
   }
+
+  exponentialRampToValueAtTime(value) {
+    this.value = value;
+    return this;
+  }
+
+  setTargetAtTime(value) {
+    this.value = value;
+    return this;
+  }
+
+  cancelScheduledValues() {
+    return this;
+  }
 }
 
 class MockAudioNode {
@@ -43,15 +59,121 @@ class MockGainNode extends MockAudioNode {
   }
 }
 
+class MockAnalyserNode extends MockAudioNode {
+  constructor() {
+    super();
+    this.fftSize = 2048;
+  }
+
+  getFloatTimeDomainData(array) {
+    array.fill(0);
+  }
+}
+
+class MockConvolverNode extends MockAudioNode {
+  constructor() {
+    super();
+    this.buffer = null;
+  }
+}
+
+class MockDelayNode extends MockAudioNode {
+  constructor() {
+    super();
+    this.delayTime = new MockAudioParam(0);
+  }
+}
+
+class MockWaveShaperNode extends MockAudioNode {
+  constructor() {
+    super();
+    this.curve = null;
+    this.oversample = 'none';
+  }
+}
+
+class MockDynamicsCompressorNode extends MockAudioNode {
+  constructor() {
+    super();
+    this.threshold = new MockAudioParam(-24);
+    this.ratio = new MockAudioParam(12);
+    this.attack = new MockAudioParam(0.003);
+    this.release = new MockAudioParam(0.25);
+    this.knee = new MockAudioParam(30);
+    this.reduction = 0;
+  }
+}
+
+class MockBiquadFilterNode extends MockAudioNode {
+  constructor() {
+    super();
+    this.type = 'lowpass';
+    this.frequency = new MockAudioParam(350);
+    this.Q = new MockAudioParam(1);
+    this.gain = new MockAudioParam(0);
+  }
+
+  getFrequencyResponse(frequencyHz, magResponse, phaseResponse) {
+    magResponse.fill(1);
+    phaseResponse.fill(0);
+  }
+}
+
 class MockAudioContext {
   constructor() {
     this._state = 'running';
+    this.sampleRate = 44100;
+    this.currentTime = 0;
   }
 
   createGain() {
     return new MockGainNode();
   }
 
+  createAnalyser() {
+    return new MockAnalyserNode();
+  }
+
+  createConvolver() {
+    return new MockConvolverNode();
+  }
+
+  createDelay() {
+    return new MockDelayNode();
+  }
+
+  createWaveShaper() {
+    return new MockWaveShaperNode();
+  }
+
+  createDynamicsCompressor() {
+    return new MockDynamicsCompressorNode();
+  }
+
+  createBiquadFilter() {
+    return new MockBiquadFilterNode();
+  }
+
+  createChannelSplitter() {
+    return new MockAudioNode();
+  }
+
+  createChannelMerger() {
+    return new MockAudioNode();
+  }
+
+  createBuffer(numberOfChannels, length, sampleRate) {
+    const channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+    return {
+      numberOfChannels,
+      length,
+      sampleRate,
+      duration: length / sampleRate,
+      getChannelData: (channel) => channels[channel],
+      copyToChannel: (source, channel) => channels[channel].set(source)
+    };
+  }
+
   async suspend() {
     this._state = 'suspended';
     return Promise.resolve();
@@ -140,11 +262,13 @@ global.window.AudioNode = MockAudioNode;
 global.window.AudioParam = MockAudioParam;
 global.window.GainNode = MockGainNode;
 
-// グローバルなfetchのモック
-global.fetch = jest.fn().mockImplementation(() =>
+// グローバルなfetchのモック（サンプルのマニフェストは同梱のものを返す）
+
+global.fetch = jest.fn().mockImplementation((url) =>
   Promise.resolve({
     ok: true,
     blob: () => Promise.resolve(new Blob()),
+    json: () => Promise.resolve(url === '/sample-manifest.json' ? sampleManifest : {}),
     headers: new Headers(),
     redirected: false,
     status: 200,
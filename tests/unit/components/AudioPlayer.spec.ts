@@ -3,39 +3,71 @@
  * 基本的なUI要素のテストケース
  */
 
-import { mount, VueWrapper, DOMWrapper } from '@vue/test-utils'
+import { mount, flushPromises, VueWrapper, DOMWrapper } from '@vue/test-utils'
 import AudioPlayer from '@/components/AudioPlayer.vue'
 import Knob from '@/components/Knob.vue'
+import { nextTick } from 'vue'
+import { openProjectStorage } from '@/core/ProjectStorage'
+import { AudioEngine } from '@/core/AudioEngine'
+import { toCeilingDb } from '@/effects/Limiter'
+import { DOWNLOAD_REVOKE_DELAY_MS, STRETCH_PREPARE_DELAY_MS } from '@/core/audioConstants'
 
 // Web Audio APIのモック
+// AudioParamのモックを作成（パラメータの変化を予約するため）
+const createMockAudioParam = (value: number) => ({
+  value,
+  setValueAtTime: jest.fn(),
+  setTargetAtTime: jest.fn(),
+  linearRampToValueAtTime: jest.fn(),
+  exponentialRampToValueAtTime: jest.fn(),
+  cancelScheduledValues: jest.fn()
+})
+
 const mockGainNode = {
   connect: jest.fn(),
   disconnect: jest.fn(),
-  gain: { 
-    value: 1,
-    setTargetAtTime: jest.fn()
-  }
+  gain: createMockAudioParam(1)
 }
 
 const mockBiquadFilter = {
   connect: jest.fn(),
   disconnect: jest.fn(),
-  frequency: { value: 1000 },
-  Q: { value: 1 },
-  gain: { value: 0 },
-  type: 'lowpass'
+  frequency: createMockAudioParam(1000),
+  Q: createMockAudioParam(1),
+  gain: createMockAudioParam(0),
+  type: 'lowpass',
+  getFrequencyResponse: jest.fn((frequencies: Float32Array, magnitude: Float32Array) => magnitude.fill(1))
 }
 
 const mockAnalyser = {
   connect: jest.fn(),
   disconnect: jest.fn(),
-  getByteFrequencyData: jest.fn()
+  fftSize: 2048,
+  getByteFrequencyData: jest.fn(),
+  getFloatTimeDomainData: jest.fn()
 }
 
 const mockAudioContext = {
   createGain: jest.fn().mockReturnValue(mockGainNode),
   createBiquadFilter: jest.fn().mockReturnValue(mockBiquadFilter),
   createAnalyser: jest.fn().mockReturnValue(mockAnalyser),
+  createConvolver: jest.fn(() => ({ connect: jest.fn(), disconnect: jest.fn(), buffer: null })),
+  createDelay: jest.fn(() => ({ connect: jest.fn(), disconnect: jest.fn(), delayTime: createMockAudioParam(0) })),
+  createWaveShaper: jest.fn(() => ({ connect: jest.fn(), disconnect: jest.fn(), curve: null, oversample: 'none' })),
+  createDynamicsCompressor: jest.fn(() => ({
+    connect: jest.fn(),
+    disconnect: jest.fn(),
+    threshold: createMockAudioParam(-24),
+    ratio: createMockAudioParam(12),
+    attack: createMockAudioParam(0.003),
+    release: createMockAudioParam(0.25),
+    knee: createMockAudioParam(30),
+    reduction: 0
+  })),
+  createChannelSplitter: jest.fn(() => ({ connect: jest.fn(), disconnect: jest.fn() })),
+  createChannelMerger: jest.fn(() => ({ connect: jest.fn(), disconnect: jest.fn() })),
+  createBuffer: jest.fn().mockReturnValue({ copyToChannel: jest.fn() }),
+  sampleRate: 44100,
   destination: {},
   close: jest.fn().mockResolvedValue(undefined),
   decodeAudioData: jest.fn().mockResolvedValue({
@@ -62,6 +94,22 @@ jest.mock('@/components/WaveformDisplay.vue', () => ({
   }
 }))
 
+// ブラウザへの保存をモック（jsdomにはIndexedDBがないため、初期状態では保存できない環境として扱う）
+jest.mock('@/core/ProjectStorage', () => ({
+  ...jest.requireActual('@/core/ProjectStorage'),
+  openProjectStorage: jest.fn().mockResolvedValue(null)
+}))
+
+// ProjectStorageのモックを作成
+const createMockStorage = (session: { savedAt: number; json: string } | null = null) => ({
+  listItems: jest.fn().mockResolvedValue([]),
+  getQuota: jest.fn().mockResolvedValue({ usage: 0, quota: 1024 }),
+  loadSession: jest.fn().mockResolvedValue(session),
+  saveSession: jest.fn().mockResolvedValue(undefined),
+  saveSample: jest.fn().mockResolvedValue({ id: 'sample-1', kind: 'sample', name: 'kick.wav', size: 4, updatedAt: 0 }),
+  saveProject: jest.fn().mockResolvedValue({ id: 'project-1', kind: 'project', name: 'blend', size: 0, updatedAt: 0 })
+})
+
 // WaveSurferのエラーを無視する設定
 const originalConsoleError = console.error
 console.error = (...args: any[]) => {
@@ -71,6 +119,13 @@ console.error = (...args: any[]) => {
   originalConsoleError(...args)
 }
 
+// アップロードするファイルを作成（jsdomのFileにはarrayBufferがないので追加する）
+const createUploadFile = (name: string, type: string): File => {
+  const file = new File([new Uint8Array([1, 2, 3, 4])], name, { type })
+  Object.defineProperty(file, 'arrayBuffer', { value: () => Promise.resolve(new Uint8Array([1, 2, 3, 4]).buffer) })
+  return file
+}
+
 describe('AudioPlayer.vue', () => {
   let wrapper: VueWrapper<any>
 
@@ -89,7 +144,7 @@ describe('AudioPlayer.vue', () => {
   })
 
   it('初期状態で再生ボタンが表示される', () => {
-    const playButton = wrapper.find('button')
+    const playButton = wrapper.find('.control-container button')
     expect(playButton.exists()).toBe(true)
     expect(playButton.text()).toBe('再生')
   })
@@ -103,7 +158,9 @@ describe('AudioPlayer.vue', () => {
 
   it('各サンプルのノブが正しく表示される', () => {
     const knobs = wrapper.findAllComponents(Knob)
-    expect(knobs).toHaveLength(13) // マスター(Gain/Filter) + サンプル1(Gain/Filter/Pitch) + サンプル2(Gain/Filter/Timing/Pitch) + サンプル3(Gain/Filter/Timing/Pitch)
+    // マスター(Gain) + 各サンプル(Gain/Timing/Pitch) + 各サンプルのADSR
+    // + マスターと各サンプルのフィルター、イコライザー、ディストーション、ディレイとリバーブ + マスターのコンプレッサーとリミッター
+    expect(knobs).toHaveLength(1 + 3 * 3 + 3 * 4 + 4 * 2 + 4 * 3 + 4 * 3 + 4 * 5 + 4 * 5 + 6 + 2)
   })
 
   it('サンプル3のノブは初期状態で無効化されている', () => {
@@ -118,8 +175,8 @@ describe('AudioPlayer.vue', () => {
 
     const sample3Knobs = sample3Container.findAllComponents(Knob)
     
-    // Gain/Filter/Timing/Pitchノブの全てが無効化されていることを確認
-    expect(sample3Knobs).toHaveLength(4)
+    // Gain/Timing/Pitch、ADSR、フィルター、イコライザー、ディストーション、ディレイ、リバーブのノブの全てが無効化されていることを確認
+    expect(sample3Knobs).toHaveLength(25)
     sample3Knobs.forEach((knob: VueWrapper<any>) => {
       expect(knob.props('isDisabled')).toBe(true)
     })
@@ -127,19 +184,632 @@ describe('AudioPlayer.vue', () => {
 
   // チャンネル3の有効/無効のテストを追加
   it('チャンネル3のトグルスイッチで有効/無効を切り替えられる', async () => {
-    const toggleSwitch = wrapper.find('.toggle-switch input[type="checkbox"]')
+    const sample3Container = wrapper.findAll('.sample-container').find((container: DOMWrapper<Element>) => 
+      container.find('h3').text() === 'サンプル3'
+    )
+    if (!sample3Container) {
+      throw new Error('サンプル3のコンテナが見つかりません')
+    }
+    const toggleSwitch = sample3Container.find('.toggle-switch input[type="checkbox"]')
     expect(toggleSwitch.exists()).toBe(true)
 
+    const channel3 = () => wrapper.vm.channels.find((channel: { id: number }) => channel.id === 3)
+
     // 初期状態は無効
-    expect(wrapper.vm.isChannel3Enabled).toBe(false)
+    expect(channel3().enabled).toBe(false)
 
     // トグルスイッチをクリックして有効化
     await toggleSwitch.setValue(true)
-    expect(wrapper.vm.isChannel3Enabled).toBe(true)
+    expect(channel3().enabled).toBe(true)
 
     // 再度クリックして無効化
     await toggleSwitch.setValue(false)
-    expect(wrapper.vm.isChannel3Enabled).toBe(false)
+    expect(channel3().enabled).toBe(false)
+  })
+
+  it('サンプルを削除するとチャンネルストリップが消える', async () => {
+    const removeButtons = wrapper.findAll('.remove-button')
+    expect(removeButtons).toHaveLength(3)
+
+    await removeButtons[1].trigger('click')
+    const titles = wrapper.findAll('.sample-container h3').map((title: DOMWrapper<Element>) => title.text())
+    expect(titles).toEqual(['サンプル1', 'サンプル3'])
+  })
+
+  it('サンプルを追加するとチャンネルストリップが増える', async () => {
+    // 読み込み中はボタンが無効なため、メソッドを直接呼び出す
+    await wrapper.vm.addChannel()
+    await nextTick()
+    const titles = wrapper.findAll('.sample-container h3').map((title: DOMWrapper<Element>) => title.text())
+    expect(titles).toEqual(['サンプル1', 'サンプル2', 'サンプル3', 'サンプル4'])
+  })
+
+  it('サンプル1のタイミングを微調整ボタンと数値入力でミリ秒単位に調整できる', async () => {
+    const sample1Container = wrapper.findAll('.sample-container')[0]
+    const nudgeButtons = sample1Container.findAll('.nudge-button')
+
+    await nudgeButtons[1].trigger('click')
+    expect(wrapper.vm.timingOffsets[1]).toBe(0.1)
+    await nudgeButtons[0].trigger('click')
+    await nudgeButtons[0].trigger('click')
+    expect(wrapper.vm.timingOffsets[1]).toBe(-0.1)
+
+    await sample1Container.find('.timing-input').setValue('-12.5')
+    expect(wrapper.vm.timingOffsets[1]).toBe(-12.5)
+    expect(wrapper.vm.timingSubLabels[1]).toBe('-12.50 ms')
+  })
+
+  it('サンプル1のリバーブの種類とパラメータを変更できる', async () => {
+    const sample1Container = wrapper.findAll('.sample-container')[0]
+
+    await sample1Container.find('.reverb-type-select').setValue('hall')
+    expect(wrapper.vm.reverbSettings[1].type).toBe('hall')
+
+    const decayKnob = sample1Container.findAllComponents(Knob).filter((knob: VueWrapper<any>) =>
+      knob.props('label') === 'Decay'
+    )[1]
+    decayKnob.vm.$emit('update:value', 1)
+    await nextTick()
+    expect(wrapper.vm.reverbSettings[1].decay).toBe(1)
+    // Hallは残響時間が1.5倍
+    expect(decayKnob.props('subLabel')).toBe('12.00 s')
+
+    decayKnob.vm.$emit('reset')
+    await nextTick()
+    expect(wrapper.vm.reverbSettings[1].decay).toBe(0.3)
+  })
+
+  it('サンプル1のディレイをテンポ同期に切り替えると音符の長さとテンポからディレイタイムを表示する', async () => {
+    const sample1Container = wrapper.findAll('.sample-container')[0]
+
+    await sample1Container.find('.delay-sync').setValue(true)
+    expect(wrapper.vm.delaySettings[1].sync).toBe(true)
+    await sample1Container.find('.delay-note-select').setValue('1/4')
+    expect(wrapper.vm.delaySettings[1].noteValue).toBe('1/4')
+    expect(sample1Container.find('.delay-option-label').text()).toBe('500 ms')
+
+    await wrapper.find('.tempo-input').setValue('60')
+    expect(wrapper.vm.tempo).toBe(60)
+    expect(sample1Container.find('.delay-option-label').text()).toBe('1000 ms')
+  })
+
+  it('サンプル1のディストーションをビットリダクションに切り替えるとドライブにビット数を表示する', async () => {
+    const sample1Container = wrapper.findAll('.sample-container')[0]
+    const driveKnob = sample1Container.findAllComponents(Knob).find((knob: VueWrapper<any>) =>
+      knob.props('label') === 'Drive'
+    )
+    if (!driveKnob) {
+      throw new Error('ドライブのノブが見つかりません')
+    }
+    expect(driveKnob.props('subLabel')).toBe('OFF')
+
+    driveKnob.vm.$emit('update:value', 1)
+    await nextTick()
+    expect(wrapper.vm.distortionDrives[1]).toBe(1)
+    expect(driveKnob.props('subLabel')).toBe('+36.0 dB')
+
+    await sample1Container.find('.distortion-curve-select').setValue('bitReduce')
+    expect(wrapper.vm.distortionSettings[1].curve).toBe('bitReduce')
+    expect(driveKnob.props('subLabel')).toBe('2 bit')
+
+    driveKnob.vm.$emit('reset')
+    await nextTick()
+    expect(wrapper.vm.distortionDrives[1]).toBe(0)
+  })
+
+  it('サンプル1のイコライザーのバンドを選択してゲインを変更すると周波数特性のカーブを更新する', async () => {
+    const sample1Container = wrapper.findAll('.sample-container')[0]
+    // チャンネルの音量のノブと区別するため、イコライザーの中から探す
+    const findKnob = (label: string) => {
+      const knob = sample1Container.find('.equalizer-controls').findAllComponents(Knob).find((knob: VueWrapper<any>) => knob.props('label') === label)
+      if (!knob) {
+        throw new Error(`${label}のノブが見つかりません`)
+      }
+      return knob
+    }
+
+    await sample1Container.find('.equalizer-enabled').setValue(true)
+    expect(wrapper.vm.equalizerValues[1]).toBe(1)
+
+    // シェルフのQは調整できない
+    expect(findKnob('Q').props('isDisabled')).toBe(true)
+    await sample1Container.find('.equalizer-band-select').setValue('peak2')
+    expect(findKnob('Q').props('isDisabled')).toBe(false)
+
+    findKnob('Gain').vm.$emit('update:value', 1)
+    await nextTick()
+    expect(wrapper.vm.equalizerSettings[1].bands.peak2.gain).toBe(1)
+    expect(findKnob('Gain').props('subLabel')).toBe('+18.0 dB')
+    expect(mockBiquadFilter.getFrequencyResponse).toHaveBeenCalled()
+    expect(sample1Container.find('.equalizer-response-curve').attributes('points')).toBeTruthy()
+
+    // バンド数を減らすと選択中のバンドが使用されなくなるため、ローシェルフを表示する
+    await sample1Container.find('.equalizer-band-select').setValue('peak4')
+    await sample1Container.find('.equalizer-peak-count-select').setValue('2')
+    expect(wrapper.vm.equalizerSettings[1].peakCount).toBe(2)
+    expect((sample1Container.find('.equalizer-band-select').element as HTMLSelectElement).value).toBe('lowShelf')
+
+    findKnob('Freq').vm.$emit('reset')
+    await nextTick()
+    expect(wrapper.vm.equalizerSettings[1].bands.lowShelf.frequency).toBe(0.2)
+  })
+
+  it('サンプル1のフィルターのノブのラベルをフィルターから読み戻して表示する', async () => {
+    const sample1Container = wrapper.findAll('.sample-container')[0]
+    const filterControls = sample1Container.find('.filter-controls')
+    const findKnob = (label: string) => {
+      const knob = filterControls.findAllComponents(Knob).find((knob: VueWrapper<any>) => knob.props('label') === label)
+      if (!knob) {
+        throw new Error(`${label}のノブが見つかりません`)
+      }
+      return knob
+    }
+
+    expect(findKnob('Filter').props('subLabel')).toBe('BYPASS')
+    findKnob('Filter').vm.$emit('update:value', 0.2)
+    await nextTick()
+    expect(wrapper.vm.filterAngles[1]).toBe(0.2)
+    expect(findKnob('Filter').props('subLabel')).toBe('LP')
+
+    await filterControls.find('.filter-mode-select').setValue('notch')
+    expect(wrapper.vm.filterSettings[1].mode).toBe('notch')
+    expect(findKnob('Filter').props('subLabel')).toBe('NOTCH')
+
+    await filterControls.find('.filter-slope-select').setValue('48')
+    expect(wrapper.vm.filterSettings[1].slope).toBe(48)
+
+    findKnob('Resonance').vm.$emit('update:value', 1)
+    await nextTick()
+    expect(findKnob('Resonance').props('subLabel')).toBe('Q 20.00')
+
+    findKnob('Filter').vm.$emit('reset')
+    await nextTick()
+    expect(wrapper.vm.filterAngles[1]).toBe(0.5)
+    expect(findKnob('Filter').props('subLabel')).toBe('BYPASS')
+  })
+
+  it('マスターのリミッターは初期状態で有効で、コンプレッサーのスレッショルドを変更できる', async () => {
+    const findKnob = (label: string) => {
+      const knob = wrapper.findAllComponents(Knob).find((knob: VueWrapper<any>) => knob.props('label') === label)
+      if (!knob) {
+        throw new Error(`${label}のノブが見つかりません`)
+      }
+      return knob
+    }
+
+    expect(findKnob('Ceiling').props('subLabel')).toBe('0.0 dB')
+    expect(findKnob('Threshold').props('subLabel')).toBe('OFF')
+
+    findKnob('Threshold').vm.$emit('update:value', 0.5)
+    await nextTick()
+    expect(wrapper.vm.compressorThreshold).toBe(0.5)
+    expect(findKnob('Threshold').props('subLabel')).toBe('-30.0 dB')
+
+    findKnob('Ceiling').vm.$emit('update:value', 0)
+    await nextTick()
+    expect(findKnob('Ceiling').props('subLabel')).toBe('OFF')
+    findKnob('Ceiling').vm.$emit('reset')
+    await nextTick()
+    expect(wrapper.vm.limiterCeiling).toBe(1)
+  })
+
+  it('保存したプロジェクトを読み込むとチャンネル、ノブ、エフェクトの設定を復元する', async () => {
+    let savedBlob: Blob | null = null
+    URL.createObjectURL = jest.fn((blob: Blob) => {
+      savedBlob = blob
+      return 'blob:project'
+    })
+    URL.revokeObjectURL = jest.fn()
+    // 起動時のサンプルの読み込みを完了させる
+    await flushPromises()
+
+    wrapper.vm.removeChannel(2)
+    wrapper.vm.updateVolume(1, 0.3)
+    wrapper.vm.updateReverbMix(1, 0.6)
+    wrapper.vm.updateFilterMode(0, 'bandpass')
+    wrapper.vm.updateTempo(90)
+    await wrapper.vm.saveProject()
+    expect(savedBlob).not.toBeNull()
+    const json = await new Promise<string>((resolve) => {
+      const reader = new FileReader()
+      reader.onload = () => resolve(reader.result as string)
+      reader.readAsText(savedBlob as unknown as Blob)
+    })
+
+    const restored: VueWrapper<any> = mount(AudioPlayer)
+    await flushPromises()
+    await restored.vm.loadProject(json)
+    await nextTick()
+    const titles = restored.findAll('.sample-container h3').map((title: DOMWrapper<Element>) => title.text())
+    expect(titles).toEqual(['サンプル1', 'サンプル3'])
+    expect(restored.vm.volumes[1]).toBe(0.3)
+    expect(restored.vm.reverbMixes[1]).toBe(0.6)
+    expect(restored.vm.filterSettings[0].mode).toBe('bandpass')
+    expect(restored.vm.tempo).toBe(90)
+    expect(restored.vm.error).toBeNull()
+    restored.unmount()
+  })
+
+  it('ピッチの操作が止まってから時間伸縮したサンプルを1度だけ作成する', async () => {
+    await flushPromises()
+    const prepareSpy = jest.spyOn(AudioEngine.prototype, 'prepareStretchedBuffer').mockImplementation(() => undefined)
+    jest.useFakeTimers()
+    try {
+      wrapper.vm.updatePitchMode(1, 'preserveLength')
+      wrapper.vm.updatePitch(1, 0.6)
+      wrapper.vm.updatePitch(1, 0.7)
+      jest.advanceTimersByTime(STRETCH_PREPARE_DELAY_MS - 1)
+      expect(prepareSpy).not.toHaveBeenCalled()
+      jest.advanceTimersByTime(1)
+      expect(prepareSpy).toHaveBeenCalledTimes(1)
+      expect(prepareSpy).toHaveBeenCalledWith(1)
+    } finally {
+      jest.useRealTimers()
+      prepareSpy.mockRestore()
+    }
+  })
+
+  it('再生の終了後も残響が無音になるか残響の長さが経過するまでメーターを更新する', async () => {
+    await flushPromises()
+    const loud = { peak: -6, rms: -12, channelRms: [-12, -12] }
+    const silent = { peak: -60, rms: -60, channelRms: [-60, -60] }
+    const getMasterLevel = jest.spyOn(AudioEngine.prototype, 'getMasterLevel').mockReturnValue(loud)
+    const getChannelLevel = jest.spyOn(AudioEngine.prototype, 'getChannelLevel').mockReturnValue(loud)
+    const getTailSeconds = jest.spyOn(wrapper.vm.audioEngine.getEffectsManager(), 'getTailSeconds').mockReturnValue(10)
+    jest.useFakeTimers()
+    try {
+      wrapper.vm.isPlaying = true
+      await nextTick()
+      jest.advanceTimersByTime(100)
+      expect(wrapper.vm.masterLevel.peak).toBe(-6)
+
+      // 再生が終了しても残響が鳴っている間は表示を続け、無音になったら止める
+      wrapper.vm.isPlaying = false
+      await nextTick()
+      jest.advanceTimersByTime(100)
+      expect(wrapper.vm.masterLevel.peak).toBe(-6)
+      getMasterLevel.mockReturnValue(silent)
+      getChannelLevel.mockReturnValue(silent)
+      jest.advanceTimersByTime(100)
+      expect(wrapper.vm.masterLevel.peak).toBe(-60)
+      getMasterLevel.mockReturnValue(loud)
+      jest.advanceTimersByTime(100)
+      expect(wrapper.vm.masterLevel.peak).toBe(-60)
+
+      // 無音にならない場合は残響の長さが経過したら止める
+      getTailSeconds.mockReturnValue(1)
+      getChannelLevel.mockReturnValue(loud)
+      wrapper.vm.isPlaying = true
+      await nextTick()
+      wrapper.vm.isPlaying = false
+      await nextTick()
+      jest.advanceTimersByTime(900)
+      expect(wrapper.vm.masterLevel.peak).toBe(-6)
+      jest.advanceTimersByTime(200)
+      expect(wrapper.vm.masterLevel.peak).toBe(-60)
+    } finally {
+      jest.useRealTimers()
+      getMasterLevel.mockRestore()
+      getChannelLevel.mockRestore()
+    }
+  })
+
+  it('ダウンロードを開始してから時間を置いてオブジェクトURLを解放する', async () => {
+    await flushPromises()
+    URL.createObjectURL = jest.fn(() => 'blob:project')
+    URL.revokeObjectURL = jest.fn()
+    jest.useFakeTimers()
+    try {
+      await wrapper.vm.saveProject()
+      expect(URL.revokeObjectURL).not.toHaveBeenCalled()
+      jest.advanceTimersByTime(DOWNLOAD_REVOKE_DELAY_MS)
+      expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:project')
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+
+  it('ノーマライズでゲインを上げる場合もトゥルーピークがリミッターのシーリングを超えない', async () => {
+    await flushPromises()
+    const sine = Float32Array.from({ length: 44100 }, (_, i) => 0.1 * Math.sin(2 * Math.PI * 1000 * i / 44100))
+    const rendered = {
+      numberOfChannels: 2,
+      length: sine.length,
+      sampleRate: 44100,
+      duration: 1,
+      getChannelData: jest.fn().mockReturnValue(sine)
+    }
+    const renderSpy = jest.spyOn(AudioEngine.prototype, 'renderSamples').mockResolvedValue(rendered as unknown as AudioBuffer)
+    URL.createObjectURL = jest.fn(() => 'blob:wav')
+    URL.revokeObjectURL = jest.fn()
+    try {
+      wrapper.vm.limiterCeiling = 0.5
+      wrapper.vm.normalizeTarget = -3
+      await wrapper.vm.exportWav()
+
+      const { integrated, truePeak } = wrapper.vm.loudness
+      expect(-3 - integrated).toBeGreaterThan(toCeilingDb(0.5) - truePeak)
+      expect(wrapper.vm.appliedGain).toBeGreaterThan(0)
+      expect(truePeak + wrapper.vm.appliedGain).toBeCloseTo(toCeilingDb(0.5), 5)
+      expect(wrapper.vm.willClip).toBe(false)
+    } finally {
+      renderSpy.mockRestore()
+    }
+  })
+
+  it('プロジェクトのファイルではない場合はエラーを表示する', async () => {
+    await wrapper.vm.loadProject('{"format":"other"}')
+    await nextTick()
+    expect(wrapper.find('.error-message').text()).toContain('プロジェクトの読み込みに失敗しました: プロジェクトのファイルではありません')
+  })
+
+  it('Ctrl+ZとCtrl+Shift+Zでノブの連続した変更を1つの操作として元に戻し、やり直す', async () => {
+    await flushPromises()
+    expect(wrapper.vm.canUndo).toBe(false)
+
+    wrapper.vm.updateVolume(1, 0.3)
+    wrapper.vm.updateVolume(1, 0.4)
+    wrapper.vm.updateVolume(1, 0.5)
+    wrapper.vm.updateFilterMode(1, 'bandpass')
+    expect(wrapper.vm.canUndo).toBe(true)
+
+    window.dispatchEvent(new KeyboardEvent('keydown', { code: 'KeyZ', ctrlKey: true }))
+    await flushPromises()
+    expect(wrapper.vm.filterSettings[1].mode).toBe('lowHigh')
+    expect(wrapper.vm.volumes[1]).toBe(0.5)
+
+    window.dispatchEvent(new KeyboardEvent('keydown', { code: 'KeyZ', ctrlKey: true }))
+    await flushPromises()
+    expect(wrapper.vm.volumes[1]).toBe(0.8)
+    expect(wrapper.vm.canUndo).toBe(false)
+
+    window.dispatchEvent(new KeyboardEvent('keydown', { code: 'KeyZ', ctrlKey: true, shiftKey: true }))
+    await flushPromises()
+    expect(wrapper.vm.volumes[1]).toBe(0.5)
+    expect(wrapper.vm.canRedo).toBe(true)
+  })
+
+  it('入力欄でのキー操作はショートカットとして扱わない', async () => {
+    await flushPromises()
+    wrapper.vm.updateVolume(1, 0.3)
+
+    const input = document.createElement('input')
+    document.body.appendChild(input)
+    input.dispatchEvent(new KeyboardEvent('keydown', { code: 'KeyZ', ctrlKey: true, bubbles: true }))
+    await flushPromises()
+    expect(wrapper.vm.volumes[1]).toBe(0.3)
+    expect(wrapper.vm.canUndo).toBe(true)
+    input.remove()
+  })
+
+  it('チャンネルの削除と有効/無効の切り替えを元に戻せる', async () => {
+    await flushPromises()
+    wrapper.vm.updateEnabled(1, false)
+    wrapper.vm.removeChannel(2)
+    await nextTick()
+    expect(wrapper.findAll('.sample-container h3')).toHaveLength(2)
+
+    await wrapper.vm.undo()
+    await nextTick()
+    const titles = wrapper.findAll('.sample-container h3').map((title: DOMWrapper<Element>) => title.text())
+    expect(titles).toEqual(['サンプル1', 'サンプル2', 'サンプル3'])
+    expect(wrapper.vm.audioBlobs[2]).not.toBeNull()
+
+    await wrapper.vm.undo()
+    expect(wrapper.vm.channels[0].enabled).toBe(true)
+    expect(wrapper.vm.error).toBeNull()
+  })
+
+  it('ライブラリで選択したサンプルをチャンネルに読み込み、元に戻せる', async () => {
+    await flushPromises()
+    expect(wrapper.findAll('.sample-item')).toHaveLength(5)
+
+    await wrapper.vm.loadLibrarySample(2, 'sample6')
+    expect(fetch).toHaveBeenLastCalledWith('/sample6.wav')
+    expect(wrapper.vm.canUndo).toBe(true)
+
+    // 元に戻すと元のサンプルを読み込み直す
+    await wrapper.vm.undo()
+    expect(fetch).toHaveBeenLastCalledWith('/sample2.wav')
+    expect(wrapper.vm.error).toBeNull()
+  })
+
+  it('編集に失敗した場合は履歴に残さない', async () => {
+    await flushPromises()
+    wrapper.vm.updateTempo(1000)
+    expect(wrapper.vm.error).toContain('テンポの変更に失敗しました')
+    expect(wrapper.vm.canUndo).toBe(false)
+
+    // 成功した編集の後に失敗しても、成功した編集だけを元に戻せる
+    wrapper.vm.updateTempo(90)
+    wrapper.vm.updateTempo(1000)
+    window.dispatchEvent(new KeyboardEvent('keydown', { code: 'KeyZ', ctrlKey: true }))
+    await flushPromises()
+    expect(wrapper.vm.tempo).toBe(120)
+    expect(wrapper.vm.canUndo).toBe(false)
+  })
+
+  it('サンプルを追加できなかった場合はチャンネルを残さず、履歴にも残さない', async () => {
+    await flushPromises()
+    ;(fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 404 })
+    await wrapper.vm.addChannel()
+    expect(wrapper.vm.error).toContain('サンプルの追加に失敗しました')
+    expect(wrapper.vm.channels.map((channel: { id: number }) => channel.id)).toEqual([1, 2, 3])
+    expect(wrapper.vm.canUndo).toBe(false)
+  })
+
+  it('サンプルの取得に失敗した場合は読み込む前の状態を保ち、履歴に残さない', async () => {
+    let savedBlob: Blob | null = null
+    URL.createObjectURL = jest.fn((blob: Blob) => {
+      savedBlob = blob
+      return 'blob:project'
+    })
+    URL.revokeObjectURL = jest.fn()
+    await flushPromises()
+
+    ;(fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 404 })
+    await wrapper.vm.loadLibrarySample(2, 'sample6')
+    expect(wrapper.vm.error).toContain('サンプルの読み込みに失敗しました: HTTP error! status: 404')
+    expect(wrapper.vm.canUndo).toBe(false)
+
+    // サンプル2のあるプロジェクトを、サンプル2を削除してから読み込む
+    await wrapper.vm.saveProject()
+    const json = await new Promise<string>((resolve) => {
+      const reader = new FileReader()
+      reader.onload = () => resolve(reader.result as string)
+      reader.readAsText(savedBlob as unknown as Blob)
+    })
+    wrapper.vm.removeChannel(2)
+    wrapper.vm.updateVolume(1, 0.3)
+
+    ;(fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 404 })
+    await wrapper.vm.loadProject(json)
+    await nextTick()
+    expect(wrapper.vm.error).toContain('プロジェクトの読み込みに失敗しました: HTTP error! status: 404')
+    const titles = wrapper.findAll('.sample-container h3').map((title: DOMWrapper<Element>) => title.text())
+    expect(titles).toEqual(['サンプル1', 'サンプル3'])
+    expect(wrapper.vm.volumes[1]).toBe(0.3)
+
+    // 元に戻すとプロジェクトの読み込みではなく、音量の変更を元に戻す
+    await wrapper.vm.undo()
+    expect(wrapper.vm.volumes[1]).not.toBe(0.3)
+    expect(wrapper.findAll('.sample-container h3')).toHaveLength(2)
+  })
+
+  it('チャンネルストリップにドロップしたファイルを読み込んでファイル名を表示し、元に戻せる', async () => {
+    await flushPromises()
+    const strip = wrapper.findAll('.sample-container')[1]
+    expect(strip.find('.sample-file-name').text()).toBe('サンプル2')
+
+    const file = createUploadFile('kick.wav', 'audio/wav')
+    await strip.trigger('drop', { dataTransfer: { files: [file] } })
+    await flushPromises()
+    expect(wrapper.vm.error).toBeNull()
+    expect(strip.find('.sample-file-name').text()).toBe('kick.wav')
+    expect(wrapper.vm.audioBlobs[2].type).toBe('audio/wav')
+    expect(wrapper.vm.canUndo).toBe(true)
+
+    await wrapper.vm.undo()
+    expect(fetch).toHaveBeenLastCalledWith('/sample2.wav')
+    expect(strip.find('.sample-file-name').text()).toBe('サンプル2')
+  })
+
+  it('アップロードしたファイルが無効な場合はエラーを表示し、履歴に残さない', async () => {
+    await flushPromises()
+    await wrapper.vm.uploadSample(1, createUploadFile('notes.txt', 'text/plain'))
+    expect(wrapper.vm.error).toContain('notes.txt の読み込みに失敗しました: 対応していない形式のファイルです')
+
+    mockAudioContext.decodeAudioData.mockRejectedValueOnce(new Error('Unable to decode audio data'))
+    await wrapper.vm.uploadSample(1, createUploadFile('broken.mp3', 'audio/mpeg'))
+    expect(wrapper.vm.error).toContain('broken.mp3 の読み込みに失敗しました: 音声データのデコードに失敗しました')
+
+    mockAudioContext.decodeAudioData.mockResolvedValueOnce({ duration: 600, numberOfChannels: 2, sampleRate: 44100 })
+    await wrapper.vm.uploadSample(1, createUploadFile('long.flac', 'audio/flac'))
+    expect(wrapper.vm.error).toContain('long.flac の読み込みに失敗しました: サンプルが長すぎます')
+    expect(wrapper.vm.canUndo).toBe(false)
+  })
+
+  it('作業中の状態を変更があるときだけ自動保存し、アップロードしたサンプルをブラウザに保存する', async () => {
+    await flushPromises()
+    const storage = createMockStorage()
+    ;(openProjectStorage as jest.Mock).mockResolvedValueOnce(storage)
+    const player: VueWrapper<any> = mount(AudioPlayer)
+    await flushPromises()
+    // 波形の表示が完了すると読み込み中の表示が消え、自動保存できるようになる
+    player.vm.handleWaveformReady()
+    expect(player.find('.storage-unavailable').exists()).toBe(false)
+
+    player.vm.updateVolume(1, 0.3)
+    await player.vm.autosave()
+    await player.vm.autosave()
+    expect(storage.saveSession).toHaveBeenCalledTimes(1)
+    expect(JSON.parse(storage.saveSession.mock.calls[0][0]).format).toBe('sample-blender-project')
+
+    await player.vm.uploadSample(2, createUploadFile('kick.wav', 'audio/wav'))
+    expect(storage.saveSample).toHaveBeenCalledWith('kick.wav', 'audio/wav', expect.any(ArrayBuffer))
+    player.unmount()
+  })
+
+  it('アップロードしたサンプルは自動保存ではIDで参照し、ブラウザに保存するプロジェクトには埋め込む', async () => {
+    await flushPromises()
+    const storage = createMockStorage()
+    ;(openProjectStorage as jest.Mock).mockResolvedValueOnce(storage)
+    const player: VueWrapper<any> = mount(AudioPlayer)
+    await flushPromises()
+    player.vm.handleWaveformReady()
+
+    await player.vm.uploadSample(2, createUploadFile('kick.wav', 'audio/wav'))
+    expect(player.vm.error).toBeNull()
+    expect(player.findAll('.sample-file-name')[1].text()).toBe('kick.wav')
+    await player.vm.autosave()
+    const session = JSON.parse(storage.saveSession.mock.calls[0][0])
+    expect(session.channels[1].sample).toEqual({ type: 'stored', id: 'sample-1', name: 'kick.wav' })
+
+    await player.vm.saveProjectToStorage('blend')
+    const project = JSON.parse(storage.saveProject.mock.calls[0][1])
+    expect(project.channels[1].sample).toEqual({ type: 'embedded', name: 'kick.wav', mimeType: 'audio/wav', data: expect.any(String) })
+    player.unmount()
+  })
+
+  it('自動保存に失敗した場合はエラーを1度だけ表示し、自動保存を停止する', async () => {
+    await flushPromises()
+    const storage = createMockStorage()
+    storage.saveSession.mockRejectedValueOnce(new Error('ブラウザの保存容量が不足しています'))
+    ;(openProjectStorage as jest.Mock).mockResolvedValueOnce(storage)
+    const player: VueWrapper<any> = mount(AudioPlayer)
+    await flushPromises()
+    player.vm.handleWaveformReady()
+    const clearIntervalSpy = jest.spyOn(window, 'clearInterval')
+
+    player.vm.updateVolume(1, 0.3)
+    await player.vm.autosave()
+    expect(player.vm.error).toBe('作業中の状態の自動保存に失敗したため、自動保存を停止しました: ブラウザの保存容量が不足しています')
+    expect(clearIntervalSpy).toHaveBeenCalled()
+    clearIntervalSpy.mockRestore()
+    player.unmount()
+  })
+
+  it('前回の作業中の状態があれば復元を確認し、復元するまで自動保存しない', async () => {
+    await flushPromises()
+    const first = createMockStorage()
+    ;(openProjectStorage as jest.Mock).mockResolvedValueOnce(first)
+    const crashed: VueWrapper<any> = mount(AudioPlayer)
+    await flushPromises()
+    crashed.vm.handleWaveformReady()
+    crashed.vm.updateVolume(1, 0.3)
+    await crashed.vm.autosave()
+    crashed.unmount()
+
+    const second = createMockStorage({ savedAt: 0, json: first.saveSession.mock.calls[0][0] })
+    ;(openProjectStorage as jest.Mock).mockResolvedValueOnce(second)
+    const reloaded: VueWrapper<any> = mount(AudioPlayer)
+    await flushPromises()
+    reloaded.vm.handleWaveformReady()
+    expect(reloaded.find('.restore-message').exists()).toBe(true)
+    await reloaded.vm.autosave()
+    expect(second.saveSession).not.toHaveBeenCalled()
+
+    await reloaded.find('.restore-button').trigger('click')
+    await flushPromises()
+    expect(reloaded.find('.restore-message').exists()).toBe(false)
+    expect(reloaded.vm.volumes[1]).toBe(0.3)
+    expect(reloaded.vm.canUndo).toBe(true)
+    reloaded.unmount()
+  })
+
+  it('ブラウザに保存できない環境では保存できないことを表示する', async () => {
+    await flushPromises()
+    expect(wrapper.find('.storage-unavailable').exists()).toBe(true)
+  })
+
+  it('ブラウザの保存領域を開けない場合はエラーを表示し、保存できない環境として扱う', async () => {
+    await flushPromises()
+    ;(openProjectStorage as jest.Mock).mockRejectedValueOnce(new Error('他のタブで開いているため、ブラウザの保存領域を更新できません'))
+    const player: VueWrapper<any> = mount(AudioPlayer)
+    await flushPromises()
+    expect(player.vm.error).toBe('ブラウザの保存領域を開けませんでした: 他のタブで開いているため、ブラウザの保存領域を更新できません')
+    expect(player.find('.storage-unavailable').exists()).toBe(true)
+    player.unmount()
   })
 
   // オーディオ関連のテストはスキップ
@@ -0,0 +1,88 @@
+/**
+ * @file SampleList.spec.ts
+ * @brief SampleListコンポーネントのテスト
+ */
+
+import { mount, VueWrapper, DOMWrapper } from '@vue/test-utils'
+import SampleList from '@/components/SampleList.vue'
+import { SampleLibrary, SAMPLE_MANIFEST_VERSION } from '@/core/SampleLibrary'
+
+const library = new SampleLibrary({
+  version: SAMPLE_MANIFEST_VERSION,
+  samples: [
+    { id: 'kick', name: 'Kick', url: '/kick.wav', category: 'drums', tags: ['punchy'], duration: 0.5, key: null, bpm: null },
+    { id: 'pad', name: 'Pad', url: '/pad.wav', category: 'synth', tags: ['ambient'], duration: 4, key: 'Am', bpm: 90 },
+    { id: 'loop', name: 'Loop', url: '/loop.wav', category: 'drums', tags: ['punchy', 'acoustic'], duration: 2, key: null, bpm: 128 }
+  ]
+})
+
+describe('SampleList', () => {
+  let wrapper: VueWrapper<any>
+
+  const getNames = (): string[] => {
+    return wrapper.findAll('.sample-name').map((name: DOMWrapper<Element>) => name.text())
+  }
+
+  beforeEach(() => {
+    wrapper = mount(SampleList, {
+      props: {
+        library,
+        channelIds: [1, 2, 3]
+      }
+    })
+  })
+
+  it('ライブラリのサンプルを名前の順に一覧表示する', () => {
+    expect(getNames()).toEqual(['Kick', 'Loop', 'Pad'])
+    expect(wrapper.findAll('.sample-item')[2].find('.sample-bpm').text()).toBe('90 BPM')
+    expect(wrapper.findAll('.sample-item')[2].find('.sample-key').text()).toBe('Am')
+  })
+
+  it('テキスト、カテゴリー、タグで絞り込める', async () => {
+    await wrapper.find('.sample-search').setValue('loop')
+    expect(getNames()).toEqual(['Loop'])
+
+    await wrapper.find('.sample-search').setValue('')
+    await wrapper.find('.sample-category-select').setValue('drums')
+    expect(getNames()).toEqual(['Kick', 'Loop'])
+
+    const acoustic = wrapper.findAll('.sample-tag').find((tag: DOMWrapper<Element>) => tag.text() === 'acoustic')
+    await acoustic?.trigger('click')
+    expect(getNames()).toEqual(['Loop'])
+    expect(acoustic?.classes()).toContain('selected')
+  })
+
+  it('並べ替えの基準と順序を変更できる', async () => {
+    await wrapper.find('.sample-sort-select').setValue('duration')
+    await wrapper.find('.sample-descending input').setValue(true)
+    expect(getNames()).toEqual(['Pad', 'Loop', 'Kick'])
+  })
+
+  it('該当するサンプルがない場合はメッセージを表示する', async () => {
+    await wrapper.find('.sample-search').setValue('vocal')
+    expect(wrapper.find('.sample-empty').exists()).toBe(true)
+  })
+
+  it('選択したサンプルと読み込むチャンネルを通知する', async () => {
+    expect(wrapper.find('.sample-load-button').attributes('disabled')).toBeDefined()
+    await wrapper.findAll('.sample-item')[2].trigger('click')
+    await wrapper.find('.sample-channel-select').setValue(2)
+    await wrapper.find('.sample-load-button').trigger('click')
+    expect(wrapper.emitted('load')).toEqual([[2, 'pad']])
+
+    await wrapper.findAll('.sample-item')[0].trigger('dblclick')
+    expect(wrapper.emitted('load')?.[1]).toEqual([2, 'kick'])
+  })
+
+  it('読み込むチャンネルが削除された場合は先頭のチャンネルを選択する', async () => {
+    await wrapper.find('.sample-channel-select').setValue(3)
+    await wrapper.setProps({ channelIds: [1, 2] })
+    expect(wrapper.vm.targetChannelId).toBe(1)
+  })
+
+  it('無効な場合は読み込みを通知しない', async () => {
+    await wrapper.setProps({ isDisabled: true })
+    await wrapper.findAll('.sample-item')[0].trigger('dblclick')
+    expect(wrapper.emitted('load')).toBeUndefined()
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * @file StorageBrowser.spec.ts
+ * @brief StorageBrowserコンポーネントのテスト
+ */
+
+import { mount, VueWrapper, DOMWrapper } from '@vue/test-utils'
+import StorageBrowser from '@/components/StorageBrowser.vue'
+import { StoredItemInfo } from '@/core/ProjectStorage'
+
+const items: StoredItemInfo[] = [
+  { id: 'project-1', kind: 'project', name: 'Blend', size: 2048, updatedAt: 2000 },
+  { id: 'sample-1', kind: 'sample', name: 'kick.wav', size: 512, updatedAt: 1000 }
+]
+
+describe('StorageBrowser', () => {
+  let wrapper: VueWrapper<any>
+
+  const getItem = (index: number): DOMWrapper<Element> => wrapper.findAll('.storage-item')[index]
+
+  beforeEach(() => {
+    wrapper = mount(StorageBrowser, {
+      props: {
+        items,
+        quota: { usage: 1024 * 1024, quota: 1024 * 1024 * 1024 },
+        channelIds: [1, 2, 3]
+      }
+    })
+  })
+
+  it('保存した項目の種類、名前、サイズと保存領域の使用量を表示する', () => {
+    expect(getItem(0).find('.storage-kind').text()).toBe('プロジェクト')
+    expect(getItem(0).find('.storage-item-name').text()).toBe('Blend')
+    expect(getItem(0).find('.storage-size').text()).toBe('2.0 KB')
+    expect(getItem(1).find('.storage-size').text()).toBe('512 B')
+    expect(wrapper.find('.storage-quota').text()).toBe('使用量 1.0 MB / 1.0 GB')
+  })
+
+  it('名前を付けてプロジェクトの保存を通知する', async () => {
+    await wrapper.find('.storage-name-input').setValue(' drums ')
+    await wrapper.find('.storage-save-button').trigger('click')
+    expect(wrapper.emitted('saveProject')).toEqual([['drums']])
+
+    await wrapper.find('.storage-name-input').setValue('')
+    expect(wrapper.find('.storage-save-button').attributes('disabled')).toBeDefined()
+  })
+
+  it('プロジェクトの読み込みと、選択したチャンネルへのサンプルの読み込みを通知する', async () => {
+    await getItem(0).find('.storage-load-button').trigger('click')
+    expect(wrapper.emitted('loadProject')).toEqual([['project-1']])
+
+    await wrapper.find('.storage-channel-select').setValue(3)
+    await getItem(1).find('.storage-load-button').trigger('click')
+    expect(wrapper.emitted('loadSample')).toEqual([[3, 'sample-1']])
+  })
+
+  it('名前の変更をEnterで確定し、Escapeで取り消す', async () => {
+    await getItem(1).find('.storage-rename-button').trigger('click')
+    await getItem(1).find('.storage-rename-input').setValue('snare.wav')
+    await getItem(1).find('.storage-rename-input').trigger('keydown', { key: 'Enter' })
+    expect(wrapper.emitted('rename')).toEqual([['sample', 'sample-1', 'snare.wav']])
+    expect(getItem(1).find('.storage-rename-input').exists()).toBe(false)
+
+    await getItem(0).find('.storage-rename-button').trigger('click')
+    await getItem(0).find('.storage-rename-input').setValue('Other')
+    await getItem(0).find('.storage-rename-input').trigger('keydown', { key: 'Escape' })
+    expect(wrapper.emitted('rename')).toHaveLength(1)
+  })
+
+  it('削除はもう1度押して確定する', async () => {
+    const deleteButton = getItem(0).find('.storage-delete-button')
+    await deleteButton.trigger('click')
+    expect(wrapper.emitted('delete')).toBeUndefined()
+    expect(deleteButton.text()).toBe('削除を確定')
+
+    await deleteButton.trigger('click')
+    expect(wrapper.emitted('delete')).toEqual([['project', 'project-1']])
+  })
+
+  it('保存できない環境ではメッセージだけを表示する', async () => {
+    await wrapper.setProps({ isAvailable: false })
+    expect(wrapper.find('.storage-unavailable').exists()).toBe(true)
+    expect(wrapper.find('.storage-items').exists()).toBe(false)
+  })
+})
@@ -69,4 +69,35 @@ describe('VolumeMeter', () => {
     // メーターの幅が0%に制限されていることを確認
     expect(meterLevel.attributes('style')).toContain('width: 0%')
   })
-}) 
\ No newline at end of file
+
+  it('ピークホールドは保持時間の間、最大ピークの位置を表示する', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0)
+
+    await wrapper.setProps({ peak: -12 })
+    await wrapper.setProps({ peak: -30 })
+    const peakHold = wrapper.find('.meter-peak-hold')
+    expect(peakHold.attributes('style')).toContain('left: 80%')
+
+    // 保持時間を過ぎると現在のピークに更新される
+    now.mockReturnValue(2000)
+    await wrapper.setProps({ peak: -36 })
+    expect(wrapper.find('.meter-peak-hold').attributes('style')).toContain('left: 40%')
+
+    now.mockRestore()
+  })
+
+  it('ピークが0dBに達するとクリップを表示し、クリックで解除する', async () => {
+    const clip = wrapper.find('.meter-clip')
+    expect(clip.classes()).not.toContain('meter-clip--active')
+
+    await wrapper.setProps({ peak: 0.5 })
+    expect(clip.classes()).toContain('meter-clip--active')
+
+    // ピークが下がってもクリップ表示は残る
+    await wrapper.setProps({ peak: -20 })
+    expect(clip.classes()).toContain('meter-clip--active')
+
+    await clip.trigger('click')
+    expect(clip.classes()).not.toContain('meter-clip--active')
+  })
+})
\ No newline at end of file
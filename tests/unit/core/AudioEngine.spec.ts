@@ -7,17 +7,47 @@
  * - エラー処理のテスト
  * - 音声ノードの接続テスト
  * - エフェクトチェーンの接続テスト
+ * - レジストリに登録したエフェクトの追加テスト
+ * - エフェクトのバイパスと状態の取得/復元テスト
+ * - チャンネル構成、再生設定、エフェクトの状態の取得/復元テスト
+ * - ピッチモード（時間伸縮）のテスト
+ * - タイミング（ミリ秒単位の前後のオフセット）のテスト
+ * - ピッチ（半音・セント）のテスト
+ * - エンベロープのスケジュールのテスト
+ * - レベルメーターのテスト
+ * - チャンネルの追加と削除のテスト
+ * - ミックスダウンのレンダリングテスト
  */
 
 import { AudioEngine } from '@/core/AudioEngine';
-import { PlaybackSettingManager } from '@/core/PlaybackSettingManager';
-import { ChannelId } from '@/core/audioConstants';
+import { LevelMeter } from '@/core/LevelMeter';
+import { PlaybackSettingManager, formatPitch, formatTimingOffset } from '@/core/PlaybackSettingManager';
+import { ChannelId, PARAMETER_RAMP_SECONDS, STRETCH_MAX_FACTOR } from '@/core/audioConstants';
+import { defaultEffectRegistry } from '@/effects/builtinEffects';
+import { Reverb } from '@/effects/Reverb';
+
+// ゲインのAudioParamのモックを作成（エンベロープのスケジュールを検証するため）
+const createMockGainParam = () => ({
+  value: 1,
+  setTargetAtTime: jest.fn(),
+  setValueAtTime: jest.fn(),
+  linearRampToValueAtTime: jest.fn(),
+  exponentialRampToValueAtTime: jest.fn(),
+  cancelScheduledValues: jest.fn()
+});
+
+// エフェクトのAudioParamのモックを作成（パラメータの変化を予約するため）
+const createMockAudioParam = (value: number) => ({ ...createMockGainParam(), value });
 
 describe('AudioEngine', () => {
   let audioEngine: AudioEngine;
   let playbackSettingsManager: PlaybackSettingManager;
+  let analyserData: number[];
 
   beforeEach(() => {
+    // メーターが読み取る波形（全AnalyserNodeで共通、繰り返して使用）
+    analyserData = [0, 0, 0, 0];
+
     // PlaybackSettingManagerのインスタンスを作成
     playbackSettingsManager = new PlaybackSettingManager();
 
@@ -26,19 +56,58 @@ describe('AudioEngine', () => {
       createGain: jest.fn().mockReturnValue({
         connect: jest.fn(),
         disconnect: jest.fn(),
-        gain: {
-          value: 1,
-          setTargetAtTime: jest.fn()
-        }
+        gain: createMockGainParam()
       }),
       createBiquadFilter: jest.fn().mockReturnValue({
         connect: jest.fn(),
         disconnect: jest.fn(),
-        frequency: { value: 1000 },
-        Q: { value: 1 },
-        gain: { value: 0 },
+        frequency: createMockAudioParam(1000),
+        Q: createMockAudioParam(1),
+        gain: createMockAudioParam(0),
         type: 'lowpass'
       }),
+      createConvolver: jest.fn(() => ({
+        connect: jest.fn(),
+        disconnect: jest.fn(),
+        buffer: null
+      })),
+      createDelay: jest.fn(() => ({
+        connect: jest.fn(),
+        disconnect: jest.fn(),
+        delayTime: createMockAudioParam(0)
+      })),
+      createWaveShaper: jest.fn(() => ({
+        connect: jest.fn(),
+        disconnect: jest.fn(),
+        curve: null,
+        oversample: 'none'
+      })),
+      createDynamicsCompressor: jest.fn(() => ({
+        connect: jest.fn(),
+        disconnect: jest.fn(),
+        threshold: createMockAudioParam(-24),
+        ratio: createMockAudioParam(12),
+        attack: createMockAudioParam(0.003),
+        release: createMockAudioParam(0.25),
+        knee: createMockAudioParam(30),
+        reduction: 0
+      })),
+      createChannelSplitter: jest.fn(() => ({
+        connect: jest.fn(),
+        disconnect: jest.fn()
+      })),
+      createChannelMerger: jest.fn(() => ({
+        connect: jest.fn(),
+        disconnect: jest.fn()
+      })),
+      createAnalyser: jest.fn(() => ({
+        connect: jest.fn(),
+        disconnect: jest.fn(),
+        fftSize: 2048,
+        getFloatTimeDomainData: jest.fn((array: Float32Array) => {
+          array.forEach((_, i) => { array[i] = analyserData[i % analyserData.length]; });
+        })
+      })),
       createBufferSource: jest.fn().mockReturnValue({
         connect: jest.fn(),
         disconnect: jest.fn(),
@@ -50,10 +119,21 @@ describe('AudioEngine', () => {
       }),
       decodeAudioData: jest.fn().mockResolvedValue({
         duration: 1,
-        numberOfChannels: 2,
-        sampleRate: 44100
+        length: 4,
+        numberOfChannels: 1,
+        sampleRate: 4,
+        getChannelData: () => Float32Array.from([0.1, 0.2, 0.3, 0.4])
       }),
+      createBuffer: jest.fn((numberOfChannels: number, length: number, sampleRate: number) => ({
+        duration: length / sampleRate,
+        length,
+        numberOfChannels,
+        sampleRate,
+        getChannelData: () => new Float32Array(length),
+        copyToChannel: jest.fn()
+      })),
       currentTime: 0,
+      sampleRate: 44100,
       suspend: jest.fn(),
       resume: jest.fn(),
       close: jest.fn(),
@@ -71,15 +151,11 @@ describe('AudioEngine', () => {
     [1, 2, 3].forEach(id => audioEngine['sampleBuffers'].set(id as ChannelId, dummyBuffer as any));
 
     // サンプルゲインノードのダミーをセット（チャンネル1,2,3のみ）
-    const dummyGainNode = {
+    [1, 2, 3].forEach(id => audioEngine['sampleGains'].set(id as ChannelId, {
       connect: jest.fn(),
       disconnect: jest.fn(),
-      gain: {
-        value: 1,
-        setTargetAtTime: jest.fn()
-      }
-    };
-    [1, 2, 3].forEach(id => audioEngine['sampleGains'].set(id as ChannelId, dummyGainNode as any));
+      gain: createMockGainParam()
+    } as any));
 
     // GainNodeのモックを設定
     window.GainNode = jest.fn().mockImplementation(() => ({
@@ -107,6 +183,29 @@ describe('AudioEngine', () => {
     }));
   });
 
+  describe('マスターボリューム', () => {
+    it('マスターゲインを滑らかに変化させる', () => {
+      const gain = audioEngine['masterGain'].gain;
+      (gain.setTargetAtTime as jest.Mock).mockClear();
+      audioEngine.updateMasterVolume(0.5);
+      expect(gain.cancelScheduledValues).toHaveBeenCalledWith(0);
+      expect(gain.setTargetAtTime).toHaveBeenCalledWith(0.5, 0, PARAMETER_RAMP_SECONDS);
+      expect(audioEngine.getMasterVolume()).toBe(0.5);
+    });
+
+    it('音声コンテキストの時刻を指定して変化を予約できる', () => {
+      const gain = audioEngine['masterGain'].gain;
+      audioEngine.updateMasterVolume(0.2, { type: 'linear', time: 1, startTime: 2 });
+      expect(gain.setValueAtTime).toHaveBeenLastCalledWith(1, 2);
+      expect(gain.linearRampToValueAtTime).toHaveBeenLastCalledWith(0.2, 3);
+    });
+
+    it('無効な変化のオプションを指定すると値を保存しない', () => {
+      expect(() => audioEngine.updateMasterVolume(0.5, { time: -1 })).toThrow();
+      expect(audioEngine.getMasterVolume()).toBe(1);
+    });
+  });
+
   describe('サンプルの再生', () => {
     it('複数のサンプルを同時に再生できる', () => {
       const channelIds: ChannelId[] = [1, 2];
@@ -122,6 +221,337 @@ describe('AudioEngine', () => {
       const channelIds: ChannelId[] = [1, 2, 3];
       expect(() => audioEngine.playSamples(channelIds)).not.toThrow();
     });
+
+    it('トリム設定の範囲だけを再生する', () => {
+      playbackSettingsManager.setSetting(1, 'trimStart', 0.2);
+      playbackSettingsManager.setSetting(1, 'trimEnd', 0.6);
+      audioEngine.playSamples([1]);
+
+      const source = audioEngine['context'].createBufferSource();
+      expect(source.start).toHaveBeenCalledWith(0, 0.2, expect.closeTo(0.4));
+    });
+
+    it('読み込んだサンプルを反転したコピーを作成する', async () => {
+      await audioEngine.loadSample(1, new ArrayBuffer(0));
+      const reversed = audioEngine['reversedBuffers'].get(1) as any;
+      expect(reversed.copyToChannel).toHaveBeenCalledWith(Float32Array.from([0.4, 0.3, 0.2, 0.1]), 0);
+    });
+
+    it('リバース再生では反転したサンプルのトリム範囲を再生する', async () => {
+      await audioEngine.loadSample(1, new ArrayBuffer(0));
+      playbackSettingsManager.setReverse(1, true);
+      playbackSettingsManager.setSetting(1, 'trimStart', 0.25);
+      playbackSettingsManager.setSetting(1, 'trimEnd', 0.5);
+      audioEngine.playSamples([1]);
+
+      // 元のサンプルの0.25〜0.5の範囲は、反転したサンプルでは0.5〜0.75の範囲
+      const source = audioEngine['context'].createBufferSource();
+      expect(source.buffer).toBe(audioEngine['reversedBuffers'].get(1));
+      expect(source.start).toHaveBeenCalledWith(0, 0.5, 0.25);
+    });
+
+    it('ピッチモードがvarispeedの場合は元のサンプルの再生速度を変える', async () => {
+      await audioEngine.loadSample(1, new ArrayBuffer(0));
+      playbackSettingsManager.setPitch(1, 12);
+      audioEngine.playSamples([1]);
+
+      const source = audioEngine['context'].createBufferSource();
+      expect(source.buffer).toBe(audioEngine['sampleBuffers'].get(1));
+      expect(source.playbackRate.value).toBe(2.0);
+      expect(source.start).toHaveBeenCalledWith(0, 0, 1);
+    });
+
+    it('ピッチモードがpreserveLengthの場合は時間伸縮したサンプルを再生し、長さを保つ', async () => {
+      await audioEngine.loadSample(1, new ArrayBuffer(0));
+      playbackSettingsManager.setPitch(1, 12);
+      playbackSettingsManager.setPitchMode(1, 'preserveLength');
+      audioEngine.playSamples([1]);
+
+      // 2倍の長さに伸ばしたサンプルを2倍速で再生する
+      const source = audioEngine['context'].createBufferSource();
+      expect(source.buffer?.length).toBe(8);
+      expect(source.playbackRate.value).toBe(2.0);
+      expect(source.start).toHaveBeenCalledWith(0, 0, 2);
+      const gainParam = audioEngine['sampleGains'].get(1)?.gain as any;
+      expect(gainParam.linearRampToValueAtTime).toHaveBeenLastCalledWith(expect.any(Number), 1);
+    });
+
+    it('時間伸縮の倍率はSTRETCH_MAX_FACTORまでに制限する', async () => {
+      await audioEngine.loadSample(1, new ArrayBuffer(0));
+      playbackSettingsManager.setPitchRange(48);
+      playbackSettingsManager.setPitch(1, 48);
+      playbackSettingsManager.setPitchMode(1, 'preserveLength');
+      audioEngine.playSamples([1]);
+
+      // 16倍速で再生するが、伸ばすのは4倍までにする
+      const source = audioEngine['context'].createBufferSource();
+      expect(source.buffer?.length).toBe(4 * STRETCH_MAX_FACTOR);
+      expect(source.playbackRate.value).toBe(16.0);
+    });
+
+    it('時間伸縮したサンプルはピッチとリバースの設定が変わるまで使い回す', async () => {
+      await audioEngine.loadSample(1, new ArrayBuffer(0));
+      playbackSettingsManager.setPitch(1, 12);
+      playbackSettingsManager.setPitchMode(1, 'preserveLength');
+      const createBuffer = audioEngine['context'].createBuffer as jest.Mock;
+      createBuffer.mockClear();
+
+      audioEngine.playSamples([1]);
+      audioEngine.playSamples([1]);
+      expect(createBuffer).toHaveBeenCalledTimes(1);
+
+      playbackSettingsManager.setPitch(1, 7);
+      audioEngine.playSamples([1]);
+      playbackSettingsManager.setReverse(1, true);
+      audioEngine.playSamples([1]);
+      expect(createBuffer).toHaveBeenCalledTimes(3);
+    });
+
+    it('時間伸縮したサンプルを再生の前に作成しておける', async () => {
+      await audioEngine.loadSample(1, new ArrayBuffer(0));
+      playbackSettingsManager.setPitch(1, 12);
+      playbackSettingsManager.setPitchMode(1, 'preserveLength');
+      const createBuffer = audioEngine['context'].createBuffer as jest.Mock;
+      createBuffer.mockClear();
+
+      audioEngine.prepareStretchedBuffer(1);
+      expect(createBuffer).toHaveBeenCalledTimes(1);
+      audioEngine.playSamples([1]);
+      expect(createBuffer).toHaveBeenCalledTimes(1);
+
+      // サンプルがないチャンネルでは何もしない
+      playbackSettingsManager.setPitch(2, 12);
+      playbackSettingsManager.setPitchMode(2, 'preserveLength');
+      audioEngine['sampleBuffers'].delete(2);
+      expect(() => audioEngine.prepareStretchedBuffer(2)).not.toThrow();
+      expect(createBuffer).toHaveBeenCalledTimes(1);
+    });
+
+    it('トリムの開始位置を終了位置より後にするとエラーになる', () => {
+      playbackSettingsManager.setSetting(1, 'trimEnd', 0.5);
+      expect(() => playbackSettingsManager.setSetting(1, 'trimStart', 0.6)).toThrow();
+      expect(playbackSettingsManager.getSetting(1, 'trimStart')).toBe(0);
+    });
+  });
+
+  describe('サンプルの読み込み', () => {
+    it('デコードに失敗した場合はファイルが壊れているか対応していない形式であることを示す', async () => {
+      (audioEngine['context'].decodeAudioData as jest.Mock).mockRejectedValueOnce(new DOMException('Unable to decode audio data', 'EncodingError'));
+      const loaded = audioEngine['sampleBuffers'].get(1);
+      await expect(audioEngine.loadSample(1, new ArrayBuffer(0)))
+        .rejects.toThrow('音声データのデコードに失敗しました（ファイルが壊れているか、対応していない形式です）: Unable to decode audio data');
+      expect(audioEngine['sampleBuffers'].get(1)).toBe(loaded);
+    });
+
+    it('最大の長さを超えるサンプルは読み込まない', async () => {
+      const loaded = audioEngine['sampleBuffers'].get(1);
+      await expect(audioEngine.loadSample(1, new ArrayBuffer(0), 0.5)).rejects.toThrow('サンプルが長すぎます: 1.0秒（最大0.5秒）');
+      expect(audioEngine['sampleBuffers'].get(1)).toBe(loaded);
+      await audioEngine.loadSample(1, new ArrayBuffer(0), 1);
+      expect(audioEngine['sampleBuffers'].get(1)).not.toBe(loaded);
+    });
+
+    it('デコードしたサンプルはチャンネルに設定するまで読み込まない', async () => {
+      const loaded = audioEngine['sampleBuffers'].get(1);
+      const buffer = await audioEngine.decodeSample(new ArrayBuffer(0));
+      expect(audioEngine['sampleBuffers'].get(1)).toBe(loaded);
+      audioEngine.setSample(1, buffer);
+      expect(audioEngine['sampleBuffers'].get(1)).toBe(buffer);
+      expect(() => audioEngine.setSample(99, buffer)).toThrow('チャンネル 99 が見つかりません');
+    });
+
+    it('音声が含まれていないサンプルは読み込まない', async () => {
+      (audioEngine['context'].decodeAudioData as jest.Mock).mockResolvedValueOnce({ duration: 0, length: 0, numberOfChannels: 1, sampleRate: 4 });
+      await expect(audioEngine.loadSample(1, new ArrayBuffer(0))).rejects.toThrow('サンプルに音声が含まれていません');
+    });
+  });
+
+  describe('タイミング', () => {
+    const getStartTimes = () => (audioEngine['context'].createBufferSource().start as jest.Mock).mock.calls.map(call => call[0]);
+
+    it('デフォルトでは全チャンネルを同時に再生する', () => {
+      audioEngine.playSamples([1, 2, 3]);
+      expect(getStartTimes()).toEqual([0, 0, 0]);
+      expect(playbackSettingsManager.getSetting(1, 'timing')).toBe(0.5);
+    });
+
+    it('ミリ秒単位のオフセットで開始時刻をずらす', () => {
+      playbackSettingsManager.setTimingOffset(2, 0.25);
+      playbackSettingsManager.setTimingOffset(3, 12.5);
+      audioEngine.playSamples([1, 2, 3]);
+      const [first, second, third] = getStartTimes();
+      expect(first).toBe(0);
+      expect(second).toBeCloseTo(0.00025, 8);
+      expect(third).toBeCloseTo(0.0125, 8);
+    });
+
+    it('負のオフセットは最も早いチャンネルを基準にして、他のチャンネルを遅らせる', () => {
+      playbackSettingsManager.setTimingOffset(1, 10);
+      playbackSettingsManager.setTimingOffset(2, -20);
+      audioEngine.playSamples([1, 2, 3]);
+      const [first, second, third] = getStartTimes();
+      expect(first).toBeCloseTo(0.03, 8);
+      expect(second).toBe(0);
+      expect(third).toBeCloseTo(0.02, 8);
+    });
+
+    it('ノブの値を±TIMING_MAX_OFFSET_MSに対応させる', () => {
+      playbackSettingsManager.setSetting(1, 'timing', 0.75);
+      expect(playbackSettingsManager.getTimingOffset(1)).toBe(500);
+      playbackSettingsManager.setSetting(1, 'timing', 0);
+      expect(playbackSettingsManager.getTimingOffset(1)).toBe(-1000);
+    });
+
+    it('範囲外のオフセットやマスターチャンネルにはタイミングを設定できない', () => {
+      expect(() => playbackSettingsManager.setTimingOffset(1, 1000.5)).toThrow();
+      expect(() => playbackSettingsManager.setTimingOffset(0, 10)).toThrow();
+    });
+
+    it('タイミングのオフセットを表示用の文字列に変換する', () => {
+      expect(formatTimingOffset(0)).toBe('0 ms');
+      expect(formatTimingOffset(12.5)).toBe('+12.50 ms');
+      expect(formatTimingOffset(-0.1)).toBe('-0.10 ms');
+    });
+  });
+
+  describe('ピッチ（半音・セント）', () => {
+    it('デフォルトでは元の高さ（通常速度）で再生する', () => {
+      audioEngine.playSamples([1]);
+      expect(audioEngine['context'].createBufferSource().playbackRate.value).toBe(1.0);
+      expect(playbackSettingsManager.getSetting(1, 'pitch')).toBe(0.5);
+    });
+
+    it('半音単位のピッチから再生速度を計算する', () => {
+      playbackSettingsManager.setPitch(1, 7);
+      audioEngine.playSamples([1]);
+      expect(audioEngine['context'].createBufferSource().playbackRate.value).toBeCloseTo(Math.pow(2, 7 / 12));
+
+      playbackSettingsManager.setPitch(1, -24);
+      audioEngine.playSamples([1]);
+      expect(audioEngine['context'].createBufferSource().playbackRate.value).toBeCloseTo(0.25);
+    });
+
+    it('ノブの値を可変幅に対応させ、スナップが有効な場合は半音単位に丸める', () => {
+      // デフォルトの可変幅は±24半音
+      playbackSettingsManager.setSetting(1, 'pitch', 0.66);
+      expect(playbackSettingsManager.getPitch(1)).toBe(8);
+      expect(playbackSettingsManager.getSetting(1, 'pitch')).toBeCloseTo(32 / 48);
+
+      playbackSettingsManager.setPitchSnap(1, false);
+      playbackSettingsManager.setSetting(1, 'pitch', 0.66);
+      expect(playbackSettingsManager.getPitch(1)).toBeCloseTo(7.68);
+
+      // スナップを有効にすると現在のピッチも丸める
+      playbackSettingsManager.setPitchSnap(1, true);
+      expect(playbackSettingsManager.getPitch(1)).toBe(8);
+    });
+
+    it('可変幅を変えるとノブの値が変わり、範囲外のピッチは端の値になる', () => {
+      playbackSettingsManager.setPitch(1, 6);
+      playbackSettingsManager.setPitch(2, -20);
+      playbackSettingsManager.setPitchRange(12);
+
+      expect(playbackSettingsManager.getSetting(1, 'pitch')).toBe(0.75);
+      expect(playbackSettingsManager.getPitch(2)).toBe(-12);
+      expect(() => playbackSettingsManager.setPitch(1, 13)).toThrow();
+      expect(() => playbackSettingsManager.setPitchRange(0)).toThrow();
+    });
+
+    it('ピッチを半音とセントで表示する', () => {
+      expect(formatPitch(0)).toBe('0 st');
+      expect(formatPitch(7)).toBe('+7 st');
+      expect(formatPitch(-3.25)).toBe('-3 st 25 ct');
+      expect(formatPitch(0.3)).toBe('+30 ct');
+      expect(formatPitch(11.999)).toBe('+12 st');
+    });
+
+    it('マスターチャンネルにはピッチを設定できない', () => {
+      expect(() => playbackSettingsManager.setPitch(0, 1)).toThrow();
+      expect(() => playbackSettingsManager.setPitchSnap(0, false)).toThrow();
+    });
+  });
+
+  describe('エンベロープ', () => {
+    const getGainParam = (channelId: ChannelId) => audioEngine['sampleGains'].get(channelId)?.gain as any;
+
+    it('デフォルトでは開始から終了まで設定した音量で再生する', () => {
+      playbackSettingsManager.setSetting(1, 'volume', 0.8);
+      audioEngine.playSamples([1]);
+
+      const gainParam = getGainParam(1);
+      expect(gainParam.cancelScheduledValues).toHaveBeenCalled();
+      expect(gainParam.setValueAtTime).toHaveBeenCalledWith(0.8, 0);
+      expect(gainParam.linearRampToValueAtTime).toHaveBeenCalledTimes(1);
+      expect(gainParam.linearRampToValueAtTime).toHaveBeenCalledWith(0.8, 1);
+    });
+
+    it('アタック、ディケイ、サステイン、リリースをスケジュールする', () => {
+      playbackSettingsManager.setSetting(1, 'volume', 1.0);
+      playbackSettingsManager.setSetting(1, 'attack', 0.05);   // 0.1秒
+      playbackSettingsManager.setSetting(1, 'decay', 0.1);     // 0.2秒
+      playbackSettingsManager.setSetting(1, 'sustain', 0.5);
+      playbackSettingsManager.setSetting(1, 'release', 0.25);  // 0.5秒
+      audioEngine.playSamples([1]);
+
+      const gainParam = getGainParam(1);
+      expect(gainParam.setValueAtTime).toHaveBeenCalledWith(0, 0);
+      const ramps = gainParam.linearRampToValueAtTime.mock.calls;
+      expect(ramps[0]).toEqual([1.0, 0.1]);
+      expect(ramps[1][0]).toBeCloseTo(0.5);
+      expect(ramps[1][1]).toBeCloseTo(0.3);
+      expect(ramps[2]).toEqual([0.5, 0.5]);
+      expect(ramps[3]).toEqual([0, 1]);
+    });
+
+    it('リリースがアタックの途中から始まる場合はその時点の音量からフェードアウトする', () => {
+      playbackSettingsManager.setSetting(1, 'volume', 1.0);
+      playbackSettingsManager.setSetting(1, 'attack', 0.5);    // 1秒
+      playbackSettingsManager.setSetting(1, 'release', 0.25);  // 0.5秒
+      audioEngine.playSamples([1]);
+
+      const ramps = getGainParam(1).linearRampToValueAtTime.mock.calls;
+      expect(ramps).toEqual([[0.5, 0.5], [0, 1]]);
+    });
+
+    it('マスターチャンネルにはエンベロープを設定できない', () => {
+      expect(() => playbackSettingsManager.setSetting(0, 'attack', 0.5)).toThrow();
+    });
+  });
+
+  describe('レベルメーター', () => {
+    it('無音の場合は最小値を返す', () => {
+      expect(audioEngine.getMasterLevel()).toEqual({ peak: -60, rms: -60, channelRms: [-60, -60] });
+    });
+
+    it('波形からピークとRMSを計算する', () => {
+      analyserData = [0.5, -1, 0.5, 0];
+      const level = audioEngine.getChannelLevel(1);
+      expect(level.peak).toBeCloseTo(0);
+      expect(level.rms).toBeCloseTo(20 * Math.log10(Math.sqrt(1.5 / 4)));
+    });
+
+    it('チャンネルごとに計測し、逆相の成分が打ち消し合わない', () => {
+      const [left, right] = (audioEngine['channelMeters'].get(1) as LevelMeter)['analysers'];
+      (left.getFloatTimeDomainData as jest.Mock).mockImplementation((array: Float32Array) => array.fill(0.5));
+      (right.getFloatTimeDomainData as jest.Mock).mockImplementation((array: Float32Array) => array.fill(-0.25));
+
+      const level = audioEngine.getChannelLevel(1);
+      expect(level.peak).toBeCloseTo(20 * Math.log10(0.5));
+      expect(level.rms).toBeCloseTo(20 * Math.log10(0.5));
+      expect(level.channelRms[0]).toBeCloseTo(20 * Math.log10(0.5));
+      expect(level.channelRms[1]).toBeCloseTo(20 * Math.log10(0.25));
+    });
+
+    it('追加したチャンネルのメーターを取得でき、削除すると取得できなくなる', () => {
+      const channelId = audioEngine.addChannel();
+      expect(() => audioEngine.getChannelLevel(channelId)).not.toThrow();
+      audioEngine.removeChannel(channelId);
+      expect(() => audioEngine.getChannelLevel(channelId)).toThrow();
+    });
+
+    it('マスターチャンネルのメーターはチャンネルのメーターとしては取得できない', () => {
+      expect(() => audioEngine.getChannelLevel(0)).toThrow();
+    });
   });
 
   describe('エフェクトチェーンの接続', () => {
@@ -142,6 +572,334 @@ describe('AudioEngine', () => {
     });
   });
 
+  describe('レジストリに登録したエフェクトの追加', () => {
+    beforeEach(() => {
+      // 組み込みのリバーブを別の識別子で登録して使用する
+      defaultEffectRegistry.register({
+        type: 'roomReverb',
+        create: context => new Reverb(context),
+        parameters: [],
+        defaultValue: 0,
+        optional: true
+      });
+    });
+
+    afterEach(() => {
+      defaultEffectRegistry.unregister('roomReverb');
+    });
+
+    it('チャンネルでは組み込みのエフェクトの後ろに接続する', () => {
+      audioEngine.addEffect(1, 'roomReverb');
+      const effectChain = (audioEngine as any).effectChains.get(1);
+      const effect = audioEngine.getEffectsManager().getEffect(1, 'roomReverb');
+      expect(effectChain.getEffect('roomReverb')).toBe(effect);
+      expect(effectChain.effects[effectChain.effects.length - 1]).toBe(effect);
+    });
+
+    it('マスターではコンプレッサーとリミッターの手前に接続する', () => {
+      audioEngine.addEffect(0, 'roomReverb');
+      const effectChain = (audioEngine as any).effectChains.get(0);
+      const effectsManager = audioEngine.getEffectsManager();
+      expect(effectChain.effects.slice(-3)).toEqual([
+        effectsManager.getEffect(0, 'roomReverb'),
+        effectsManager.getEffect(0, 'compressor'),
+        effectsManager.getEffect(0, 'limiter')
+      ]);
+    });
+
+    it('登録されていない種類や存在しないチャンネルはエラーになる', () => {
+      expect(() => audioEngine.addEffect(1, 'phaser')).toThrow('エフェクトの追加に失敗しました');
+      expect(() => audioEngine.addEffect(9 as ChannelId, 'roomReverb')).toThrow('チャンネル 9 が見つかりません');
+    });
+  });
+
+  describe('エフェクトのバイパスと状態', () => {
+    it('エフェクトチェーン上でエフェクトをバイパスできる', () => {
+      audioEngine.setEffectBypassed(1, 'reverb', true);
+      expect(audioEngine.isEffectBypassed(1, 'reverb')).toBe(true);
+      expect(audioEngine.isEffectBypassed(2, 'reverb')).toBe(false);
+      expect(() => audioEngine.setEffectBypassed(9 as ChannelId, 'reverb', true)).toThrow('チャンネル 9 が見つかりません');
+    });
+
+    it('保存した状態から値、設定、バイパスを復元できる', async () => {
+      const effectsManager = audioEngine.getEffectsManager();
+      effectsManager.setFilterMode(2, 'bandpass');
+      effectsManager.setEffectValue(2, 'filter', 0.8);
+      effectsManager.setReverbType(0, 'hall');
+      audioEngine.setEffectBypassed(3, 'delay', true);
+      const state = JSON.parse(JSON.stringify(audioEngine.getEffectState()));
+
+      const restoredEngine = new AudioEngine(new PlaybackSettingManager());
+      restoredEngine.setEffectState(state);
+      const restoredManager = restoredEngine.getEffectsManager();
+      expect(restoredManager.getFilterSettings(2).mode).toBe('bandpass');
+      expect(restoredManager.getEffect(2, 'filter').getState().value).toBe(0.8);
+      expect(restoredManager.getReverbSettings(0).type).toBe('hall');
+      expect(restoredEngine.isEffectBypassed(3, 'delay')).toBe(true);
+      expect(restoredEngine.getEffectState()).toEqual(state);
+      await restoredEngine.dispose();
+    });
+
+    it('チャンネル構成が一致しない状態はエラーになる', () => {
+      const state = audioEngine.getEffectState();
+      audioEngine.removeChannel(2);
+      expect(() => audioEngine.setEffectState(state)).toThrow('エフェクトの状態のチャンネル構成が現在のチャンネルと一致しません');
+    });
+  });
+
+  describe('AudioEngineの状態', () => {
+    it('チャンネル構成、再生設定、エフェクトの状態を取得して別のエンジンに復元できる', async () => {
+      audioEngine.removeChannel(2);
+      audioEngine.addChannel(5);
+      audioEngine.updateMasterVolume(0.5);
+      playbackSettingsManager.setPitch(5, 7);
+      playbackSettingsManager.setReverse(3, true);
+      audioEngine.getEffectsManager().setEffectValue(5, 'reverb', 0.4);
+      const state = JSON.parse(JSON.stringify(audioEngine.getState()));
+
+      const restoredSettings = new PlaybackSettingManager();
+      const restoredEngine = new AudioEngine(restoredSettings);
+      restoredEngine.setState(state);
+      expect(restoredEngine.getChannelIds()).toEqual([1, 3, 5]);
+      expect(restoredEngine.getMasterVolume()).toBe(0.5);
+      expect(restoredSettings.getPitch(5)).toBe(7);
+      expect(restoredSettings.getReverse(3)).toBe(true);
+      expect(restoredEngine.getEffectsManager().getEffectValue(5, 'reverb')).toBe(0.4);
+      expect(restoredEngine.getState()).toEqual(state);
+      await restoredEngine.dispose();
+    });
+
+    it('指定したIDでチャンネルを追加できる', () => {
+      expect(audioEngine.addChannel(7)).toBe(7);
+      expect(audioEngine.getChannelIds()).toEqual([1, 2, 3, 7]);
+      expect(() => audioEngine.addChannel(7)).toThrow('チャンネル 7 は既に存在します');
+      expect(() => audioEngine.addChannel(0)).toThrow('無効なチャンネルIDです');
+    });
+
+    it('新しいバージョンの状態はエラーになる', () => {
+      const state = { ...audioEngine.getState(), version: 99 };
+      expect(() => audioEngine.setState(state)).toThrow('対応していない新しいバージョンの状態です');
+    });
+
+    it('再生設定とエフェクトのチャンネルが一致しない状態はエラーになる', () => {
+      const state = audioEngine.getState();
+      state.playback.channels = state.playback.channels.slice(1);
+      expect(() => audioEngine.setState(state)).toThrow('状態の復元に失敗しました');
+    });
+
+    it('途中で復元に失敗した場合はチャンネル構成、サンプル、再生設定、エフェクトの状態を元に戻す', async () => {
+      await audioEngine.loadSample(2, new ArrayBuffer(0));
+      playbackSettingsManager.setPitch(2, 5);
+      audioEngine.getEffectsManager().setEffectValue(2, 'reverb', 0.3);
+      const before = audioEngine.getState();
+      const sample = audioEngine['sampleBuffers'].get(2);
+
+      // チャンネル2をチャンネル5に置き換え、エフェクトのテンポだけ範囲外にする
+      const state = JSON.parse(JSON.stringify(before));
+      const replace = (channel: { channelId: ChannelId }) => {
+        if (channel.channelId === 2) {
+          channel.channelId = 5;
+        }
+      };
+      state.playback.channels.forEach(replace);
+      state.effects.effects.channels.forEach(replace);
+      state.effects.chains.forEach(replace);
+      state.effects.effects.tempo = 1000;
+
+      expect(() => audioEngine.setState(state)).toThrow('状態の復元に失敗しました');
+      expect(audioEngine.getChannelIds()).toEqual([1, 2, 3]);
+      expect(audioEngine['sampleBuffers'].get(2)).toBe(sample);
+      expect(audioEngine.getState()).toEqual(before);
+    });
+  });
+
+  describe('チャンネルの追加と削除', () => {
+    it('起動時は3チャンネルが存在する', () => {
+      expect(audioEngine.getChannelIds()).toEqual([1, 2, 3]);
+    });
+
+    it('チャンネルを追加すると新しいIDが割り当てられ、設定とエフェクトが作成される', () => {
+      const channelId = audioEngine.addChannel();
+      expect(channelId).toBe(4);
+      expect(audioEngine.getChannelIds()).toEqual([1, 2, 3, 4]);
+      expect(playbackSettingsManager.getChannelIds()).toContain(4);
+      expect(() => audioEngine.getEffectsManager().setFilterValue(4, 0.3)).not.toThrow();
+    });
+
+    it('チャンネル数の上限を超えて追加するとエラーになる', () => {
+      for (let i = 0; i < 5; i++) {
+        audioEngine.addChannel();
+      }
+      expect(() => audioEngine.addChannel()).toThrow('上限');
+    });
+
+    it('チャンネルを削除すると設定、エフェクト、サンプルが破棄される', () => {
+      audioEngine.removeChannel(2);
+      expect(audioEngine.getChannelIds()).toEqual([1, 3]);
+      expect(playbackSettingsManager.getChannelIds()).not.toContain(2);
+      expect(() => audioEngine.getEffectsManager().setFilterValue(2, 0.3)).toThrow();
+      expect(() => audioEngine.playSamples([2])).toThrow('チャンネル 2 が見つかりません');
+    });
+
+    it('マスターや存在しないチャンネルは削除できない', () => {
+      expect(() => audioEngine.removeChannel(0)).toThrow();
+      expect(() => audioEngine.removeChannel(9)).toThrow();
+    });
+  });
+
+  describe('ミックスダウンのレンダリング', () => {
+    let offlineSources: any[];
+    let renderedBuffer: any;
+
+    beforeEach(() => {
+      offlineSources = [];
+      renderedBuffer = { duration: 2, numberOfChannels: 2, sampleRate: 44100 };
+
+      // OfflineAudioContextのモックを設定
+      (window as any).OfflineAudioContext = jest.fn().mockImplementation(() => ({
+        createGain: jest.fn(() => ({
+          connect: jest.fn(),
+          disconnect: jest.fn(),
+          gain: createMockGainParam()
+        })),
+        createBiquadFilter: jest.fn(() => ({
+          connect: jest.fn(),
+          disconnect: jest.fn(),
+          frequency: createMockAudioParam(1000),
+          Q: createMockAudioParam(1),
+          gain: createMockAudioParam(0),
+          type: 'lowpass'
+        })),
+        createConvolver: jest.fn(() => ({
+          connect: jest.fn(),
+          disconnect: jest.fn(),
+          buffer: null
+        })),
+        createDelay: jest.fn(() => ({
+          connect: jest.fn(),
+          disconnect: jest.fn(),
+          delayTime: createMockAudioParam(0)
+        })),
+        createWaveShaper: jest.fn(() => ({
+          connect: jest.fn(),
+          disconnect: jest.fn(),
+          curve: null,
+          oversample: 'none'
+        })),
+        createDynamicsCompressor: jest.fn(() => ({
+          connect: jest.fn(),
+          disconnect: jest.fn(),
+          threshold: createMockAudioParam(-24),
+          ratio: createMockAudioParam(12),
+          attack: createMockAudioParam(0.003),
+          release: createMockAudioParam(0.25),
+          knee: createMockAudioParam(30),
+          reduction: 0
+        })),
+        createChannelSplitter: jest.fn(() => ({
+          connect: jest.fn(),
+          disconnect: jest.fn()
+        })),
+        createChannelMerger: jest.fn(() => ({
+          connect: jest.fn(),
+          disconnect: jest.fn()
+        })),
+        createBuffer: jest.fn((numberOfChannels: number, length: number, sampleRate: number) => ({
+          duration: length / sampleRate,
+          length,
+          numberOfChannels,
+          sampleRate,
+          copyToChannel: jest.fn()
+        })),
+        createBufferSource: jest.fn(() => {
+          const source = {
+            connect: jest.fn(),
+            disconnect: jest.fn(),
+            start: jest.fn(),
+            buffer: null,
+            playbackRate: { value: 1 }
+          };
+          offlineSources.push(source);
+          return source;
+        }),
+        startRendering: jest.fn().mockResolvedValue(renderedBuffer),
+        currentTime: 0,
+        sampleRate: 44100,
+        destination: {}
+      }));
+    });
+
+    it('レンダリング結果のAudioBufferを返す', async () => {
+      await expect(audioEngine.renderSamples([1, 2])).resolves.toBe(renderedBuffer);
+      expect(offlineSources).toHaveLength(2);
+    });
+
+    it('タイミング設定に応じて開始時刻がずれる', async () => {
+      playbackSettingsManager.setTimingOffset(2, 500);
+      await audioEngine.renderSamples([1, 2]);
+      expect(offlineSources[0].start).toHaveBeenCalledWith(0, 0, 1);
+      expect(offlineSources[1].start).toHaveBeenCalledWith(0.5, 0, 1);
+    });
+
+    it('負のタイミングのチャンネルを基準にして書き出す長さを計算する', async () => {
+      playbackSettingsManager.setTimingOffset(1, -250);
+      playbackSettingsManager.setTimingOffset(2, 500);
+      await audioEngine.renderSamples([1, 2]);
+      expect(offlineSources[0].start).toHaveBeenCalledWith(0, 0, 1);
+      expect(offlineSources[1].start).toHaveBeenCalledWith(0.75, 0, 1);
+      // 0.75秒 + 1秒のサンプル + 末尾の余白1秒
+      expect((window as any).OfflineAudioContext).toHaveBeenCalledWith(2, 2.75 * 44100, 44100);
+    });
+
+    it('ピッチ設定が再生速度と書き出す長さに反映される', async () => {
+      playbackSettingsManager.setPitch(1, -12);
+      await audioEngine.renderSamples([1]);
+      expect(offlineSources[0].playbackRate.value).toBe(0.5);
+      // 1秒のサンプルを半速で再生 → 2秒 + 末尾の余白1秒
+      expect((window as any).OfflineAudioContext).toHaveBeenCalledWith(2, 3 * 44100, 44100);
+    });
+
+    it('トリム設定が再生範囲と書き出す長さに反映される', async () => {
+      playbackSettingsManager.setSetting(1, 'trimStart', 0.25);
+      playbackSettingsManager.setSetting(1, 'trimEnd', 0.75);
+      await audioEngine.renderSamples([1]);
+      expect(offlineSources[0].start).toHaveBeenCalledWith(0, 0.25, 0.5);
+      // 0.5秒の範囲 + 末尾の余白1秒
+      expect((window as any).OfflineAudioContext).toHaveBeenCalledWith(2, 1.5 * 44100, 44100);
+    });
+
+    it('リバーブの残響が余白より長い場合は残響の分まで書き出す', async () => {
+      const effectsManager = audioEngine.getEffectsManager();
+      effectsManager.setEffectValue(1, 'reverb', 0.5);
+      effectsManager.setReverbParameter(1, 'decay', 1);
+      const tailSeconds = effectsManager.getTailSeconds();
+      expect(tailSeconds).toBeGreaterThan(4.8);
+
+      await audioEngine.renderSamples([1]);
+      expect((window as any).OfflineAudioContext).toHaveBeenCalledWith(2, Math.ceil((1 + tailSeconds) * 44100), 44100);
+    });
+
+    it('マスターのエフェクトチェーンにコンプレッサーとリミッターを接続し、リミッターは初期状態で有効になる', async () => {
+      await audioEngine.renderSamples([1]);
+      const offlineContext = (window as any).OfflineAudioContext.mock.results[0].value;
+      const [compressorNode, limiterNode] = offlineContext.createDynamicsCompressor.mock.results.map((result: any) => result.value);
+      expect(offlineContext.createDynamicsCompressor).toHaveBeenCalledTimes(2);
+      // コンプレッサーはバイパス中（スレッショルド0dBFS）、リミッターはシーリング0dBFS
+      // （レンダリングではパラメータを即座に切り替える）
+      expect(compressorNode.threshold.setValueAtTime).toHaveBeenLastCalledWith(0, 0);
+      expect(limiterNode.threshold.setValueAtTime).toHaveBeenLastCalledWith(0, 0);
+      expect(limiterNode.ratio.value).toBe(20);
+    });
+
+    it('存在しないサンプルをレンダリングしようとするとエラーになる', async () => {
+      await expect(audioEngine.renderSamples([4 as ChannelId])).rejects.toThrow('チャンネル 4 が見つかりません');
+    });
+
+    it('チャンネルが指定されていない場合はエラーになる', async () => {
+      await expect(audioEngine.renderSamples([])).rejects.toThrow();
+    });
+  });
+
   describe('PlaybackSettingManagerとの連携', () => {
     it('音量設定を取得できる', () => {
       expect(audioEngine.getSampleVolume(1)).toBeDefined();
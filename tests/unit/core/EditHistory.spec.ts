@@ -0,0 +1,143 @@
+/**
+ * @file EditHistory.spec.ts
+ * @brief EditHistoryクラスのテスト
+ * @details
+ * - 元に戻す/やり直すテスト
+ * - 連続した変更をまとめるテスト
+ * - 履歴の上限と破棄のテスト
+ * - 記録の取り消しのテスト
+ * - 無効なオプションのエラー処理テスト
+ */
+
+import { EditHistory } from '@/core/EditHistory';
+import { HISTORY_COALESCE_MS } from '@/core/audioConstants';
+
+describe('EditHistory', () => {
+  let time: number;
+  let history: EditHistory<number>;
+
+  beforeEach(() => {
+    time = 0;
+    history = new EditHistory<number>({ now: () => time });
+  });
+
+  describe('元に戻す/やり直す', () => {
+    it('記録した状態に戻し、戻す前の状態にやり直せること', () => {
+      history.record(() => 1);
+      history.record(() => 2);
+      expect(history.undo(3)).toBe(2);
+      expect(history.undo(2)).toBe(1);
+      expect(history.canUndo()).toBe(false);
+      expect(history.redo(1)).toBe(2);
+      expect(history.redo(2)).toBe(3);
+      expect(history.canRedo()).toBe(false);
+    });
+
+    it('操作がない場合はnullを返すこと', () => {
+      expect(history.undo(1)).toBeNull();
+      expect(history.redo(1)).toBeNull();
+    });
+
+    it('新しく記録するとやり直せる操作を破棄すること', () => {
+      history.record(() => 1);
+      history.undo(2);
+      expect(history.canRedo()).toBe(true);
+      history.record(() => 1);
+      expect(history.canRedo()).toBe(false);
+    });
+  });
+
+  describe('連続した変更', () => {
+    it('同じ種類の変更が間隔内に続く場合は1つの操作にまとめること', () => {
+      const capture = jest.fn(() => 1);
+      history.record(capture, 'volume:1');
+      time += HISTORY_COALESCE_MS;
+      history.record(capture, 'volume:1');
+      time += HISTORY_COALESCE_MS;
+      history.record(capture, 'volume:1');
+      expect(capture).toHaveBeenCalledTimes(1);
+      expect(history.undo(2)).toBe(1);
+      expect(history.canUndo()).toBe(false);
+    });
+
+    it('間隔が空いた場合、種類が異なる場合、種類を省略した場合はまとめないこと', () => {
+      history.record(() => 1, 'volume:1');
+      time += HISTORY_COALESCE_MS + 1;
+      history.record(() => 2, 'volume:1');
+      history.record(() => 3, 'volume:2');
+      history.record(() => 4);
+      history.record(() => 5);
+      expect([history.undo(6), history.undo(5), history.undo(4), history.undo(3), history.undo(2)])
+        .toEqual([5, 4, 3, 2, 1]);
+    });
+
+    it('元に戻した後とendCoalescingの後はまとめないこと', () => {
+      history.record(() => 1, 'volume:1');
+      history.record(() => 2, 'volume:2');
+      history.undo(3);
+      history.record(() => 2, 'volume:2');
+      history.endCoalescing();
+      history.record(() => 4, 'volume:2');
+      expect([history.undo(5), history.undo(4), history.undo(2)]).toEqual([4, 2, 1]);
+    });
+  });
+
+  describe('履歴の上限と破棄', () => {
+    it('上限を超えると古い操作から破棄すること', () => {
+      const limited = new EditHistory<number>({ maxSteps: 2 });
+      limited.record(() => 1);
+      limited.record(() => 2);
+      limited.record(() => 3);
+      expect(limited.undo(4)).toBe(3);
+      expect(limited.undo(3)).toBe(2);
+      expect(limited.canUndo()).toBe(false);
+    });
+
+    it('全ての履歴を破棄できること', () => {
+      history.record(() => 1);
+      history.record(() => 2);
+      history.undo(3);
+      history.clear();
+      expect(history.canUndo()).toBe(false);
+      expect(history.canRedo()).toBe(false);
+    });
+
+    it('無効なオプションはエラーになること', () => {
+      expect(() => new EditHistory({ maxSteps: 0 })).toThrow('元に戻せる操作の最大数が無効です');
+      expect(() => new EditHistory({ coalesceMs: -1 })).toThrow('操作をまとめる間隔が無効です');
+    });
+  });
+
+  describe('記録の取り消し', () => {
+    it('直前の記録を取り消し、破棄したやり直せる操作を戻すこと', () => {
+      history.record(() => 1);
+      history.undo(2);
+      history.record(() => 1);
+      history.cancelRecord();
+      expect(history.canUndo()).toBe(false);
+      expect(history.redo(1)).toBe(2);
+    });
+
+    it('上限を超えて破棄した古い操作を戻すこと', () => {
+      const limited = new EditHistory<number>({ maxSteps: 2 });
+      limited.record(() => 1);
+      limited.record(() => 2);
+      limited.record(() => 3);
+      limited.cancelRecord();
+      expect([limited.undo(3), limited.undo(2)]).toEqual([2, 1]);
+    });
+
+    it('前の操作にまとめた記録や、元に戻した後は何もしないこと', () => {
+      history.record(() => 1, 'volume:1');
+      history.record(() => 2, 'volume:1');
+      history.cancelRecord();
+      expect(history.canUndo()).toBe(true);
+
+      history.record(() => 3);
+      history.undo(4);
+      history.cancelRecord();
+      expect(history.canRedo()).toBe(true);
+      expect(history.undo(3)).toBe(1);
+    });
+  });
+});
@@ -5,24 +5,181 @@
  * - エフェクトの初期化テスト
  * - エフェクトの値の設定テスト
  * - エフェクトの取得テスト
+ * - パラメータの変化の予約テスト
+ * - フィルターの設定テスト
+ * - リバーブの設定テスト
+ * - ディレイの設定テスト
+ * - ディストーションの設定テスト
+ * - イコライザーの設定テスト
+ * - マスターのコンプレッサーとリミッターの設定テスト
+ * - レジストリに登録したエフェクトの追加テスト
+ * - 状態の取得と復元テスト
  * - エラー処理のテスト
  */
 
 import { EffectsManager } from '@/core/EffectsManager';
 import { ChannelId, EffectType } from '@/core/EffectsManager';
-import { Filter } from '@/effects/Filter';
+import { Filter, FILTER_DEFAULT_SETTINGS } from '@/effects/Filter';
+import { Reverb, REVERB_DEFAULT_SETTINGS } from '@/effects/Reverb';
+import { Delay, DELAY_DEFAULT_SETTINGS } from '@/effects/Delay';
+import { Distortion, DISTORTION_DEFAULT_SETTINGS } from '@/effects/Distortion';
+import { Equalizer, EQUALIZER_DEFAULT_SETTINGS, EQUALIZER_RESPONSE_FREQUENCIES } from '@/effects/Equalizer';
+import { Compressor, COMPRESSOR_DEFAULT_SETTINGS } from '@/effects/Compressor';
+import { Limiter, LIMITER_DEFAULT_SETTINGS } from '@/effects/Limiter';
+import { createBuiltinEffectRegistry } from '@/effects/builtinEffects';
+import { BaseEffect, EffectState, EFFECT_STATE_VERSION } from '@/effects/base/BaseEffect';
 
-// Filterのモックを作成
+// エフェクトの状態のモック（setStateで渡した状態をgetStateで返す）
+const mockEffectState = (settings: object) => {
+  let state: EffectState = { version: 1, value: 0, settings };
+  return {
+    getState: jest.fn(() => state),
+    setState: jest.fn((next: EffectState) => {
+      state = next;
+    })
+  };
+};
+
+// Filterのモックを作成（デフォルト設定などの定数は実装のものを使用）
 jest.mock('@/effects/Filter', () => {
   const mockFilter = jest.fn().mockImplementation(() => ({
     updateEffect: jest.fn(),
+    setMode: jest.fn(),
+    setSlope: jest.fn(),
+    setParameter: jest.fn(),
+    setSettings: jest.fn(),
+    getLabel: jest.fn().mockReturnValue('BYPASS'),
+    getTailSeconds: jest.fn().mockReturnValue(0),
+    setParameterRamp: jest.fn(),
+    scheduleParameter: jest.fn(),
+    ...mockEffectState(jest.requireActual('@/effects/Filter').FILTER_DEFAULT_SETTINGS),
     dispose: jest.fn()
   }));
   return {
+    ...jest.requireActual('@/effects/Filter'),
     Filter: mockFilter
   };
 });
 
+// Reverbのモックを作成（デフォルト設定などの定数は実装のものを使用）
+jest.mock('@/effects/Reverb', () => {
+  const mockReverb = jest.fn().mockImplementation(() => ({
+    updateEffect: jest.fn(),
+    setType: jest.fn(),
+    setParameter: jest.fn(),
+    setSettings: jest.fn(),
+    getTailSeconds: jest.fn().mockReturnValue(0),
+    setParameterRamp: jest.fn(),
+    scheduleParameter: jest.fn(),
+    ...mockEffectState(jest.requireActual('@/effects/Reverb').REVERB_DEFAULT_SETTINGS),
+    dispose: jest.fn()
+  }));
+  return {
+    ...jest.requireActual('@/effects/Reverb'),
+    Reverb: mockReverb
+  };
+});
+
+// Delayのモックを作成（デフォルト設定などの定数は実装のものを使用）
+jest.mock('@/effects/Delay', () => {
+  const mockDelay = jest.fn().mockImplementation(() => ({
+    updateEffect: jest.fn(),
+    setParameter: jest.fn(),
+    setSync: jest.fn(),
+    setNoteValue: jest.fn(),
+    setPingPong: jest.fn(),
+    setTempo: jest.fn(),
+    setSettings: jest.fn(),
+    getTailSeconds: jest.fn().mockReturnValue(0),
+    setParameterRamp: jest.fn(),
+    scheduleParameter: jest.fn(),
+    ...mockEffectState(jest.requireActual('@/effects/Delay').DELAY_DEFAULT_SETTINGS),
+    dispose: jest.fn()
+  }));
+  return {
+    ...jest.requireActual('@/effects/Delay'),
+    Delay: mockDelay
+  };
+});
+
+// Distortionのモックを作成（デフォルト設定などの定数は実装のものを使用）
+jest.mock('@/effects/Distortion', () => {
+  const mockDistortion = jest.fn().mockImplementation(() => ({
+    updateEffect: jest.fn(),
+    setCurve: jest.fn(),
+    setParameter: jest.fn(),
+    setOversample: jest.fn(),
+    setSettings: jest.fn(),
+    getTailSeconds: jest.fn().mockReturnValue(0),
+    setParameterRamp: jest.fn(),
+    scheduleParameter: jest.fn(),
+    ...mockEffectState(jest.requireActual('@/effects/Distortion').DISTORTION_DEFAULT_SETTINGS),
+    dispose: jest.fn()
+  }));
+  return {
+    ...jest.requireActual('@/effects/Distortion'),
+    Distortion: mockDistortion
+  };
+});
+
+// Equalizerのモックを作成（デフォルト設定などの定数は実装のものを使用）
+jest.mock('@/effects/Equalizer', () => {
+  const mockEqualizer = jest.fn().mockImplementation(() => ({
+    updateEffect: jest.fn(),
+    setBandParameter: jest.fn(),
+    setPeakCount: jest.fn(),
+    setSettings: jest.fn(),
+    getFrequencyResponse: jest.fn((frequencies: Float32Array) => new Float32Array(frequencies.length)),
+    getTailSeconds: jest.fn().mockReturnValue(0),
+    setParameterRamp: jest.fn(),
+    scheduleParameter: jest.fn(),
+    ...mockEffectState(jest.requireActual('@/effects/Equalizer').EQUALIZER_DEFAULT_SETTINGS),
+    dispose: jest.fn()
+  }));
+  return {
+    ...jest.requireActual('@/effects/Equalizer'),
+    Equalizer: mockEqualizer
+  };
+});
+
+// Compressorのモックを作成（デフォルト設定などの定数は実装のものを使用）
+jest.mock('@/effects/Compressor', () => {
+  const mockCompressor = jest.fn().mockImplementation(() => ({
+    updateEffect: jest.fn(),
+    setParameter: jest.fn(),
+    setSettings: jest.fn(),
+    getReduction: jest.fn().mockReturnValue(0),
+    getTailSeconds: jest.fn().mockReturnValue(0),
+    setParameterRamp: jest.fn(),
+    scheduleParameter: jest.fn(),
+    ...mockEffectState(jest.requireActual('@/effects/Compressor').COMPRESSOR_DEFAULT_SETTINGS),
+    dispose: jest.fn()
+  }));
+  return {
+    ...jest.requireActual('@/effects/Compressor'),
+    Compressor: mockCompressor
+  };
+});
+
+// Limiterのモックを作成（デフォルト設定などの定数は実装のものを使用）
+jest.mock('@/effects/Limiter', () => {
+  const mockLimiter = jest.fn().mockImplementation(() => ({
+    updateEffect: jest.fn(),
+    setParameter: jest.fn(),
+    setSettings: jest.fn(),
+    getReduction: jest.fn().mockReturnValue(0),
+    getTailSeconds: jest.fn().mockReturnValue(0),
+    setParameterRamp: jest.fn(),
+    scheduleParameter: jest.fn(),
+    ...mockEffectState(jest.requireActual('@/effects/Limiter').LIMITER_DEFAULT_SETTINGS),
+    dispose: jest.fn()
+  }));
+  return {
+    ...jest.requireActual('@/effects/Limiter'),
+    Limiter: mockLimiter
+  };
+});
+
 // AudioContextのモックを作成
 const mockAudioContext = {
   createGain: jest.fn(() => ({
@@ -62,7 +219,7 @@ describe('EffectsManager', () => {
   describe('getEffect', () => {
     it('有効なチャンネル識別子とエフェクトタイプを指定するとエフェクトを取得できる', () => {
       const channelIds: ChannelId[] = [0, 1, 2, 3];
-      const effectTypes: EffectType[] = ['filter', 'reverb', 'delay', 'distortion'];
+      const effectTypes: EffectType[] = ['filter', 'reverb', 'delay', 'distortion', 'equalizer'];
       channelIds.forEach(channelId => {
         effectTypes.forEach(effectType => {
           expect(() => effectsManager.getEffect(channelId, effectType)).not.toThrow();
@@ -82,7 +239,7 @@ describe('EffectsManager', () => {
   describe('setEffectValue', () => {
     it('有効なチャンネル識別子とエフェクトタイプを指定すると値を設定できる', () => {
       const channelIds: ChannelId[] = [0, 1, 2, 3];
-      const effectTypes: EffectType[] = ['filter', 'reverb', 'delay', 'distortion'];
+      const effectTypes: EffectType[] = ['filter', 'reverb', 'delay', 'distortion', 'equalizer'];
       channelIds.forEach(channelId => {
         effectTypes.forEach(effectType => {
           expect(() => effectsManager.setEffectValue(channelId, effectType, 0.5)).not.toThrow();
@@ -99,6 +256,467 @@ describe('EffectsManager', () => {
     });
   });
 
+  describe('getEffectValue', () => {
+    it('最後に設定した値を取得できる', () => {
+      expect(effectsManager.getEffectValue(1, 'filter')).toBe(0.5);
+      effectsManager.setEffectValue(1, 'filter', 0.2);
+      expect(effectsManager.getEffectValue(1, 'filter')).toBe(0.2);
+    });
+
+    it('無効なチャンネル識別子やエフェクトタイプを指定するとエラーになる', () => {
+      expect(() => effectsManager.getEffectValue(4 as ChannelId, 'filter')).toThrow('無効なチャンネル識別子です');
+      expect(() => effectsManager.getEffectValue(1, 'invalid' as EffectType)).toThrow('エフェクトが見つかりません');
+    });
+  });
+
+  describe('scheduleEffectParameter', () => {
+    it('エフェクトにパラメータの変化の予約を渡す', () => {
+      effectsManager.scheduleEffectParameter(1, 'filter', 'frequency', 440, { type: 'linear', time: 0.5, startTime: 2 });
+      expect(effectsManager.getEffect(1, 'filter').scheduleParameter)
+        .toHaveBeenCalledWith('frequency', 440, { type: 'linear', time: 0.5, startTime: 2 });
+    });
+
+    it('予約に失敗した場合はエラーになる', () => {
+      const filter = effectsManager.getEffect(1, 'filter');
+      (filter.scheduleParameter as jest.Mock).mockImplementation(() => {
+        throw new Error('変化を予約できないパラメータです: resonance');
+      });
+      expect(() => effectsManager.scheduleEffectParameter(1, 'filter', 'resonance', 0.5))
+        .toThrow('パラメータの変化の予約に失敗しました: 変化を予約できないパラメータです: resonance');
+    });
+
+    it('無効なエフェクトタイプを指定するとエラーになる', () => {
+      expect(() => effectsManager.scheduleEffectParameter(1, 'invalid' as EffectType, 'frequency', 440)).toThrow();
+    });
+  });
+
+  describe('フィルターの設定', () => {
+    it('初期状態ではデフォルトの設定になっている', () => {
+      expect(effectsManager.getFilterSettings(1)).toEqual(FILTER_DEFAULT_SETTINGS);
+    });
+
+    it('フィルターのモード、スロープ、レゾナンスを設定できる', () => {
+      effectsManager.setFilterMode(1, 'notch');
+      effectsManager.setFilterSlope(1, 48);
+      effectsManager.setFilterParameter(1, 'resonance', 0.7);
+      const filter = effectsManager.getEffect(1, 'filter') as Filter;
+      expect(filter.setMode).toHaveBeenCalledWith('notch');
+      expect(filter.setSlope).toHaveBeenCalledWith(48);
+      expect(filter.setParameter).toHaveBeenCalledWith('resonance', 0.7);
+      expect(effectsManager.getFilterSettings(1)).toEqual({ mode: 'notch', slope: 48, resonance: 0.7 });
+    });
+
+    it('フィルターの表示用のラベルを取得できる', () => {
+      expect(effectsManager.getFilterLabel(1)).toBe('BYPASS');
+      expect((effectsManager.getEffect(1, 'filter') as Filter).getLabel).toHaveBeenCalled();
+    });
+
+    it('設定に失敗した場合はエラーになる', () => {
+      const filter = effectsManager.getEffect(1, 'filter') as Filter;
+      (filter.setSlope as jest.Mock).mockImplementation(() => {
+        throw new Error('無効なスロープです');
+      });
+      expect(() => effectsManager.setFilterSlope(1, 24)).toThrow('フィルターのスロープの設定に失敗しました');
+      expect(effectsManager.getFilterSettings(1).slope).toBe(FILTER_DEFAULT_SETTINGS.slope);
+    });
+
+    it('無効なチャンネル識別子を指定するとエラーになる', () => {
+      expect(() => effectsManager.setFilterMode(4 as ChannelId, 'bandpass')).toThrow();
+      expect(() => effectsManager.getFilterSettings(4 as ChannelId)).toThrow();
+    });
+  });
+
+  describe('リバーブの設定', () => {
+    it('初期状態ではデフォルトの設定になっている', () => {
+      expect(effectsManager.getReverbSettings(1)).toEqual(REVERB_DEFAULT_SETTINGS);
+    });
+
+    it('リバーブの種類を設定できる', () => {
+      effectsManager.setReverbType(1, 'hall');
+      expect((effectsManager.getEffect(1, 'reverb') as Reverb).setType).toHaveBeenCalledWith('hall');
+      expect(effectsManager.getReverbSettings(1).type).toBe('hall');
+    });
+
+    it('リバーブのパラメータを設定できる', () => {
+      effectsManager.setReverbParameter(1, 'decay', 0.8);
+      expect((effectsManager.getEffect(1, 'reverb') as Reverb).setParameter).toHaveBeenCalledWith('decay', 0.8);
+      expect(effectsManager.getReverbSettings(1).decay).toBe(0.8);
+    });
+
+    it('取得した設定を変更しても内部の設定は変わらない', () => {
+      effectsManager.getReverbSettings(1).size = 1;
+      expect(effectsManager.getReverbSettings(1).size).toBe(REVERB_DEFAULT_SETTINGS.size);
+    });
+
+    it('無効なチャンネル識別子を指定するとエラーになる', () => {
+      expect(() => effectsManager.setReverbType(4 as ChannelId, 'hall')).toThrow();
+      expect(() => effectsManager.getReverbSettings(4 as ChannelId)).toThrow();
+    });
+
+  });
+
+  describe('ディレイの設定', () => {
+    it('初期状態ではデフォルトの設定とテンポになっている', () => {
+      expect(effectsManager.getDelaySettings(1)).toEqual(DELAY_DEFAULT_SETTINGS);
+      expect(effectsManager.getTempo()).toBe(120);
+    });
+
+    it('ディレイのパラメータと同期・ピンポンを設定できる', () => {
+      const delay = effectsManager.getEffect(1, 'delay') as Delay;
+      effectsManager.setDelayParameter(1, 'feedback', 0.7);
+      effectsManager.setDelaySync(1, true);
+      effectsManager.setDelayNoteValue(1, '1/8d');
+      effectsManager.setDelayPingPong(1, true);
+      expect(delay.setParameter).toHaveBeenCalledWith('feedback', 0.7);
+      expect(delay.setSync).toHaveBeenCalledWith(true);
+      expect(delay.setNoteValue).toHaveBeenCalledWith('1/8d');
+      expect(delay.setPingPong).toHaveBeenCalledWith(true);
+      expect(effectsManager.getDelaySettings(1)).toMatchObject({ feedback: 0.7, sync: true, noteValue: '1/8d', pingPong: true });
+    });
+
+    it('テンポを全チャンネルのディレイに設定できる', () => {
+      effectsManager.setTempo(90);
+      expect(effectsManager.getTempo()).toBe(90);
+      effectsManager.getChannelIds().forEach(channelId => {
+        expect((effectsManager.getEffect(channelId, 'delay') as Delay).setTempo).toHaveBeenCalledWith(90);
+      });
+    });
+
+    it('無効なチャンネル識別子を指定するとエラーになる', () => {
+      expect(() => effectsManager.setDelayParameter(4 as ChannelId, 'time', 0.5)).toThrow();
+      expect(() => effectsManager.getDelaySettings(4 as ChannelId)).toThrow();
+    });
+  });
+
+  describe('ディストーションの設定', () => {
+    it('初期状態ではデフォルトの設定になっている', () => {
+      expect(effectsManager.getDistortionSettings(1)).toEqual(DISTORTION_DEFAULT_SETTINGS);
+    });
+
+    it('ディストーションのカーブ、パラメータ、オーバーサンプリングを設定できる', () => {
+      const distortion = effectsManager.getEffect(1, 'distortion') as Distortion;
+      effectsManager.setDistortionCurve(1, 'foldback');
+      effectsManager.setDistortionParameter(1, 'tone', 0.3);
+      effectsManager.setDistortionOversample(1, '4x');
+      expect(distortion.setCurve).toHaveBeenCalledWith('foldback');
+      expect(distortion.setParameter).toHaveBeenCalledWith('tone', 0.3);
+      expect(distortion.setOversample).toHaveBeenCalledWith('4x');
+      expect(effectsManager.getDistortionSettings(1)).toMatchObject({ curve: 'foldback', tone: 0.3, oversample: '4x' });
+    });
+
+    it('設定に失敗した場合は設定を変更しない', () => {
+      const distortion = effectsManager.getEffect(1, 'distortion') as Distortion;
+      (distortion.setCurve as jest.Mock).mockImplementation(() => {
+        throw new Error('無効なカーブの種類です');
+      });
+      expect(() => effectsManager.setDistortionCurve(1, 'invalid' as any)).toThrow('ディストーションのカーブの設定に失敗しました');
+      expect(effectsManager.getDistortionSettings(1).curve).toBe(DISTORTION_DEFAULT_SETTINGS.curve);
+    });
+
+    it('無効なチャンネル識別子を指定するとエラーになる', () => {
+      expect(() => effectsManager.setDistortionParameter(4 as ChannelId, 'output', 0.5)).toThrow();
+      expect(() => effectsManager.getDistortionSettings(4 as ChannelId)).toThrow();
+    });
+  });
+
+  describe('イコライザーの設定', () => {
+    it('初期状態ではデフォルトの設定になっている', () => {
+      expect(effectsManager.getEqualizerSettings(1)).toEqual(EQUALIZER_DEFAULT_SETTINGS);
+    });
+
+    it('バンドのパラメータとバンド数を設定できる', () => {
+      const equalizer = effectsManager.getEffect(1, 'equalizer') as Equalizer;
+      effectsManager.setEqualizerBandParameter(1, 'peak2', 'gain', 0.8);
+      effectsManager.setEqualizerPeakCount(1, 3);
+      expect(equalizer.setBandParameter).toHaveBeenCalledWith('peak2', 'gain', 0.8);
+      expect(equalizer.setPeakCount).toHaveBeenCalledWith(3);
+      const settings = effectsManager.getEqualizerSettings(1);
+      expect(settings.peakCount).toBe(3);
+      expect(settings.bands.peak2.gain).toBe(0.8);
+      // 他のチャンネルの設定は変わらない
+      expect(effectsManager.getEqualizerSettings(2)).toEqual(EQUALIZER_DEFAULT_SETTINGS);
+    });
+
+    it('取得した設定を変更しても内部の設定は変わらない', () => {
+      effectsManager.getEqualizerSettings(1).bands.lowShelf.gain = 1;
+      expect(effectsManager.getEqualizerSettings(1).bands.lowShelf.gain).toBe(EQUALIZER_DEFAULT_SETTINGS.bands.lowShelf.gain);
+    });
+
+    it('設定に失敗した場合は設定を変更しない', () => {
+      const equalizer = effectsManager.getEffect(1, 'equalizer') as Equalizer;
+      (equalizer.setPeakCount as jest.Mock).mockImplementation(() => {
+        throw new Error('無効なバンド数です');
+      });
+      expect(() => effectsManager.setEqualizerPeakCount(1, 5)).toThrow('イコライザーのバンド数の設定に失敗しました');
+      expect(effectsManager.getEqualizerSettings(1).peakCount).toBe(EQUALIZER_DEFAULT_SETTINGS.peakCount);
+    });
+
+    it('周波数特性のカーブを取得できる', () => {
+      const equalizer = effectsManager.getEffect(1, 'equalizer') as Equalizer;
+      expect(effectsManager.getEqualizerResponse(1)).toHaveLength(EQUALIZER_RESPONSE_FREQUENCIES.length);
+      expect(equalizer.getFrequencyResponse).toHaveBeenCalledWith(EQUALIZER_RESPONSE_FREQUENCIES);
+    });
+
+    it('無効なチャンネル識別子を指定するとエラーになる', () => {
+      expect(() => effectsManager.setEqualizerPeakCount(4 as ChannelId, 2)).toThrow();
+      expect(() => effectsManager.getEqualizerSettings(4 as ChannelId)).toThrow();
+    });
+  });
+
+  describe('コンプレッサーとリミッターの設定', () => {
+    it('マスターにのみ作成される', () => {
+      expect(() => effectsManager.getEffect(0, 'compressor')).not.toThrow();
+      expect(() => effectsManager.getEffect(0, 'limiter')).not.toThrow();
+      expect(() => effectsManager.getEffect(1, 'compressor')).toThrow();
+      expect(() => effectsManager.getEffect(1, 'limiter')).toThrow();
+    });
+
+    it('初期状態ではデフォルトの設定になっている', () => {
+      expect(effectsManager.getCompressorSettings()).toEqual(COMPRESSOR_DEFAULT_SETTINGS);
+      expect(effectsManager.getLimiterSettings()).toEqual(LIMITER_DEFAULT_SETTINGS);
+    });
+
+    it('コンプレッサーとリミッターのパラメータを設定できる', () => {
+      effectsManager.setCompressorParameter('ratio', 0.8);
+      effectsManager.setLimiterParameter('release', 0.2);
+      expect((effectsManager.getEffect(0, 'compressor') as Compressor).setParameter).toHaveBeenCalledWith('ratio', 0.8);
+      expect((effectsManager.getEffect(0, 'limiter') as Limiter).setParameter).toHaveBeenCalledWith('release', 0.2);
+      expect(effectsManager.getCompressorSettings().ratio).toBe(0.8);
+      expect(effectsManager.getLimiterSettings().release).toBe(0.2);
+    });
+
+    it('ゲインリダクションを取得できる', () => {
+      ((effectsManager.getEffect(0, 'compressor') as Compressor).getReduction as jest.Mock).mockReturnValue(-4.5);
+      expect(effectsManager.getGainReduction('compressor')).toBe(-4.5);
+      expect(effectsManager.getGainReduction('limiter')).toBe(0);
+    });
+  });
+
+  describe('getTailSeconds', () => {
+    it('チャンネルごとに直列のエフェクトの残響を合計し、その最大値にマスターの残響を加えた長さを返す', () => {
+      ((effectsManager.getEffect(0, 'reverb') as Reverb).getTailSeconds as jest.Mock).mockReturnValue(2);
+      ((effectsManager.getEffect(1, 'reverb') as Reverb).getTailSeconds as jest.Mock).mockReturnValue(1);
+      ((effectsManager.getEffect(1, 'delay') as Delay).getTailSeconds as jest.Mock).mockReturnValue(2.5);
+      ((effectsManager.getEffect(2, 'reverb') as Reverb).getTailSeconds as jest.Mock).mockReturnValue(3);
+      expect(effectsManager.getTailSeconds()).toBe(5.5);
+    });
+  });
+
+  describe('addChannel / removeChannel', () => {
+    it('チャンネルを追加するとエフェクトが作成される', () => {
+      effectsManager.addChannel(4);
+      expect(effectsManager.getChannelIds()).toEqual([0, 1, 2, 3, 4]);
+      expect(() => effectsManager.getEffect(4, 'filter')).not.toThrow();
+    });
+
+    it('既に存在するチャンネルは追加できない', () => {
+      expect(() => effectsManager.addChannel(1)).toThrow();
+    });
+
+    it('チャンネルを削除するとエフェクトが破棄される', () => {
+      const effect = effectsManager.getEffect(2, 'filter');
+      effectsManager.removeChannel(2);
+      expect(effect.dispose).toHaveBeenCalled();
+      expect(() => effectsManager.getEffect(2, 'filter')).toThrow();
+    });
+
+    it('マスターチャンネルは削除できない', () => {
+      expect(() => effectsManager.removeChannel(0)).toThrow();
+    });
+  });
+
+  describe('レジストリに登録したエフェクトの追加', () => {
+    const createTestEffect = () => ({
+      updateEffect: jest.fn(),
+      getTailSeconds: jest.fn().mockReturnValue(0),
+      setParameterRamp: jest.fn(),
+      ...mockEffectState({}),
+      dispose: jest.fn()
+    }) as unknown as BaseEffect;
+
+    let manager: EffectsManager;
+
+    beforeEach(() => {
+      const registry = createBuiltinEffectRegistry();
+      registry.register({ type: 'chorus', create: createTestEffect, parameters: [], defaultValue: 0.3, optional: true });
+      manager = new EffectsManager(mockContext, registry);
+    });
+
+    afterEach(() => {
+      manager.dispose();
+    });
+
+    it('組み込みのエフェクトはレジストリの登録順に作成される', () => {
+      expect(manager.getEffectTypes(1)).toEqual(['filter', 'reverb', 'delay', 'distortion', 'equalizer']);
+      expect(manager.getEffectTypes(0)).toEqual([
+        'filter', 'reverb', 'delay', 'distortion', 'equalizer', 'compressor', 'limiter'
+      ]);
+    });
+
+    it('登録した種類のエフェクトをチャンネルに追加し、値を設定できる', () => {
+      const effect = manager.addEffect(1, 'chorus');
+      expect(manager.getEffect(1, 'chorus')).toBe(effect);
+      expect(manager.getEffectTypes(1)).toContain('chorus');
+      manager.setEffectValue(1, 'chorus', 0.8);
+      expect(effect.updateEffect).toHaveBeenCalledWith(0.8);
+    });
+
+    it('登録されていない種類や追加済みの種類はエラーになる', () => {
+      expect(() => manager.addEffect(1, 'phaser')).toThrow('エフェクトの追加に失敗しました');
+      expect(() => manager.addEffect(1, 'filter')).toThrow('既に追加されています');
+      expect(() => manager.addEffect(4 as ChannelId, 'chorus')).toThrow();
+    });
+
+    it('マスターにのみ作成する種類はチャンネルに追加できない', () => {
+      manager.removeChannel(1);
+      manager.addChannel(1);
+      expect(() => manager.addEffect(1, 'compressor')).toThrow('マスターにのみ追加できるエフェクトです');
+    });
+
+    it('追加したエフェクトとその値を複製先に引き継ぐ', () => {
+      manager.addEffect(2, 'chorus');
+      const clone = manager.cloneFor(new AudioContext());
+      expect(clone.getEffectTypes(2)).toContain('chorus');
+      expect(clone.getEffect(2, 'chorus').setState).toHaveBeenCalledWith(manager.getEffect(2, 'chorus').getState());
+      clone.dispose();
+    });
+
+    it('ディレイを登録していないレジストリでもテンポを設定して複製できる', () => {
+      const registry = createBuiltinEffectRegistry();
+      registry.unregister('delay');
+      const withoutDelay = new EffectsManager(mockContext, registry);
+      expect(withoutDelay.getEffectTypes(1)).not.toContain('delay');
+
+      withoutDelay.setTempo(100);
+      expect(withoutDelay.getTempo()).toBe(100);
+      expect(() => withoutDelay.setTempo(0)).toThrow('テンポの設定に失敗しました');
+      const clone = withoutDelay.cloneFor(new AudioContext());
+      expect(clone.getTempo()).toBe(100);
+      expect(clone.getEffectTypes(0)).not.toContain('delay');
+      clone.dispose();
+      withoutDelay.dispose();
+    });
+  });
+
+  describe('cloneFor', () => {
+    it('チャンネル構成を引き継ぐ', () => {
+      effectsManager.addChannel(5);
+      effectsManager.removeChannel(2);
+      const clone = effectsManager.cloneFor(new AudioContext());
+      expect(clone.getChannelIds()).toEqual([0, 1, 3, 5]);
+      clone.dispose();
+    });
+
+    it('現在のエフェクト値を別のコンテキスト上のマネージャーに引き継ぐ', () => {
+      effectsManager.getEffect(1, 'filter').setState({ version: EFFECT_STATE_VERSION, value: 0.2, settings: FILTER_DEFAULT_SETTINGS });
+      const clone = effectsManager.cloneFor(new AudioContext());
+      expect(clone).not.toBe(effectsManager);
+      expect(clone.getEffectValue(1, 'filter')).toBe(0.2);
+      clone.dispose();
+    });
+
+    it('複製したエフェクトはパラメータを即座に切り替える', () => {
+      const clone = effectsManager.cloneFor(new AudioContext());
+      expect(clone.getEffect(0, 'limiter').setParameterRamp).toHaveBeenCalledWith({ type: 'instant' });
+      expect(effectsManager.getEffect(0, 'limiter').setParameterRamp).not.toHaveBeenCalled();
+      clone.dispose();
+    });
+
+    it('各エフェクトの値と設定を状態として複製先のエフェクトに引き継ぐ', () => {
+      const filterState = { version: EFFECT_STATE_VERSION, value: 0.8, settings: { ...FILTER_DEFAULT_SETTINGS, mode: 'bandpass' } };
+      const limiterState = { version: EFFECT_STATE_VERSION, value: 0.9, settings: { ...LIMITER_DEFAULT_SETTINGS, release: 0.2 } };
+      effectsManager.getEffect(3, 'filter').setState(filterState);
+      effectsManager.getEffect(0, 'limiter').setState(limiterState);
+      const clone = effectsManager.cloneFor(new AudioContext());
+      effectsManager.getChannelIds().forEach(channelId => {
+        effectsManager.getEffectTypes(channelId).forEach(effectType => {
+          expect(clone.getEffect(channelId, effectType).setState)
+            .toHaveBeenCalledWith(effectsManager.getEffect(channelId, effectType).getState());
+        });
+      });
+      expect(clone.getFilterSettings(3)).toEqual(filterState.settings);
+      expect(clone.getEffectValue(3, 'filter')).toBe(0.8);
+      expect(clone.getLimiterSettings()).toEqual(limiterState.settings);
+      expect(clone.getEffectValue(0, 'limiter')).toBe(0.9);
+      clone.dispose();
+    });
+
+    it('ディレイの設定とテンポを引き継ぐ', () => {
+      const delayState = { version: EFFECT_STATE_VERSION, value: 0.5, settings: { ...DELAY_DEFAULT_SETTINGS, sync: true } };
+      effectsManager.setTempo(100);
+      effectsManager.getEffect(3, 'delay').setState(delayState);
+      const clone = effectsManager.cloneFor(new AudioContext());
+      const delay = clone.getEffect(3, 'delay') as Delay;
+      expect(delay.setTempo).toHaveBeenCalledWith(100);
+      expect(delay.setState).toHaveBeenCalledWith(delayState);
+      expect(clone.getDelaySettings(3)).toEqual(delayState.settings);
+      expect(clone.getTempo()).toBe(100);
+      clone.dispose();
+    });
+  });
+
+  describe('getState / setState', () => {
+    it('全チャンネルのエフェクトの状態とテンポを取得できる', () => {
+      effectsManager.setTempo(90);
+      const state = effectsManager.getState();
+      expect(state.version).toBe(EFFECT_STATE_VERSION);
+      expect(state.tempo).toBe(90);
+      expect(state.channels.map(channel => channel.channelId)).toEqual([0, 1, 2, 3]);
+      expect(state.channels[0].effects.map(effect => effect.type)).toEqual([
+        'filter', 'reverb', 'delay', 'distortion', 'equalizer', 'compressor', 'limiter'
+      ]);
+    });
+
+    it('保存した状態を各エフェクトに反映し、チャンネルごとの値と設定を更新する', () => {
+      const reverbSettings = { ...REVERB_DEFAULT_SETTINGS, type: 'hall' };
+      const state = effectsManager.getState();
+      state.channels[2].effects[1].state = { version: EFFECT_STATE_VERSION, value: 0.7, settings: reverbSettings };
+
+      const restored = new EffectsManager(new AudioContext());
+      restored.setState(JSON.parse(JSON.stringify(state)));
+      expect(restored.getEffect(2, 'reverb').setState).toHaveBeenCalledWith(state.channels[2].effects[1].state);
+      expect(restored.getReverbSettings(2)).toEqual(reverbSettings);
+      expect(restored.getState()).toEqual(state);
+
+      // 複製先にも復元した値と設定を引き継ぐ
+      const clone = restored.cloneFor(new AudioContext());
+      expect(clone.getEffect(2, 'reverb').setState).toHaveBeenCalledWith(state.channels[2].effects[1].state);
+      expect(clone.getReverbSettings(2)).toEqual(reverbSettings);
+      clone.dispose();
+      restored.dispose();
+    });
+
+    it('チャンネル構成を状態に揃える', () => {
+      effectsManager.addChannel(5);
+      effectsManager.removeChannel(1);
+      const state = effectsManager.getState();
+
+      const restored = new EffectsManager(new AudioContext());
+      restored.setState(state);
+      expect(restored.getChannelIds()).toEqual([0, 2, 3, 5]);
+      restored.dispose();
+    });
+
+    it('マスターのチャンネルが含まれない状態はエラーになる', () => {
+      const state = effectsManager.getState();
+      state.channels = state.channels.filter(channel => channel.channelId !== 0);
+      expect(() => effectsManager.setState(state)).toThrow('エフェクトの状態にマスターのチャンネルが含まれていません');
+    });
+
+    it('新しいバージョンの状態はエラーになる', () => {
+      const state = { ...effectsManager.getState(), version: EFFECT_STATE_VERSION + 1 };
+      expect(() => effectsManager.setState(state)).toThrow('対応していない新しいバージョンの状態です');
+    });
+
+    it('エフェクトの復元に失敗した場合はエラーになる', () => {
+      (effectsManager.getEffect(1, 'filter').setState as jest.Mock).mockImplementation(() => {
+        throw new Error('エフェクトの値は0から1の範囲で指定してください');
+      });
+      expect(() => effectsManager.setState(effectsManager.getState()))
+        .toThrow('エフェクトの状態の復元に失敗しました: エフェクトの値は0から1の範囲で指定してください');
+    });
+  });
+
   describe('dispose', () => {
     it('正常に破棄できる', () => {
       expect(() => effectsManager.dispose()).not.toThrow();
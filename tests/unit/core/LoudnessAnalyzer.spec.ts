@@ -0,0 +1,128 @@
+/**
+ * @file LoudnessAnalyzer.spec.ts
+ * @brief LoudnessAnalyzerクラスのテスト
+ * @details
+ * - インテグレーテッドラウドネスの測定テスト（EBU Tech 3341の基準信号）
+ * - ゲーティングのテスト
+ * - ラウドネスレンジの測定テスト
+ * - トゥルーピークの測定テスト
+ * - ノーマライズのテスト
+ */
+
+import { LoudnessAnalyzer } from '@/core/LoudnessAnalyzer';
+
+const SAMPLE_RATE = 48000;
+
+// AudioBufferのモックを作成
+const createMockBuffer = (channels: Float32Array[], sampleRate = SAMPLE_RATE): AudioBuffer => ({
+  numberOfChannels: channels.length,
+  length: channels[0].length,
+  sampleRate,
+  duration: channels[0].length / sampleRate,
+  getChannelData: (channel: number) => channels[channel]
+}) as unknown as AudioBuffer;
+
+// 指定したレベル（dBFS）の区間をつなげたサイン波を作成
+const createSine = (segments: { seconds: number; db: number }[], frequency = 1000, phase = 0): Float32Array => {
+  const totalLength = segments.reduce((sum, segment) => sum + Math.round(segment.seconds * SAMPLE_RATE), 0);
+  const data = new Float32Array(totalLength);
+  let offset = 0;
+  segments.forEach(segment => {
+    const amplitude = Math.pow(10, segment.db / 20);
+    const length = Math.round(segment.seconds * SAMPLE_RATE);
+    for (let i = 0; i < length; i++) {
+      const n = offset + i;
+      data[n] = amplitude * Math.sin(2 * Math.PI * frequency * n / SAMPLE_RATE + phase);
+    }
+    offset += length;
+  });
+  return data;
+};
+
+describe('LoudnessAnalyzer', () => {
+  const analyzer = new LoudnessAnalyzer();
+
+  describe('インテグレーテッドラウドネス', () => {
+    it('-23dBFSの1kHzステレオサイン波は-23LUFSになる', () => {
+      const sine = createSine([{ seconds: 5, db: -23 }]);
+      const result = analyzer.measure(createMockBuffer([sine, Float32Array.from(sine)]));
+      expect(result.integrated).toBeCloseTo(-23, 1);
+      expect(result.shortTermMax).toBeCloseTo(-23, 1);
+    });
+
+    it('モノラルはステレオより約3dB小さくなる', () => {
+      const result = analyzer.measure(createMockBuffer([createSine([{ seconds: 5, db: -23 }])]));
+      expect(result.integrated).toBeCloseTo(-26, 0);
+    });
+
+    it('相対ゲートより小さい区間は測定から除外される', () => {
+      // -20dBFSの区間と-40dBFSの区間（相対ゲートで除外される）
+      const sine = createSine([{ seconds: 5, db: -20 }, { seconds: 5, db: -40 }]);
+      const result = analyzer.measure(createMockBuffer([sine, Float32Array.from(sine)]));
+      expect(result.integrated).toBeCloseTo(-20, 0);
+    });
+
+    it('無音や400msに満たない音声は-Infinityになる', () => {
+      expect(analyzer.measure(createMockBuffer([new Float32Array(SAMPLE_RATE)])).integrated).toBe(-Infinity);
+      expect(analyzer.measure(createMockBuffer([createSine([{ seconds: 0.3, db: -20 }])])).integrated).toBe(-Infinity);
+    });
+  });
+
+  describe('ラウドネスレンジ', () => {
+    it('一定のレベルの信号は0LUに近い', () => {
+      const result = analyzer.measure(createMockBuffer([createSine([{ seconds: 10, db: -20 }])]));
+      expect(result.loudnessRange).toBeCloseTo(0, 0);
+    });
+
+    it('-20dBFSと-30dBFSの区間を持つ信号は約10LUになる', () => {
+      const result = analyzer.measure(createMockBuffer([createSine([{ seconds: 10, db: -20 }, { seconds: 10, db: -30 }])]));
+      expect(result.loudnessRange).toBeGreaterThan(9);
+      expect(result.loudnessRange).toBeLessThan(11);
+    });
+  });
+
+  describe('トゥルーピーク', () => {
+    it('サンプル間のピークを検出する', () => {
+      // fs/4のサイン波を45度ずらすと、サンプル値は振幅の約0.707倍になる
+      const sine = createSine([{ seconds: 1, db: -6 }], SAMPLE_RATE / 4, Math.PI / 4);
+      const samplePeak = 20 * Math.log10(Math.max(...Array.from(sine).map(Math.abs)));
+      const result = analyzer.measure(createMockBuffer([sine]));
+
+      expect(samplePeak).toBeCloseTo(-9, 0);
+      expect(result.truePeak).toBeGreaterThan(-6.5);
+      expect(result.truePeak).toBeLessThan(-5.5);
+    });
+  });
+
+  describe('ノーマライズ', () => {
+    it('目標のラウドネスに合わせるゲインを適用する', () => {
+      const sine = createSine([{ seconds: 5, db: -23 }]);
+      const buffer = createMockBuffer([sine, Float32Array.from(sine)]);
+
+      const gainDb = analyzer.normalize(buffer, -14);
+      expect(gainDb).toBeCloseTo(9, 1);
+      expect(analyzer.measure(buffer).integrated).toBeCloseTo(-14, 1);
+    });
+
+    it('トゥルーピークの上限を指定すると上限を超えない範囲でゲインを適用する', () => {
+      const sine = createSine([{ seconds: 5, db: -23 }]);
+      const buffer = createMockBuffer([sine, Float32Array.from(sine)]);
+      const measurement = analyzer.measure(buffer);
+
+      const gainDb = analyzer.normalize(buffer, -3, measurement, -6);
+      expect(gainDb).toBeCloseTo(-6 - measurement.truePeak, 5);
+      expect(analyzer.measure(buffer).truePeak).toBeLessThanOrEqual(-6 + 1e-3);
+    });
+
+    it('測定できない音声はノーマライズできない', () => {
+      expect(() => analyzer.normalize(createMockBuffer([new Float32Array(SAMPLE_RATE)]), -14)).toThrow();
+    });
+  });
+
+  describe('エラー処理', () => {
+    it('チャンネルのない音声データは測定できない', () => {
+      const buffer = { numberOfChannels: 0, length: 0, sampleRate: SAMPLE_RATE } as unknown as AudioBuffer;
+      expect(() => analyzer.measure(buffer)).toThrow();
+    });
+  });
+});
\ No newline at end of file
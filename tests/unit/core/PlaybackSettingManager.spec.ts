@@ -0,0 +1,96 @@
+/**
+ * @file PlaybackSettingManager.spec.ts
+ * @brief PlaybackSettingManagerクラスのテスト
+ * @details
+ * - 状態の取得と復元テスト
+ * - チャンネル構成の復元テスト
+ * - 無効な状態の復元時のエラー処理と復元前の設定への巻き戻しテスト
+ */
+
+import { PlaybackSettingManager, PLAYBACK_SETTINGS_STATE_VERSION } from '@/core/PlaybackSettingManager';
+import { PITCH_DEFAULT_RANGE_SEMITONES, VOLUME_DEFAULT } from '@/core/audioConstants';
+
+describe('PlaybackSettingManager', () => {
+  let manager: PlaybackSettingManager;
+
+  beforeEach(() => {
+    manager = new PlaybackSettingManager();
+  });
+
+  describe('状態', () => {
+    it('全ての設定をJSONに変換できる状態として取得できること', () => {
+      const state = manager.getState();
+      expect(state.version).toBe(PLAYBACK_SETTINGS_STATE_VERSION);
+      expect(state.masterVolume).toBe(1);
+      expect(state.pitchRange).toBe(PITCH_DEFAULT_RANGE_SEMITONES);
+      expect(state.channels.map(channel => channel.channelId)).toEqual([1, 2, 3]);
+      expect(state.channels[0]).toEqual({
+        channelId: 1,
+        volume: VOLUME_DEFAULT,
+        timingOffset: 0,
+        pitch: 0,
+        pitchSnap: true,
+        pitchMode: 'varispeed',
+        envelope: { attack: 0, decay: 0, sustain: 1, release: 0 },
+        trim: { trimStart: 0, trimEnd: 1 },
+        reverse: false
+      });
+    });
+
+    it('保存した状態から全ての設定を復元できること', () => {
+      manager.setSetting(0, 'volume', 0.6);
+      manager.setPitchRange(12);
+      manager.setPitchSnap(2, false);
+      manager.setPitch(2, -3.25);
+      manager.setTimingOffset(2, 12.5);
+      manager.setSetting(2, 'attack', 0.3);
+      manager.setSetting(2, 'trimEnd', 0.4);
+      manager.setSetting(2, 'trimStart', 0.2);
+      manager.setReverse(2, true);
+      manager.setPitchMode(2, 'preserveLength');
+      const state = JSON.parse(JSON.stringify(manager.getState()));
+
+      const restored = new PlaybackSettingManager();
+      restored.setSetting(2, 'trimStart', 0.9);
+      restored.setState(state);
+      expect(restored.getState()).toEqual(state);
+      expect(restored.getPitch(2)).toBe(-3.25);
+      expect(restored.getPitchSnap(2)).toBe(false);
+      expect(restored.getSetting(2, 'trimStart')).toBe(0.2);
+    });
+
+    it('チャンネル構成を状態に揃えること', () => {
+      manager.removeChannel(2);
+      manager.addChannel(5);
+      const state = manager.getState();
+
+      const restored = new PlaybackSettingManager();
+      restored.setState(state);
+      expect(restored.getChannelIds()).toEqual([1, 3, 5]);
+    });
+
+    it('新しいバージョンの状態はエラーになること', () => {
+      const state = { ...manager.getState(), version: PLAYBACK_SETTINGS_STATE_VERSION + 1 };
+      expect(() => manager.setState(state)).toThrow('対応していない新しいバージョンの状態です');
+    });
+
+    it('無効な設定値を含む状態はエラーになり、復元前の設定に戻すこと', () => {
+      manager.setSetting(1, 'volume', 0.5);
+      const before = manager.getState();
+      const state = manager.getState();
+      state.channels[0].volume = 0.1;
+      state.channels[1].envelope.sustain = 2;
+
+      expect(() => manager.setState(state)).toThrow('再生設定の復元に失敗しました');
+      expect(manager.getState()).toEqual(before);
+    });
+
+    it('重複したチャンネルやマスターのチャンネルを含む状態はエラーになること', () => {
+      const state = manager.getState();
+      expect(() => manager.setState({ ...state, channels: [state.channels[0], state.channels[0]] }))
+        .toThrow('同じチャンネルが重複しています');
+      expect(() => manager.setState({ ...state, channels: [{ ...state.channels[0], channelId: 0 }] }))
+        .toThrow('無効なチャンネルID');
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * @file ProjectFile.spec.ts
+ * @brief プロジェクトのファイルの作成と読み込みのテスト
+ * @details
+ * - プロジェクトのファイルの作成とJSONへの変換テスト
+ * - JSONからの読み込みと検証テスト
+ * - 古いバージョンのファイルの変換（マイグレーション）テスト
+ * - 埋め込んだサンプルのBase64の変換テスト
+ * - サンプルの参照の比較テスト
+ */
+
+import {
+  PROJECT_FORMAT,
+  PROJECT_VERSION,
+  ProjectChannel,
+  createProjectDocument,
+  serializeProject,
+  parseProject,
+  migrateProject,
+  encodeSampleData,
+  decodeSampleData,
+  isSameSampleReference
+} from '@/core/ProjectFile';
+import { AudioEngineState, AudioEngineEffectState, ENGINE_STATE_VERSION } from '@/core/AudioEngine';
+import { PlaybackSettingManager } from '@/core/PlaybackSettingManager';
+
+// AudioEngineの状態を作成（エフェクトの状態の検証はAudioEngineが行うため、内容は空でよい）
+const createEngineState = (): AudioEngineState => ({
+  version: ENGINE_STATE_VERSION,
+  playback: new PlaybackSettingManager().getState(),
+  effects: {} as AudioEngineEffectState
+});
+
+const createChannels = (): ProjectChannel[] => [
+  { channelId: 1, enabled: true, sample: { type: 'library', id: 'sample1' } },
+  { channelId: 2, enabled: false, sample: { type: 'embedded', name: 'kick.wav', mimeType: 'audio/wav', data: 'AAEC' } },
+  { channelId: 3, enabled: true, sample: null }
+];
+
+describe('ProjectFile', () => {
+  describe('作成', () => {
+    it('形式の識別子と現在のバージョンを持つファイルを作成できること', () => {
+      const engine = createEngineState();
+      const project = createProjectDocument(createChannels(), engine);
+      expect(project.format).toBe(PROJECT_FORMAT);
+      expect(project.version).toBe(PROJECT_VERSION);
+      expect(project.channels).toEqual(createChannels());
+      expect(project.engine).toBe(engine);
+    });
+
+    it('JSONに変換したファイルを同じ内容で読み込めること', () => {
+      const project = createProjectDocument(createChannels(), createEngineState());
+      expect(parseProject(serializeProject(project))).toEqual(project);
+    });
+  });
+
+  describe('読み込み', () => {
+    const serialize = (overrides: { [key: string]: unknown }): string => JSON.stringify({
+      ...createProjectDocument(createChannels(), createEngineState()),
+      ...overrides
+    });
+
+    it('JSONとして解析できない場合はエラーになること', () => {
+      expect(() => parseProject('{')).toThrow('プロジェクトのファイルを解析できません');
+    });
+
+    it('形式の識別子が異なる場合はエラーになること', () => {
+      expect(() => parseProject(serialize({ format: 'other' }))).toThrow('プロジェクトのファイルではありません');
+    });
+
+    it('新しいバージョンのファイルはエラーになること', () => {
+      expect(() => parseProject(serialize({ version: PROJECT_VERSION + 1 })))
+        .toThrow('対応していない新しいバージョンのプロジェクトです');
+    });
+
+    it('サンプルの参照が無効な場合はエラーになること', () => {
+      const channels = createChannels();
+      channels[0].sample = { type: 'library', id: '' };
+      expect(() => parseProject(serialize({ channels }))).toThrow('チャンネル 1 のサンプルの参照が無効です');
+      channels[0].sample = { type: 'stored', id: '', name: 'kick.wav' };
+      expect(() => parseProject(serialize({ channels }))).toThrow('チャンネル 1 のサンプルの参照が無効です');
+    });
+
+    it('ブラウザに保存したサンプルの参照を読み込めること', () => {
+      const channels = createChannels();
+      channels[2].sample = { type: 'stored', id: 'sample-1', name: 'kick.wav' };
+      expect(parseProject(serialize({ channels })).channels[2].sample).toEqual({ type: 'stored', id: 'sample-1', name: 'kick.wav' });
+    });
+
+    it('チャンネルと再生設定のチャンネルが一致しない場合はエラーになること', () => {
+      expect(() => parseProject(serialize({ channels: createChannels().slice(1) })))
+        .toThrow('プロジェクトのチャンネルと再生設定のチャンネルが一致しません');
+    });
+
+    it('状態が含まれない場合はエラーになること', () => {
+      expect(() => parseProject(serialize({ engine: undefined }))).toThrow('プロジェクトのチャンネルまたは状態が含まれていません');
+    });
+  });
+
+  describe('マイグレーション', () => {
+    it('古いバージョンのファイルを順に変換すること', () => {
+      const migrations = {
+        1: (data: { [key: string]: unknown }) => ({ ...data, tracks: data.channels }),
+        2: (data: { [key: string]: unknown }) => ({ ...data, renamed: true })
+      };
+      const migrated = migrateProject({ version: 1, channels: [] }, migrations, 3);
+      expect(migrated).toEqual({ version: 3, channels: [], tracks: [], renamed: true });
+    });
+
+    it('目標のバージョンのファイルは変換しないこと', () => {
+      const migration = jest.fn((data: { [key: string]: unknown }) => data);
+      expect(migrateProject({ version: 1 }, { 1: migration }, 1)).toEqual({ version: 1 });
+      expect(migration).not.toHaveBeenCalled();
+    });
+
+    it('バージョンが無効な場合はエラーになること', () => {
+      expect(() => migrateProject({ version: 0 })).toThrow('無効なプロジェクトのバージョンです: 0');
+      expect(() => migrateProject({ version: '1' })).toThrow('無効なプロジェクトのバージョンです');
+    });
+
+    it('変換がないバージョンはエラーになること', () => {
+      expect(() => migrateProject({ version: 1 }, {}, 2)).toThrow('バージョン 1 のプロジェクトを変換できません');
+    });
+  });
+
+  describe('サンプルの埋め込み', () => {
+    it('音声データをBase64に変換して元に戻せること', () => {
+      const bytes = Uint8Array.from({ length: 70000 }, (_, i) => i % 256);
+      const decoded = new Uint8Array(decodeSampleData(encodeSampleData(bytes.buffer)));
+      expect(decoded).toEqual(bytes);
+    });
+
+    it('無効なBase64文字列はエラーになること', () => {
+      expect(() => decodeSampleData('%%%')).toThrow('埋め込んだサンプルのデータが無効です');
+    });
+  });
+
+  describe('サンプルの参照の比較', () => {
+    it('同じサンプルを指す参照を判定できること', () => {
+      const embedded = { type: 'embedded' as const, name: 'kick.wav', mimeType: 'audio/wav', data: 'AAEC' };
+      expect(isSameSampleReference({ type: 'library', id: 'sample1' }, { type: 'library', id: 'sample1' })).toBe(true);
+      expect(isSameSampleReference({ type: 'library', id: 'sample1' }, { type: 'library', id: 'sample2' })).toBe(false);
+      expect(isSameSampleReference(embedded, { ...embedded })).toBe(true);
+      expect(isSameSampleReference(embedded, { ...embedded, data: 'AAED' })).toBe(false);
+      expect(isSameSampleReference({ type: 'library', id: 'kick.wav' }, embedded)).toBe(false);
+      expect(isSameSampleReference({ type: 'stored', id: 'sample-1', name: 'kick.wav' }, { type: 'stored', id: 'sample-1', name: 'snare.wav' })).toBe(true);
+      expect(isSameSampleReference({ type: 'stored', id: 'sample-1', name: 'kick.wav' }, { type: 'library', id: 'sample-1' })).toBe(false);
+      expect(isSameSampleReference(null, null)).toBe(true);
+      expect(isSameSampleReference(null, embedded)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * @file ProjectStorage.spec.ts
+ * @brief ProjectStorageクラスのテスト
+ * @details
+ * - サンプルとプロジェクトの保存、取得、一覧テスト
+ * - 名前の変更と削除テスト
+ * - 項目と概要を一つのトランザクションで書き込むテスト
+ * - 作業中の状態の自動保存テスト
+ * - 保存領域の使用量の取得テスト
+ * - データベースを開けない場合のテスト
+ */
+
+import { IndexedDBBackend, ProjectStorage, StorageBackend, StorageStoreName, StorageWrite } from '@/core/ProjectStorage';
+
+/**
+ * メモリ上のオブジェクトストア（IndexedDBの代わりに使用）
+ */
+class MemoryBackend implements StorageBackend {
+  public stores: Map<StorageStoreName, Map<string, unknown>> = new Map();
+
+  private getStore(store: StorageStoreName): Map<string, unknown> {
+    if (!this.stores.has(store)) {
+      this.stores.set(store, new Map());
+    }
+    return this.stores.get(store) as Map<string, unknown>;
+  }
+
+  public async get<T>(store: StorageStoreName, key: string): Promise<T | undefined> {
+    return this.getStore(store).get(key) as T | undefined;
+  }
+
+  public async getAll<T>(store: StorageStoreName): Promise<T[]> {
+    return Array.from(this.getStore(store).values()) as T[];
+  }
+
+  public async put<T>(store: StorageStoreName, key: string, value: T): Promise<void> {
+    this.getStore(store).set(key, value);
+  }
+
+  public async delete(store: StorageStoreName, key: string): Promise<void> {
+    this.getStore(store).delete(key);
+  }
+
+  public async write(writes: StorageWrite[]): Promise<void> {
+    writes.forEach(write => {
+      if (write.type === 'put') {
+        this.getStore(write.store).set(write.key, write.value);
+      } else {
+        this.getStore(write.store).delete(write.key);
+      }
+    });
+  }
+}
+
+describe('ProjectStorage', () => {
+  let backend: MemoryBackend;
+  let storage: ProjectStorage;
+  let time: number;
+
+  beforeEach(() => {
+    backend = new MemoryBackend();
+    time = 1000;
+    storage = new ProjectStorage(backend, { now: () => time });
+  });
+
+  describe('保存と取得', () => {
+    it('サンプルを保存して音声データとともに取得できること', async () => {
+      const data = new Uint8Array([1, 2, 3]).buffer;
+      const info = await storage.saveSample(' kick.wav ', 'audio/wav', data);
+      expect(info).toEqual({ id: info.id, kind: 'sample', name: 'kick.wav', size: 3, updatedAt: 1000 });
+
+      const sample = await storage.getSample(info.id);
+      expect(sample.mimeType).toBe('audio/wav');
+      expect(new Uint8Array(sample.data)).toEqual(new Uint8Array([1, 2, 3]));
+    });
+
+    it('プロジェクトを保存し、IDを指定すると上書きできること', async () => {
+      const info = await storage.saveProject('blend', '{"a":1}');
+      time = 2000;
+      await storage.saveProject('blend 2', '{"a":2}', info.id);
+
+      const project = await storage.getProject(info.id);
+      expect(project.name).toBe('blend 2');
+      expect(project.json).toBe('{"a":2}');
+      expect(project.updatedAt).toBe(2000);
+      await expect(storage.saveProject('blend', '{}', 'unknown')).rejects.toThrow('保存したプロジェクトが見つかりません: unknown');
+    });
+
+    it('同じ時刻に保存した項目のIDが重複しないこと', async () => {
+      const first = await storage.saveSample('a.wav', 'audio/wav', new ArrayBuffer(1));
+      const second = await storage.saveSample('a.wav', 'audio/wav', new ArrayBuffer(1));
+      expect(first.id).not.toBe(second.id);
+    });
+
+    it('名前が空の場合や項目が見つからない場合はエラーになること', async () => {
+      await expect(storage.saveProject('  ', '{}')).rejects.toThrow('名前が空です');
+      await expect(storage.getSample('unknown')).rejects.toThrow('保存したサンプルが見つかりません: unknown');
+    });
+  });
+
+  describe('一覧、名前の変更、削除', () => {
+    it('全ての種類の項目を新しい順に一覧表示し、種類で絞り込めること', async () => {
+      await storage.saveSample('kick.wav', 'audio/wav', new ArrayBuffer(4));
+      time = 3000;
+      await storage.saveProject('blend', '{}');
+      time = 2000;
+      await storage.saveSample('snare.wav', 'audio/wav', new ArrayBuffer(2));
+
+      const items = await storage.listItems();
+      expect(items.map(item => item.name)).toEqual(['blend', 'snare.wav', 'kick.wav']);
+      expect(items[0]).not.toHaveProperty('json');
+      expect(items[1]).not.toHaveProperty('data');
+      expect((await storage.listItems('sample')).map(item => item.name)).toEqual(['snare.wav', 'kick.wav']);
+    });
+
+    it('一覧の取得では音声データやJSONを読み込まないこと', async () => {
+      await storage.saveSample('kick.wav', 'audio/wav', new ArrayBuffer(4));
+      await storage.saveProject('blend', '{}');
+      const getAll = jest.spyOn(backend, 'getAll');
+
+      expect(await storage.listItems()).toHaveLength(2);
+      expect(getAll.mock.calls.map(([store]) => store)).toEqual(['items']);
+    });
+
+    it('名前を変更すると保存した内容を保ったまま更新日時を更新すること', async () => {
+      const info = await storage.saveProject('blend', '{"a":1}');
+      time = 5000;
+      const renamed = await storage.renameItem('project', info.id, 'drums');
+      expect(renamed).toEqual({ ...info, name: 'drums', updatedAt: 5000 });
+      expect((await storage.getProject(info.id)).json).toBe('{"a":1}');
+      expect(await storage.listItems()).toEqual([renamed]);
+      await expect(storage.renameItem('project', info.id, '')).rejects.toThrow('名前が空です');
+    });
+
+    it('名前の変更では音声データを含む項目を読み書きせず、取得した項目には新しい名前を反映すること', async () => {
+      const info = await storage.saveSample('kick.wav', 'audio/wav', new Uint8Array([1, 2]).buffer);
+      const get = jest.spyOn(backend, 'get');
+      const put = jest.spyOn(backend, 'put');
+      const write = jest.spyOn(backend, 'write');
+      time = 5000;
+      await storage.renameItem('sample', info.id, 'kick 2.wav');
+      expect(get.mock.calls.map(([store]) => store)).toEqual(['items']);
+      expect(put.mock.calls.map(([store]) => store)).toEqual(['items']);
+      expect(write).not.toHaveBeenCalled();
+
+      const sample = await storage.getSample(info.id);
+      expect(sample.name).toBe('kick 2.wav');
+      expect(sample.updatedAt).toBe(5000);
+      expect(new Uint8Array(sample.data)).toEqual(new Uint8Array([1, 2]));
+      await expect(storage.renameItem('sample', 'unknown', 'a')).rejects.toThrow('保存したサンプルが見つかりません: unknown');
+    });
+
+    it('項目を削除できること', async () => {
+      const info = await storage.saveSample('kick.wav', 'audio/wav', new ArrayBuffer(4));
+      await storage.deleteItem('sample', info.id);
+      expect(await storage.listItems()).toEqual([]);
+      expect(backend.stores.get('samples')?.size).toBe(0);
+      await expect(storage.deleteItem('sample', info.id)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('トランザクション', () => {
+    it('項目と概要を一つの書き込みで保存し、削除すること', async () => {
+      const write = jest.spyOn(backend, 'write');
+      const info = await storage.saveProject('blend', '{}');
+      await storage.deleteItem('project', info.id);
+      expect(write.mock.calls.map(([writes]) => writes.map(({ type, store }) => `${type}:${store}`))).toEqual([
+        ['put:projects', 'put:items'],
+        ['delete:items', 'delete:projects']
+      ]);
+    });
+
+    it('書き込みに失敗した場合は項目も概要も残らないこと', async () => {
+      jest.spyOn(backend, 'write').mockRejectedValueOnce(new Error('ブラウザの保存容量が不足しています'));
+      await expect(storage.saveSample('kick.wav', 'audio/wav', new ArrayBuffer(4))).rejects.toThrow('ブラウザの保存容量が不足しています');
+      expect(await storage.listItems()).toEqual([]);
+      expect(backend.stores.get('samples')?.size ?? 0).toBe(0);
+    });
+  });
+
+  describe('自動保存', () => {
+    it('作業中の状態を上書きして保存し、削除できること', async () => {
+      expect(await storage.loadSession()).toBeNull();
+      await storage.saveSession('{"a":1}');
+      time = 2000;
+      await storage.saveSession('{"a":2}');
+      expect(await storage.loadSession()).toEqual({ savedAt: 2000, json: '{"a":2}' });
+
+      await storage.clearSession();
+      expect(await storage.loadSession()).toBeNull();
+    });
+
+    it('作業中の状態は保存した項目の一覧に含めないこと', async () => {
+      await storage.saveSession('{}');
+      expect(await storage.listItems()).toEqual([]);
+    });
+  });
+
+  describe('保存領域の使用量', () => {
+    it('ブラウザの推定値を取得できること', async () => {
+      const storageManager = { estimate: jest.fn().mockResolvedValue({ usage: 1024, quota: 4096 }) } as unknown as StorageManager;
+      const withQuota = new ProjectStorage(backend, { storageManager });
+      expect(await withQuota.getQuota()).toEqual({ usage: 1024, quota: 4096 });
+    });
+
+    it('ブラウザが対応していない場合はnullを返すこと', async () => {
+      expect(await storage.getQuota()).toBeNull();
+      const storageManager = { estimate: jest.fn().mockResolvedValue({}) } as unknown as StorageManager;
+      expect(await new ProjectStorage(backend, { storageManager }).getQuota()).toBeNull();
+    });
+  });
+});
+
+describe('IndexedDBBackend', () => {
+  it('他のタブが以前のバージョンのデータベースを開いていて更新できない場合はエラーになること', async () => {
+    const request = {} as IDBOpenDBRequest;
+    const factory = { open: jest.fn(() => request) } as unknown as IDBFactory;
+    const opening = IndexedDBBackend.open(factory);
+    (request.onblocked as unknown as () => void)();
+    await expect(opening).rejects.toThrow('他のタブで開いているため、ブラウザの保存領域を更新できません');
+  });
+
+  it('複数のオブジェクトストアへの書き込みを一つのトランザクションで実行すること', async () => {
+    const objectStores = new Map(['samples', 'items'].map(name => [name, { put: jest.fn(), delete: jest.fn() }]));
+    const transaction = { objectStore: jest.fn((name: string) => objectStores.get(name)) } as unknown as IDBTransaction;
+    const db = { transaction: jest.fn(() => transaction) } as unknown as IDBDatabase;
+    const request = { result: db } as unknown as IDBOpenDBRequest;
+    const factory = { open: jest.fn(() => request) } as unknown as IDBFactory;
+    const opening = IndexedDBBackend.open(factory);
+    (request.onsuccess as unknown as () => void)();
+    const backend = await opening;
+
+    const writing = backend.write([
+      { type: 'put', store: 'samples', key: 'a', value: 1 },
+      { type: 'put', store: 'items', key: 'sample:a', value: 2 },
+      { type: 'delete', store: 'items', key: 'sample:b' }
+    ]);
+    (transaction.oncomplete as unknown as () => void)();
+    await writing;
+    expect(db.transaction).toHaveBeenCalledTimes(1);
+    expect(db.transaction).toHaveBeenCalledWith(['samples', 'items'], 'readwrite');
+    expect(objectStores.get('samples')?.put).toHaveBeenCalledWith(1, 'a');
+    expect(objectStores.get('items')?.put).toHaveBeenCalledWith(2, 'sample:a');
+    expect(objectStores.get('items')?.delete).toHaveBeenCalledWith('sample:b');
+  });
+});
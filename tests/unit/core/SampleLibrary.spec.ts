@@ -0,0 +1,130 @@
+/**
+ * @file SampleLibrary.spec.ts
+ * @brief SampleLibraryクラスのテスト
+ * @details
+ * - マニフェストの読み込みと検証テスト
+ * - テキスト検索、カテゴリーとタグでの絞り込みテスト
+ * - 並べ替えテスト
+ * - マニフェストの取得テスト
+ */
+
+import { SampleLibrary, SampleEntry, SAMPLE_MANIFEST_VERSION, loadSampleLibrary } from '@/core/SampleLibrary';
+
+const createEntry = (overrides: Partial<SampleEntry>): SampleEntry => ({
+  id: 'kick',
+  name: 'Kick',
+  url: '/kick.wav',
+  category: 'drums',
+  tags: ['punchy'],
+  duration: 0.5,
+  key: null,
+  bpm: null,
+  ...overrides
+});
+
+const createManifest = () => ({
+  version: SAMPLE_MANIFEST_VERSION,
+  samples: [
+    createEntry({ id: 'kick', name: 'Kick 10', tags: ['punchy', 'acoustic'], duration: 0.5 }),
+    createEntry({ id: 'kick2', name: 'Kick 2', tags: ['acoustic'], duration: 0.3 }),
+    createEntry({ id: 'pad', name: 'Warm Pad', url: '/pad.wav', category: 'synth', tags: ['ambient'], duration: 4, key: 'C#m', bpm: 90 }),
+    createEntry({ id: 'loop', name: 'Ｂｒｅａｋ Loop', category: 'loops', tags: ['punchy'], duration: 2, bpm: 128 })
+  ]
+});
+
+describe('SampleLibrary', () => {
+  let library: SampleLibrary;
+
+  beforeEach(() => {
+    library = new SampleLibrary(createManifest());
+  });
+
+  describe('マニフェスト', () => {
+    it('マニフェストの順にサンプルを取得できること', () => {
+      expect(library.getSamples().map(sample => sample.id)).toEqual(['kick', 'kick2', 'pad', 'loop']);
+      expect(library.getSample('pad').url).toBe('/pad.wav');
+      expect(library.has('pad')).toBe(true);
+      expect(library.has('unknown')).toBe(false);
+      expect(() => library.getSample('unknown')).toThrow('ライブラリにサンプルが見つかりません: unknown');
+    });
+
+    it('カテゴリーとタグを重複なしで並べ替えて取得できること', () => {
+      expect(library.getCategories()).toEqual(['drums', 'loops', 'synth']);
+      expect(library.getTags()).toEqual(['acoustic', 'ambient', 'punchy']);
+    });
+
+    it('マニフェストのタグを変更してもライブラリに影響しないこと', () => {
+      const manifest = createManifest();
+      const copied = new SampleLibrary(manifest);
+      manifest.samples[0].tags.push('changed');
+      expect(copied.getSample('kick').tags).toEqual(['punchy', 'acoustic']);
+    });
+
+    it('無効なマニフェストはエラーになること', () => {
+      expect(() => new SampleLibrary(null)).toThrow('サンプルのマニフェストではありません');
+      expect(() => new SampleLibrary({ ...createManifest(), version: SAMPLE_MANIFEST_VERSION + 1 }))
+        .toThrow('対応していないバージョンのサンプルのマニフェストです');
+      expect(() => new SampleLibrary({ version: SAMPLE_MANIFEST_VERSION, samples: [createEntry({ bpm: 0 })] }))
+        .toThrow('サンプルのマニフェストの1番目のサンプルが無効です');
+      expect(() => new SampleLibrary({ version: SAMPLE_MANIFEST_VERSION, samples: [createEntry({}), createEntry({})] }))
+        .toThrow('サンプルのIDが重複しています: kick');
+    });
+  });
+
+  describe('検索', () => {
+    it('名前、カテゴリー、タグ、キーを大文字/小文字と全角/半角を区別せずに検索できること', () => {
+      expect(library.search({ text: 'kick' }).map(sample => sample.id)).toEqual(['kick2', 'kick']);
+      expect(library.search({ text: 'SYNTH' }).map(sample => sample.id)).toEqual(['pad']);
+      expect(library.search({ text: 'c#m' }).map(sample => sample.id)).toEqual(['pad']);
+      expect(library.search({ text: 'break' }).map(sample => sample.id)).toEqual(['loop']);
+    });
+
+    it('空白で区切った全ての語を含むサンプルを検索できること', () => {
+      expect(library.search({ text: 'kick  punchy' }).map(sample => sample.id)).toEqual(['kick']);
+      expect(library.search({ text: 'kick ambient' })).toEqual([]);
+    });
+
+    it('カテゴリーと全てのタグで絞り込めること', () => {
+      expect(library.search({ category: 'drums' }).map(sample => sample.id)).toEqual(['kick2', 'kick']);
+      expect(library.search({ tags: ['punchy'] }).map(sample => sample.id)).toEqual(['loop', 'kick']);
+      expect(library.search({ tags: ['punchy', 'acoustic'] }).map(sample => sample.id)).toEqual(['kick']);
+      expect(library.search({ category: 'synth', tags: ['punchy'] })).toEqual([]);
+    });
+  });
+
+  describe('並べ替え', () => {
+    it('名前は全角/半角を区別せず、数字を数値として並べ替えること', () => {
+      expect(library.search().map(sample => sample.name)).toEqual(['Ｂｒｅａｋ Loop', 'Kick 2', 'Kick 10', 'Warm Pad']);
+    });
+
+    it('長さで昇順/降順に並べ替えられること', () => {
+      expect(library.search({ sortBy: 'duration' }).map(sample => sample.id)).toEqual(['kick2', 'kick', 'loop', 'pad']);
+      expect(library.search({ sortBy: 'duration', descending: true }).map(sample => sample.id))
+        .toEqual(['pad', 'loop', 'kick', 'kick2']);
+    });
+
+    it('BPMのないサンプルは順序によらず末尾に名前の順で並べること', () => {
+      expect(library.search({ sortBy: 'bpm' }).map(sample => sample.id)).toEqual(['pad', 'loop', 'kick2', 'kick']);
+      expect(library.search({ sortBy: 'bpm', descending: true }).map(sample => sample.id))
+        .toEqual(['loop', 'pad', 'kick2', 'kick']);
+    });
+  });
+
+  describe('マニフェストの取得', () => {
+    const mockFetch = (response: object): void => {
+      (fetch as jest.Mock).mockImplementationOnce(() => Promise.resolve(response));
+    };
+
+    it('取得したマニフェストからライブラリを作成できること', async () => {
+      mockFetch({ ok: true, json: () => Promise.resolve(createManifest()) });
+      const loaded = await loadSampleLibrary('/manifest.json');
+      expect(fetch).toHaveBeenLastCalledWith('/manifest.json');
+      expect(loaded.getSamples()).toHaveLength(4);
+    });
+
+    it('取得に失敗した場合はエラーになること', async () => {
+      mockFetch({ ok: false, status: 404 });
+      await expect(loadSampleLibrary()).rejects.toThrow('サンプルのマニフェストの取得に失敗しました: HTTP error! status: 404');
+    });
+  });
+});
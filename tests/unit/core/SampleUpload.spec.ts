@@ -0,0 +1,42 @@
+/**
+ * @file SampleUpload.spec.ts
+ * @brief アップロードしたサンプルのファイルの検証のテスト
+ */
+
+import { validateSampleFile, isSupportedSampleFile, getSampleMimeType, UPLOAD_ACCEPT } from '@/core/SampleUpload';
+import { UPLOAD_MAX_FILE_BYTES } from '@/core/audioConstants';
+
+/**
+ * 指定したサイズのファイルを作成（内容は読まないのでsizeだけを差し替える）
+ */
+const createFile = (name: string, type: string, size = 4): File => {
+  const file = new File([new Uint8Array(1)], name, { type });
+  Object.defineProperty(file, 'size', { value: size });
+  return file;
+};
+
+describe('SampleUpload', () => {
+  it('WAV、MP3、AIFF、FLAC、OGGを拡張子またはMIMEタイプで判定できること', () => {
+    ['kick.wav', 'kick.MP3', 'kick.aif', 'kick.aiff', 'kick.flac', 'kick.ogg'].forEach(name => {
+      expect(isSupportedSampleFile(createFile(name, ''))).toBe(true);
+    });
+    expect(isSupportedSampleFile(createFile('kick', 'audio/x-wav'))).toBe(true);
+    expect(isSupportedSampleFile(createFile('kick.txt', 'text/plain'))).toBe(false);
+    expect(UPLOAD_ACCEPT).toBe('.wav,.mp3,.aif,.aiff,.flac,.ogg');
+  });
+
+  it('対応していない形式、空のファイル、大きすぎるファイルはエラーになること', () => {
+    expect(() => validateSampleFile(createFile('notes.txt', 'text/plain')))
+      .toThrow('対応していない形式のファイルです（WAV、MP3、AIFF、FLAC、OGGに対応）: notes.txt');
+    expect(() => validateSampleFile(createFile('kick.wav', 'audio/wav', 0))).toThrow('ファイルが空です: kick.wav');
+    expect(() => validateSampleFile(createFile('kick.wav', 'audio/wav', UPLOAD_MAX_FILE_BYTES + 1)))
+      .toThrow('ファイルのサイズが大きすぎます（最大30MB）: kick.wav');
+    expect(() => validateSampleFile(createFile('kick.wav', 'audio/wav', UPLOAD_MAX_FILE_BYTES))).not.toThrow();
+  });
+
+  it('MIMEタイプがない場合は拡張子からMIMEタイプを決めること', () => {
+    expect(getSampleMimeType(createFile('kick.mp3', 'audio/mp3'))).toBe('audio/mp3');
+    expect(getSampleMimeType(createFile('kick.AIFF', ''))).toBe('audio/aiff');
+    expect(getSampleMimeType(createFile('kick', ''))).toBe('application/octet-stream');
+  });
+});
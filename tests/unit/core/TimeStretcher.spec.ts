@@ -0,0 +1,103 @@
+/**
+ * @file TimeStretcher.spec.ts
+ * @brief TimeStretcherクラスのテスト
+ * @details
+ * - 時間伸縮後の長さのテスト
+ * - ピッチが変わらないことのテスト
+ * - 複数チャンネルのテスト
+ * - エラー処理のテスト
+ */
+
+import { TimeStretcher } from '@/core/TimeStretcher';
+
+const SAMPLE_RATE = 44100;
+
+// AudioBufferのモックを作成
+const createMockBuffer = (channels: Float32Array[], sampleRate = SAMPLE_RATE): AudioBuffer => ({
+  numberOfChannels: channels.length,
+  length: channels[0].length,
+  sampleRate,
+  duration: channels[0].length / sampleRate,
+  getChannelData: (channel: number) => channels[channel]
+}) as unknown as AudioBuffer;
+
+// copyToChannelで書き込んだ値を読み出せるAudioContextのモックを作成
+const createMockContext = (): BaseAudioContext => ({
+  createBuffer: (numberOfChannels: number, length: number, sampleRate: number) => {
+    const channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+    return {
+      ...createMockBuffer(channels, sampleRate),
+      copyToChannel: (source: Float32Array, channel: number) => channels[channel].set(source)
+    };
+  }
+}) as unknown as BaseAudioContext;
+
+// サイン波を作成
+const createSine = (seconds: number, frequency: number): Float32Array => {
+  const data = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < data.length; i++) {
+    data[i] = 0.5 * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE);
+  }
+  return data;
+};
+
+// ゼロクロスの回数から周波数を推定（先頭と末尾のフレームは除く）
+const estimateFrequency = (data: Float32Array): number => {
+  const margin = Math.round(SAMPLE_RATE * 0.05);
+  let crossings = 0;
+  for (let i = margin + 1; i < data.length - margin; i++) {
+    if ((data[i - 1] < 0) !== (data[i] < 0)) {
+      crossings++;
+    }
+  }
+  return crossings / 2 / ((data.length - 2 * margin) / SAMPLE_RATE);
+};
+
+describe('TimeStretcher', () => {
+  const stretcher = new TimeStretcher(createMockContext());
+
+  describe('時間伸縮', () => {
+    it('倍率に合わせて長さが変わる', () => {
+      const buffer = createMockBuffer([createSine(0.5, 440)]);
+      expect(stretcher.stretch(buffer, 2.0).length).toBe(buffer.length * 2);
+      expect(stretcher.stretch(buffer, 0.5).length).toBe(buffer.length / 2);
+    });
+
+    it('長さを変えてもピッチは変わらない', () => {
+      const buffer = createMockBuffer([createSine(0.5, 440)]);
+      [2.0, 0.5].forEach(factor => {
+        const frequency = estimateFrequency(stretcher.stretch(buffer, factor).getChannelData(0));
+        expect(frequency).toBeGreaterThan(440 * 0.97);
+        expect(frequency).toBeLessThan(440 * 1.03);
+      });
+    });
+
+    it('音量が大きく変わらない', () => {
+      const stretched = stretcher.stretch(createMockBuffer([createSine(0.5, 440)]), 1.5).getChannelData(0);
+      const peak = Math.max(...Array.from(stretched).map(Math.abs));
+      expect(peak).toBeGreaterThan(0.4);
+      expect(peak).toBeLessThan(0.6);
+    });
+
+    it('すべてのチャンネルを時間伸縮する', () => {
+      const left = createSine(0.2, 440);
+      const right = left.map(value => -value);
+      const stretched = stretcher.stretch(createMockBuffer([left, right]), 2.0);
+
+      expect(stretched.numberOfChannels).toBe(2);
+      // フレーム位置は全チャンネルで共通のため、逆相の関係が保たれる
+      const stretchedLeft = stretched.getChannelData(0);
+      const stretchedRight = stretched.getChannelData(1);
+      const maxDifference = stretchedLeft.reduce((max, value, i) => Math.max(max, Math.abs(value + stretchedRight[i])), 0);
+      expect(maxDifference).toBeLessThan(1e-6);
+    });
+  });
+
+  describe('エラー処理', () => {
+    it('倍率が正の数でない場合はエラーになる', () => {
+      const buffer = createMockBuffer([createSine(0.1, 440)]);
+      expect(() => stretcher.stretch(buffer, 0)).toThrow();
+      expect(() => stretcher.stretch(buffer, -1)).toThrow();
+    });
+  });
+});
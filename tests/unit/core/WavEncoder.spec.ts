@@ -0,0 +1,159 @@
+/**
+ * @file WavEncoder.spec.ts
+ * @brief WavEncoderクラスのテスト
+ * @details
+ * - ヘッダーの書き込みテスト
+ * - ビット深度ごとのサンプル値の書き込みテスト
+ * - チャンネル数の変換テスト
+ * - リサンプリングのテスト
+ * - エラー処理のテスト
+ */
+
+import { WavEncoder } from '@/core/WavEncoder';
+
+// AudioBufferのモックを作成
+const createMockBuffer = (channels: number[][], sampleRate = 44100): AudioBuffer => ({
+  numberOfChannels: channels.length,
+  length: channels[0].length,
+  sampleRate,
+  duration: channels[0].length / sampleRate,
+  getChannelData: (channel: number) => Float32Array.from(channels[channel])
+}) as unknown as AudioBuffer;
+
+// BlobをDataViewとして読み込む
+const readBlob = (blob: Blob): Promise<DataView> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(new DataView(reader.result as ArrayBuffer));
+  reader.onerror = () => reject(reader.error);
+  reader.readAsArrayBuffer(blob);
+});
+
+const readString = (view: DataView, offset: number, length: number): string => {
+  let value = '';
+  for (let i = 0; i < length; i++) {
+    value += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return value;
+};
+
+describe('WavEncoder', () => {
+  describe('ヘッダー', () => {
+    it('16bitステレオのRIFF/WAVEヘッダーを書き込む', async () => {
+      const encoder = new WavEncoder({ bitDepth: 16, channels: 2, dither: false });
+      const blob = encoder.encodeBuffer(createMockBuffer([[0, 0], [0, 0]]));
+      const view = await readBlob(blob);
+
+      expect(blob.type).toBe('audio/wav');
+      expect(view.byteLength).toBe(44 + 2 * 2 * 2);
+      expect(readString(view, 0, 4)).toBe('RIFF');
+      expect(view.getUint32(4, true)).toBe(view.byteLength - 8);
+      expect(readString(view, 8, 4)).toBe('WAVE');
+      expect(readString(view, 12, 4)).toBe('fmt ');
+      expect(view.getUint16(20, true)).toBe(1);       // PCM
+      expect(view.getUint16(22, true)).toBe(2);       // チャンネル数
+      expect(view.getUint32(24, true)).toBe(44100);   // サンプルレート
+      expect(view.getUint32(28, true)).toBe(44100 * 4);
+      expect(view.getUint16(32, true)).toBe(4);       // ブロックサイズ
+      expect(view.getUint16(34, true)).toBe(16);      // ビット深度
+      expect(readString(view, 36, 4)).toBe('data');
+      expect(view.getUint32(40, true)).toBe(8);
+    });
+
+    it('32bit浮動小数点ではIEEE floatフォーマットとfactチャンクを書き込む', async () => {
+      const encoder = new WavEncoder({ bitDepth: 32, channels: 1 });
+      const view = await readBlob(encoder.encodeBuffer(createMockBuffer([[0.25, -0.5, 1]])));
+
+      expect(view.getUint16(20, true)).toBe(3);
+      expect(readString(view, 38, 4)).toBe('fact');
+      expect(view.getUint32(46, true)).toBe(3);
+      expect(readString(view, 50, 4)).toBe('data');
+      expect(view.getFloat32(58, true)).toBe(0.25);
+      expect(view.getFloat32(62, true)).toBe(-0.5);
+      expect(view.getFloat32(66, true)).toBe(1);
+    });
+  });
+
+  describe('サンプル値', () => {
+    it('16bitではディザーなしで値を量子化し、範囲外の値はクリップする', async () => {
+      const encoder = new WavEncoder({ bitDepth: 16, channels: 1, dither: false });
+      const view = await readBlob(encoder.encodeBuffer(createMockBuffer([[1, -1, 0.5, 2]])));
+
+      expect(view.getInt16(44, true)).toBe(32767);
+      expect(view.getInt16(46, true)).toBe(-32767);
+      expect(view.getInt16(48, true)).toBe(16384);
+      expect(view.getInt16(50, true)).toBe(32767);
+    });
+
+    it('24bitでは3バイトのリトルエンディアンで書き込む', async () => {
+      const encoder = new WavEncoder({ bitDepth: 24, channels: 1, dither: false });
+      const view = await readBlob(encoder.encodeBuffer(createMockBuffer([[1, -1]])));
+      const read24 = (offset: number) =>
+        (view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16));
+
+      expect(view.getUint16(34, true)).toBe(24);
+      expect(read24(44)).toBe(8388607);
+      expect(read24(47)).toBe(-8388607);
+    });
+
+    it('ディザーは±1LSBの範囲に収まる', async () => {
+      const encoder = new WavEncoder({ bitDepth: 16, channels: 1, dither: true });
+      const view = await readBlob(encoder.encodeBuffer(createMockBuffer([new Array(100).fill(0)])));
+      for (let i = 0; i < 100; i++) {
+        expect(Math.abs(view.getInt16(44 + i * 2, true))).toBeLessThanOrEqual(1);
+      }
+    });
+  });
+
+  describe('チャンネル数', () => {
+    it('ステレオをモノラルに変換するときは平均を取る', async () => {
+      const encoder = new WavEncoder({ bitDepth: 32, channels: 1 });
+      const view = await readBlob(encoder.encodeBuffer(createMockBuffer([[0.5], [0.25]])));
+      expect(view.getFloat32(58, true)).toBe(0.375);
+    });
+
+    it('モノラルをステレオに変換するときは両チャンネルに複製する', async () => {
+      const encoder = new WavEncoder({ bitDepth: 32, channels: 2 });
+      const view = await readBlob(encoder.encodeBuffer(createMockBuffer([[0.5]])));
+      expect(view.getFloat32(58, true)).toBe(0.5);
+      expect(view.getFloat32(62, true)).toBe(0.5);
+    });
+  });
+
+  describe('リサンプリング', () => {
+    afterEach(() => {
+      delete (window as any).OfflineAudioContext;
+    });
+
+    it('サンプルレートが異なる場合はOfflineAudioContextで変換する', async () => {
+      const resampled = createMockBuffer([[0, 0, 0]], 48000);
+      const source = { connect: jest.fn(), start: jest.fn(), buffer: null };
+      (window as any).OfflineAudioContext = jest.fn().mockImplementation(() => ({
+        createBufferSource: () => source,
+        startRendering: jest.fn().mockResolvedValue(resampled),
+        destination: {}
+      }));
+
+      const encoder = new WavEncoder({ bitDepth: 16, sampleRate: 48000, channels: 1, dither: false });
+      const view = await readBlob(await encoder.encode(createMockBuffer([new Array(441).fill(0)])));
+
+      expect((window as any).OfflineAudioContext).toHaveBeenCalledWith(1, 480, 48000);
+      expect(source.start).toHaveBeenCalledWith(0);
+      expect(view.getUint32(24, true)).toBe(48000);
+    });
+
+    it('サンプルレートが同じ場合は変換しない', async () => {
+      (window as any).OfflineAudioContext = jest.fn();
+      const encoder = new WavEncoder({ bitDepth: 16, sampleRate: 44100, channels: 1 });
+      await encoder.encode(createMockBuffer([[0]]));
+      expect((window as any).OfflineAudioContext).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('エラー処理', () => {
+    it('対応していない設定を指定するとエラーになる', () => {
+      expect(() => new WavEncoder({ bitDepth: 8 as any })).toThrow();
+      expect(() => new WavEncoder({ sampleRate: 22050 as any })).toThrow();
+      expect(() => new WavEncoder({ channels: 6 as any })).toThrow();
+    });
+  });
+});
\ No newline at end of file
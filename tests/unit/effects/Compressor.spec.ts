@@ -0,0 +1,214 @@
+/**
+ * @file Compressor.spec.ts
+ * @brief コンプレッサーエフェクトのテスト
+ * @details
+ * - コンプレッサーの初期化とパラメータ名
+ * - スレッショルドとコンプレッサーの有効/無効
+ * - レシオ、アタック、リリース、ニー、メイクアップゲインの設定
+ * - ゲインリダクションの取得
+ * - パラメータの滑らかな変化
+ * - コンプレッサーのリセット
+ * - 状態の取得と復元
+ * - コンプレッサーの破棄
+ */
+
+import {
+  Compressor,
+  toRatio,
+  toAttackSeconds,
+  toReleaseSeconds,
+  COMPRESSOR_DEFAULT_SETTINGS
+} from '@/effects/Compressor';
+import {
+  COMPRESSOR_MIN_THRESHOLD_DB,
+  COMPRESSOR_MAX_RATIO,
+  COMPRESSOR_MAX_KNEE_DB,
+  COMPRESSOR_MAX_MAKEUP_DB,
+  PARAMETER_RAMP_SECONDS
+} from '@/core/audioConstants';
+import { EFFECT_STATE_VERSION } from '@/effects/base/BaseEffect';
+
+// AudioParamのモック（予約した値をすぐに反映し、パラメータの変化の予約を検証する）
+class MockAudioParam {
+  setValueAtTime = jest.fn((value: number) => { this.value = value; });
+  setTargetAtTime = jest.fn((value: number) => { this.value = value; });
+  linearRampToValueAtTime = jest.fn((value: number) => { this.value = value; });
+  exponentialRampToValueAtTime = jest.fn((value: number) => { this.value = value; });
+  cancelScheduledValues = jest.fn();
+
+  constructor(public value: number) {}
+}
+
+// AudioContextのモック
+class MockAudioContext {
+  currentTime = 0;
+
+  createDynamicsCompressor() {
+    return {
+      threshold: new MockAudioParam(-24),
+      ratio: new MockAudioParam(12),
+      attack: new MockAudioParam(0.003),
+      release: new MockAudioParam(0.25),
+      knee: new MockAudioParam(30),
+      reduction: -6,
+      disconnect: jest.fn(),
+      connect: jest.fn()
+    };
+  }
+
+  createGain() {
+    return {
+      gain: new MockAudioParam(1),
+      disconnect: jest.fn(),
+      connect: jest.fn()
+    };
+  }
+
+  close() {
+    // 何もしない
+  }
+}
+
+describe('Compressor', () => {
+  let compressor: Compressor;
+  let context: AudioContext;
+
+  beforeEach(() => {
+    context = new MockAudioContext() as unknown as AudioContext;
+    compressor = new Compressor(context);
+  });
+
+  afterEach(() => {
+    context.close();
+  });
+
+  describe('初期化', () => {
+    it('コンプレッサーが正しく初期化されること', () => {
+      expect(compressor).toBeDefined();
+      expect(compressor.isEffectEnabled()).toBe(false);
+      expect(compressor.getStatus()).toMatchObject({ ...COMPRESSOR_DEFAULT_SETTINGS, threshold: 0, thresholdDb: 0 });
+      expect(compressor.getParameter('wet')).toBe(0);
+      expect(compressor.getParameter('dry')).toBe(1);
+    });
+
+    it('パラメータ名の一覧を取得できること', () => {
+      expect(compressor.getParameterNames()).toEqual(['ratio', 'attack', 'release', 'knee', 'makeup', 'wet', 'dry']);
+    });
+  });
+
+  describe('スレッショルド', () => {
+    it('0より大きい値を設定するとコンプレッサーが有効になり、スレッショルドが下がること', () => {
+      compressor.updateEffect(1);
+      expect(compressor.isEffectEnabled()).toBe(true);
+      expect(compressor['compressor'].threshold.value).toBe(COMPRESSOR_MIN_THRESHOLD_DB);
+      compressor.updateEffect(0.5);
+      expect(compressor.getStatus().thresholdDb).toBe(COMPRESSOR_MIN_THRESHOLD_DB / 2);
+    });
+
+    it('0を設定するとコンプレッサーが無効になること', () => {
+      compressor.updateEffect(0.5);
+      compressor.updateEffect(0);
+      expect(compressor.isEffectEnabled()).toBe(false);
+    });
+
+    it('無効な値を設定するとエラーになること', () => {
+      expect(() => compressor.updateEffect(1.5)).toThrow();
+      expect(() => compressor.updateEffect(-0.5)).toThrow();
+    });
+  });
+
+  describe('パラメータ', () => {
+    it('各パラメータをDynamicsCompressorNodeとメイクアップゲインに反映すること', () => {
+      compressor.setParameter('ratio', 1);
+      compressor.setParameter('attack', 0.5);
+      compressor.setParameter('release', 0);
+      compressor.setParameter('knee', 1);
+      compressor.setParameter('makeup', 1);
+      const node = compressor['compressor'];
+      expect(node.ratio.value).toBeCloseTo(COMPRESSOR_MAX_RATIO);
+      expect(node.attack.value).toBeCloseTo(toAttackSeconds(0.5));
+      expect(node.release.value).toBeCloseTo(toReleaseSeconds(0));
+      expect(node.knee.value).toBe(COMPRESSOR_MAX_KNEE_DB);
+      expect(compressor['makeupGain'].gain.value).toBeCloseTo(Math.pow(10, COMPRESSOR_MAX_MAKEUP_DB / 20));
+      expect(toRatio(0)).toBe(1);
+    });
+
+    it('無効な値を設定するとエラーになること', () => {
+      expect(() => compressor.setParameter('ratio', 1.5)).toThrow();
+      expect(() => compressor.setParameter('invalid', 0.5)).toThrow();
+    });
+
+    it('設定をまとめて変更できること', () => {
+      compressor.setSettings({ ratio: 0.2, attack: 0.3, release: 0.4, knee: 0.5, makeup: 0.6 });
+      expect(compressor.getStatus()).toMatchObject({ ratio: 0.2, attack: 0.3, release: 0.4, knee: 0.5, makeup: 0.6 });
+      expect(() => compressor.setSettings({ ...COMPRESSOR_DEFAULT_SETTINGS, knee: -1 })).toThrow();
+    });
+  });
+
+  describe('ゲインリダクション', () => {
+    it('有効な場合はDynamicsCompressorNodeのゲインリダクションを返すこと', () => {
+      expect(compressor.getReduction()).toBe(0);
+      compressor.updateEffect(0.5);
+      expect(compressor.getReduction()).toBe(-6);
+    });
+  });
+
+  describe('パラメータの変化', () => {
+    it('スレッショルドと設定をDynamicsCompressorNodeで滑らかに変化させること', () => {
+      compressor.updateEffect(1);
+      const { threshold, ratio } = compressor['compressor'];
+      expect(threshold.cancelScheduledValues).toHaveBeenLastCalledWith(0);
+      expect(threshold.setTargetAtTime).toHaveBeenLastCalledWith(COMPRESSOR_MIN_THRESHOLD_DB, 0, PARAMETER_RAMP_SECONDS);
+      compressor.setParameter('ratio', 1);
+      expect(ratio.setTargetAtTime).toHaveBeenLastCalledWith(COMPRESSOR_MAX_RATIO, 0, PARAMETER_RAMP_SECONDS);
+    });
+
+    it('wet/dryのゲインを滑らかに変化させ、目標値を返すこと', () => {
+      compressor.setParameter('wet', 0.5);
+      expect(compressor['wetGain'].gain.setTargetAtTime).toHaveBeenLastCalledWith(0.5, 0, PARAMETER_RAMP_SECONDS);
+      expect(compressor.getParameter('wet')).toBe(0.5);
+    });
+
+    it('変化のカーブを設定できること', () => {
+      compressor.setParameterRamp({ type: 'instant' });
+      compressor.setParameter('ratio', 1);
+      expect(compressor['compressor'].ratio.setValueAtTime).toHaveBeenLastCalledWith(COMPRESSOR_MAX_RATIO, 0);
+    });
+  });
+
+  describe('リセット', () => {
+    it('設定が初期状態に戻ること', () => {
+      compressor.updateEffect(0.8);
+      compressor.setParameter('makeup', 0.9);
+      compressor.reset();
+      expect(compressor.isEffectEnabled()).toBe(false);
+      expect(compressor.getStatus()).toMatchObject({ ...COMPRESSOR_DEFAULT_SETTINGS, threshold: 0 });
+    });
+  });
+
+  describe('破棄', () => {
+    it('破棄後は操作できないこと', () => {
+      compressor.dispose();
+      expect(() => compressor.updateEffect(0.5)).toThrow();
+    });
+  });
+
+  describe('状態', () => {
+    it('JSONに変換した状態から同じコンプレッサーを復元できること', () => {
+      compressor.setSettings({ ratio: 0.2, attack: 0.3, release: 0.4, knee: 0.5, makeup: 0.6 });
+      compressor.updateEffect(0.5);
+      const state = compressor.getState();
+      expect(state).toEqual({
+        version: EFFECT_STATE_VERSION,
+        value: 0.5,
+        settings: { ratio: 0.2, attack: 0.3, release: 0.4, knee: 0.5, makeup: 0.6 }
+      });
+
+      const restored = new Compressor(context);
+      restored.setState(JSON.parse(JSON.stringify(state)));
+      expect(restored.getState()).toEqual(state);
+      expect(restored.getStatus()).toEqual(compressor.getStatus());
+      restored.dispose();
+    });
+  });
+});
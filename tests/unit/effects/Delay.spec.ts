@@ -0,0 +1,288 @@
+/**
+ * @file Delay.spec.ts
+ * @brief ディレイエフェクトのテスト
+ * @details
+ * - ディレイの初期化とパラメータ名
+ * - ミックスとディレイの有効/無効
+ * - ディレイタイム（ミリ秒とテンポ同期）の設定
+ * - フィードバックとローカット/ハイカットの設定
+ * - ピンポンの切り替え
+ * - 残響の長さの計算
+ * - パラメータの滑らかな変化
+ * - ディレイのリセット
+ * - 状態の取得と復元
+ * - ディレイの破棄
+ */
+
+import { Delay, toDelayTimeMs, toFeedbackGain, toCutFrequency, DELAY_DEFAULT_SETTINGS } from '@/effects/Delay';
+import { DELAY_MAX_TIME_MS, DELAY_MAX_TAIL_SECONDS, PARAMETER_RAMP_SECONDS } from '@/core/audioConstants';
+import { EFFECT_STATE_VERSION } from '@/effects/base/BaseEffect';
+
+// AudioParamのモック（予約した値をすぐに反映し、パラメータの変化の予約を検証する）
+class MockAudioParam {
+  setValueAtTime = jest.fn((value: number) => { this.value = value; });
+  setTargetAtTime = jest.fn((value: number) => { this.value = value; });
+  linearRampToValueAtTime = jest.fn((value: number) => { this.value = value; });
+  exponentialRampToValueAtTime = jest.fn((value: number) => { this.value = value; });
+  cancelScheduledValues = jest.fn();
+
+  constructor(public value: number) {}
+}
+
+// AudioContextのモック
+class MockAudioContext {
+  currentTime = 0;
+
+  createDelay() {
+    return {
+      delayTime: new MockAudioParam(0),
+      disconnect: jest.fn(),
+      connect: jest.fn()
+    };
+  }
+
+  createBiquadFilter() {
+    return {
+      type: 'lowpass',
+      frequency: new MockAudioParam(1000),
+      Q: new MockAudioParam(1),
+      disconnect: jest.fn(),
+      connect: jest.fn()
+    };
+  }
+
+  createChannelSplitter() {
+    return {
+      channelInterpretation: 'discrete',
+      disconnect: jest.fn(),
+      connect: jest.fn()
+    };
+  }
+
+  createChannelMerger() {
+    return {
+      disconnect: jest.fn(),
+      connect: jest.fn()
+    };
+  }
+
+  createGain() {
+    return {
+      gain: new MockAudioParam(1),
+      disconnect: jest.fn(),
+      connect: jest.fn()
+    };
+  }
+
+  close() {
+    // 何もしない
+  }
+}
+
+describe('Delay', () => {
+  let delay: Delay;
+  let context: AudioContext;
+
+  // 左右のディレイラインのディレイタイム（秒）
+  const getDelayTimes = () => delay['delays'].map(node => node.delayTime.value);
+
+  beforeEach(() => {
+    context = new MockAudioContext() as unknown as AudioContext;
+    delay = new Delay(context);
+  });
+
+  afterEach(() => {
+    context.close();
+  });
+
+  describe('初期化', () => {
+    it('ディレイが正しく初期化されること', () => {
+      expect(delay).toBeDefined();
+      expect(delay.isEffectEnabled()).toBe(false);
+      expect(delay.getStatus()).toMatchObject({ ...DELAY_DEFAULT_SETTINGS, mix: 0, tempo: 120 });
+      expect(getDelayTimes()).toEqual([1, 1].map(() => toDelayTimeMs(DELAY_DEFAULT_SETTINGS.time) / 1000));
+    });
+
+    it('モノラルの入力を2チャンネルにアップミックスしてから左右に振り分けること', () => {
+      const upmix = delay['upmix'];
+      expect(upmix).toMatchObject({ channelCount: 2, channelCountMode: 'explicit', channelInterpretation: 'speakers' });
+      expect(delay['input'].connect).toHaveBeenCalledWith(upmix);
+      expect(upmix.connect).toHaveBeenCalledWith(delay['splitter']);
+      expect(delay['splitter'].channelInterpretation).toBe('discrete');
+    });
+
+    it('パラメータ名の一覧を取得できること', () => {
+      expect(delay.getParameterNames()).toEqual(['time', 'feedback', 'lowCut', 'highCut', 'wet', 'dry']);
+    });
+  });
+
+  describe('ミックス', () => {
+    it('0より大きい値を設定するとディレイが有効になること', () => {
+      delay.updateEffect(0.5);
+      expect(delay.isEffectEnabled()).toBe(true);
+      expect(delay.getStatus().mix).toBe(0.5);
+    });
+
+    it('0を設定するとディレイが無効になること', () => {
+      delay.updateEffect(0.5);
+      delay.updateEffect(0);
+      expect(delay.isEffectEnabled()).toBe(false);
+    });
+
+    it('無効な値を設定するとエラーになること', () => {
+      expect(() => delay.updateEffect(1.5)).toThrow();
+      expect(() => delay.updateEffect(-0.5)).toThrow();
+    });
+  });
+
+  describe('ディレイタイム', () => {
+    it('ミリ秒のディレイタイムを左右のディレイラインに設定すること', () => {
+      delay.setParameter('time', 1);
+      expect(getDelayTimes()).toEqual([DELAY_MAX_TIME_MS / 1000, DELAY_MAX_TIME_MS / 1000]);
+      expect(delay.getParameter('time')).toBe(1);
+    });
+
+    it('テンポ同期では音符の長さとテンポからディレイタイムを決めること', () => {
+      delay.setSync(true);
+      delay.setNoteValue('1/4');
+      expect(delay.getStatus().timeMs).toBe(500);
+      delay.setTempo(60);
+      expect(getDelayTimes()).toEqual([1, 1]);
+      delay.setNoteValue('1/8d');
+      expect(delay.getStatus().timeMs).toBe(750);
+      delay.setNoteValue('1/4t');
+      expect(delay.getStatus().timeMs).toBeCloseTo(666.667, 2);
+    });
+
+    it('テンポ同期のディレイタイムは最大値を超えないこと', () => {
+      delay.setSync(true);
+      delay.setNoteValue('1/2');
+      delay.setTempo(20);
+      expect(delay.getStatus().timeMs).toBe(DELAY_MAX_TIME_MS);
+    });
+
+    it('無効な音符の長さやテンポを設定するとエラーになること', () => {
+      expect(() => delay.setNoteValue('1/3' as any)).toThrow();
+      expect(() => delay.setTempo(10)).toThrow();
+      expect(() => delay.setTempo(NaN)).toThrow();
+    });
+  });
+
+  describe('フィードバックとフィルター', () => {
+    it('フィードバックとローカット/ハイカットを設定できること', () => {
+      delay.setParameter('feedback', 1);
+      delay.setParameter('lowCut', 0.5);
+      delay.setParameter('highCut', 0.5);
+      delay['feedbackGains'].forEach(gain => expect(gain.gain.value).toBe(toFeedbackGain(1)));
+      delay['lowCuts'].forEach(filter => {
+        expect(filter.type).toBe('highpass');
+        expect(filter.frequency.value).toBeCloseTo(toCutFrequency(0.5));
+      });
+      delay['highCuts'].forEach(filter => expect(filter.type).toBe('lowpass'));
+      expect(toFeedbackGain(1)).toBeLessThan(1);
+    });
+
+    it('無効な値を設定するとエラーになること', () => {
+      expect(() => delay.setParameter('feedback', 1.5)).toThrow();
+      expect(() => delay.setParameter('invalid', 0.5)).toThrow();
+    });
+  });
+
+  describe('ピンポン', () => {
+    it('ピンポンではフィードバックを反対側のディレイラインに送ること', () => {
+      delay.setPingPong(true);
+      delay['selfGains'].forEach(gain => expect(gain.gain.value).toBe(0));
+      delay['crossGains'].forEach(gain => expect(gain.gain.value).toBe(1));
+      expect(delay['rightInput'].gain.value).toBe(0);
+      expect(delay['crossInput'].gain.value).toBe(0.5);
+
+      delay.setPingPong(false);
+      delay['selfGains'].forEach(gain => expect(gain.gain.value).toBe(1));
+      delay['crossGains'].forEach(gain => expect(gain.gain.value).toBe(0));
+      expect(delay['rightInput'].gain.value).toBe(1);
+    });
+  });
+
+  describe('残響の長さ', () => {
+    it('バイパス中は0になること', () => {
+      expect(delay.getTailSeconds()).toBe(0);
+    });
+
+    it('フィードバックが0の場合はディレイタイム1回分になること', () => {
+      delay.updateEffect(0.5);
+      delay.setParameter('feedback', 0);
+      expect(delay.getTailSeconds()).toBeCloseTo(delay.getStatus().timeMs / 1000);
+    });
+
+    it('フィードバックが大きいほど長くなり、最大値を超えないこと', () => {
+      delay.updateEffect(0.5);
+      delay.setParameter('feedback', 0.3);
+      const shortTail = delay.getTailSeconds();
+      delay.setParameter('feedback', 0.6);
+      expect(delay.getTailSeconds()).toBeGreaterThan(shortTail);
+      delay.setParameter('feedback', 1);
+      delay.setParameter('time', 1);
+      expect(delay.getTailSeconds()).toBe(DELAY_MAX_TAIL_SECONDS);
+    });
+  });
+
+  describe('パラメータの変化', () => {
+    it('ディレイタイムを左右のディレイラインで滑らかに変化させること', () => {
+      delay.setParameter('time', 1);
+      delay['delays'].forEach(node => {
+        expect(node.delayTime.cancelScheduledValues).toHaveBeenLastCalledWith(0);
+        expect(node.delayTime.setTargetAtTime).toHaveBeenLastCalledWith(DELAY_MAX_TIME_MS / 1000, 0, PARAMETER_RAMP_SECONDS);
+      });
+    });
+
+    it('フィードバック、ピンポンの切り替え、wet/dryのゲインを滑らかに変化させること', () => {
+      delay.setParameter('feedback', 1);
+      delay['feedbackGains'].forEach(gain => {
+        expect(gain.gain.setTargetAtTime).toHaveBeenLastCalledWith(toFeedbackGain(1), 0, PARAMETER_RAMP_SECONDS);
+      });
+      delay.setPingPong(true);
+      expect(delay['crossInput'].gain.setTargetAtTime).toHaveBeenLastCalledWith(0.5, 0, PARAMETER_RAMP_SECONDS);
+      delay.setParameter('wet', 0.5);
+      expect(delay['wetGain'].gain.setTargetAtTime).toHaveBeenLastCalledWith(0.5, 0, PARAMETER_RAMP_SECONDS);
+      expect(delay.getParameter('wet')).toBe(0.5);
+    });
+  });
+
+  describe('リセット', () => {
+    it('設定が初期状態に戻り、テンポは保持されること', () => {
+      delay.updateEffect(0.8);
+      delay.setTempo(90);
+      delay.setPingPong(true);
+      delay.setParameter('feedback', 0.9);
+      delay.reset();
+      expect(delay.isEffectEnabled()).toBe(false);
+      expect(delay.getStatus()).toMatchObject({ ...DELAY_DEFAULT_SETTINGS, mix: 0, tempo: 90 });
+    });
+  });
+
+  describe('破棄', () => {
+    it('破棄後は操作できないこと', () => {
+      delay.dispose();
+      expect(() => delay.updateEffect(0.5)).toThrow();
+    });
+  });
+
+  describe('状態', () => {
+    it('JSONに変換した状態から同じディレイを復元できること', () => {
+      delay.setSettings({ ...DELAY_DEFAULT_SETTINGS, feedback: 0.7, pingPong: true });
+      delay.updateEffect(0.4);
+      const state = delay.getState();
+      expect(state).toEqual({
+        version: EFFECT_STATE_VERSION,
+        value: 0.4,
+        settings: { ...DELAY_DEFAULT_SETTINGS, feedback: 0.7, pingPong: true }
+      });
+
+      const restored = new Delay(context);
+      restored.setState(JSON.parse(JSON.stringify(state)));
+      expect(restored.getState()).toEqual(state);
+      expect(restored.getStatus()).toEqual(delay.getStatus());
+      restored.dispose();
+    });
+  });
+});
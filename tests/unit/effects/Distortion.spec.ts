@@ -0,0 +1,273 @@
+/**
+ * @file Distortion.spec.ts
+ * @brief ディストーションエフェクトのテスト
+ * @details
+ * - ディストーションの初期化とパラメータ名
+ * - ドライブとディストーションの有効/無効
+ * - カーブの種類ごとの形状
+ * - 出力の自動補正と調整
+ * - トーンとオーバーサンプリングの設定
+ * - パラメータの滑らかな変化
+ * - ディストーションのリセット
+ * - 状態の取得と復元
+ * - ディストーションの破棄
+ */
+
+import {
+  Distortion,
+  createDistortionCurve,
+  getCompensationGain,
+  toBitDepth,
+  toToneFrequency,
+  DISTORTION_DEFAULT_SETTINGS
+} from '@/effects/Distortion';
+import {
+  DISTORTION_MIN_BITS,
+  DISTORTION_MAX_BITS,
+  DISTORTION_MAX_TONE_FREQUENCY,
+  PARAMETER_RAMP_SECONDS
+} from '@/core/audioConstants';
+import { EFFECT_STATE_VERSION } from '@/effects/base/BaseEffect';
+
+// AudioParamのモック（予約した値をすぐに反映し、パラメータの変化の予約を検証する）
+class MockAudioParam {
+  setValueAtTime = jest.fn((value: number) => { this.value = value; });
+  setTargetAtTime = jest.fn((value: number) => { this.value = value; });
+  linearRampToValueAtTime = jest.fn((value: number) => { this.value = value; });
+  exponentialRampToValueAtTime = jest.fn((value: number) => { this.value = value; });
+  cancelScheduledValues = jest.fn();
+
+  constructor(public value: number) {}
+}
+
+// AudioContextのモック
+class MockAudioContext {
+  currentTime = 0;
+
+  createWaveShaper() {
+    return {
+      curve: null,
+      oversample: 'none',
+      disconnect: jest.fn(),
+      connect: jest.fn()
+    };
+  }
+
+  createBiquadFilter() {
+    return {
+      type: 'lowpass',
+      frequency: new MockAudioParam(1000),
+      Q: new MockAudioParam(1),
+      disconnect: jest.fn(),
+      connect: jest.fn()
+    };
+  }
+
+  createGain() {
+    return {
+      gain: new MockAudioParam(1),
+      disconnect: jest.fn(),
+      connect: jest.fn()
+    };
+  }
+
+  close() {
+    // 何もしない
+  }
+}
+
+// カーブ上の入力xに対応する出力を取得
+const valueAt = (curve: Float32Array, x: number): number => {
+  return curve[Math.round((x + 1) / 2 * (curve.length - 1))];
+};
+
+describe('Distortion', () => {
+  let distortion: Distortion;
+  let context: AudioContext;
+
+  beforeEach(() => {
+    context = new MockAudioContext() as unknown as AudioContext;
+    distortion = new Distortion(context);
+  });
+
+  afterEach(() => {
+    context.close();
+  });
+
+  describe('初期化', () => {
+    it('ディストーションが正しく初期化されること', () => {
+      expect(distortion).toBeDefined();
+      expect(distortion.isEffectEnabled()).toBe(false);
+      expect(distortion.getStatus()).toMatchObject({ ...DISTORTION_DEFAULT_SETTINGS, drive: 0, outputDb: 0 });
+      expect(distortion['shaper'].oversample).toBe('2x');
+      expect(distortion['tone'].frequency.value).toBeCloseTo(DISTORTION_MAX_TONE_FREQUENCY);
+    });
+
+    it('パラメータ名の一覧を取得できること', () => {
+      expect(distortion.getParameterNames()).toEqual(['tone', 'output', 'wet', 'dry']);
+    });
+  });
+
+  describe('ドライブ', () => {
+    it('0より大きい値を設定するとディストーションが有効になること', () => {
+      distortion.updateEffect(0.5);
+      expect(distortion.isEffectEnabled()).toBe(true);
+      expect(distortion.getStatus().drive).toBe(0.5);
+    });
+
+    it('0を設定するとディストーションが無効になること', () => {
+      distortion.updateEffect(0.5);
+      distortion.updateEffect(0);
+      expect(distortion.isEffectEnabled()).toBe(false);
+    });
+
+    it('無効な値を設定するとエラーになること', () => {
+      expect(() => distortion.updateEffect(1.5)).toThrow();
+      expect(() => distortion.updateEffect(-0.5)).toThrow();
+    });
+
+    it('ドライブを上げるほど小さい入力が持ち上がること', () => {
+      const low = createDistortionCurve('softClip', 0.2);
+      const high = createDistortionCurve('softClip', 0.8);
+      expect(valueAt(high, 0.1)).toBeGreaterThan(valueAt(low, 0.1));
+    });
+  });
+
+  describe('カーブ', () => {
+    it('ソフトクリップとハードクリップは±1で飽和すること', () => {
+      const soft = createDistortionCurve('softClip', 1);
+      const hard = createDistortionCurve('hardClip', 1);
+      expect(valueAt(soft, 1)).toBeCloseTo(1);
+      expect(valueAt(hard, 0.5)).toBe(1);
+      expect(valueAt(hard, -0.5)).toBe(-1);
+    });
+
+    it('チューブは正負で非対称になること', () => {
+      const tube = createDistortionCurve('tube', 0.3);
+      expect(Math.abs(valueAt(tube, -0.5))).not.toBeCloseTo(valueAt(tube, 0.5), 2);
+    });
+
+    it('フォールドバックは±1を超えた分を折り返すこと', () => {
+      const foldback = createDistortionCurve('foldback', 1);
+      expect(Math.max(...Array.from(foldback))).toBeLessThanOrEqual(1);
+      expect(Math.min(...Array.from(foldback))).toBeGreaterThanOrEqual(-1);
+      // 入力が大きくなっても単調に増加しない
+      expect(valueAt(foldback, 0.5)).not.toBeCloseTo(1);
+    });
+
+    it('ビットリダクションはドライブに応じて量子化の段数が減ること', () => {
+      expect(toBitDepth(0)).toBe(DISTORTION_MAX_BITS);
+      expect(toBitDepth(1)).toBe(DISTORTION_MIN_BITS);
+      const reduced = createDistortionCurve('bitReduce', 1);
+      expect(new Set(Array.from(reduced)).size).toBe(Math.pow(2, DISTORTION_MIN_BITS) + 1);
+    });
+
+    it('カーブの種類を変更できること', () => {
+      distortion.setCurve('hardClip');
+      expect(distortion.getStatus().curve).toBe('hardClip');
+    });
+
+    it('無効な種類を設定するとエラーになること', () => {
+      expect(() => distortion.setCurve('invalid' as any)).toThrow();
+    });
+  });
+
+  describe('出力', () => {
+    it('基準のサイン波の音量が変わらないように自動で補正すること', () => {
+      const curve = createDistortionCurve('hardClip', 1);
+      const gain = getCompensationGain(curve);
+      expect(gain).toBeLessThan(1);
+      distortion.updateEffect(1);
+      distortion.setCurve('hardClip');
+      expect(distortion['outputGain'].gain.value).toBeCloseTo(gain);
+    });
+
+    it('出力の調整を補正のゲインに掛けること', () => {
+      distortion.updateEffect(0.5);
+      const compensated = distortion['outputGain'].gain.value;
+      distortion.setParameter('output', 1);
+      expect(distortion.getStatus().outputDb).toBe(12);
+      expect(distortion['outputGain'].gain.value).toBeCloseTo(compensated * Math.pow(10, 12 / 20));
+    });
+  });
+
+  describe('トーンとオーバーサンプリング', () => {
+    it('トーンをローパスの周波数に設定すること', () => {
+      distortion.setParameter('tone', 0.5);
+      expect(distortion.getParameter('tone')).toBe(0.5);
+      expect(distortion['tone'].frequency.value).toBeCloseTo(toToneFrequency(0.5));
+    });
+
+    it('オーバーサンプリングを設定できること', () => {
+      distortion.setOversample('4x');
+      expect(distortion['shaper'].oversample).toBe('4x');
+      expect(() => distortion.setOversample('8x' as any)).toThrow();
+    });
+
+    it('無効な値を設定するとエラーになること', () => {
+      expect(() => distortion.setParameter('tone', 1.5)).toThrow();
+      expect(() => distortion.setParameter('invalid', 0.5)).toThrow();
+    });
+
+    it('設定をまとめて変更できること', () => {
+      distortion.setSettings({ curve: 'tube', tone: 0.2, output: 0.7, oversample: 'none' });
+      expect(distortion.getStatus()).toMatchObject({ curve: 'tube', tone: 0.2, output: 0.7, oversample: 'none' });
+      expect(() => distortion.setSettings({ ...DISTORTION_DEFAULT_SETTINGS, output: 2 })).toThrow();
+    });
+  });
+
+  describe('パラメータの変化', () => {
+    it('トーンと出力を滑らかに変化させること', () => {
+      distortion.setParameter('tone', 0.5);
+      expect(distortion['tone'].frequency.cancelScheduledValues).toHaveBeenLastCalledWith(0);
+      expect(distortion['tone'].frequency.setTargetAtTime)
+        .toHaveBeenLastCalledWith(toToneFrequency(0.5), 0, PARAMETER_RAMP_SECONDS);
+      distortion.setParameter('output', 1);
+      expect(distortion['outputGain'].gain.setTargetAtTime)
+        .toHaveBeenLastCalledWith(distortion['outputGain'].gain.value, 0, PARAMETER_RAMP_SECONDS);
+    });
+
+    it('wet/dryのゲインを滑らかに変化させ、目標値を返すこと', () => {
+      distortion.setParameter('wet', 0.5);
+      expect(distortion['wetGain'].gain.setTargetAtTime).toHaveBeenLastCalledWith(0.5, 0, PARAMETER_RAMP_SECONDS);
+      expect(distortion.getParameter('wet')).toBe(0.5);
+    });
+  });
+
+  describe('リセット', () => {
+    it('設定が初期状態に戻ること', () => {
+      distortion.updateEffect(0.8);
+      distortion.setCurve('foldback');
+      distortion.setParameter('tone', 0.1);
+      distortion.reset();
+      expect(distortion.isEffectEnabled()).toBe(false);
+      expect(distortion.getStatus()).toMatchObject({ ...DISTORTION_DEFAULT_SETTINGS, drive: 0 });
+    });
+  });
+
+  describe('破棄', () => {
+    it('破棄後は操作できないこと', () => {
+      distortion.dispose();
+      expect(() => distortion.updateEffect(0.5)).toThrow();
+    });
+  });
+
+  describe('状態', () => {
+    it('JSONに変換した状態から同じディストーションを復元できること', () => {
+      distortion.setSettings({ curve: 'tube', tone: 0.2, output: 0.7, oversample: 'none' });
+      distortion.updateEffect(0.6);
+      const state = distortion.getState();
+      expect(state).toEqual({
+        version: EFFECT_STATE_VERSION,
+        value: 0.6,
+        settings: { curve: 'tube', tone: 0.2, output: 0.7, oversample: 'none' }
+      });
+
+      const restored = new Distortion(context);
+      restored.setState(JSON.parse(JSON.stringify(state)));
+      expect(restored.getState()).toEqual(state);
+      expect(restored.getStatus()).toEqual(distortion.getStatus());
+      restored.dispose();
+    });
+  });
+});
@@ -5,9 +5,11 @@
  * - エフェクトの追加/削除テスト
  * - 接続/切断テスト
  * - エフェクトの有効/無効テスト
+ * - エフェクトの種類の識別子による取得テスト
+ * - バイパスと状態の取得/復元テスト
  */
 
-import { BaseEffect } from '@/effects/base/BaseEffect';
+import { BaseEffect, EFFECT_STATE_VERSION } from '@/effects/base/BaseEffect';
 import { EffectChain } from '@/effects/EffectChain';
 
 // AudioContextの型定義
@@ -57,6 +59,10 @@ class TestEffect extends BaseEffect {
     // テスト用の実装
     this.setParameter('test', value);
   }
+
+  protected getEffectValue(): number {
+    return 0;
+  }
 }
 
 describe('EffectChain', () => {
@@ -98,6 +104,19 @@ describe('EffectChain', () => {
     expect(effects.length).toBe(0);
   });
 
+  it('追加時に指定した識別子でエフェクトを取得できること', () => {
+    effectChain.addEffect(effect1, 'filter');
+    effectChain.addEffect(effect2);
+
+    // クラス名ではなく識別子で区別する
+    expect(effectChain.getEffect('filter')).toBe(effect1);
+    expect(effectChain.getFilter()).toBe(effect1);
+    expect(effectChain.getEffect('reverb')).toBeUndefined();
+
+    effectChain.removeEffect(effect1);
+    expect(effectChain.getEffect('filter')).toBeUndefined();
+  });
+
   it('エフェクトの有効/無効が反映されること', () => {
     effectChain.addEffect(effect1);
     
@@ -110,6 +129,73 @@ describe('EffectChain', () => {
     expect(effect1.isEffectEnabled()).toBe(false);
   });
 
+  it('バイパスしたエフェクトを飛ばして前後のエフェクトを接続すること', () => {
+    const effect3 = new TestEffect(context);
+    effectChain.addEffect(effect1, 'filter');
+    effectChain.addEffect(effect2, 'reverb');
+    effectChain.addEffect(effect3, 'delay');
+    const connectSpy = jest.spyOn(effect1.getOutput(), 'connect');
+
+    effectChain.setEffectBypassed('reverb', true);
+    expect(effectChain.isEffectBypassed('reverb')).toBe(true);
+    expect(connectSpy).toHaveBeenLastCalledWith(effect3.getInput());
+
+    effectChain.setEffectBypassed('reverb', false);
+    expect(effectChain.isEffectBypassed('reverb')).toBe(false);
+    expect(connectSpy).toHaveBeenLastCalledWith(effect2.getInput());
+  });
+
+  it('チェーンにないエフェクトをバイパスしようとするとエラーになること', () => {
+    expect(() => effectChain.setEffectBypassed('filter', true)).toThrow('エフェクトが見つかりません');
+    expect(() => effectChain.isEffectBypassed('filter')).toThrow('エフェクトが見つかりません');
+  });
+
+  it('接続順とバイパスの状態を取得して復元できること', () => {
+    effectChain.addEffect(effect1, 'filter');
+    effectChain.addEffect(effect2, 'reverb');
+    effectChain.reorderEffect(1, 0);
+    effectChain.setEffectBypassed('filter', true);
+    const state = effectChain.getState();
+    expect(state).toEqual({
+      version: EFFECT_STATE_VERSION,
+      effects: [{ type: 'reverb', bypassed: false }, { type: 'filter', bypassed: true }]
+    });
+
+    const restoredChain = new EffectChain(context);
+    restoredChain.addEffect(new TestEffect(context), 'filter');
+    restoredChain.addEffect(new TestEffect(context), 'reverb');
+    restoredChain.setState(JSON.parse(JSON.stringify(state)));
+    expect(restoredChain.getEffectTypes()).toEqual(['reverb', 'filter']);
+    expect(restoredChain.isEffectBypassed('filter')).toBe(true);
+    expect(restoredChain.getState()).toEqual(state);
+    restoredChain.dispose();
+  });
+
+  it('状態に含まれないエフェクトは後ろに接続されること', () => {
+    effectChain.addEffect(effect1, 'filter');
+    effectChain.addEffect(effect2, 'reverb');
+    effectChain.setState({ version: EFFECT_STATE_VERSION, effects: [{ type: 'reverb', bypassed: false }] });
+    expect(effectChain.getEffectTypes()).toEqual(['reverb', 'filter']);
+  });
+
+  it('無効な状態を復元しようとするとエラーになること', () => {
+    effectChain.addEffect(effect1, 'filter');
+    expect(() => effectChain.setState({
+      version: EFFECT_STATE_VERSION,
+      effects: [{ type: 'unknown', bypassed: false }]
+    })).toThrow('エフェクトが見つかりません');
+    expect(() => effectChain.setState({
+      version: EFFECT_STATE_VERSION,
+      effects: [{ type: 'filter', bypassed: false }, { type: 'filter', bypassed: true }]
+    })).toThrow('重複しています');
+    expect(() => effectChain.setState({ version: EFFECT_STATE_VERSION + 1, effects: [] })).toThrow('対応していない新しいバージョン');
+  });
+
+  it('識別子を指定せずに追加したエフェクトがある場合は状態を取得できないこと', () => {
+    effectChain.addEffect(effect1);
+    expect(() => effectChain.getState()).toThrow('識別子を指定せずに追加したエフェクト');
+  });
+
   it('エフェクトチェーンを破棄できること', () => {
     effectChain.addEffect(effect1);
     effectChain.dispose();
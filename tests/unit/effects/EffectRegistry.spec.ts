@@ -0,0 +1,137 @@
+/**
+ * @file EffectRegistry.spec.ts
+ * @brief EffectRegistryクラスと組み込みのエフェクトの定義のテスト
+ * @details
+ * - エフェクトの種類の登録/削除テスト
+ * - 登録した種類のエフェクトの作成テスト
+ * - 組み込みのエフェクトの定義テスト
+ */
+
+import { BaseEffect } from '@/effects/base/BaseEffect';
+import { EffectRegistry, EffectDefinition } from '@/effects/EffectRegistry';
+import { createBuiltinEffectRegistry } from '@/effects/builtinEffects';
+import { Filter, FILTER_DEFAULT_SETTINGS } from '@/effects/Filter';
+import { LIMITER_DEFAULT_CEILING } from '@/effects/Limiter';
+
+// テスト用の具象クラス
+class TestEffect extends BaseEffect {
+  public enable(): void {
+    this.isEnabled = true;
+  }
+
+  public disable(): void {
+    this.isEnabled = false;
+  }
+
+  public setParameter(): void {
+    // テスト用の実装
+  }
+
+  public getParameter(): number {
+    return 0;
+  }
+
+  public updateEffect(): void {
+    // テスト用の実装
+  }
+
+  protected getEffectValue(): number {
+    return 0;
+  }
+}
+
+describe('EffectRegistry', () => {
+  let registry: EffectRegistry;
+  let context: AudioContext;
+  const testDefinition: EffectDefinition = {
+    type: 'test',
+    create: context => new TestEffect(context),
+    parameters: [{ name: 'amount', defaultValue: 0.5 }],
+    defaultValue: 0
+  };
+
+  beforeEach(() => {
+    registry = new EffectRegistry();
+    context = new AudioContext();
+  });
+
+  describe('登録', () => {
+    it('登録した種類の定義を取得できること', () => {
+      registry.register(testDefinition);
+      expect(registry.has('test')).toBe(true);
+      expect(registry.getDefinition('test').parameters).toEqual([{ name: 'amount', defaultValue: 0.5 }]);
+      expect(registry.getTypes()).toEqual(['test']);
+    });
+
+    it('同じ識別子を二重に登録するとエラーになること', () => {
+      registry.register(testDefinition);
+      expect(() => registry.register(testDefinition)).toThrow('既に登録されています');
+    });
+
+    it('エフェクトの値の初期値が範囲外の場合はエラーになること', () => {
+      expect(() => registry.register({ ...testDefinition, defaultValue: 1.5 })).toThrow();
+    });
+
+    it('登録を削除できること', () => {
+      registry.register(testDefinition);
+      registry.unregister('test');
+      expect(registry.has('test')).toBe(false);
+      expect(() => registry.unregister('test')).toThrow();
+    });
+
+    it('マスターにのみ作成する種類を除いた一覧を取得できること', () => {
+      registry.register(testDefinition);
+      registry.register({ ...testDefinition, type: 'masterTest', masterOnly: true });
+      expect(registry.getTypes()).toEqual(['test', 'masterTest']);
+      expect(registry.getTypes(false)).toEqual(['test']);
+    });
+
+    it('チャンネルに追加した場合のみ作成する種類を除いた一覧を取得できること', () => {
+      registry.register(testDefinition);
+      registry.register({ ...testDefinition, type: 'optionalTest', optional: true });
+      expect(registry.getDefaultTypes()).toEqual(['test']);
+    });
+  });
+
+  describe('作成', () => {
+    it('登録した種類のエフェクトを作成できること', () => {
+      registry.register(testDefinition);
+      expect(registry.create('test', context)).toBeInstanceOf(TestEffect);
+    });
+
+    it('登録されていない種類を作成しようとするとエラーになること', () => {
+      expect(() => registry.create('unknown', context)).toThrow('登録されていないエフェクトの種類です');
+    });
+
+    it('作成に失敗した場合はエラーになること', () => {
+      registry.register({
+        ...testDefinition,
+        create: () => {
+          throw new Error('作成できません');
+        }
+      });
+      expect(() => registry.create('test', context)).toThrow('エフェクト test の作成に失敗しました: 作成できません');
+    });
+  });
+
+  describe('組み込みのエフェクト', () => {
+    it('組み込みのエフェクトが登録されていること', () => {
+      const builtinRegistry = createBuiltinEffectRegistry();
+      expect(builtinRegistry.getTypes(false)).toEqual(['filter', 'reverb', 'delay', 'distortion', 'equalizer']);
+      expect(builtinRegistry.getTypes()).toEqual([
+        'filter', 'reverb', 'delay', 'distortion', 'equalizer', 'compressor', 'limiter'
+      ]);
+      expect(builtinRegistry.create('filter', context)).toBeInstanceOf(Filter);
+    });
+
+    it('パラメータの定義とエフェクトの値の初期値を持つこと', () => {
+      const builtinRegistry = createBuiltinEffectRegistry();
+      expect(builtinRegistry.getDefinition('filter').parameters).toEqual([
+        { name: 'resonance', defaultValue: FILTER_DEFAULT_SETTINGS.resonance }
+      ]);
+      expect(builtinRegistry.getDefinition('equalizer').parameters[0]).toEqual({ name: 'lowShelf.frequency', defaultValue: 0.2 });
+      expect(builtinRegistry.getDefinition('filter').defaultValue).toBe(0.5);
+      expect(builtinRegistry.getDefinition('limiter').defaultValue).toBe(LIMITER_DEFAULT_CEILING);
+    });
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * @file Equalizer.spec.ts
+ * @brief パラメトリックイコライザーエフェクトのテスト
+ * @details
+ * - イコライザーの初期化とパラメータ名
+ * - イコライザーの有効/無効
+ * - バンドのパラメータの設定
+ * - ピーキングのバンド数の設定
+ * - 周波数特性のカーブの取得
+ * - パラメータの滑らかな変化
+ * - イコライザーのリセット
+ * - 状態の取得と復元
+ * - イコライザーの破棄
+ */
+
+import {
+  Equalizer,
+  toEqualizerFrequency,
+  toEqualizerGainDb,
+  toEqualizerQ,
+  EQUALIZER_DEFAULT_SETTINGS,
+  EQUALIZER_RESPONSE_FREQUENCIES
+} from '@/effects/Equalizer';
+import {
+  EQUALIZER_MIN_FREQUENCY,
+  EQUALIZER_MAX_FREQUENCY,
+  EQUALIZER_MAX_GAIN_DB,
+  EQUALIZER_MAX_Q,
+  PARAMETER_RAMP_SECONDS
+} from '@/core/audioConstants';
+import { EFFECT_STATE_VERSION } from '@/effects/base/BaseEffect';
+
+// AudioParamのモック（予約した値をすぐに反映し、パラメータの変化の予約を検証する）
+class MockAudioParam {
+  setValueAtTime = jest.fn((value: number) => { this.value = value; });
+  setTargetAtTime = jest.fn((value: number) => { this.value = value; });
+  linearRampToValueAtTime = jest.fn((value: number) => { this.value = value; });
+  exponentialRampToValueAtTime = jest.fn((value: number) => { this.value = value; });
+  cancelScheduledValues = jest.fn();
+
+  constructor(public value: number) {}
+}
+
+// AudioContextのモック
+class MockAudioContext {
+  currentTime = 0;
+
+  createBiquadFilter() {
+    const filter = {
+      type: 'lowpass',
+      frequency: new MockAudioParam(350),
+      Q: new MockAudioParam(1),
+      gain: new MockAudioParam(0),
+      // ゲインを全ての周波数に掛ける簡易的な周波数特性
+      getFrequencyResponse: jest.fn((frequencies: Float32Array, magnitude: Float32Array) => {
+        magnitude.fill(Math.pow(10, filter.gain.value / 20));
+      }),
+      disconnect: jest.fn(),
+      connect: jest.fn()
+    };
+    return filter;
+  }
+
+  createGain() {
+    return {
+      gain: new MockAudioParam(1),
+      disconnect: jest.fn(),
+      connect: jest.fn()
+    };
+  }
+
+  close() {
+    // 何もしない
+  }
+}
+
+describe('Equalizer', () => {
+  let equalizer: Equalizer;
+  let context: AudioContext;
+
+  beforeEach(() => {
+    context = new MockAudioContext() as unknown as AudioContext;
+    equalizer = new Equalizer(context);
+  });
+
+  afterEach(() => {
+    context.close();
+  });
+
+  describe('初期化', () => {
+    it('イコライザーが正しく初期化されること', () => {
+      expect(equalizer.isEffectEnabled()).toBe(false);
+      expect(equalizer.getStatus()).toEqual({ ...EQUALIZER_DEFAULT_SETTINGS, value: 0 });
+      expect(equalizer['filters'].get('lowShelf')?.type).toBe('lowshelf');
+      expect(equalizer['filters'].get('peak1')?.type).toBe('peaking');
+      expect(equalizer['filters'].get('highShelf')?.type).toBe('highshelf');
+    });
+
+    it('パラメータ名の一覧を取得できること', () => {
+      const names = equalizer.getParameterNames();
+      expect(names).toHaveLength(6 * 3 + 2);
+      expect(names.slice(0, 3)).toEqual(['lowShelf.frequency', 'lowShelf.gain', 'lowShelf.q']);
+      expect(names.slice(-2)).toEqual(['wet', 'dry']);
+    });
+  });
+
+  describe('有効/無効', () => {
+    it('0より大きい値を設定するとイコライザーが有効になること', () => {
+      equalizer.updateEffect(1);
+      expect(equalizer.isEffectEnabled()).toBe(true);
+      equalizer.updateEffect(0);
+      expect(equalizer.isEffectEnabled()).toBe(false);
+    });
+
+    it('無効な値を設定するとエラーになること', () => {
+      expect(() => equalizer.updateEffect(1.5)).toThrow();
+      expect(() => equalizer.updateEffect(-0.5)).toThrow();
+    });
+  });
+
+  describe('バンドのパラメータ', () => {
+    it('周波数、ゲイン、QをBiquadFilterNodeに反映すること', () => {
+      equalizer.setBandParameter('peak2', 'frequency', 1);
+      equalizer.setBandParameter('peak2', 'gain', 1);
+      equalizer.setBandParameter('peak2', 'q', 1);
+      const filter = equalizer['filters'].get('peak2') as BiquadFilterNode;
+      expect(filter.frequency.value).toBeCloseTo(EQUALIZER_MAX_FREQUENCY);
+      expect(filter.gain.value).toBe(EQUALIZER_MAX_GAIN_DB);
+      expect(filter.Q.value).toBeCloseTo(EQUALIZER_MAX_Q);
+    });
+
+    it('「バンド名.パラメータ名」で設定と取得ができること', () => {
+      equalizer.setParameter('highShelf.gain', 0.25);
+      expect(equalizer.getParameter('highShelf.gain')).toBe(0.25);
+      expect(equalizer.getStatus().bands.highShelf.gain).toBe(0.25);
+    });
+
+    it('パラメータの変換が正しいこと', () => {
+      expect(toEqualizerFrequency(0)).toBe(EQUALIZER_MIN_FREQUENCY);
+      expect(toEqualizerGainDb(0.5)).toBe(0);
+      expect(toEqualizerGainDb(0)).toBe(-EQUALIZER_MAX_GAIN_DB);
+      expect(toEqualizerQ(0.5)).toBeCloseTo(1);
+    });
+
+    it('無効な値を設定するとエラーになること', () => {
+      expect(() => equalizer.setBandParameter('peak1', 'gain', 1.5)).toThrow();
+      expect(() => equalizer.setParameter('peak5.gain', 0.5)).toThrow();
+      expect(() => equalizer.setParameter('invalid', 0.5)).toThrow();
+    });
+  });
+
+  describe('バンド数', () => {
+    it('使用しないピーキングのバンドはゲインを0dBにすること', () => {
+      equalizer.setBandParameter('peak3', 'gain', 1);
+      equalizer.setBandParameter('peak4', 'gain', 1);
+      equalizer.setPeakCount(2);
+      expect(equalizer['filters'].get('peak3')?.gain.value).toBe(0);
+      expect(equalizer['filters'].get('peak4')?.gain.value).toBe(0);
+      // 設定は保持し、バンド数を戻すと反映される
+      equalizer.setPeakCount(4);
+      expect(equalizer['filters'].get('peak4')?.gain.value).toBe(EQUALIZER_MAX_GAIN_DB);
+    });
+
+    it('範囲外のバンド数を設定するとエラーになること', () => {
+      expect(() => equalizer.setPeakCount(1)).toThrow();
+      expect(() => equalizer.setPeakCount(5)).toThrow();
+      expect(() => equalizer.setPeakCount(2.5)).toThrow();
+    });
+
+    it('設定をまとめて変更できること', () => {
+      const settings = {
+        peakCount: 3,
+        bands: { ...EQUALIZER_DEFAULT_SETTINGS.bands, lowShelf: { frequency: 0.1, gain: 0.9, q: 0.5 } }
+      };
+      equalizer.setSettings(settings);
+      expect(equalizer.getStatus()).toMatchObject(settings);
+      expect(() => equalizer.setSettings({ ...settings, peakCount: 6 })).toThrow();
+    });
+  });
+
+  describe('周波数特性', () => {
+    it('使用している各バンドのゲインを合成したカーブを返すこと', () => {
+      equalizer.setBandParameter('lowShelf', 'gain', 1);
+      equalizer.setBandParameter('peak1', 'gain', 0.25);
+      equalizer.setBandParameter('peak4', 'gain', 1);
+      equalizer.setPeakCount(3);
+      const response = equalizer.getFrequencyResponse(EQUALIZER_RESPONSE_FREQUENCIES);
+      expect(response).toHaveLength(EQUALIZER_RESPONSE_FREQUENCIES.length);
+      // ローシェルフ（+18dB）とpeak1（-9dB）のみを合成し、使用しないpeak4は含まない
+      expect(response[0]).toBeCloseTo(EQUALIZER_MAX_GAIN_DB / 2, 4);
+    });
+  });
+
+  describe('パラメータの変化', () => {
+    it('バンドの周波数、ゲイン、Qを滑らかに変化させること', () => {
+      equalizer.setBandParameter('peak2', 'gain', 1);
+      const filter = equalizer['filters'].get('peak2') as BiquadFilterNode;
+      expect(filter.gain.cancelScheduledValues).toHaveBeenLastCalledWith(0);
+      expect(filter.gain.setTargetAtTime).toHaveBeenLastCalledWith(EQUALIZER_MAX_GAIN_DB, 0, PARAMETER_RAMP_SECONDS);
+      expect(filter.frequency.setTargetAtTime).toHaveBeenCalled();
+      expect(filter.Q.setTargetAtTime).toHaveBeenCalled();
+    });
+
+    it('wet/dryのゲインを滑らかに変化させ、目標値を返すこと', () => {
+      equalizer.setParameter('wet', 0.5);
+      expect(equalizer['wetGain'].gain.setTargetAtTime).toHaveBeenLastCalledWith(0.5, 0, PARAMETER_RAMP_SECONDS);
+      expect(equalizer.getParameter('wet')).toBe(0.5);
+    });
+  });
+
+  describe('リセット', () => {
+    it('設定が初期状態に戻ること', () => {
+      equalizer.updateEffect(1);
+      equalizer.setBandParameter('peak1', 'gain', 1);
+      equalizer.setPeakCount(2);
+      equalizer.reset();
+      expect(equalizer.isEffectEnabled()).toBe(false);
+      expect(equalizer.getStatus()).toEqual({ ...EQUALIZER_DEFAULT_SETTINGS, value: 0 });
+    });
+  });
+
+  describe('破棄', () => {
+    it('破棄後は操作できないこと', () => {
+      equalizer.dispose();
+      expect(() => equalizer.updateEffect(1)).toThrow();
+    });
+  });
+
+  describe('状態', () => {
+    it('JSONに変換した状態から同じイコライザーを復元できること', () => {
+      equalizer.setParameter('highShelf.gain', 0.25);
+      equalizer.updateEffect(1);
+      const state = equalizer.getState();
+      expect(state.version).toBe(EFFECT_STATE_VERSION);
+      expect(state.value).toBe(1);
+      expect(state.settings.bands.highShelf.gain).toBe(0.25);
+
+      const restored = new Equalizer(context);
+      restored.setState(JSON.parse(JSON.stringify(state)));
+      expect(restored.getState()).toEqual(state);
+      expect(restored.getStatus()).toEqual(equalizer.getStatus());
+      restored.dispose();
+    });
+
+    it('取得した状態を変更してもイコライザーの設定は変わらないこと', () => {
+      const state = equalizer.getState();
+      state.settings.bands.highShelf.gain = 1;
+      expect(equalizer.getStatus().bands.highShelf.gain).toBe(EQUALIZER_DEFAULT_SETTINGS.bands.highShelf.gain);
+    });
+  });
+});
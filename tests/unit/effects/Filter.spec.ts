@@ -8,19 +8,38 @@
  * - カットオフ周波数の設定
  * - フィルターの種類の設定
  * - フィルターの状態の取得
+ * - モード、スロープ、レゾナンスの設定
+ * - バイパス範囲の幅の設定
+ * - パラメータの滑らかな変化と変化の予約
  * - フィルターのリセット
+ * - 状態の取得と復元
  * - フィルターの破棄
  */
 
-import { Filter } from '@/effects/Filter';
+import { Filter, FilterMode, toFilterQ, FILTER_DEFAULT_SETTINGS } from '@/effects/Filter';
+import { FILTER_MIN_Q, FILTER_MAX_Q, FILTER_PEAK_GAIN_DB, PARAMETER_RAMP_SECONDS } from '@/core/audioConstants';
+import { EFFECT_STATE_VERSION } from '@/effects/base/BaseEffect';
+
+// AudioParamのモックを作成（パラメータの変化の予約を検証するため）
+const createMockAudioParam = (value: number) => ({
+  value,
+  setValueAtTime: jest.fn(),
+  setTargetAtTime: jest.fn(),
+  linearRampToValueAtTime: jest.fn(),
+  exponentialRampToValueAtTime: jest.fn(),
+  cancelScheduledValues: jest.fn()
+});
 
 // AudioContextのモック
 class MockAudioContext {
+  currentTime = 0;
+
   createBiquadFilter() {
     return {
       type: 'lowpass',
-      frequency: { value: 1000 },
-      Q: { value: 1 },
+      frequency: createMockAudioParam(1000),
+      Q: createMockAudioParam(1),
+      gain: createMockAudioParam(0),
       disconnect: jest.fn(),
       connect: jest.fn()
     };
@@ -59,16 +78,16 @@ describe('Filter', () => {
     it('フィルターが正しく初期化されること', () => {
       expect(filter).toBeDefined();
       expect(filter.isEffectEnabled()).toBe(false);
-      expect(filter.getState().filterValue).toBe(0.5);
-      expect(filter.getState().frequency).toBe(1000);
-      expect(filter.getState().type).toBe('lowpass');
+      expect(filter.getStatus().filterValue).toBe(0.5);
+      expect(filter.getStatus().frequency).toBe(1000);
+      expect(filter.getStatus().type).toBe('lowpass');
     });
   });
 
   describe('フィルター値', () => {
     it('有効な値を設定できること', () => {
       filter.updateEffect(0.8);
-      expect(filter.getState().filterValue).toBe(0.8);
+      expect(filter.getStatus().filterValue).toBe(0.8);
     });
 
     it('無効な値を設定するとエラーになること', () => {
@@ -84,21 +103,21 @@ describe('Filter', () => {
 
     it('0-0.45の範囲でローパスフィルターになること', () => {
       filter.updateEffect(0.3);
-      expect(filter.getState().type).toBe('lowpass');
+      expect(filter.getStatus().type).toBe('lowpass');
     });
 
     it('0.55-1.0の範囲でハイパスフィルターになること', () => {
       filter.updateEffect(0.8);
-      expect(filter.getState().type).toBe('highpass');
+      expect(filter.getStatus().type).toBe('highpass');
     });
   });
 
   describe('周波数', () => {
     it('値に応じて周波数が変化すること', () => {
       filter.updateEffect(0.6);
-      const frequency1 = filter.getState().frequency;
+      const frequency1 = filter.getStatus().frequency;
       filter.updateEffect(0.8);
-      const frequency2 = filter.getState().frequency;
+      const frequency2 = filter.getStatus().frequency;
       expect(frequency2).toBeGreaterThan(frequency1);
     });
   });
@@ -108,13 +127,108 @@ describe('Filter', () => {
       filter.updateEffect(0.8);
       filter.setCutoffFrequency(2000);
       filter.reset();
-      expect(filter.getState().filterValue).toBe(0.5);
-      expect(filter.getState().frequency).toBe(1000);
-      expect(filter.getState().type).toBe('lowpass');
+      expect(filter.getStatus().filterValue).toBe(0.5);
+      expect(filter.getStatus().frequency).toBe(1000);
+      expect(filter.getStatus().type).toBe('lowpass');
       expect(filter.isEffectEnabled()).toBe(false);
     });
   });
 
+  describe('モード', () => {
+    it('バンドパスのモードではバイパス範囲の両側でバンドパスになり、中心周波数が連続して変化すること', () => {
+      filter.setMode('bandpass');
+      filter.updateEffect(0.3);
+      expect(filter.getStatus().type).toBe('bandpass');
+      const frequency1 = filter.getStatus().frequency;
+      filter.updateEffect(0.8);
+      expect(filter.getStatus().type).toBe('bandpass');
+      expect(filter.getStatus().frequency).toBeGreaterThan(frequency1);
+      expect(filter.getLabel()).toBe('BP');
+    });
+
+    it('ピークのモードでは全段の合計でFILTER_PEAK_GAIN_DBを持ち上げること', () => {
+      filter.setSlope(24);
+      filter.setMode('peak');
+      filter.updateEffect(0.3);
+      expect(filter.getStatus().type).toBe('peaking');
+      expect(filter['stages'][0].gain.setTargetAtTime)
+        .toHaveBeenLastCalledWith(FILTER_PEAK_GAIN_DB / 2, 0, PARAMETER_RAMP_SECONDS);
+      filter.setMode('notch');
+      expect(filter['stages'][0].gain.setTargetAtTime).toHaveBeenLastCalledWith(0, 0, PARAMETER_RAMP_SECONDS);
+      expect(filter.getLabel()).toBe('NOTCH');
+    });
+
+    it('フィルター値とモードに応じたラベルを返すこと', () => {
+      expect(filter.getLabel()).toBe('BYPASS');
+      filter.updateEffect(0.3);
+      expect(filter.getLabel()).toBe('LP');
+      filter.updateEffect(0.8);
+      expect(filter.getLabel()).toBe('HP');
+    });
+
+    it('無効なモードを設定するとエラーになること', () => {
+      expect(() => filter.setMode('invalid' as never)).toThrow();
+    });
+  });
+
+  describe('スロープ', () => {
+    it('スロープに応じた段数のフィルターを直列に接続すること', () => {
+      const stages = filter['stages'];
+      filter.setSlope(48);
+      stages.slice(0, 3).forEach((stage, i) => {
+        expect(stage.connect).toHaveBeenLastCalledWith(stages[i + 1]);
+      });
+      expect(stages[3].connect).toHaveBeenLastCalledWith(filter['filterGain']);
+
+      (stages[1].connect as jest.Mock).mockClear();
+      filter.setSlope(12);
+      expect(stages[0].connect).toHaveBeenLastCalledWith(filter['filterGain']);
+      expect(stages[1].connect).not.toHaveBeenCalled();
+    });
+
+    it('無効なスロープを設定するとエラーになること', () => {
+      expect(() => filter.setSlope(36 as never)).toThrow();
+    });
+  });
+
+  describe('レゾナンス', () => {
+    it('レゾナンスを全段のQに反映すること', () => {
+      filter.setSlope(24);
+      filter.setParameter('resonance', 1);
+      expect(filter.getParameter('resonance')).toBe(1);
+      expect(filter['stages'][1].Q.setTargetAtTime)
+        .toHaveBeenLastCalledWith(expect.closeTo(FILTER_MAX_Q), 0, PARAMETER_RAMP_SECONDS);
+      expect(toFilterQ(0)).toBeCloseTo(FILTER_MIN_Q);
+    });
+
+    it('範囲外のレゾナンスを設定するとエラーになること', () => {
+      expect(() => filter.setParameter('resonance', 1.5)).toThrow();
+    });
+
+    it('設定をまとめて変更できること', () => {
+      filter.setSettings({ mode: 'notch', resonance: 0.5, slope: 24 });
+      expect(filter.getStatus()).toMatchObject({ mode: 'notch', resonance: 0.5, slope: 24 });
+      expect(() => filter.setSettings({ ...FILTER_DEFAULT_SETTINGS, slope: 6 as never })).toThrow();
+    });
+  });
+
+  describe('バイパス範囲', () => {
+    it('バイパス範囲の幅をインスタンスごとに指定できること', () => {
+      const wideFilter = new Filter(context, { bypassWidth: 0.4 });
+      expect(wideFilter.getBypassRange()).toEqual({ min: 0.3, max: 0.7 });
+      wideFilter.updateEffect(0.35);
+      expect(wideFilter.isEffectEnabled()).toBe(false);
+      expect(wideFilter.getLabel()).toBe('BYPASS');
+      wideFilter.updateEffect(0.25);
+      expect(wideFilter.getLabel()).toBe('LP');
+    });
+
+    it('無効なバイパス範囲の幅を指定するとエラーになること', () => {
+      expect(() => new Filter(context, { bypassWidth: 1 })).toThrow();
+      expect(() => new Filter(context, { bypassWidth: -0.1 })).toThrow();
+    });
+  });
+
   describe('パラメータ', () => {
     it('パラメータを設定できること', () => {
       filter.setParameter('Q', 2);
@@ -129,4 +243,75 @@ describe('Filter', () => {
       expect(() => filter.getParameter('invalid')).toThrow();
     });
   });
-}); 
\ No newline at end of file
+
+  describe('パラメータの変化', () => {
+    it('カットオフ周波数を全段で滑らかに変化させること', () => {
+      filter.setParameter('frequency', 440);
+      filter['stages'].forEach(stage => {
+        expect(stage.frequency.cancelScheduledValues).toHaveBeenCalledWith(0);
+        expect(stage.frequency.setTargetAtTime).toHaveBeenLastCalledWith(440, 0, PARAMETER_RAMP_SECONDS);
+      });
+      // 変化の途中でも目標値を返す
+      expect(filter.getParameter('frequency')).toBe(440);
+    });
+
+    it('変化のカーブと時間を設定できること', () => {
+      filter.setParameterRamp({ type: 'linear', time: 0.1 });
+      expect(filter.getParameterRamp()).toEqual({ type: 'linear', time: 0.1 });
+      filter.setParameter('frequency', 440);
+      const frequency = filter['stages'][0].frequency;
+      expect(frequency.setValueAtTime).toHaveBeenLastCalledWith(1000, 0);
+      expect(frequency.linearRampToValueAtTime).toHaveBeenLastCalledWith(440, 0.1);
+    });
+
+    it('即座に切り替える場合は開始時刻に値を設定すること', () => {
+      filter.setParameterRamp({ type: 'instant' });
+      filter.setParameter('Q', 2);
+      expect(filter['stages'][0].Q.setValueAtTime).toHaveBeenLastCalledWith(2, 0);
+      expect(filter['stages'][0].Q.setTargetAtTime).not.toHaveBeenCalledWith(2, expect.anything(), expect.anything());
+    });
+
+    it('音声コンテキストの時刻を指定して変化を予約できること', () => {
+      filter.scheduleParameter('frequency', 2000, { type: 'exponential', time: 0.5, startTime: 3 });
+      filter['stages'].forEach(stage => {
+        expect(stage.frequency.cancelScheduledValues).toHaveBeenLastCalledWith(3);
+        expect(stage.frequency.setValueAtTime).toHaveBeenLastCalledWith(1000, 3);
+        expect(stage.frequency.exponentialRampToValueAtTime).toHaveBeenLastCalledWith(2000, 3.5);
+      });
+      expect(filter.getParameter('frequency')).toBe(2000);
+    });
+
+    it('AudioParamではないパラメータの変化は予約できないこと', () => {
+      expect(() => filter.scheduleParameter('resonance', 0.5)).toThrow('変化を予約できないパラメータです');
+    });
+
+    it('無効な変化のオプションを指定するとエラーになること', () => {
+      expect(() => filter.setParameterRamp({ time: -1 })).toThrow();
+      expect(() => filter.scheduleParameter('frequency', 0, { type: 'exponential' })).toThrow();
+    });
+  });
+
+  describe('状態', () => {
+    it('JSONに変換した状態から同じフィルターを復元できること', () => {
+      filter.setSettings({ mode: 'notch', resonance: 0.5, slope: 24 });
+      filter.updateEffect(0.8);
+      const state = filter.getState();
+      expect(state).toEqual({
+        version: EFFECT_STATE_VERSION,
+        value: 0.8,
+        settings: { mode: 'notch', resonance: 0.5, slope: 24 }
+      });
+
+      const restored = new Filter(context);
+      restored.setState(JSON.parse(JSON.stringify(state)));
+      expect(restored.getState()).toEqual(state);
+      expect(restored.getStatus()).toEqual(filter.getStatus());
+      restored.dispose();
+    });
+
+    it('無効な設定を含む状態はエラーになること', () => {
+      const state = filter.getState();
+      expect(() => filter.setState({ ...state, settings: { ...state.settings, mode: 'invalid' as FilterMode } })).toThrow();
+    });
+  });
+});
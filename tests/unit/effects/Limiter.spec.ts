@@ -0,0 +1,227 @@
+/**
+ * @file Limiter.spec.ts
+ * @brief リミッターエフェクトのテスト
+ * @details
+ * - リミッターの初期化とパラメータ名（初期状態で有効）
+ * - シーリングとリミッターの有効/無効
+ * - クリッパーのカーブ
+ * - リリースの設定
+ * - ゲインリダクションの取得
+ * - パラメータの滑らかな変化
+ * - リミッターのリセット
+ * - 状態の取得と復元
+ * - リミッターの破棄
+ */
+
+import {
+  Limiter,
+  createClipperCurve,
+  toCeilingDb,
+  toLimiterReleaseSeconds,
+  toMakeupCompensation,
+  LIMITER_DEFAULT_SETTINGS
+} from '@/effects/Limiter';
+import { LIMITER_MIN_CEILING_DB, PARAMETER_RAMP_SECONDS } from '@/core/audioConstants';
+import { EFFECT_STATE_VERSION } from '@/effects/base/BaseEffect';
+
+// AudioParamのモック（予約した値をすぐに反映し、パラメータの変化の予約を検証する）
+class MockAudioParam {
+  setValueAtTime = jest.fn((value: number) => { this.value = value; });
+  setTargetAtTime = jest.fn((value: number) => { this.value = value; });
+  linearRampToValueAtTime = jest.fn((value: number) => { this.value = value; });
+  exponentialRampToValueAtTime = jest.fn((value: number) => { this.value = value; });
+  cancelScheduledValues = jest.fn();
+
+  constructor(public value: number) {}
+}
+
+// AudioContextのモック
+class MockAudioContext {
+  currentTime = 0;
+
+  createDynamicsCompressor() {
+    return {
+      threshold: new MockAudioParam(-24),
+      ratio: new MockAudioParam(12),
+      attack: new MockAudioParam(0.003),
+      release: new MockAudioParam(0.25),
+      knee: new MockAudioParam(30),
+      reduction: -2,
+      disconnect: jest.fn(),
+      connect: jest.fn()
+    };
+  }
+
+  createWaveShaper() {
+    return {
+      curve: null,
+      oversample: '4x',
+      disconnect: jest.fn(),
+      connect: jest.fn()
+    };
+  }
+
+  createGain() {
+    return {
+      gain: new MockAudioParam(1),
+      disconnect: jest.fn(),
+      connect: jest.fn()
+    };
+  }
+
+  close() {
+    // 何もしない
+  }
+}
+
+describe('Limiter', () => {
+  let limiter: Limiter;
+  let context: AudioContext;
+
+  beforeEach(() => {
+    context = new MockAudioContext() as unknown as AudioContext;
+    limiter = new Limiter(context);
+  });
+
+  afterEach(() => {
+    context.close();
+  });
+
+  describe('初期化', () => {
+    it('リミッターが初期状態で有効になり、シーリングが0dBFSになること', () => {
+      expect(limiter.isEffectEnabled()).toBe(true);
+      expect(limiter.getParameter('wet')).toBe(1);
+      expect(limiter.getParameter('dry')).toBe(0);
+      expect(limiter.getStatus()).toMatchObject({ ...LIMITER_DEFAULT_SETTINGS, ceiling: 1, ceilingDb: 0 });
+      expect(limiter['compressor'].threshold.value).toBe(0);
+      expect(limiter['compressor'].knee.value).toBe(0);
+      expect(limiter['clipper'].oversample).toBe('none');
+    });
+
+    it('パラメータ名の一覧を取得できること', () => {
+      expect(limiter.getParameterNames()).toEqual(['release', 'wet', 'dry']);
+    });
+  });
+
+  describe('シーリング', () => {
+    it('シーリングをDynamicsCompressorNodeのスレッショルドとクリッパーに設定すること', () => {
+      limiter.updateEffect(0.5);
+      const ceilingDb = LIMITER_MIN_CEILING_DB / 2;
+      expect(limiter.getStatus().ceilingDb).toBe(ceilingDb);
+      expect(limiter['compressor'].threshold.value).toBe(ceilingDb);
+      const curve = limiter['clipper'].curve as Float32Array;
+      expect(Math.max(...Array.from(curve))).toBeCloseTo(Math.pow(10, ceilingDb / 20));
+    });
+
+    it('-6dBFSのシーリングではDynamicsCompressorNodeのメイクアップゲインを打ち消すこと', () => {
+      limiter.updateEffect(0.5);
+      expect(limiter.getStatus().ceilingDb).toBe(-6);
+      // レシオ20、ニー0のメイクアップゲインは -0.6 × -6 × (1 - 1/20) = 3.42dB
+      const compensation = limiter['makeupCompensation'];
+      expect(compensation.gain.value).toBeCloseTo(Math.pow(10, -3.42 / 20));
+      expect(limiter['compressor'].connect).toHaveBeenCalledWith(compensation);
+      expect(compensation.connect).toHaveBeenCalledWith(limiter['clipper']);
+    });
+
+    it('シーリングが0dBFSの場合はメイクアップゲインがないため打ち消さないこと', () => {
+      expect(toMakeupCompensation(0)).toBe(1);
+      expect(limiter['makeupCompensation'].gain.value).toBe(1);
+    });
+
+    it('0を設定するとリミッターが無効になること', () => {
+      limiter.updateEffect(0);
+      expect(limiter.isEffectEnabled()).toBe(false);
+      limiter.updateEffect(1);
+      expect(limiter.isEffectEnabled()).toBe(true);
+    });
+
+    it('無効な値を設定するとエラーになること', () => {
+      expect(() => limiter.updateEffect(1.5)).toThrow();
+      expect(() => limiter.updateEffect(-0.5)).toThrow();
+    });
+
+    it('クリッパーはシーリング以下の入力をそのまま通し、超える入力をシーリングに制限すること', () => {
+      const curve = createClipperCurve(toCeilingDb(0.5));
+      const ceiling = Math.pow(10, toCeilingDb(0.5) / 20);
+      expect(curve[curve.length - 1]).toBeCloseTo(ceiling);
+      expect(curve[0]).toBeCloseTo(-ceiling);
+      // 入力0付近はそのまま通す
+      expect(curve[Math.round((curve.length - 1) / 2)]).toBeCloseTo(0, 3);
+      expect(Array.from(curve).every(value => Math.abs(value) <= ceiling + 1e-6)).toBe(true);
+    });
+  });
+
+  describe('パラメータ', () => {
+    it('リリースを設定できること', () => {
+      limiter.setParameter('release', 1);
+      expect(limiter.getParameter('release')).toBe(1);
+      expect(limiter['compressor'].release.value).toBeCloseTo(toLimiterReleaseSeconds(1));
+    });
+
+    it('無効な値を設定するとエラーになること', () => {
+      expect(() => limiter.setParameter('release', 1.5)).toThrow();
+      expect(() => limiter.setParameter('invalid', 0.5)).toThrow();
+      expect(() => limiter.setSettings({ release: -1 })).toThrow();
+    });
+  });
+
+  describe('ゲインリダクション', () => {
+    it('有効な場合はDynamicsCompressorNodeのゲインリダクションを返すこと', () => {
+      expect(limiter.getReduction()).toBe(-2);
+      limiter.updateEffect(0);
+      expect(limiter.getReduction()).toBe(0);
+    });
+  });
+
+  describe('パラメータの変化', () => {
+    it('シーリングとメイクアップゲインの打ち消しを滑らかに変化させること', () => {
+      limiter.updateEffect(0.5);
+      const ceilingDb = toCeilingDb(0.5);
+      expect(limiter['compressor'].threshold.cancelScheduledValues).toHaveBeenLastCalledWith(0);
+      expect(limiter['compressor'].threshold.setTargetAtTime).toHaveBeenLastCalledWith(ceilingDb, 0, PARAMETER_RAMP_SECONDS);
+      expect(limiter['makeupCompensation'].gain.setTargetAtTime)
+        .toHaveBeenLastCalledWith(toMakeupCompensation(ceilingDb), 0, PARAMETER_RAMP_SECONDS);
+    });
+
+    it('リリースとwet/dryのゲインを滑らかに変化させること', () => {
+      limiter.setParameter('release', 1);
+      expect(limiter['compressor'].release.setTargetAtTime)
+        .toHaveBeenLastCalledWith(toLimiterReleaseSeconds(1), 0, PARAMETER_RAMP_SECONDS);
+      limiter.setParameter('dry', 0.5);
+      expect(limiter['dryGain'].gain.setTargetAtTime).toHaveBeenLastCalledWith(0.5, 0, PARAMETER_RAMP_SECONDS);
+      expect(limiter.getParameter('dry')).toBe(0.5);
+    });
+  });
+
+  describe('リセット', () => {
+    it('設定が初期状態に戻り、有効になること', () => {
+      limiter.updateEffect(0);
+      limiter.setParameter('release', 0.1);
+      limiter.reset();
+      expect(limiter.isEffectEnabled()).toBe(true);
+      expect(limiter.getStatus()).toMatchObject({ ...LIMITER_DEFAULT_SETTINGS, ceiling: 1 });
+    });
+  });
+
+  describe('破棄', () => {
+    it('破棄後は操作できないこと', () => {
+      limiter.dispose();
+      expect(() => limiter.updateEffect(0.5)).toThrow();
+    });
+  });
+
+  describe('状態', () => {
+    it('JSONに変換した状態から同じリミッターを復元できること', () => {
+      limiter.setSettings({ release: 0.3 });
+      limiter.updateEffect(0.8);
+      const state = limiter.getState();
+      expect(state).toEqual({ version: EFFECT_STATE_VERSION, value: 0.8, settings: { release: 0.3 } });
+
+      const restored = new Limiter(context);
+      restored.setState(JSON.parse(JSON.stringify(state)));
+      expect(restored.getState()).toEqual(state);
+      expect(restored.getStatus()).toEqual(limiter.getStatus());
+      restored.dispose();
+    });
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * @file Reverb.spec.ts
+ * @brief リバーブエフェクトのテスト
+ * @details
+ * - リバーブの初期化
+ * - ミックスとリバーブの有効/無効
+ * - リバーブのパラメータと種類の設定
+ * - インパルス応答の生成
+ * - リバーブの状態の取得
+ * - パラメータの滑らかな変化
+ * - リバーブのリセット
+ * - 状態の取得と復元
+ * - リバーブの破棄
+ */
+
+import { Reverb, generateImpulseResponse, toDecaySeconds, REVERB_DEFAULT_SETTINGS } from '@/effects/Reverb';
+import { REVERB_MAX_PRE_DELAY_SECONDS, PARAMETER_RAMP_SECONDS } from '@/core/audioConstants';
+import { EFFECT_STATE_VERSION } from '@/effects/base/BaseEffect';
+
+const SAMPLE_RATE = 8000;
+
+// AudioParamのモック（予約した値をすぐに反映し、パラメータの変化の予約を検証する）
+class MockAudioParam {
+  setValueAtTime = jest.fn((value: number) => { this.value = value; });
+  setTargetAtTime = jest.fn((value: number) => { this.value = value; });
+  linearRampToValueAtTime = jest.fn((value: number) => { this.value = value; });
+  exponentialRampToValueAtTime = jest.fn((value: number) => { this.value = value; });
+  cancelScheduledValues = jest.fn();
+
+  constructor(public value: number) {}
+}
+
+// AudioContextのモック
+class MockAudioContext {
+  sampleRate = SAMPLE_RATE;
+  currentTime = 0;
+
+  createConvolver() {
+    return {
+      buffer: null,
+      disconnect: jest.fn(),
+      connect: jest.fn()
+    };
+  }
+
+  createDelay() {
+    return {
+      delayTime: new MockAudioParam(0),
+      disconnect: jest.fn(),
+      connect: jest.fn()
+    };
+  }
+
+  createGain() {
+    return {
+      gain: new MockAudioParam(1),
+      disconnect: jest.fn(),
+      connect: jest.fn()
+    };
+  }
+
+  createBuffer(numberOfChannels: number, length: number, sampleRate: number) {
+    const channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+    return {
+      numberOfChannels,
+      length,
+      sampleRate,
+      duration: length / sampleRate,
+      getChannelData: (channel: number) => channels[channel],
+      copyToChannel: (source: Float32Array, channel: number) => channels[channel].set(source)
+    };
+  }
+
+  close() {
+    // 何もしない
+  }
+}
+
+// 区間ごとのRMSを計算
+const rms = (data: Float32Array, start: number, end: number): number => {
+  let sum = 0;
+  for (let i = start; i < end; i++) {
+    sum += data[i] * data[i];
+  }
+  return Math.sqrt(sum / (end - start));
+};
+
+describe('Reverb', () => {
+  let reverb: Reverb;
+  let context: AudioContext;
+
+  beforeEach(() => {
+    context = new MockAudioContext() as unknown as AudioContext;
+    reverb = new Reverb(context);
+  });
+
+  afterEach(() => {
+    context.close();
+  });
+
+  describe('初期化', () => {
+    it('リバーブが正しく初期化されること', () => {
+      expect(reverb).toBeDefined();
+      expect(reverb.isEffectEnabled()).toBe(false);
+      expect(reverb.getStatus().mix).toBe(0);
+      expect(reverb.getStatus().type).toBe('room');
+      expect(reverb.getParameter('wet')).toBe(0);
+      expect(reverb.getParameter('dry')).toBe(1);
+    });
+
+    it('パラメータ名の一覧を取得できること', () => {
+      expect(reverb.getParameterNames()).toEqual(['size', 'decay', 'preDelay', 'damping', 'wet', 'dry']);
+    });
+  });
+
+  describe('ミックス', () => {
+    it('0より大きい値を設定するとリバーブが有効になること', () => {
+      reverb.updateEffect(0.5);
+      expect(reverb.isEffectEnabled()).toBe(true);
+      expect(reverb.getStatus().mix).toBe(0.5);
+    });
+
+    it('0を設定するとリバーブが無効になること', () => {
+      reverb.updateEffect(0.5);
+      reverb.updateEffect(0);
+      expect(reverb.isEffectEnabled()).toBe(false);
+    });
+
+    it('無効な値を設定するとエラーになること', () => {
+      expect(() => reverb.updateEffect(1.5)).toThrow();
+      expect(() => reverb.updateEffect(-0.5)).toThrow();
+    });
+  });
+
+  describe('パラメータ', () => {
+    it('残響時間に応じてインパルス応答の長さが変わること', () => {
+      reverb.setType('plate');
+      reverb.setParameter('decay', 0);
+      expect(reverb.getStatus().decaySeconds).toBeCloseTo(toDecaySeconds(0));
+      reverb.setParameter('decay', 1);
+      expect(reverb.getStatus().decaySeconds).toBeCloseTo(toDecaySeconds(1));
+      reverb.updateEffect(1);
+      expect(reverb.getTailSeconds()).toBeCloseTo(toDecaySeconds(1) + reverb.getStatus().preDelaySeconds, 3);
+    });
+
+    it('プリディレイを設定できること', () => {
+      reverb.setParameter('preDelay', 1);
+      expect(reverb.getParameter('preDelay')).toBe(1);
+      expect(reverb.getStatus().preDelaySeconds).toBe(REVERB_MAX_PRE_DELAY_SECONDS);
+    });
+
+    it('無効な値を設定するとエラーになること', () => {
+      expect(() => reverb.setParameter('size', 1.5)).toThrow();
+      expect(() => reverb.setParameter('damping', -0.5)).toThrow();
+      expect(() => reverb.setParameter('invalid', 0.5)).toThrow();
+    });
+
+    it('リバーブの種類を変更できること', () => {
+      reverb.setType('hall');
+      expect(reverb.getStatus().type).toBe('hall');
+      expect(reverb.getStatus().decaySeconds).toBeGreaterThan(toDecaySeconds(REVERB_DEFAULT_SETTINGS.decay));
+    });
+
+    it('無効な種類を設定するとエラーになること', () => {
+      expect(() => reverb.setType('invalid' as any)).toThrow();
+    });
+
+    it('設定をまとめて変更できること', () => {
+      reverb.setSettings({ type: 'plate', size: 0.2, decay: 0.4, preDelay: 0, damping: 1 });
+      expect(reverb.getStatus()).toMatchObject({ type: 'plate', size: 0.2, decay: 0.4, preDelay: 0, damping: 1 });
+      expect(() => reverb.setSettings({ ...REVERB_DEFAULT_SETTINGS, size: 2 })).toThrow();
+    });
+
+    it('バイパス中は残響の長さが0になること', () => {
+      expect(reverb.getTailSeconds()).toBe(0);
+    });
+  });
+
+  describe('インパルス応答', () => {
+    it('同じ設定からは同じインパルス応答が生成されること', () => {
+      const first = generateImpulseResponse(context, REVERB_DEFAULT_SETTINGS).getChannelData(0);
+      const second = generateImpulseResponse(context, REVERB_DEFAULT_SETTINGS).getChannelData(0);
+      expect(Array.from(first)).toEqual(Array.from(second));
+    });
+
+    it('ステレオで、左右の残響が異なること', () => {
+      const impulse = generateImpulseResponse(context, REVERB_DEFAULT_SETTINGS);
+      expect(impulse.numberOfChannels).toBe(2);
+      expect(Array.from(impulse.getChannelData(0))).not.toEqual(Array.from(impulse.getChannelData(1)));
+    });
+
+    it('残響が時間とともに減衰し、ピークが1に正規化されること', () => {
+      const data = generateImpulseResponse(context, { ...REVERB_DEFAULT_SETTINGS, type: 'plate' }).getChannelData(0);
+      const quarter = Math.floor(data.length / 4);
+      expect(rms(data, 0, quarter)).toBeGreaterThan(rms(data, 3 * quarter, data.length) * 10);
+      expect(data.reduce((peak, value) => Math.max(peak, Math.abs(value)), 0)).toBeCloseTo(1);
+    });
+  });
+
+  describe('パラメータの変化', () => {
+    it('プリディレイを滑らかに変化させること', () => {
+      reverb.setParameter('preDelay', 1);
+      expect(reverb['preDelay'].delayTime.cancelScheduledValues).toHaveBeenLastCalledWith(0);
+      expect(reverb['preDelay'].delayTime.setTargetAtTime)
+        .toHaveBeenLastCalledWith(REVERB_MAX_PRE_DELAY_SECONDS, 0, PARAMETER_RAMP_SECONDS);
+    });
+
+    it('wet/dryのゲインを滑らかに変化させ、目標値を返すこと', () => {
+      reverb.setParameter('dry', 0.5);
+      expect(reverb['dryGain'].gain.setTargetAtTime).toHaveBeenLastCalledWith(0.5, 0, PARAMETER_RAMP_SECONDS);
+      expect(reverb.getParameter('dry')).toBe(0.5);
+    });
+  });
+
+  describe('リセット', () => {
+    it('設定が初期状態に戻ること', () => {
+      reverb.updateEffect(0.8);
+      reverb.setType('hall');
+      reverb.setParameter('size', 0.9);
+      reverb.reset();
+      expect(reverb.isEffectEnabled()).toBe(false);
+      expect(reverb.getStatus()).toMatchObject({ ...REVERB_DEFAULT_SETTINGS, mix: 0 });
+    });
+  });
+
+  describe('破棄', () => {
+    it('破棄後は操作できないこと', () => {
+      reverb.dispose();
+      expect(() => reverb.updateEffect(0.5)).toThrow();
+    });
+  });
+
+  describe('状態', () => {
+    it('JSONに変換した状態から同じリバーブを復元できること', () => {
+      reverb.setSettings({ type: 'plate', size: 0.2, decay: 0.4, preDelay: 0, damping: 1 });
+      reverb.updateEffect(0.5);
+      const state = reverb.getState();
+      expect(state).toEqual({
+        version: EFFECT_STATE_VERSION,
+        value: 0.5,
+        settings: { type: 'plate', size: 0.2, decay: 0.4, preDelay: 0, damping: 1 }
+      });
+
+      const restored = new Reverb(context);
+      restored.setState(JSON.parse(JSON.stringify(state)));
+      expect(restored.getState()).toEqual(state);
+      expect(restored.getStatus()).toEqual(reverb.getStatus());
+      restored.dispose();
+    });
+  });
+});
@@ -4,16 +4,29 @@
  * @details
  * - 初期化のテスト
  * - 入出力ノードの取得テスト
+ * - パラメータの変化の予約テスト
+ * - 状態の取得と復元テスト
  * - エラー処理のテスト
  */
 
-import { BaseEffect } from '@/effects/base/BaseEffect';
+import { BaseEffect, EFFECT_STATE_VERSION } from '@/effects/base/BaseEffect';
+import { ParameterRampType } from '@/core/ParameterRamp';
+import { PARAMETER_RAMP_SECONDS } from '@/core/audioConstants';
 
 // AudioContextのモック
 class MockAudioContext {
+  currentTime = 1;
+
   createGain() {
     return {
-      gain: { value: 1 },
+      gain: {
+        value: 1,
+        setValueAtTime: jest.fn(),
+        setTargetAtTime: jest.fn(),
+        linearRampToValueAtTime: jest.fn(),
+        exponentialRampToValueAtTime: jest.fn(),
+        cancelScheduledValues: jest.fn()
+      },
       disconnect: jest.fn(),
       connect: jest.fn()
     };
@@ -22,6 +35,13 @@ class MockAudioContext {
 
 // テスト用の具象クラス
 class TestEffect extends BaseEffect {
+  private value = 0;
+
+  constructor(context: BaseAudioContext) {
+    super(context);
+    this.parameters.set('test', this.output.gain);
+  }
+
   public enable(): void {
     this.checkState();
     this.isEnabled = true;
@@ -38,7 +58,7 @@ class TestEffect extends BaseEffect {
     if (!audioParam) {
       throw new Error(`無効なパラメータです: ${param}`);
     }
-    audioParam.value = value;
+    this.rampAudioParam(audioParam, value);
   }
 
   public getParameter(param: string): number {
@@ -47,14 +67,19 @@ class TestEffect extends BaseEffect {
     if (!audioParam) {
       throw new Error(`無効なパラメータです: ${param}`);
     }
-    return audioParam.value;
+    return this.getAudioParamValue(audioParam);
   }
 
   public updateEffect(value: number): void {
     this.checkState();
     // テスト用の実装
+    this.value = value;
     this.setParameter('test', value);
   }
+
+  protected getEffectValue(): number {
+    return this.value;
+  }
 }
 
 describe('BaseEffect', () => {
@@ -109,6 +134,76 @@ describe('BaseEffect', () => {
     });
   });
 
+  describe('パラメータの変化', () => {
+    it('デフォルトではsetTargetAtTimeで滑らかに変化させる', () => {
+      effect.setParameter('test', 0.5);
+      const gain = effect.getOutput().gain;
+      expect(gain.cancelScheduledValues).toHaveBeenCalledWith(1);
+      expect(gain.setTargetAtTime).toHaveBeenCalledWith(0.5, 1, PARAMETER_RAMP_SECONDS);
+      expect(effect.getParameter('test')).toBe(0.5);
+    });
+
+    it('音声コンテキストの時刻を指定して変化を予約できる', () => {
+      effect.scheduleParameter('test', 0.2, { type: 'linear', time: 0.5, startTime: 3 });
+      const gain = effect.getOutput().gain;
+      expect(gain.setValueAtTime).toHaveBeenCalledWith(1, 3);
+      expect(gain.linearRampToValueAtTime).toHaveBeenCalledWith(0.2, 3.5);
+    });
+
+    it('過去の時刻を指定した場合は現在の時刻から変化させる', () => {
+      effect.scheduleParameter('test', 0.2, { type: 'instant', startTime: 0.5 });
+      expect(effect.getOutput().gain.setValueAtTime).toHaveBeenCalledWith(0.2, 1);
+    });
+
+    it('変化のカーブと時間の設定はsetParameterに反映される', () => {
+      effect.setParameterRamp({ type: 'exponential', time: 0.1 });
+      effect.setParameter('test', 0.5);
+      expect(effect.getOutput().gain.exponentialRampToValueAtTime).toHaveBeenCalledWith(0.5, 1.1);
+    });
+
+    it('無効な変化のオプションを指定するとエラーになる', () => {
+      expect(() => effect.setParameterRamp({ type: 'invalid' as ParameterRampType })).toThrow('無効な変化のカーブです');
+      expect(() => effect.scheduleParameter('test', 0.5, { startTime: -1 })).toThrow();
+      expect(() => effect.scheduleParameter('test', 0, { type: 'exponential' })).toThrow();
+      expect(() => effect.scheduleParameter('test', NaN)).toThrow();
+    });
+
+    it('登録されていないパラメータの変化は予約できない', () => {
+      expect(() => effect.scheduleParameter('invalid', 0.5)).toThrow('変化を予約できないパラメータです');
+    });
+  });
+
+  describe('状態', () => {
+    it('バージョン、エフェクトの値、パラメータの値を含む状態を取得できる', () => {
+      effect.updateEffect(0.4);
+      expect(effect.getState()).toEqual({ version: EFFECT_STATE_VERSION, value: 0.4, settings: { test: 0.4 } });
+    });
+
+    it('状態を復元できる', () => {
+      effect.setState({ version: EFFECT_STATE_VERSION, value: 0.7, settings: { test: 0.7 } });
+      expect(effect.getState()).toEqual({ version: EFFECT_STATE_VERSION, value: 0.7, settings: { test: 0.7 } });
+    });
+
+    it('JSONに変換した状態から復元できる', () => {
+      effect.updateEffect(0.3);
+      const other = new TestEffect(context);
+      other.setState(JSON.parse(JSON.stringify(effect.getState())));
+      expect(other.getState()).toEqual(effect.getState());
+      other.dispose();
+    });
+
+    it('対応していないバージョンの状態はエラーになる', () => {
+      expect(() => effect.setState({ version: EFFECT_STATE_VERSION + 1, value: 0, settings: {} }))
+        .toThrow('対応していない新しいバージョンの状態です');
+      expect(() => effect.setState({ version: 0, value: 0, settings: {} })).toThrow('無効な状態のバージョンです');
+    });
+
+    it('無効なエフェクトの値や設定の状態はエラーになる', () => {
+      expect(() => effect.setState({ version: EFFECT_STATE_VERSION, value: 2, settings: {} })).toThrow();
+      expect(() => effect.setState({ version: EFFECT_STATE_VERSION, value: 0 } as any)).toThrow('エフェクトの設定が指定されていません');
+    });
+  });
+
   describe('エラー処理', () => {
     it('破棄後に操作するとエラーになる', () => {
       effect.dispose();
@@ -118,6 +213,7 @@ describe('BaseEffect', () => {
       expect(() => effect.disable()).toThrow('エフェクトが初期化されていません');
       expect(() => effect.setParameter('test', 0)).toThrow('エフェクトが初期化されていません');
       expect(() => effect.getParameter('test')).toThrow('エフェクトが初期化されていません');
+      expect(() => effect.scheduleParameter('test', 0)).toThrow('エフェクトが初期化されていません');
     });
 
     it('二重破棄してもエラーにならない', () => {